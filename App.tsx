@@ -1,12 +1,18 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Role, User, Product, Bill, ShopDetails, Sale, Customer, StockLogEntry } from './types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Role, User, Product, Category, Bill, ShopDetails, Sale, Customer, SaleCommitResult, CreditNote, ReturnCommitResult } from './types';
 import { AppContext } from './hooks/AppContext';
 import LoginPage from './pages/LoginPage';
 import AdminDashboard from './components/admin/AdminDashboard';
 import EmployeePOS from './components/employee/EmployeePOS';
 import Toast from './components/Toast';
 import database from './services/database';
+import { invoiceSeries, creditNoteSeries } from './services/invoiceNumbering';
+import { SyncStatus } from './services/syncQueue';
+import { activateDuePrices, hasDuePrices } from './services/pricing';
+import { todayDate } from './services/batches';
+import { FLOOR_LOCATION, getCounterLocation } from './services/transfers';
+import { hasBackOffice, roleOf } from './services/permissions';
 
 // Initial Mock Data (used only if local storage/db is empty)
 const initialShopDetails: ShopDetails = {
@@ -129,14 +135,20 @@ const initialProductsMock: Product[] = [
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(() => {
     const savedUser = localStorage.getItem('rg_current_user');
-    return savedUser ? JSON.parse(savedUser) : null;
+    const user = savedUser ? JSON.parse(savedUser) : null;
+    // Signed in straight away, but allowed nothing until the shop's roles have loaded
+    database.setSession(user, null);
+    return user;
   });
 
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [employees, setEmployees] = useState<User[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
   const [shopDetails, setShopDetails] = useState<ShopDetails>(initialShopDetails);
+  const [shopLoaded, setShopLoaded] = useState(false);
   
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     const savedTheme = localStorage.getItem('rg_theme') as 'light' | 'dark' | null;
@@ -145,6 +157,14 @@ const App: React.FC = () => {
   
   const [isLoading, setIsLoading] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ pending: 0, failed: 0 });
+
+  // What the signed-in user may do; the database layer checks writes against the same role.
+  // Sign-in sets it directly (handleSetCurrentUser); this keeps it current as roles are edited.
+  const role = useMemo(() => currentUser && shopLoaded ? roleOf(currentUser, shopDetails.roles) : null, [currentUser, shopLoaded, shopDetails.roles]);
+  useEffect(() => {
+    database.setSession(currentUser, role);
+  }, [currentUser, role]);
 
   // --- Data Loading ---
   useEffect(() => {
@@ -153,10 +173,11 @@ const App: React.FC = () => {
       try {
         // 1. Load Critical Data First (Products, Shop Details, Employees)
         // This ensures the POS can be usable almost immediately
-        const [loadedProducts, loadedShop, loadedEmployees] = await Promise.all([
+        const [loadedProducts, loadedShop, loadedEmployees, loadedCategories] = await Promise.all([
           database.getProducts(),
           database.getShopDetails(),
-          database.getEmployees()
+          database.getEmployees(),
+          database.getCategories()
         ]);
 
         if (loadedProducts.length === 0 && !database.isCloud) {
@@ -167,7 +188,10 @@ const App: React.FC = () => {
         }
 
         if (loadedShop) setShopDetails(loadedShop);
+        setShopLoaded(true);
         setEmployees(loadedEmployees);
+        setCategories(loadedCategories);
+        database.syncInvoiceCounter(invoiceSeries(loadedShop?.invoicePrefix));
         
         // 2. Unblock UI - App is now interactive
         setIsLoading(false);
@@ -176,12 +200,16 @@ const App: React.FC = () => {
         // Use timeout to push this to next tick
         setTimeout(async () => {
              try {
-                const [loadedSales, loadedCustomers] = await Promise.all([
+                // Whether customers are shared across branches decides where they are read from
+                await database.getTenancy();
+                const [loadedSales, loadedCustomers, loadedCreditNotes] = await Promise.all([
                     database.getSales(),
-                    database.getCustomers()
+                    database.getCustomers(),
+                    database.getCreditNotes()
                 ]);
                 setSales(loadedSales);
                 setCustomers(loadedCustomers);
+                setCreditNotes(loadedCreditNotes);
              } catch (bgError) {
                  console.error("Background data load error", bgError);
              }
@@ -197,6 +225,26 @@ const App: React.FC = () => {
     loadCriticalData();
   }, []);
 
+  // --- Scheduled Price Changes ---
+  // Checked whenever the catalog changes and once a minute, so a till left open
+  // overnight picks up the new day's prices without a reload
+  const [priceDay, setPriceDay] = useState(todayDate());
+  useEffect(() => {
+    const timer = window.setInterval(() => setPriceDay(todayDate()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const due = products.filter(p => hasDuePrices(p, priceDay));
+    if (due.length === 0) return;
+    database.activateScheduledPrices(due.map(p => p.id), priceDay)
+      .catch(err => console.error("Failed to save scheduled price", err));
+    setProducts(prev => prev.map(p => hasDuePrices(p, priceDay) ? activateDuePrices(p, priceDay) : p));
+  }, [products, priceDay]);
+
+  // --- Cloud Sync Status (outbox) ---
+  useEffect(() => database.subscribeSyncStatus(setSyncStatus), []);
+
   // --- Persistence Wrappers ---
   
   useEffect(() => {
@@ -219,6 +267,7 @@ const App: React.FC = () => {
 
 
   const handleSetCurrentUser = (user: User | null) => {
+    database.setSession(user, user && shopLoaded ? roleOf(user, shopDetails.roles) : null);
     setCurrentUser(user);
     if (!user) {
         database.logout();
@@ -233,8 +282,9 @@ const App: React.FC = () => {
     handleSetCurrentUser(null);
   };
 
-  const addSale = useCallback(async (bill: Bill) => {
-    if (!currentUser) return;
+  const addSale = useCallback(async (bill: Bill): Promise<SaleCommitResult | null> => {
+    if (!currentUser) return null;
+    const location = getCounterLocation();
     const newSale: Sale = {
       id: `sale_${Date.now()}`,
       date: new Date().toISOString(),
@@ -242,48 +292,68 @@ const App: React.FC = () => {
       total: bill.total,
       employeeId: currentUser.id,
       customerName: bill.customerName,
-      customerMobile: bill.customerMobile
+      customerMobile: bill.customerMobile,
+      customerGstin: bill.customerGstin,
+      paymentMethod: bill.paymentMethod,
+      payments: bill.payments,
+      changeDue: bill.changeDue,
+      discountAmount: bill.discountAmount,
+      taxAmount: bill.taxAmount,
+      placeOfSupply: bill.placeOfSupply,
+      walletRedeemed: bill.walletRedeemed,
+      walletEarned: bill.walletEarned,
+      // The counter sells from its own stock location
+      location: location === FLOOR_LOCATION ? undefined : location
     };
 
-    // Optimistic Update: Update UI instantly
-    setSales(prev => [...prev, newSale]);
-    
-    // Async DB update
-    database.addSale(newSale).catch(err => console.error("Failed to sync sale", err));
-    
-    // Optimistic Stock Update
-    const updatedProducts = [...products];
-    for (const item of bill.items) {
-        const productIndex = updatedProducts.findIndex(p => p.id === item.id);
-        if (productIndex !== -1) {
-            const product = { ...updatedProducts[productIndex] };
-            const previousStock = product.stock;
-            const newStock = product.stock - item.quantity;
-            product.stock = newStock;
-
-            const logEntry: StockLogEntry = {
-                id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                date: new Date().toISOString(),
-                change: -item.quantity,
-                previousStock: previousStock,
-                newStock: newStock,
-                reason: 'Sale',
-                userId: currentUser.id
-            };
-            product.stockHistory = [...(product.stockHistory || []), logEntry];
-            updatedProducts[productIndex] = product;
-            
-            // Async DB Save
-            database.saveProduct(product).catch(err => console.error("Failed to sync stock", err));
-        }
+    // Sale, stock decrement and wallet movement succeed or fail together
+    try {
+      const result = await database.commitSale(newSale, currentUser.id, invoiceSeries(shopDetails.invoicePrefix));
+      setSales(prev => [...prev, result.sale]);
+      const updatedById = new Map(result.products.map(p => [p.id, p]));
+      setProducts(prev => prev.map(p => updatedById.get(p.id) || p));
+      if (result.customer) {
+        const customer = result.customer;
+        setCustomers(prev => prev.map(c => c.id === customer.id ? customer : c));
+      }
+      return result;
+    } catch (err: any) {
+      console.error("Failed to commit sale", err);
+      showToast(err?.message || "Sale could not be saved. Please try again.", 'error');
+      return null;
     }
-    setProducts(updatedProducts);
+  }, [currentUser, shopDetails]);
 
-  }, [currentUser, products]);
+  const processReturn = useCallback(async (creditNote: CreditNote): Promise<ReturnCommitResult | null> => {
+    if (!currentUser) return null;
+    try {
+      const series = creditNoteSeries(invoiceSeries(shopDetails.invoicePrefix));
+      const result = await database.commitReturn(creditNote, currentUser.id, series);
+      setCreditNotes(prev => [result.creditNote, ...prev]);
+      setSales(prev => prev.map(s => s.id === result.sale.id ? result.sale : s));
+      const updatedById = new Map(result.products.map(p => [p.id, p]));
+      setProducts(prev => prev.map(p => updatedById.get(p.id) || p));
+      if (result.customer) {
+        const customer = result.customer;
+        setCustomers(prev => prev.map(c => c.id === customer.id ? customer : c));
+      }
+      return result;
+    } catch (err: any) {
+      console.error("Failed to commit return", err);
+      showToast(err?.message || "Return could not be saved.", 'error');
+      return null;
+    }
+  }, [currentUser, shopDetails]);
 
+  // Saved first, so a change the user's role doesn't allow leaves the settings as they were
   const updateShopDetails = useCallback(async (details: ShopDetails) => {
-    setShopDetails(details);
-    await database.saveShopDetails(details);
+    try {
+      await database.saveShopDetails(details);
+      setShopDetails(details);
+    } catch (err: any) {
+      console.error("Failed to save shop details", err);
+      showToast(err?.message || "Settings could not be saved.", 'error');
+    }
   }, []);
 
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
@@ -294,7 +364,8 @@ const App: React.FC = () => {
     if (!currentUser) {
       return <LoginPage />;
     }
-    if (currentUser.role === Role.ADMIN) {
+    // Admins, and employees whose role opens any admin tab, work in the dashboard
+    if (currentUser.role === Role.ADMIN || (role && hasBackOffice(role))) {
       return <AdminDashboard />;
     }
     if (currentUser.role === Role.EMPLOYEE) {
@@ -306,12 +377,17 @@ const App: React.FC = () => {
   return (
     <AppContext.Provider value={{
       currentUser,
+      role,
       setCurrentUser: handleSetCurrentUser,
       logout,
       products,
       setProducts, 
+      categories,
+      setCategories,
       sales,
       addSale,
+      creditNotes,
+      processReturn,
       shopDetails,
       updateShopDetails,
       employees,
@@ -326,7 +402,20 @@ const App: React.FC = () => {
     }}>
       <div className="min-h-screen bg-background">
         {/* Status Bar */}
-        <div className={`h-1 w-full ${database.isCloud ? 'bg-green-500' : 'bg-yellow-500'}`} title={database.isCloud ? "Connected to Cloud Database" : "Local Mode (Data saved in browser)"}></div>
+        <div className={`h-1 w-full ${!database.isCloud ? 'bg-yellow-500' : syncStatus.error ? 'bg-red-500' : syncStatus.pending + syncStatus.failed > 0 ? 'bg-orange-500' : 'bg-green-500'}`} title={database.isCloud ? "Connected to Cloud Database" : "Local Mode (Data saved in browser)"}></div>
+        {database.isCloud && (syncStatus.pending > 0 || syncStatus.failed > 0) && (
+          <div className="fixed top-2 right-2 z-40 bg-orange-500 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg" title="Saved on this device. Will sync to the cloud when the connection returns.">
+            ⟳ {syncStatus.pending} pending sync{syncStatus.failed > 0 && ` · ${syncStatus.failed} failed`}
+            {syncStatus.failed > 0 && (
+              <button onClick={() => database.retryFailedSync()} className="ml-2 underline" title="Send the failed writes to the cloud again">Retry</button>
+            )}
+          </div>
+        )}
+        {database.isCloud && syncStatus.error && (
+          <div className="fixed top-10 right-2 z-40 bg-red-600 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg" title={syncStatus.error}>
+            Sync status unavailable: offline storage error
+          </div>
+        )}
         {renderContent()}
       </div>
       {isLoading && (
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
 import Analytics from './Analytics';
 import ProductManagement from './ProductManagement';
@@ -11,37 +11,74 @@ import AIAssistant from './AIAssistant';
 import QRGenerator from './QRGenerator';
 import SmartInsights from './SmartInsights';
 import ERPNetwork from './ERPNetwork';
+import GstReturns from './GstReturns';
+import Purchasing from './Purchasing';
+import ExpiryManagement from './ExpiryManagement';
+import Stocktake from './Stocktake';
+import Transfers from './Transfers';
+import database from '../../services/database';
+import { TAB_PERMISSIONS, can } from '../../services/permissions';
+import { Role, Store } from '../../types';
 
-type Tab = 'analytics' | 'insights' | 'products' | 'employees' | 'customers' | 'settings' | 'price-variator' | 'qr-generator' | 'erp-network';
+type Tab = 'analytics' | 'insights' | 'products' | 'employees' | 'customers' | 'settings' | 'price-variator' | 'qr-generator' | 'erp-network' | 'gst-returns' | 'purchasing' | 'expiry' | 'stocktake' | 'transfers';
 
 const AdminDashboard: React.FC = () => {
-  const { currentUser, logout, shopDetails, products, sales, customers, theme, setTheme } = useAppContext();
+  const { currentUser, role, logout, shopDetails, products, sales, customers, theme, setTheme } = useAppContext();
   const [activeTab, setActiveTab] = useState<Tab>('analytics');
   const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [stores, setStores] = useState<Store[]>([]);
+
+  // Cloud Mode: the branches this admin can switch between. Other staff are bound to their branch.
+  useEffect(() => {
+    if (database.isCloud && currentUser?.role === Role.ADMIN) database.getStores().then(setStores);
+  }, [activeTab]);
+
+  // Every path and the offline copy are fixed per store, so switching reloads the app
+  const switchStore = (storeId: string) => {
+    database.switchStore(storeId);
+    window.location.reload();
+  };
 
   const toggleTheme = () => {
     setTheme(theme === 'light' ? 'dark' : 'light');
   };
 
-  const tabs: { id: Tab; label: string; icon: React.ReactElement }[] = [
+  const allTabs: { id: Tab; label: string; icon: React.ReactElement }[] = [
     { id: 'analytics', label: 'Analytics', icon: <ChartBarIcon /> },
     { id: 'insights', label: 'Smart Insights', icon: <LightningIcon /> },
     { id: 'products', label: 'Products', icon: <CubeIcon /> },
     { id: 'employees', label: 'Employees', icon: <UsersIcon /> },
     { id: 'customers', label: 'Customers', icon: <IdentificationIcon /> },
+    { id: 'purchasing', label: 'Purchasing', icon: <TruckIcon /> },
+    { id: 'expiry', label: 'Expiry', icon: <ClockIcon /> },
+    { id: 'stocktake', label: 'Stocktake', icon: <ClipboardCheckIcon /> },
+    { id: 'transfers', label: 'Transfers', icon: <SwitchIcon /> },
+    { id: 'gst-returns', label: 'GST Returns', icon: <DocumentIcon /> },
     { id: 'erp-network', label: 'ERP & Sync', icon: <ServerIcon /> },
     { id: 'price-variator', label: 'Market AI', icon: <SparklesIcon /> },
     { id: 'qr-generator', label: 'Barcode Generator', icon: <BarcodeIcon /> },
     { id: 'settings', label: 'Shop Settings', icon: <CogIcon /> },
   ];
+  const tabs = allTabs.filter(tab => can(role, TAB_PERMISSIONS[tab.id]));
+
+  // A role without Analytics (say, purchasing only) lands on its first tab
+  useEffect(() => {
+    if (tabs.length > 0 && !tabs.some(tab => tab.id === activeTab)) setActiveTab(tabs[0].id);
+  }, [role]);
 
   const renderContent = () => {
+    if (!tabs.some(tab => tab.id === activeTab)) return null;
     switch (activeTab) {
       case 'analytics': return <Analytics />;
       case 'insights': return <SmartInsights />;
       case 'products': return <ProductManagement />;
       case 'employees': return <EmployeeManagement />;
       case 'customers': return <CustomerManagement />;
+      case 'gst-returns': return <GstReturns />;
+      case 'purchasing': return <Purchasing />;
+      case 'expiry': return <ExpiryManagement />;
+      case 'stocktake': return <Stocktake />;
+      case 'transfers': return <Transfers />;
       case 'erp-network': return <ERPNetwork />;
       case 'settings': return <ShopSettings />;
       case 'price-variator': return <PriceVariator />;
@@ -55,7 +92,17 @@ const AdminDashboard: React.FC = () => {
       {/* Sidebar */}
       <nav className="w-64 bg-surface p-4 flex flex-col justify-between shadow-lg">
         <div>
-          <h1 className="text-2xl font-bold text-on-surface mb-8 text-center">{shopDetails.name}</h1>
+          <h1 className={`text-2xl font-bold text-on-surface text-center ${stores.length > 1 ? 'mb-2' : 'mb-8'}`}>{shopDetails.name}</h1>
+          {stores.length > 1 && (
+            <select
+              value={database.storeId}
+              onChange={e => switchStore(e.target.value)}
+              className="w-full mb-6 p-2 bg-background border border-on-surface/20 rounded-md text-sm text-on-surface focus:ring-primary focus:border-primary"
+              aria-label="Switch store"
+            >
+              {stores.map(store => <option key={store.id} value={store.id}>{store.name}</option>)}
+            </select>
+          )}
           <ul>
             {tabs.map(tab => (
               <li key={tab.id} className="mb-2">
@@ -81,7 +128,7 @@ const AdminDashboard: React.FC = () => {
                 </div>
                 <div className="ml-3">
                     <p className="font-semibold text-on-surface">{currentUser?.username}</p>
-                    <p className="text-xs text-on-surface/70">Administrator</p>
+                    <p className="text-xs text-on-surface/70">{role?.name}</p>
                 </div>
             </div>
             <button
@@ -141,5 +188,10 @@ const MoonIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-
 const BarcodeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M2 6h2v12H2V6zm3 0h1v12H5V6zm2 0h2v12H7V6zm3 0h1v12h-1V6zm2 0h3v12h-3V6zm4 0h2v12h-2V6zm3 0h1v12h-1V6z"/></svg>;
 const LightningIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>;
 const ServerIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" /></svg>;
+const DocumentIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>;
+const TruckIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0" /></svg>;
+const ClockIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
+const ClipboardCheckIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>;
+const SwitchIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>;
 
 export default AdminDashboard;
@@ -1,14 +1,17 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { Sale } from '../../types';
+import { BranchSales } from '../../types';
+import { categorySales } from '../../services/catalog';
+import database from '../../services/database';
 
 const { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } = (window as any).Recharts || {};
 
 type Period = 'daily' | 'weekly' | 'monthly' | '2-months' | '3-months' | '6-months' | 'yearly';
 
 const Analytics: React.FC = () => {
-  const { sales, products, theme } = useAppContext();
+  const { sales, creditNotes, products, categories, theme } = useAppContext();
   const [period, setPeriod] = useState<Period>('monthly');
+  const [branchSales, setBranchSales] = useState<BranchSales[]>([]);
   const [chartColors, setChartColors] = useState({
     onSurface: '#d1d5db',
     primary: '#4f46e5',
@@ -32,27 +35,47 @@ const Analytics: React.FC = () => {
     });
   }, [theme]);
 
-  const filteredSales = useMemo(() => {
+  // Same window for sales and the credit notes issued against them
+  const isInPeriod = (isoDate: string) => {
     const now = new Date();
-    return sales.filter(sale => {
-      const saleDate = new Date(sale.date);
-      const diffTime = Math.abs(now.getTime() - saleDate.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      
-      switch (period) {
-        case 'daily': return diffDays <= 1;
-        case 'weekly': return diffDays <= 7;
-        case 'monthly': return diffDays <= 30;
-        case '2-months': return diffDays <= 60;
-        case '3-months': return diffDays <= 90;
-        case '6-months': return diffDays <= 180;
-        case 'yearly': return diffDays <= 365;
-        default: return true;
-      }
-    });
-  }, [sales, period]);
-  
-  const totalRevenue = filteredSales.reduce((acc, sale) => acc + sale.total, 0);
+    const diffTime = Math.abs(now.getTime() - new Date(isoDate).getTime());
+    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+    switch (period) {
+      case 'daily': return diffDays <= 1;
+      case 'weekly': return diffDays <= 7;
+      case 'monthly': return diffDays <= 30;
+      case '2-months': return diffDays <= 60;
+      case '3-months': return diffDays <= 90;
+      case '6-months': return diffDays <= 180;
+      case 'yearly': return diffDays <= 365;
+      default: return true;
+    }
+  };
+
+  // Cloud Mode: every branch side by side, read straight from the cloud
+  useEffect(() => {
+    if (!database.isCloud) return;
+    database.getBranchSales()
+      .then(setBranchSales)
+      .catch(err => console.warn("Consolidated analytics unavailable", err));
+  }, []);
+
+  const filteredSales = useMemo(() => sales.filter(sale => isInPeriod(sale.date)), [sales, period]);
+  const filteredReturns = useMemo(() => creditNotes.filter(note => isInPeriod(note.date)), [creditNotes, period]);
+
+  const branches = useMemo(() => branchSales.map(({ store, sales, creditNotes, error }) => {
+    const periodSales = sales.filter(sale => isInPeriod(sale.date));
+    const returns = creditNotes.filter(note => isInPeriod(note.date)).reduce((acc, note) => acc + note.total, 0);
+    const revenue = periodSales.reduce((acc, sale) => acc + sale.total, 0) - returns;
+    return { store, revenue, returns, bills: periodSales.length, error };
+  }), [branchSales, period]);
+  const unreadBranches = branches.filter(b => b.error).length;
+  const branchTotals = branches.reduce((acc, b) => ({ revenue: acc.revenue + b.revenue, returns: acc.returns + b.returns, bills: acc.bills + b.bills }), { revenue: 0, returns: 0, bills: 0 });
+
+  const totalReturns = filteredReturns.reduce((acc, note) => acc + note.total, 0);
+  // Revenue is net of refunds on credit notes
+  const totalRevenue = filteredSales.reduce((acc, sale) => acc + sale.total, 0) - totalReturns;
   const totalSales = filteredSales.length;
 
   const topSellingProducts = useMemo(() => {
@@ -62,24 +85,40 @@ const Analytics: React.FC = () => {
         productCount[item.id] = (productCount[item.id] || 0) + item.quantity;
       });
     });
+    filteredReturns.forEach(note => {
+      note.items.forEach(item => {
+        productCount[item.id] = (productCount[item.id] || 0) - item.quantity;
+      });
+    });
     return Object.entries(productCount)
       .map(([id, quantity]) => ({
         product: products.find(p => p.id === id),
         quantity
       }))
-      .filter(item => item.product)
+      .filter(item => item.product && item.quantity > 0)
       .sort((a, b) => b.quantity - a.quantity)
       .slice(0, 5);
-  }, [filteredSales, products]);
+  }, [filteredSales, filteredReturns, products]);
   
+  // Top-level rows carry their whole subtree, so the shares add up over the top level alone
+  const salesByCategory = useMemo(
+    () => categorySales(filteredSales, filteredReturns, products, categories),
+    [filteredSales, filteredReturns, products, categories]
+  );
+  const categoryRevenueTotal = salesByCategory.filter(row => row.depth === 0).reduce((sum, row) => sum + row.revenue, 0);
+
   const salesByDate = useMemo(() => {
     const groupedSales: { [key: string]: number } = {};
     filteredSales.forEach(sale => {
       const dateKey = new Date(sale.date).toLocaleDateString();
       groupedSales[dateKey] = (groupedSales[dateKey] || 0) + sale.total;
     });
+    filteredReturns.forEach(note => {
+      const dateKey = new Date(note.date).toLocaleDateString();
+      groupedSales[dateKey] = (groupedSales[dateKey] || 0) - note.total;
+    });
     return Object.entries(groupedSales).map(([date, total]) => ({ date, total })).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [filteredSales]);
+  }, [filteredSales, filteredReturns]);
 
   const salesByMonth = useMemo(() => {
     const monthlySales: { [key: string]: number } = {};
@@ -90,6 +129,11 @@ const Analytics: React.FC = () => {
       const key = `${saleDate.getFullYear()}-${String(saleDate.getMonth() + 1).padStart(2, '0')}`;
       monthlySales[key] = (monthlySales[key] || 0) + sale.total;
     });
+    creditNotes.forEach(note => {
+      const noteDate = new Date(note.date);
+      const key = `${noteDate.getFullYear()}-${String(noteDate.getMonth() + 1).padStart(2, '0')}`;
+      monthlySales[key] = (monthlySales[key] || 0) - note.total;
+    });
 
     return Object.keys(monthlySales)
       .sort() // Sorts 'YYYY-MM' strings chronologically
@@ -101,7 +145,7 @@ const Analytics: React.FC = () => {
           revenue: monthlySales[key],
         };
       });
-  }, [sales]);
+  }, [sales, creditNotes]);
 
 
   return (
@@ -121,8 +165,9 @@ const Analytics: React.FC = () => {
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <div className="bg-surface p-6 rounded-lg shadow-md">
-          <h3 className="text-lg font-semibold text-on-surface/70">Total Revenue</h3>
+          <h3 className="text-lg font-semibold text-on-surface/70">Net Revenue</h3>
           <p className="text-4xl font-bold text-on-surface mt-2">₹{totalRevenue.toFixed(2)}</p>
+          {totalReturns > 0 && <p className="text-sm text-red-500 mt-1">after ₹{totalReturns.toFixed(2)} returns ({filteredReturns.length})</p>}
         </div>
         <div className="bg-surface p-6 rounded-lg shadow-md">
           <h3 className="text-lg font-semibold text-on-surface/70">Total Sales</h3>
@@ -169,6 +214,103 @@ const Analytics: React.FC = () => {
            </ul>
         </div>
       </div>
+      {branches.length > 1 && (
+        <div className="bg-surface p-6 rounded-lg shadow-md mt-6">
+          <h3 className="text-xl font-semibold text-on-surface mb-4">All Branches</h3>
+          <table className="w-full text-left">
+            <thead className="bg-on-surface/5">
+              <tr>
+                <th className="p-3 text-on-surface font-semibold">Branch</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Bills</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Returns</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Net Revenue</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Avg. Sale</th>
+                <th className="p-3 text-on-surface font-semibold w-1/4">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {branches.map(({ store, revenue, returns, bills, error }) => {
+                const share = branchTotals.revenue > 0 ? Math.max(0, revenue) / branchTotals.revenue * 100 : 0;
+                if (error) return (
+                  <tr key={store.id} className="border-b border-on-surface/20">
+                    <td className="p-3 text-on-surface font-semibold">{store.name}</td>
+                    <td colSpan={5} className="p-3 text-sm text-red-500" title={error}>Couldn't load this branch's sales</td>
+                  </tr>
+                );
+                return (
+                  <tr key={store.id} className="border-b border-on-surface/20">
+                    <td className="p-3 text-on-surface font-semibold">
+                      {store.name}
+                      {store.id === database.storeId && <span className="ml-2 text-xs font-normal text-on-surface/60">(this store)</span>}
+                    </td>
+                    <td className="p-3 text-on-surface text-right">{bills}</td>
+                    <td className="p-3 text-on-surface text-right">₹{returns.toFixed(2)}</td>
+                    <td className="p-3 text-on-surface text-right">₹{revenue.toFixed(2)}</td>
+                    <td className="p-3 text-on-surface text-right">₹{bills > 0 ? (revenue / bills).toFixed(2) : '0.00'}</td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-on-surface/10 rounded">
+                          <div className="h-2 bg-primary rounded" style={{ width: `${share}%` }}></div>
+                        </div>
+                        <span className="text-xs text-on-surface/70 w-12 text-right">{share.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="font-bold">
+                <td className="p-3 text-on-surface">Total{unreadBranches > 0 && <span className="ml-2 text-xs font-normal text-on-surface/60">(excluding {unreadBranches} unavailable)</span>}</td>
+                <td className="p-3 text-on-surface text-right">{branchTotals.bills}</td>
+                <td className="p-3 text-on-surface text-right">₹{branchTotals.returns.toFixed(2)}</td>
+                <td className="p-3 text-on-surface text-right">₹{branchTotals.revenue.toFixed(2)}</td>
+                <td className="p-3 text-on-surface text-right">₹{branchTotals.bills > 0 ? (branchTotals.revenue / branchTotals.bills).toFixed(2) : '0.00'}</td>
+                <td className="p-3"></td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-surface p-6 rounded-lg shadow-md mt-6">
+        <h3 className="text-xl font-semibold text-on-surface mb-4">Sales by Category</h3>
+        {categories.length === 0 ? (
+          <p className="text-on-surface/60">Set up categories under Products to see sales by category.</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="bg-on-surface/5">
+              <tr>
+                <th className="p-3 text-on-surface font-semibold">Category</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Units</th>
+                <th className="p-3 text-on-surface font-semibold text-right">Revenue</th>
+                <th className="p-3 text-on-surface font-semibold w-1/3">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {salesByCategory.map(row => {
+                const share = categoryRevenueTotal > 0 ? Math.max(0, row.revenue) / categoryRevenueTotal * 100 : 0;
+                return (
+                  <tr key={row.category?.id || 'uncategorised'} className="border-b border-on-surface/20">
+                    <td className={`p-3 text-on-surface ${row.depth === 0 ? 'font-semibold' : 'text-sm'}`} style={{ paddingLeft: `${0.75 + row.depth * 1.5}rem` }}>
+                      {row.category ? row.category.name : <span className="italic text-on-surface/60">Uncategorised</span>}
+                    </td>
+                    <td className="p-3 text-on-surface text-right">{row.units}</td>
+                    <td className="p-3 text-on-surface text-right">₹{row.revenue.toFixed(2)}</td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-on-surface/10 rounded">
+                          <div className="h-2 bg-primary rounded" style={{ width: `${share}%` }}></div>
+                        </div>
+                        <span className="text-xs text-on-surface/70 w-12 text-right">{share.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       <div className="bg-surface p-6 rounded-lg shadow-md h-96 mt-6">
         <h3 className="text-xl font-semibold text-on-surface mb-4">Monthly Sales Trend</h3>
         {ResponsiveContainer && LineChart && Line ? (
@@ -1,8 +1,10 @@
 
 import React, { useState, useRef } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { Customer, Sale } from '../../types';
+import { Customer, PriceListId, Sale } from '../../types';
 import database from '../../services/database';
+import { PRICE_LISTS, priceListFor, priceListLabel } from '../../services/pricing';
+import { can } from '../../services/permissions';
 
 interface CustomerFormProps {
     customer: Customer | null;
@@ -17,7 +19,9 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onSave, onCancel
         email: customer?.email || '',
         loyaltyPoints: customer?.loyaltyPoints || 0,
         walletBalance: customer?.walletBalance || 0,
-        isMember: customer?.isMember || false
+        isMember: customer?.isMember || false,
+        gstin: customer?.gstin || '',
+        priceList: customer?.priceList
     });
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -30,7 +34,7 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onSave, onCancel
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSave({ ...formData, id: customer?.id || `cust_${Date.now()}` });
+        onSave({ ...customer, ...formData, gstin: formData.gstin?.toUpperCase() || '', id: customer?.id || `cust_${Date.now()}` });
     };
 
     return (
@@ -41,6 +45,7 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onSave, onCancel
                     <input name="name" value={formData.name} onChange={handleChange} placeholder="Customer Name" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
                     <input name="mobile" value={formData.mobile} onChange={handleChange} placeholder="Mobile Number" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
                     <input name="email" type="email" value={formData.email} onChange={handleChange} placeholder="Email (Optional)" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                    <input name="gstin" value={formData.gstin} onChange={handleChange} placeholder="GSTIN (Business customers only)" pattern="\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]" title="15-character GSTIN" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface uppercase" />
                     <div className="flex gap-4">
                          <div className="flex-1">
                             <label className="text-xs text-on-surface">Points</label>
@@ -52,6 +57,18 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onSave, onCancel
                          </div>
                     </div>
                     
+                    <div>
+                        <label className="text-xs text-on-surface">Price List at Checkout</label>
+                        <select
+                            value={formData.priceList || ''}
+                            onChange={e => setFormData(prev => ({ ...prev, priceList: (e.target.value || undefined) as PriceListId | undefined }))}
+                            className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        >
+                            <option value="">Automatic ({priceListLabel(priceListFor({ isMember: formData.isMember }))})</option>
+                            {PRICE_LISTS.map(list => <option key={list.id} value={list.id}>{list.label}</option>)}
+                        </select>
+                    </div>
+
                     <div className="flex items-center gap-2">
                         <input type="checkbox" name="isMember" id="isMember" checked={formData.isMember} onChange={handleChange} className="w-5 h-5 text-primary" />
                         <label htmlFor="isMember" className="text-on-surface font-medium">Is Premium Member</label>
@@ -259,7 +276,7 @@ const MembershipModal: React.FC<MembershipModalProps> = ({ customer, onClose, on
 };
 
 const CustomerManagement: React.FC = () => {
-    const { customers, setCustomers, sales, showToast } = useAppContext();
+    const { customers, setCustomers, sales, showToast, role } = useAppContext();
     const [isFormOpen, setIsFormOpen] = useState(false);
     const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
     const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
@@ -374,13 +391,14 @@ const CustomerManagement: React.FC = () => {
                                     ) : (
                                         <span className="bg-gray-100 text-gray-600 text-xs px-2 py-1 rounded-full font-bold">Standard</span>
                                     )}
+                                    {priceListFor(customer) !== 'retail' && <span className="block mt-1 text-xs text-on-surface/60">{priceListLabel(priceListFor(customer))} prices</span>}
                                 </td>
                                 <td className="p-4 text-on-surface font-mono font-bold text-green-600">₹{customer.walletBalance.toFixed(2)}</td>
                                 <td className="p-4 text-right space-x-2">
                                     <button onClick={() => setMembershipCustomer(customer)} className="p-2 text-on-surface/60 hover:text-yellow-600 transition" title="Membership Card"><CrownIcon /></button>
                                     <button onClick={() => setHistoryCustomer(customer)} className="p-2 text-on-surface/60 hover:text-secondary transition" title="View Purchase History"><ClockIcon /></button>
                                     <button onClick={() => { setEditingCustomer(customer); setIsFormOpen(true); }} className="p-2 text-on-surface/60 hover:text-primary transition" title="Edit Customer"><PencilIcon /></button>
-                                    <button onClick={() => handleDeleteCustomer(customer.id)} className="p-2 text-on-surface/60 hover:text-red-500 transition" title="Delete Customer"><TrashIcon /></button>
+                                    {can(role, 'deleteCustomers') && <button onClick={() => handleDeleteCustomer(customer.id)} className="p-2 text-on-surface/60 hover:text-red-500 transition" title="Delete Customer"><TrashIcon /></button>}
                                 </td>
                             </tr>
                         ))}
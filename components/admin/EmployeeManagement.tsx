@@ -1,11 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { User, Role } from '../../types';
+import { User, Role, Store, RoleDefinition, Permission } from '../../types';
 import database from '../../services/database';
+import { storeName } from '../../services/stores';
+import { ADMIN_ROLE_ID, CASHIER_ROLE_ID, PERMISSIONS, isBuiltInRole, roleList } from '../../services/permissions';
 
 const EmployeeManagement: React.FC = () => {
-    const { employees, setEmployees, showToast } = useAppContext();
-    const [newEmployee, setNewEmployee] = useState({ username: '', password: '' });
+    const { employees, setEmployees, showToast, shopDetails, updateShopDetails } = useAppContext();
+    const [newEmployee, setNewEmployee] = useState({ username: '', password: '', roleId: CASHIER_ROLE_ID });
+    const [stores, setStores] = useState<Store[]>([]);
+    const [newRoleName, setNewRoleName] = useState('');
+
+    // Every role an employee can be given; admins always have everything
+    const roles = useMemo(() => roleList(shopDetails.roles).filter(r => r.id !== ADMIN_ROLE_ID), [shopDetails.roles]);
+
+    useEffect(() => {
+        if (database.isCloud) database.getStores().then(setStores);
+    }, []);
 
     const handleAddEmployee = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -18,19 +29,94 @@ const EmployeeManagement: React.FC = () => {
             id: `emp_${Date.now()}`,
             username: newEmployee.username,
             role: Role.EMPLOYEE,
+            roleId: newEmployee.roleId,
+            storeId: database.isCloud ? database.storeId : undefined,
         };
 
         // Save via database service (Local or Cloud)
-        await database.saveEmployee(newEmployeeUser, newEmployee.password);
-        
-        setEmployees([...employees, { ...newEmployeeUser, password: newEmployee.password }]);
-        setNewEmployee({ username: '', password: '' });
+        try {
+            await database.saveEmployee(newEmployeeUser, newEmployee.password);
+        } catch (err: any) {
+            showToast(err?.message || 'Failed to add employee.', 'error');
+            return;
+        }
+
+        // The password stays with the database layer, never in app state
+        setEmployees([...employees, newEmployeeUser]);
+        setNewEmployee({ username: '', password: '', roleId: CASHIER_ROLE_ID });
         showToast('Employee added successfully!');
     };
 
+    // Employees only sign in at their own branch, so moving one takes them off this list
+    const handleMoveEmployee = async (employee: User, storeId: string) => {
+        if (!window.confirm(`Move ${employee.username} to ${storeName(stores, storeId)}? They will only be able to sign in there.`)) return;
+        try {
+            await database.saveEmployee({ ...employee, storeId });
+        } catch (err: any) {
+            showToast(err?.message || 'Failed to move employee.', 'error');
+            return;
+        }
+        setEmployees(employees.filter(emp => emp.id !== employee.id));
+        showToast(`${employee.username} moved to ${storeName(stores, storeId)}.`);
+    };
+
+    // Takes effect the next time they sign in
+    const handleChangeRole = async (employee: User, roleId: string) => {
+        try {
+            await database.saveEmployee({ ...employee, roleId });
+        } catch (err: any) {
+            showToast(err?.message || 'Failed to change role.', 'error');
+            return;
+        }
+        setEmployees(employees.map(emp => emp.id === employee.id ? { ...emp, roleId } : emp));
+        showToast(`${employee.username} is now ${roles.find(r => r.id === roleId)?.name}.`);
+    };
+
+    const saveRoles = (edited: RoleDefinition[]) => updateShopDetails({ ...shopDetails, roles: edited });
+
+    const handleTogglePermission = (role: RoleDefinition, permission: Permission) => {
+        const permissions = role.permissions.includes(permission)
+            ? role.permissions.filter(p => p !== permission)
+            : [...role.permissions, permission];
+        saveRoles(roles.map(r => r.id === role.id ? { ...r, permissions } : r));
+    };
+
+    // Blank means no cap
+    const handleDiscountCap = (role: RoleDefinition, value: string) => {
+        const cap = value.trim() === '' ? undefined : parseFloat(value);
+        if (cap !== undefined && !(cap >= 0 && cap <= 100)) {
+            showToast('Enter a discount cap between 0 and 100%, or leave it blank for no cap.', 'error');
+            return;
+        }
+        if (cap === role.maxDiscountPercent) return;
+        // Left off rather than undefined: Firestore rejects undefined fields
+        const { maxDiscountPercent, ...rest } = role;
+        saveRoles(roles.map(r => r.id === role.id ? (cap === undefined ? rest : { ...rest, maxDiscountPercent: cap }) : r));
+    };
+
+    const handleAddRole = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newRoleName.trim();
+        if (!name) return;
+        saveRoles([...roles, { id: `role_${Date.now()}`, name, permissions: ['pos'] }]);
+        setNewRoleName('');
+        showToast(`Role "${name}" added. Tick what it may do below.`);
+    };
+
+    const handleDeleteRole = (role: RoleDefinition) => {
+        if (!window.confirm(`Delete the ${role.name} role? Employees who have it will sign in as cashiers.`)) return;
+        saveRoles(roles.filter(r => r.id !== role.id));
+        showToast(`Role "${role.name}" deleted.`, 'error');
+    };
+
     const handleDeleteEmployee = async (employeeId: string) => {
         if(window.confirm("Are you sure you want to delete this employee?")){
-            await database.deleteEmployee(employeeId);
+            try {
+                await database.deleteEmployee(employeeId);
+            } catch (err: any) {
+                showToast(err?.message || 'Failed to remove employee.', 'error');
+                return;
+            }
             setEmployees(employees.filter(emp => emp.id !== employeeId));
             showToast('Employee removed.', 'error');
         }
@@ -39,6 +125,9 @@ const EmployeeManagement: React.FC = () => {
     return (
         <div>
             <h1 className="text-3xl font-bold text-on-surface mb-6">Employee Management</h1>
+            {stores.length > 1 && (
+                <p className="text-sm text-on-surface/70 mb-4">Showing staff of {storeName(stores, database.storeId)}. Employees can only sign in at their own branch.</p>
+            )}
             {database.isCloud && (
                 <p className="text-sm text-yellow-600 mb-4 bg-yellow-100 p-2 rounded">
                     Note: In Cloud Mode, employees added here are stored in the database. For full security, consider setting up separate Firebase Auth accounts for each employee in the future.
@@ -62,6 +151,14 @@ const EmployeeManagement: React.FC = () => {
                         onChange={e => setNewEmployee({ ...newEmployee, password: e.target.value })}
                         className="flex-grow p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
                     />
+                    <select
+                        value={newEmployee.roleId}
+                        onChange={e => setNewEmployee({ ...newEmployee, roleId: e.target.value })}
+                        className="p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        aria-label="Role"
+                    >
+                        {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+                    </select>
                     <button type="submit" className="py-3 px-6 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition">Add Employee</button>
                 </form>
             </div>
@@ -72,14 +169,105 @@ const EmployeeManagement: React.FC = () => {
                     {employees.map(employee => (
                         <li key={employee.id} className="flex justify-between items-center p-4 border-b border-on-surface/20 last:border-b-0">
                             <span className="text-on-surface">{employee.username}</span>
-                            <button onClick={() => handleDeleteEmployee(employee.id)} className="text-red-500 hover:text-red-400 font-semibold">
-                                Remove
-                            </button>
+                            <div className="flex items-center gap-4">
+                                <select
+                                    value={employee.roleId || CASHIER_ROLE_ID}
+                                    onChange={e => handleChangeRole(employee, e.target.value)}
+                                    className="p-2 bg-background border border-on-surface/20 rounded-md text-sm text-on-surface"
+                                    aria-label={`Role of ${employee.username}`}
+                                >
+                                    {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+                                </select>
+                                {stores.length > 1 && (
+                                    <select
+                                        value={database.storeId}
+                                        onChange={e => handleMoveEmployee(employee, e.target.value)}
+                                        className="p-2 bg-background border border-on-surface/20 rounded-md text-sm text-on-surface"
+                                        aria-label={`Branch of ${employee.username}`}
+                                    >
+                                        {stores.map(store => <option key={store.id} value={store.id}>{store.name}</option>)}
+                                    </select>
+                                )}
+                                <button onClick={() => handleDeleteEmployee(employee.id)} className="text-red-500 hover:text-red-400 font-semibold">
+                                    Remove
+                                </button>
+                            </div>
                         </li>
                     ))}
                     {employees.length === 0 && <p className="p-4 text-on-surface/60">No employees added yet.</p>}
                 </ul>
             </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-hidden mt-8">
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 p-4 border-b border-on-surface/20">
+                    <div>
+                        <h2 className="text-xl font-semibold text-on-surface">Roles &amp; Permissions</h2>
+                        <p className="text-sm text-on-surface/70">Roles with any back-office permission sign in to this dashboard and only see their tabs. Changes apply from the next sign-in.</p>
+                    </div>
+                    <form onSubmit={handleAddRole} className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="New role name"
+                            value={newRoleName}
+                            onChange={e => setNewRoleName(e.target.value)}
+                            className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        />
+                        <button type="submit" className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition">Add Role</button>
+                    </form>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-on-surface">
+                        <thead className="bg-on-surface/5">
+                            <tr>
+                                <th className="p-3">Permission</th>
+                                {roles.map(role => (
+                                    <th key={role.id} className="p-3 text-center whitespace-nowrap">
+                                        {role.name}
+                                        {!isBuiltInRole(role.id) && (
+                                            <button onClick={() => handleDeleteRole(role)} className="ml-2 text-red-500 hover:text-red-400" aria-label={`Delete ${role.name}`}>&times;</button>
+                                        )}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {PERMISSIONS.map(permission => (
+                                <tr key={permission.id} className="border-t border-on-surface/10">
+                                    <td className="p-3">{permission.label}</td>
+                                    {roles.map(role => (
+                                        <td key={role.id} className="p-3 text-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={role.permissions.includes(permission.id)}
+                                                onChange={() => handleTogglePermission(role, permission.id)}
+                                                aria-label={`${role.name}: ${permission.label}`}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            <tr className="border-t border-on-surface/10">
+                                <td className="p-3">Max discount at the counter (%)</td>
+                                {roles.map(role => (
+                                    <td key={role.id} className="p-3 text-center">
+                                        <input
+                                            key={`${role.id}_${role.maxDiscountPercent ?? ''}`}
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            placeholder="No cap"
+                                            defaultValue={role.maxDiscountPercent ?? ''}
+                                            onBlur={e => handleDiscountCap(role, e.target.value)}
+                                            className="w-20 p-1 bg-background border border-on-surface/20 rounded-md text-on-surface text-center"
+                                            aria-label={`${role.name}: max discount`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
         </div>
     );
 };
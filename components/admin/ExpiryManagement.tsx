@@ -0,0 +1,209 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { MarkdownRule } from '../../types';
+import database from '../../services/database';
+import { todayDate } from '../../services/batches';
+import { ExpiryLot, daysToExpiry, expiringWithin, expiredLots, lotValue, ruleForDaysLeft } from '../../services/expiry';
+import { can } from '../../services/permissions';
+
+const WINDOWS = [7, 15, 30];
+
+const lotKey = (lot: ExpiryLot) => `${lot.productId}_${lot.batchId || 'stock'}`;
+
+const ExpiryManagement: React.FC = () => {
+    const { products, setProducts, shopDetails, updateShopDetails, currentUser, role, showToast } = useAppContext();
+    // Markdowns are pricing, so only roles that may change prices edit the rules
+    const canEditRules = can(role, 'prices');
+    const [windowDays, setWindowDays] = useState(7);
+    const [newRule, setNewRule] = useState({ maxDaysToExpiry: '', percent: '' });
+    const today = todayDate();
+
+    const expiring = useMemo(() => expiringWithin(products, windowDays, today), [products, windowDays, today]);
+    const expired = useMemo(() => expiredLots(products, today), [products, today]);
+    const rules = useMemo(() => [...(shopDetails.markdownRules || [])].sort((a, b) => a.maxDaysToExpiry - b.maxDaysToExpiry), [shopDetails.markdownRules]);
+
+    const valueAtRisk = expiring.reduce((sum, lot) => sum + lotValue(lot), 0);
+    const expiredValue = expired.reduce((sum, lot) => sum + lotValue(lot), 0);
+
+    const saveRules = (markdownRules: MarkdownRule[]) => updateShopDetails({ ...shopDetails, markdownRules });
+
+    const handleAddRule = (e: React.FormEvent) => {
+        e.preventDefault();
+        const maxDaysToExpiry = parseInt(newRule.maxDaysToExpiry, 10);
+        const percent = parseFloat(newRule.percent);
+        if (!(maxDaysToExpiry >= 0) || !(percent > 0 && percent <= 100)) {
+            showToast('Enter the days left and a discount between 1 and 100%.', 'error');
+            return;
+        }
+        saveRules([...rules, { id: `md_${Date.now()}`, maxDaysToExpiry, percent }]);
+        setNewRule({ maxDaysToExpiry: '', percent: '' });
+        showToast('Markdown rule added. The POS applies it from the next scan.');
+    };
+
+    const handleDeleteRule = (id: string) => {
+        saveRules(rules.filter(r => r.id !== id));
+        showToast('Markdown rule removed.', 'error');
+    };
+
+    const writeOff = async (lots: ExpiryLot[]) => {
+        if (!currentUser) return;
+        try {
+            // Applied to the stock as it is when the write-off commits, not as this screen last saw it
+            const updated = await database.commitWriteOff({ id: `wo_${Date.now()}`, date: new Date().toISOString(), userId: currentUser.id, lots });
+            setProducts(prev => prev.map(p => updated.find(u => u.id === p.id) || p));
+            showToast(`Wrote off ${lots.reduce((sum, lot) => sum + lot.quantity, 0)} expired units.`, 'error');
+        } catch (err: any) {
+            showToast(err?.message || 'Write-off failed.', 'error');
+        }
+    };
+
+    const handleWriteOff = (lot: ExpiryLot) => {
+        if (window.confirm(`Write off ${lot.quantity} × ${lot.name}${lot.batchNumber ? ` (batch ${lot.batchNumber})` : ''}?`)) writeOff([lot]);
+    };
+
+    const handleWriteOffAll = () => {
+        if (window.confirm(`Write off all ${expired.length} expired lots worth ₹${expiredValue.toFixed(2)}?`)) writeOff(expired);
+    };
+
+    const lotLabel = (lot: ExpiryLot) => (
+        <>
+            <span className="font-medium">{lot.name}</span>
+            <span className="block text-xs text-on-surface/60">{lot.brand}{lot.batchNumber && ` · Batch ${lot.batchNumber}`}</span>
+        </>
+    );
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-on-surface">Expiry</h1>
+                <div className="flex gap-2">
+                    {WINDOWS.map(days => (
+                        <button
+                            key={days}
+                            onClick={() => setWindowDays(days)}
+                            className={`py-2 px-4 rounded-md text-sm font-medium transition ${windowDays === days ? 'bg-primary text-on-primary' : 'bg-surface text-on-surface hover:bg-on-surface/10'}`}
+                        >
+                            Next {days} days
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Expiring in {windowDays} days</h3>
+                    <p className="text-3xl font-bold text-on-surface mt-2">{expiring.length} <span className="text-base font-normal text-on-surface/60">lots</span></p>
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Value at Risk</h3>
+                    <p className="text-3xl font-bold text-orange-500 mt-2">₹{valueAtRisk.toFixed(2)}</p>
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Already Expired</h3>
+                    <p className={`text-3xl font-bold mt-2 ${expired.length > 0 ? 'text-red-500' : 'text-on-surface'}`}>₹{expiredValue.toFixed(2)}</p>
+                </div>
+            </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto mb-8">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-4 text-on-surface font-semibold">Item</th>
+                            <th className="p-4 text-on-surface font-semibold">Expiry</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Days Left</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Qty</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Value at Risk</th>
+                            <th className="p-4 text-on-surface font-semibold">Markdown</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {expiring.map(lot => {
+                            const daysLeft = daysToExpiry(lot.expiryDate, today);
+                            const rule = ruleForDaysLeft(rules, daysLeft);
+                            return (
+                                <tr key={lotKey(lot)} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                    <td className="p-4 text-on-surface">{lotLabel(lot)}</td>
+                                    <td className="p-4 text-on-surface text-sm">{lot.expiryDate}</td>
+                                    <td className={`p-4 text-right font-bold ${daysLeft <= 3 ? 'text-red-500' : daysLeft <= 7 ? 'text-orange-500' : 'text-on-surface'}`}>{daysLeft === 0 ? 'Today' : daysLeft}</td>
+                                    <td className="p-4 text-on-surface text-right">{lot.quantity}</td>
+                                    <td className="p-4 text-on-surface text-right">₹{lotValue(lot).toFixed(2)}</td>
+                                    <td className="p-4 text-sm">
+                                        {rule ? <span className="px-2 py-1 rounded text-xs font-bold bg-green-500/20 text-green-500">{rule.percent}% OFF</span> : <span className="text-on-surface/50">—</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {expiring.length === 0 && (
+                            <tr><td colSpan={6} className="text-center p-8 text-on-surface/50">Nothing expires in the next {windowDays} days.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <div className="flex justify-between items-center mb-3">
+                        <h2 className="text-xl font-bold text-on-surface">Expired Stock</h2>
+                        {expired.length > 0 && (
+                            <button onClick={handleWriteOffAll} className="py-1 px-3 bg-red-500 text-white text-sm rounded-md hover:bg-red-600 transition">Write Off All</button>
+                        )}
+                    </div>
+                    <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="bg-on-surface/5">
+                                <tr>
+                                    <th className="p-3 text-on-surface font-semibold">Item</th>
+                                    <th className="p-3 text-on-surface font-semibold">Expired</th>
+                                    <th className="p-3 text-on-surface font-semibold text-right">Qty</th>
+                                    <th className="p-3 text-on-surface font-semibold text-right">Value</th>
+                                    <th className="p-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {expired.map(lot => (
+                                    <tr key={lotKey(lot)} className="border-b border-on-surface/20">
+                                        <td className="p-3 text-on-surface">{lotLabel(lot)}</td>
+                                        <td className="p-3 text-red-500 text-sm">{lot.expiryDate}</td>
+                                        <td className="p-3 text-on-surface text-right">{lot.quantity}</td>
+                                        <td className="p-3 text-on-surface text-right">₹{lotValue(lot).toFixed(2)}</td>
+                                        <td className="p-3 text-right">
+                                            <button onClick={() => handleWriteOff(lot)} className="py-1 px-3 text-red-500 text-sm rounded-md hover:bg-red-500/10 transition">Write Off</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {expired.length === 0 && (
+                                    <tr><td colSpan={5} className="text-center p-6 text-on-surface/50">No expired stock on the books.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <div>
+                    <h2 className="text-xl font-bold text-on-surface mb-3">Markdown Rules</h2>
+                    <div className="bg-surface rounded-lg shadow-md p-4">
+                        <p className="text-sm text-on-surface/70 mb-4">The POS discounts an item automatically when the batch it sells next is this close to expiry. The deepest matching rule wins.</p>
+                        <ul className="divide-y divide-on-surface/10 mb-4">
+                            {rules.map(rule => (
+                                <li key={rule.id} className="flex justify-between items-center py-2 text-on-surface">
+                                    <span><span className="font-bold">{rule.percent}% off</span> when {rule.maxDaysToExpiry === 0 ? 'expiring today' : `${rule.maxDaysToExpiry} day${rule.maxDaysToExpiry === 1 ? '' : 's'} or less to expiry`}</span>
+                                    {canEditRules && <button onClick={() => handleDeleteRule(rule.id)} className="text-on-surface/60 hover:text-red-500 text-sm">Remove</button>}
+                                </li>
+                            ))}
+                            {rules.length === 0 && <li className="py-2 text-on-surface/50 text-sm">No rules yet.</li>}
+                        </ul>
+                        {canEditRules && <form onSubmit={handleAddRule} className="flex gap-2 items-center">
+                            <input type="number" min={1} max={100} step="0.5" value={newRule.percent} onChange={e => setNewRule(prev => ({ ...prev, percent: e.target.value }))} placeholder="%" className="w-20 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
+                            <span className="text-sm text-on-surface">% off at</span>
+                            <input type="number" min={0} value={newRule.maxDaysToExpiry} onChange={e => setNewRule(prev => ({ ...prev, maxDaysToExpiry: e.target.value }))} placeholder="days" className="w-20 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
+                            <span className="text-sm text-on-surface">days or less</span>
+                            <button type="submit" className="ml-auto py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition text-sm">Add Rule</button>
+                        </form>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExpiryManagement;
@@ -0,0 +1,254 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { buildGstReturns, gstr1Csv, gstr3bCsv } from '../../services/gstReturns';
+
+type Section = 'b2b' | 'b2cl' | 'b2cs' | 'cdnr' | 'cdnur' | 'hsn' | '3b';
+
+const currentMonth = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const GstReturns: React.FC = () => {
+    const { sales, creditNotes, shopDetails, showToast } = useAppContext();
+    const [period, setPeriod] = useState(currentMonth());
+    const [section, setSection] = useState<Section>('b2cs');
+
+    const report = useMemo(() => buildGstReturns(sales, creditNotes, period, shopDetails), [sales, creditNotes, period, shopDetails]);
+    const { gstr1, gstr3b } = report;
+    const supplies = gstr3b.sup_details;
+
+    const fileBase = `${shopDetails.gstNumber || 'GSTIN'}_${gstr1.fp}`;
+
+    const handleExportJson = (kind: 'gstr1' | 'gstr3b') => {
+        if (!shopDetails.gstNumber) {
+            showToast('Set the shop GST number in Shop Settings first.', 'error');
+            return;
+        }
+        const data = kind === 'gstr1' ? gstr1 : gstr3b;
+        downloadFile(JSON.stringify(data, null, 2), `${kind.toUpperCase()}_${fileBase}.json`, 'application/json');
+        showToast(`${kind === 'gstr1' ? 'GSTR-1' : 'GSTR-3B'} JSON downloaded.`);
+    };
+
+    const handleExportCsv = () => {
+        const csv = section === '3b' ? gstr3bCsv(report) : gstr1Csv(report)[section];
+        downloadFile(csv, `${section.toUpperCase()}_${fileBase}.csv`, 'text/csv;charset=utf-8;');
+        showToast('CSV export started!');
+    };
+
+    const sections: { id: Section; label: string; count: number }[] = [
+        { id: 'b2b', label: 'B2B', count: gstr1.b2b.reduce((n, e) => n + e.inv.length, 0) },
+        { id: 'b2cl', label: 'B2C Large', count: gstr1.b2cl.reduce((n, e) => n + e.inv.length, 0) },
+        { id: 'b2cs', label: 'B2C Small', count: gstr1.b2cs.length },
+        { id: 'cdnr', label: 'Credit Notes (Reg.)', count: gstr1.cdnr.reduce((n, e) => n + e.nt.length, 0) },
+        { id: 'cdnur', label: 'Credit Notes (Unreg.)', count: gstr1.cdnur.length },
+        { id: 'hsn', label: 'HSN Summary', count: gstr1.hsn.data.length },
+        { id: '3b', label: 'GSTR-3B', count: 0 },
+    ];
+
+    const cell = "p-3 text-on-surface text-sm";
+    const head = "p-3 text-on-surface font-semibold text-sm";
+
+    const renderTable = () => {
+        switch (section) {
+            case 'b2b':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Buyer GSTIN</th><th className={head}>Invoice</th><th className={head}>Date</th><th className={head}>POS</th><th className={head}>Rate</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th><th className={`${head} text-right`}>CGST</th><th className={`${head} text-right`}>SGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.b2b.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(({ num, itm_det: t }) => (
+                                <tr key={`${inv.inum}-${num}`} className="border-b border-on-surface/20">
+                                    <td className={cell}>{entry.ctin}</td><td className={cell}>{inv.inum}</td><td className={cell}>{inv.idt}</td><td className={cell}>{inv.pos}</td><td className={cell}>{t.rt}%</td>
+                                    <td className={`${cell} text-right`}>{t.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{t.iamt.toFixed(2)}</td><td className={`${cell} text-right`}>{t.camt.toFixed(2)}</td><td className={`${cell} text-right`}>{t.samt.toFixed(2)}</td>
+                                </tr>
+                            ))))}
+                        </tbody>
+                    </table>
+                );
+            case 'b2cl':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Invoice</th><th className={head}>Date</th><th className={head}>POS</th><th className={head}>Rate</th><th className={`${head} text-right`}>Invoice Value</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.b2cl.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(({ num, itm_det: t }) => (
+                                <tr key={`${inv.inum}-${num}`} className="border-b border-on-surface/20">
+                                    <td className={cell}>{inv.inum}</td><td className={cell}>{inv.idt}</td><td className={cell}>{entry.pos}</td><td className={cell}>{t.rt}%</td>
+                                    <td className={`${cell} text-right`}>{inv.val.toFixed(2)}</td><td className={`${cell} text-right`}>{t.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{t.iamt.toFixed(2)}</td>
+                                </tr>
+                            ))))}
+                        </tbody>
+                    </table>
+                );
+            case 'b2cs':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Supply</th><th className={head}>POS</th><th className={head}>Rate</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th><th className={`${head} text-right`}>CGST</th><th className={`${head} text-right`}>SGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.b2cs.map(r => (
+                                <tr key={`${r.pos}-${r.rt}`} className="border-b border-on-surface/20">
+                                    <td className={cell}>{r.sply_ty}</td><td className={cell}>{r.pos || '—'}</td><td className={cell}>{r.rt}%</td>
+                                    <td className={`${cell} text-right`}>{r.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{r.iamt.toFixed(2)}</td><td className={`${cell} text-right`}>{r.camt.toFixed(2)}</td><td className={`${cell} text-right`}>{r.samt.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+            case 'cdnr':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Buyer GSTIN</th><th className={head}>Note</th><th className={head}>Date</th><th className={head}>POS</th><th className={head}>Rate</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th><th className={`${head} text-right`}>CGST</th><th className={`${head} text-right`}>SGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.cdnr.flatMap(entry => entry.nt.flatMap(nt => nt.itms.map(({ num, itm_det: t }) => (
+                                <tr key={`${nt.nt_num}-${num}`} className="border-b border-on-surface/20">
+                                    <td className={cell}>{entry.ctin}</td><td className={cell}>{nt.nt_num}</td><td className={cell}>{nt.nt_dt}</td><td className={cell}>{nt.pos}</td><td className={cell}>{t.rt}%</td>
+                                    <td className={`${cell} text-right`}>{t.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{t.iamt.toFixed(2)}</td><td className={`${cell} text-right`}>{t.camt.toFixed(2)}</td><td className={`${cell} text-right`}>{t.samt.toFixed(2)}</td>
+                                </tr>
+                            ))))}
+                        </tbody>
+                    </table>
+                );
+            case 'cdnur':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Note</th><th className={head}>Date</th><th className={head}>Type</th><th className={head}>POS</th><th className={head}>Rate</th><th className={`${head} text-right`}>Note Value</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.cdnur.flatMap(nt => nt.itms.map(({ num, itm_det: t }) => (
+                                <tr key={`${nt.nt_num}-${num}`} className="border-b border-on-surface/20">
+                                    <td className={cell}>{nt.nt_num}</td><td className={cell}>{nt.nt_dt}</td><td className={cell}>{nt.typ}</td><td className={cell}>{nt.pos}</td><td className={cell}>{t.rt}%</td>
+                                    <td className={`${cell} text-right`}>{nt.val.toFixed(2)}</td><td className={`${cell} text-right`}>{t.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{t.iamt.toFixed(2)}</td>
+                                </tr>
+                            )))}
+                        </tbody>
+                    </table>
+                );
+            case 'hsn':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>HSN</th><th className={head}>Description</th><th className={head}>UQC</th><th className={`${head} text-right`}>Qty</th><th className={head}>Rate</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th><th className={`${head} text-right`}>CGST</th><th className={`${head} text-right`}>SGST</th>
+                        </tr></thead>
+                        <tbody>
+                            {gstr1.hsn.data.map(r => (
+                                <tr key={r.num} className="border-b border-on-surface/20">
+                                    <td className={cell}>{r.hsn_sc}</td><td className={cell}>{r.desc}</td><td className={cell}>{r.uqc}</td><td className={`${cell} text-right`}>{r.qty}</td><td className={cell}>{r.rt}%</td>
+                                    <td className={`${cell} text-right`}>{r.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{r.iamt.toFixed(2)}</td><td className={`${cell} text-right`}>{r.camt.toFixed(2)}</td><td className={`${cell} text-right`}>{r.samt.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+            case '3b':
+                return (
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5"><tr>
+                            <th className={head}>Nature of Supplies</th><th className={`${head} text-right`}>Taxable</th><th className={`${head} text-right`}>IGST</th><th className={`${head} text-right`}>CGST</th><th className={`${head} text-right`}>SGST</th>
+                        </tr></thead>
+                        <tbody>
+                            <tr className="border-b border-on-surface/20">
+                                <td className={cell}>3.1(a) Outward taxable supplies</td>
+                                <td className={`${cell} text-right`}>{supplies.osup_det.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{supplies.osup_det.iamt.toFixed(2)}</td><td className={`${cell} text-right`}>{supplies.osup_det.camt.toFixed(2)}</td><td className={`${cell} text-right`}>{supplies.osup_det.samt.toFixed(2)}</td>
+                            </tr>
+                            <tr className="border-b border-on-surface/20">
+                                <td className={cell}>3.1(c) Nil rated / exempted</td>
+                                <td className={`${cell} text-right`}>{supplies.osup_nil_exmp.txval.toFixed(2)}</td><td className={cell}></td><td className={cell}></td><td className={cell}></td>
+                            </tr>
+                            {gstr3b.inter_sup.unreg_details.map(u => (
+                                <tr key={u.pos} className="border-b border-on-surface/20">
+                                    <td className={cell}>3.2 Unregistered persons (POS {u.pos})</td>
+                                    <td className={`${cell} text-right`}>{u.txval.toFixed(2)}</td><td className={`${cell} text-right`}>{u.iamt.toFixed(2)}</td><td className={cell}></td><td className={cell}></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                );
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-on-surface">GST Returns</h1>
+                <div className="flex items-center gap-4">
+                    <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="bg-surface p-2 rounded-md border border-on-surface/20 text-on-surface" />
+                    <button onClick={() => handleExportJson('gstr1')} className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition">GSTR-1 JSON</button>
+                    <button onClick={() => handleExportJson('gstr3b')} className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition">GSTR-3B JSON</button>
+                </div>
+            </div>
+
+            {!shopDetails.gstNumber && (
+                <div className="mb-6 p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-on-surface">
+                    No GST number configured. Add it in Shop Settings; it is required in the return JSON and decides intra- vs inter-state supplies.
+                </div>
+            )}
+            {report.untaxedLegacyCount > 0 && (
+                <div className="mb-6 p-4 rounded-lg bg-orange-500/10 border border-orange-500/30 text-sm text-on-surface">
+                    {report.untaxedLegacyCount} sale(s) this month were saved before per-item GST was recorded. They are included at full value with no tax split; review them before filing.
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Invoices</h3>
+                    <p className="text-4xl font-bold text-on-surface mt-2">{report.invoiceCount}</p>
+                    {report.creditNoteCount > 0 && <p className="text-sm text-on-surface/70 mt-1">{report.creditNoteCount} credit note(s), netted out of the totals</p>}
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Taxable Value</h3>
+                    <p className="text-3xl font-bold text-on-surface mt-2">₹{(supplies.osup_det.txval + supplies.osup_nil_exmp.txval).toFixed(2)}</p>
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">CGST + SGST</h3>
+                    <p className="text-3xl font-bold text-on-surface mt-2">₹{(supplies.osup_det.camt + supplies.osup_det.samt).toFixed(2)}</p>
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">IGST</h3>
+                    <p className="text-3xl font-bold text-on-surface mt-2">₹{supplies.osup_det.iamt.toFixed(2)}</p>
+                </div>
+            </div>
+
+            <div className="flex justify-between items-center mb-4">
+                <div className="flex gap-2">
+                    {sections.map(s => (
+                        <button
+                            key={s.id}
+                            onClick={() => setSection(s.id)}
+                            className={`py-2 px-4 rounded-md text-sm font-medium transition ${section === s.id ? 'bg-primary text-on-primary' : 'bg-surface text-on-surface hover:bg-on-surface/10'}`}
+                        >
+                            {s.label}{s.id !== '3b' && ` (${s.count})`}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={handleExportCsv} className="py-2 px-4 bg-secondary text-on-primary font-semibold rounded-md hover:bg-green-500 transition">Export CSV</button>
+            </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                {renderTable()}
+            </div>
+        </div>
+    );
+};
+
+export default GstReturns;
@@ -2,9 +2,13 @@
 import React, { useState } from 'react';
 import { fetchPriceVariationSuggestion } from '../../services/geminiService';
 import { useAppContext } from '../../hooks/useAppContext';
+import { filterByCategory, matchCategory } from '../../services/catalog';
+import { withPriceHistory } from '../../services/pricing';
+import database from '../../services/database';
+import { Product } from '../../types';
 
 const PriceVariator: React.FC = () => {
-    const { products, setProducts, setIsLoading, showToast } = useAppContext();
+    const { products, setProducts, categories, currentUser, setIsLoading, showToast } = useAppContext();
     const [marketUpdate, setMarketUpdate] = useState('');
     const [suggestion, setSuggestion] = useState('');
 
@@ -27,22 +31,29 @@ const PriceVariator: React.FC = () => {
         }
         const percentage = parseInt(percentageMatch[1], 10) / 100;
         
+        // A category from the catalog tree is matched exactly; otherwise fall back to guessing from names
+        const catalogCategory = matchCategory(suggestion, categories);
         const categoryMatch = suggestion.match(/for all (.*?) products/i) || suggestion.match(/(\w+) product prices/i);
-        if (!categoryMatch) {
+        if (!catalogCategory && !categoryMatch) {
             showToast("Couldn't parse the product category from suggestion.", 'error');
             return;
         }
-        const category = categoryMatch[1].toLowerCase();
+        const category = catalogCategory ? catalogCategory.name : categoryMatch![1].toLowerCase();
+        const inCategory = catalogCategory ? new Set(filterByCategory(products, catalogCategory.id, categories).map(p => p.id)) : null;
 
+        const changed: Product[] = [];
         const updatedProducts = products.map(p => {
-            if (p.name.toLowerCase().includes(category) || p.brand.toLowerCase().includes(category)) {
+            if (inCategory ? inCategory.has(p.id) : p.name.toLowerCase().includes(category) || p.brand.toLowerCase().includes(category)) {
                 const newPrice = p.price * (1 + percentage);
-                return { ...p, price: parseFloat(newPrice.toFixed(2)) };
+                const updated = withPriceHistory(p, { ...p, price: parseFloat(newPrice.toFixed(2)) }, 'Market AI', currentUser?.id || 'unknown');
+                changed.push(updated);
+                return updated;
             }
             return p;
         });
         
         setProducts(updatedProducts);
+        changed.forEach(p => database.saveProduct(p).catch(err => console.error("Failed to save price change", err)));
         showToast(`Prices for '${category}' products updated by ${percentage*100}%!`, 'success');
         setSuggestion('');
     };
@@ -0,0 +1,228 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { Category, Product } from '../../types';
+import database from '../../services/database';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportPreview, catalogSheet, guessMapping, parseCsv, toCsv } from '../../services/catalogImport';
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// SheetJS hands back numbers and (with cellDates) Date objects; the importer works on text
+const cellText = (value: any): string => {
+    if (value instanceof Date) return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    return value === null || value === undefined ? '' : String(value);
+};
+
+const readSheet = async (file: File): Promise<string[][]> => {
+    if (/\.csv$/i.test(file.name)) return parseCsv(await file.text());
+    const XLSX = (window as any).XLSX;
+    if (!XLSX) throw new Error('Excel support is still loading. Try again in a moment, or save the sheet as CSV.');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' });
+    return rows.map(row => row.map(cellText)).filter(row => row.some(cell => cell.trim() !== ''));
+};
+
+export const exportCatalog = (products: Product[], categories: Category[], format: 'csv' | 'xlsx') => {
+    const rows = catalogSheet(products, categories);
+    const fileBase = `catalog_${new Date().toISOString().split('T')[0]}`;
+    if (format === 'csv') {
+        downloadFile(toCsv(rows), `${fileBase}.csv`, 'text/csv;charset=utf-8;');
+        return;
+    }
+    const XLSX = (window as any).XLSX;
+    if (!XLSX) throw new Error('Excel support is still loading. Try again in a moment.');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Catalog');
+    XLSX.writeFile(workbook, `${fileBase}.xlsx`);
+};
+
+interface ProductImportModalProps {
+    onClose: () => void;
+}
+
+const ProductImportModal: React.FC<ProductImportModalProps> = ({ onClose }) => {
+    const { products, setProducts, categories, setCategories, currentUser, showToast } = useAppContext();
+    const [fileName, setFileName] = useState('');
+    const [grid, setGrid] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const headers = grid[0] || [];
+    const preview = useMemo(
+        () => mapping ? buildImportPreview(grid, mapping, products, categories, currentUser?.id || 'unknown') : null,
+        [grid, mapping, products, categories, currentUser]
+    );
+    const valid = preview?.rows.filter(row => row.product) || [];
+    const invalidCount = (preview?.rows.length || 0) - valid.length;
+    const creates = valid.filter(row => row.action === 'create').length;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const rows = await readSheet(file);
+            if (rows.length < 2) {
+                showToast('The file needs a header row and at least one product.', 'error');
+                return;
+            }
+            setFileName(file.name);
+            setGrid(rows);
+            setMapping(guessMapping(rows[0]));
+        } catch (err: any) {
+            console.error("Import read failed", err);
+            showToast(err?.message || 'Could not read the file.', 'error');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!preview || valid.length === 0) return;
+        setIsImporting(true);
+        try {
+            for (const category of preview.newCategories) await database.saveCategory(category);
+            const saved: Product[] = [];
+            const failed: string[] = [];
+            for (const row of valid) {
+                try {
+                    await database.saveProduct(row.product!);
+                    saved.push(row.product!);
+                } catch (err: any) {
+                    failed.push(`Row ${row.rowNumber}: ${err?.message || 'save failed'}`);
+                }
+            }
+            if (preview.newCategories.length) setCategories(prev => [...prev, ...preview.newCategories]);
+            const savedById = new Map(saved.map(p => [p.id, p]));
+            setProducts(prev => [...prev.map(p => savedById.get(p.id) || p), ...saved.filter(p => !prev.some(existing => existing.id === p.id))]);
+            if (failed.length) {
+                console.error("Import rows failed", failed);
+                showToast(`Imported ${saved.length} products; ${failed.length} failed (${failed[0]}).`, 'error');
+            } else {
+                showToast(`Imported ${saved.length} products.`);
+            }
+            onClose();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const setColumn = (field: ImportField, column: number) => setMapping(prev => prev && ({ ...prev, [field]: column }));
+
+    const rowsShown = (preview?.rows || []).filter(row => !showErrorsOnly || !row.product);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-surface p-6 rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-on-surface">Import Products{fileName && <span className="text-on-surface/60 font-normal text-base"> · {fileName}</span>}</h2>
+                    <button onClick={onClose} className="text-on-surface hover:text-primary text-2xl">&times;</button>
+                </div>
+
+                <div className="flex items-center gap-4 mb-4">
+                    <button onClick={() => fileInputRef.current?.click()} className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">
+                        {grid.length ? 'Choose Another File' : 'Choose CSV or Excel File'}
+                    </button>
+                    <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.xlsx,.xls" className="hidden" />
+                    <p className="text-sm text-on-surface/70">Rows update the product with the same ID or barcode and create the rest. Blank cells leave a product's value unchanged.</p>
+                </div>
+
+                {mapping && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 mb-4">
+                        {IMPORT_FIELDS.map(field => (
+                            <label key={field.key} className="text-xs text-on-surface/70">
+                                {field.label}
+                                <select
+                                    value={mapping[field.key]}
+                                    onChange={e => setColumn(field.key, parseInt(e.target.value, 10))}
+                                    className={`w-full p-1 mt-1 bg-background border rounded text-sm text-on-surface ${mapping[field.key] >= 0 ? 'border-primary/50' : 'border-on-surface/20'}`}
+                                >
+                                    <option value={-1}>— skip —</option>
+                                    {headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {preview && (
+                    <>
+                        <div className="flex items-center gap-4 mb-2 text-sm">
+                            <span className="text-green-500 font-semibold">{creates} new</span>
+                            <span className="text-primary font-semibold">{valid.length - creates} updates</span>
+                            <span className={`font-semibold ${invalidCount ? 'text-red-500' : 'text-on-surface/50'}`}>{invalidCount} with errors (skipped)</span>
+                            {preview.newCategories.length > 0 && <span className="text-on-surface/70">{preview.newCategories.length} new categories</span>}
+                            <label className="ml-auto flex items-center gap-2 text-on-surface cursor-pointer">
+                                <input type="checkbox" checked={showErrorsOnly} onChange={e => setShowErrorsOnly(e.target.checked)} className="h-4 w-4" />
+                                Errors only
+                            </label>
+                        </div>
+                        <div className="overflow-auto flex-1 border border-on-surface/20 rounded">
+                            <table className="w-full text-left text-sm">
+                                <thead className="sticky top-0 bg-surface border-b border-on-surface/20">
+                                    <tr>
+                                        <th className="p-2 text-on-surface">Row</th>
+                                        <th className="p-2 text-on-surface">Action</th>
+                                        <th className="p-2 text-on-surface">Product</th>
+                                        <th className="p-2 text-on-surface text-right">Price</th>
+                                        <th className="p-2 text-on-surface text-right">Stock</th>
+                                        <th className="p-2 text-on-surface">Expiry</th>
+                                        <th className="p-2 text-on-surface">Problems</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rowsShown.map(row => (
+                                        <tr key={row.rowNumber} className={`border-b border-on-surface/10 ${row.product ? '' : 'bg-red-500/10'}`}>
+                                            <td className="p-2 text-on-surface/60">{row.rowNumber}</td>
+                                            <td className="p-2">
+                                                {!row.product
+                                                    ? <span className="px-2 py-0.5 rounded text-xs font-bold bg-red-500/20 text-red-500">ERROR</span>
+                                                    : row.action === 'create'
+                                                        ? <span className="px-2 py-0.5 rounded text-xs font-bold bg-green-500/20 text-green-500">NEW</span>
+                                                        : <span className="px-2 py-0.5 rounded text-xs font-bold bg-primary/20 text-primary">UPDATE</span>}
+                                            </td>
+                                            <td className="p-2 text-on-surface">{row.product ? <>{row.product.name} <span className="text-on-surface/60">({row.product.brand})</span></> : '—'}</td>
+                                            <td className="p-2 text-on-surface text-right">{row.product ? `₹${row.product.price.toFixed(2)}` : ''}</td>
+                                            <td className="p-2 text-on-surface text-right">{row.product?.stock ?? ''}</td>
+                                            <td className="p-2 text-on-surface">{row.product?.expireDate}</td>
+                                            <td className="p-2 text-red-500 text-xs">{row.errors.join(' ')}</td>
+                                        </tr>
+                                    ))}
+                                    {rowsShown.length === 0 && (
+                                        <tr><td colSpan={7} className="p-6 text-center text-on-surface/50">No rows to show.</td></tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-end gap-4 pt-4">
+                    <button onClick={onClose} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
+                    <button
+                        onClick={handleImport}
+                        disabled={isImporting || valid.length === 0}
+                        className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isImporting ? 'Importing...' : `Import ${valid.length} Product${valid.length === 1 ? '' : 's'}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProductImportModal;
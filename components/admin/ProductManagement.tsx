@@ -1,22 +1,36 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { Product, StockLogEntry } from '../../types';
+import { Product, StockLogEntry, Batch, Supplier, UnitOfMeasure, Category, PriceListId, ScheduledPrice } from '../../types';
 import database from '../../services/database';
+import ProductImportModal, { exportCatalog } from './ProductImport';
+import { GST_SLABS } from '../../services/gst';
+import { createStockLogEntry } from '../../services/ledger';
+import { UNITS, UNIT_LABELS, isWeighed, formatQuantity, unitOf } from '../../services/units';
+import { BARCODE_LABELS, barcodeConflicts, barcodeError, barcodeKey, barcodeType } from '../../services/barcodes';
+import { categoryTree, categoryPath, descendantIds, effectiveCategoryId, filterByCategory, variantLabel, variantsOf } from '../../services/catalog';
+import { PRICE_LISTS, activateDuePrices, listPrice, priceListLabel, upcomingPrices, withListPrice, withPriceHistory } from '../../services/pricing';
+import { can } from '../../services/permissions';
+import { isExpired, fefoOrder, batchedQuantity, expiredQuantity, receiveBatch, trimBatches, withBatches, todayDate } from '../../services/batches';
+import { locationQuantity, stockLocations } from '../../services/transfers';
 
 interface StockHistoryModalProps {
     product: Product;
     onClose: () => void;
 }
 
-const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, onClose }) => {
+// Who made a logged change, as the history tables show it
+const useUsername = () => {
     const { employees, currentUser } = useAppContext();
-    
-    const getUsername = (userId: string) => {
+    return (userId: string) => {
         if (currentUser && currentUser.id === userId) return `${currentUser.username} (You)`;
         if (userId.includes('admin')) return 'Administrator';
         const emp = employees.find(e => e.id === userId);
         return emp ? emp.username : userId;
     };
+};
+
+const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, onClose }) => {
+    const getUsername = useUsername();
 
     const history = (product.stockHistory || []).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
@@ -71,23 +85,432 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, onClose
     );
 };
 
+interface BatchesModalProps {
+    product: Product;
+    onSave: (product: Product) => void;
+    onClose: () => void;
+}
+
+const BatchesModal: React.FC<BatchesModalProps> = ({ product, onSave, onClose }) => {
+    const { currentUser } = useAppContext();
+    const [form, setForm] = useState({ batchNumber: '', mfgDate: '', expiryDate: '', quantity: '', costPrice: product.costPrice?.toString() || '' });
+    const today = todayDate();
+    const batches = fefoOrder(product.batches || []);
+    const untracked = product.stock - batchedQuantity(product);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const quantity = parseInt(form.quantity, 10);
+        if (!(quantity > 0)) return;
+        const batch: Batch = {
+            id: `batch_${Date.now()}`,
+            batchNumber: form.batchNumber.trim(),
+            mfgDate: form.mfgDate || undefined,
+            expiryDate: form.expiryDate,
+            quantity,
+            costPrice: form.costPrice === '' ? undefined : parseFloat(form.costPrice),
+            receivedAt: new Date().toISOString()
+        };
+        const logEntry = createStockLogEntry(product.stock, quantity, 'Restock', currentUser?.id || 'unknown', batch.receivedAt, `Batch ${batch.batchNumber}`);
+        onSave({
+            ...withBatches(product, receiveBatch(product.batches || [], batch)),
+            stock: logEntry.newStock,
+            stockHistory: [...(product.stockHistory || []), logEntry]
+        });
+        setForm({ batchNumber: '', mfgDate: '', expiryDate: '', quantity: '', costPrice: form.costPrice });
+    };
+
+    const inputClass = "w-full p-2 bg-background border border-on-surface/20 rounded-md text-on-surface text-sm";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-surface p-6 rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-on-surface">Batches: {product.name}</h2>
+                    <button onClick={onClose} className="text-on-surface hover:text-primary text-2xl">&times;</button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    <table className="w-full text-left">
+                        <thead className="sticky top-0 bg-surface border-b border-on-surface/20">
+                            <tr>
+                                <th className="p-3 text-on-surface text-sm">Batch</th>
+                                <th className="p-3 text-on-surface text-sm">MFG</th>
+                                <th className="p-3 text-on-surface text-sm">Expiry</th>
+                                <th className="p-3 text-on-surface text-sm text-right">Qty</th>
+                                <th className="p-3 text-on-surface text-sm text-right">Cost</th>
+                                <th className="p-3 text-on-surface text-sm">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {batches.map((batch, i) => (
+                                <tr key={batch.id} className={`border-b border-on-surface/10 ${isExpired(batch, today) ? 'bg-red-500/10' : ''}`}>
+                                    <td className="p-3 text-on-surface text-sm font-mono">{batch.batchNumber}{batch.reference && <span className="block text-xs text-on-surface/50">{batch.reference}</span>}</td>
+                                    <td className="p-3 text-on-surface text-sm">{batch.mfgDate || '—'}</td>
+                                    <td className="p-3 text-on-surface text-sm">{batch.expiryDate}</td>
+                                    <td className="p-3 text-on-surface text-sm text-right font-bold">{batch.quantity}</td>
+                                    <td className="p-3 text-on-surface text-sm text-right">{batch.costPrice !== undefined ? `₹${batch.costPrice.toFixed(2)}` : '—'}</td>
+                                    <td className="p-3 text-sm">
+                                        {isExpired(batch, today)
+                                            ? <span className="px-2 py-1 rounded text-xs font-bold bg-red-500/20 text-red-500">EXPIRED · BLOCKED</span>
+                                            : i === batches.findIndex(b => !isExpired(b, today))
+                                                ? <span className="px-2 py-1 rounded text-xs font-bold bg-green-500/20 text-green-500">SELLING NEXT</span>
+                                                : <span className="text-on-surface/60 text-xs">In stock</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                            {untracked !== 0 && (
+                                <tr className="border-b border-on-surface/10">
+                                    <td className="p-3 text-on-surface/60 text-sm italic" colSpan={3}>Untracked (no batch recorded)</td>
+                                    <td className="p-3 text-on-surface text-sm text-right font-bold">{untracked}</td>
+                                    <td colSpan={2}></td>
+                                </tr>
+                            )}
+                            {batches.length === 0 && untracked === 0 && (
+                                <tr><td colSpan={6} className="p-6 text-center text-on-surface/50">No stock.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <form onSubmit={handleAdd} className="mt-4 pt-4 border-t border-on-surface/20 grid grid-cols-6 gap-2 items-end">
+                    <input name="batchNumber" value={form.batchNumber} onChange={handleChange} placeholder="Batch no." className={inputClass} required />
+                    <div><label className="text-xs text-on-surface/70">MFG</label><input name="mfgDate" type="date" value={form.mfgDate} onChange={handleChange} className={inputClass} /></div>
+                    <div><label className="text-xs text-on-surface/70">Expiry</label><input name="expiryDate" type="date" value={form.expiryDate} onChange={handleChange} className={inputClass} required /></div>
+                    <input name="quantity" type="number" min={1} value={form.quantity} onChange={handleChange} placeholder="Qty" className={inputClass} required />
+                    <input name="costPrice" type="number" step="0.01" min={0} value={form.costPrice} onChange={handleChange} placeholder="Cost" className={inputClass} />
+                    <button type="submit" className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition text-sm">Add Batch</button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+
+interface PricesModalProps {
+    product: Product;
+    onSave: (product: Product) => void;
+    onClose: () => void;
+}
+
+const formatPrice = (price: number | null) => price === null ? 'retail' : `₹${price.toFixed(2)}`;
+
+const PricesModal: React.FC<PricesModalProps> = ({ product, onSave, onClose }) => {
+    const { currentUser, role, showToast } = useAppContext();
+    // Roles without the prices permission (e.g. a store manager) only see the lists and history
+    const canChangePrices = can(role, 'prices');
+    const getUsername = useUsername();
+    const userId = currentUser?.id || 'unknown';
+    const today = todayDate();
+    const [listForm, setListForm] = useState({
+        wholesale: product.listPrices?.wholesale?.toString() || '',
+        member: product.listPrices?.member?.toString() || ''
+    });
+    const [scheduleForm, setScheduleForm] = useState({ effectiveFrom: '', priceList: 'retail' as PriceListId, price: '' });
+    const upcoming = upcomingPrices(product);
+    const history = [...(product.priceHistory || [])].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    const handleSaveLists = (e: React.FormEvent) => {
+        e.preventDefault();
+        const updated = (['wholesale', 'member'] as const).reduce(
+            (current, list) => withListPrice(current, list, listForm[list] === '' ? null : parseFloat(listForm[list])),
+            product
+        );
+        onSave(withPriceHistory(product, updated, 'Manual Update', userId));
+    };
+
+    const handleSchedule = (e: React.FormEvent) => {
+        e.preventDefault();
+        const price = parseFloat(scheduleForm.price);
+        if (!(price > 0)) return;
+        if (upcoming.some(s => s.priceList === scheduleForm.priceList && s.effectiveFrom === scheduleForm.effectiveFrom)) {
+            showToast(`A ${priceListLabel(scheduleForm.priceList).toLowerCase()} price is already scheduled for ${scheduleForm.effectiveFrom}.`, 'error');
+            return;
+        }
+        const scheduled: ScheduledPrice = { id: `sched_${Date.now()}`, effectiveFrom: scheduleForm.effectiveFrom, priceList: scheduleForm.priceList, price, userId };
+        // A change dated today takes effect straight away
+        onSave(activateDuePrices({ ...product, scheduledPrices: [...upcoming, scheduled] }, today));
+        setScheduleForm(prev => ({ ...prev, effectiveFrom: '', price: '' }));
+    };
+
+    const handleCancelScheduled = (id: string) => {
+        const remaining = upcoming.filter(s => s.id !== id);
+        onSave({ ...product, scheduledPrices: remaining.length ? remaining : undefined });
+    };
+
+    const inputClass = "w-full p-2 bg-background border border-on-surface/20 rounded-md text-on-surface text-sm";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-surface p-6 rounded-lg shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-on-surface">Prices: {product.name}</h2>
+                    <button onClick={onClose} className="text-on-surface hover:text-primary text-2xl">&times;</button>
+                </div>
+
+                <div className="overflow-y-auto flex-1 space-y-6">
+                    <form onSubmit={handleSaveLists} className="grid grid-cols-4 gap-2 items-end">
+                        <div>
+                            <label className="text-xs text-on-surface/70">Retail</label>
+                            <p className="p-2 text-on-surface font-bold">₹{product.price.toFixed(2)}</p>
+                        </div>
+                        {(['wholesale', 'member'] as const).map(list => (
+                            <div key={list}>
+                                <label className="text-xs text-on-surface/70">{priceListLabel(list)}</label>
+                                <input
+                                    type="number" step="0.01" min={0}
+                                    value={listForm[list]}
+                                    onChange={e => setListForm(prev => ({ ...prev, [list]: e.target.value }))}
+                                    placeholder={`Retail (${product.price.toFixed(2)})`}
+                                    className={inputClass}
+                                    disabled={!canChangePrices}
+                                />
+                            </div>
+                        ))}
+                        {canChangePrices && <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition text-sm">Save List Prices</button>}
+                    </form>
+
+                    <div>
+                        <h3 className="font-semibold text-on-surface mb-2">Scheduled Changes</h3>
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-on-surface/5">
+                                <tr>
+                                    <th className="p-2 text-on-surface">From</th>
+                                    <th className="p-2 text-on-surface">List</th>
+                                    <th className="p-2 text-on-surface text-right">Now</th>
+                                    <th className="p-2 text-on-surface text-right">New Price</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {upcoming.map(s => (
+                                    <tr key={s.id} className="border-b border-on-surface/10">
+                                        <td className="p-2 text-on-surface">{s.effectiveFrom}</td>
+                                        <td className="p-2 text-on-surface">{priceListLabel(s.priceList)}</td>
+                                        <td className="p-2 text-on-surface/60 text-right">₹{listPrice(product, s.priceList).toFixed(2)}</td>
+                                        <td className="p-2 text-on-surface text-right font-bold">₹{s.price.toFixed(2)}</td>
+                                        <td className="p-2 text-right">{canChangePrices && <button onClick={() => handleCancelScheduled(s.id)} className="text-xs text-red-500 hover:underline">Cancel</button>}</td>
+                                    </tr>
+                                ))}
+                                {upcoming.length === 0 && (
+                                    <tr><td colSpan={5} className="p-4 text-center text-on-surface/50">Nothing scheduled.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                        {canChangePrices && <form onSubmit={handleSchedule} className="mt-2 grid grid-cols-4 gap-2 items-end">
+                            <div><label className="text-xs text-on-surface/70">Effective from</label><input type="date" min={today} value={scheduleForm.effectiveFrom} onChange={e => setScheduleForm(prev => ({ ...prev, effectiveFrom: e.target.value }))} className={inputClass} required /></div>
+                            <div>
+                                <label className="text-xs text-on-surface/70">List</label>
+                                <select value={scheduleForm.priceList} onChange={e => setScheduleForm(prev => ({ ...prev, priceList: e.target.value as PriceListId }))} className={inputClass}>
+                                    {PRICE_LISTS.map(list => <option key={list.id} value={list.id}>{list.label}</option>)}
+                                </select>
+                            </div>
+                            <input type="number" step="0.01" min={0.01} value={scheduleForm.price} onChange={e => setScheduleForm(prev => ({ ...prev, price: e.target.value }))} placeholder="New price" className={inputClass} required />
+                            <button type="submit" className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition text-sm">Schedule</button>
+                        </form>}
+                    </div>
+
+                    <div>
+                        <h3 className="font-semibold text-on-surface mb-2">History</h3>
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-on-surface/5">
+                                <tr>
+                                    <th className="p-2 text-on-surface">Date</th>
+                                    <th className="p-2 text-on-surface">List</th>
+                                    <th className="p-2 text-on-surface text-right">Change</th>
+                                    <th className="p-2 text-on-surface">User</th>
+                                    <th className="p-2 text-on-surface">Reason</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.map(change => (
+                                    <tr key={change.id} className="border-b border-on-surface/10">
+                                        <td className="p-2 text-on-surface">{new Date(change.date).toLocaleString()}</td>
+                                        <td className="p-2 text-on-surface">{priceListLabel(change.priceList)}</td>
+                                        <td className="p-2 text-on-surface text-right">
+                                            <span className="text-on-surface/60">{change.previousPrice === null && change.reason === 'Initial Price' ? '' : `${formatPrice(change.previousPrice)} → `}</span>
+                                            <span className="font-bold">{formatPrice(change.newPrice)}</span>
+                                        </td>
+                                        <td className="p-2 text-on-surface">{getUsername(change.userId)}</td>
+                                        <td className="p-2 text-on-surface/80 italic">{change.reason}</td>
+                                    </tr>
+                                ))}
+                                {history.length === 0 && (
+                                    <tr><td colSpan={5} className="p-4 text-center text-on-surface/50">No price changes recorded.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+const CategoriesModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { categories, setCategories, products, showToast } = useAppContext();
+    const [form, setForm] = useState({ name: '', parentId: '' });
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const tree = useMemo(() => categoryTree(categories), [categories]);
+
+    const productCount = (categoryId: string) => filterByCategory(products, categoryId, categories).length;
+
+    const save = async (category: Category) => {
+        await database.saveCategory(category);
+        setCategories(prev => [...prev.filter(c => c.id !== category.id), category]);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = form.name.trim();
+        if (!name) return;
+        if (categories.some(c => c.name.toLowerCase() === name.toLowerCase() && (c.parentId || '') === form.parentId)) {
+            showToast(`${name} already exists there.`, 'error');
+            return;
+        }
+        await save({ id: `cat_${Date.now()}`, name, parentId: form.parentId || undefined });
+        setForm({ name: '', parentId: form.parentId });
+    };
+
+    const handleRename = async () => {
+        const category = categories.find(c => c.id === renaming?.id);
+        if (category && renaming!.name.trim()) await save({ ...category, name: renaming!.name.trim() });
+        setRenaming(null);
+    };
+
+    const handleMove = async (category: Category, parentId: string) => {
+        // A category can't move under itself or one of its own subcategories
+        if (parentId && descendantIds(category.id, categories).has(parentId)) {
+            showToast("A category can't go inside its own subcategory.", 'error');
+            return;
+        }
+        await save({ ...category, parentId: parentId || undefined });
+    };
+
+    const handleDelete = async (category: Category) => {
+        if (categories.some(c => c.parentId === category.id) || products.some(p => p.categoryId === category.id)) {
+            showToast(`${category.name} still has subcategories or products. Move them first.`, 'error');
+            return;
+        }
+        await database.deleteCategory(category.id);
+        setCategories(prev => prev.filter(c => c.id !== category.id));
+    };
+
+    const inputClass = "w-full p-2 bg-background border border-on-surface/20 rounded-md text-on-surface text-sm";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-surface p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-on-surface">Categories</h2>
+                    <button onClick={onClose} className="text-on-surface hover:text-primary text-2xl">&times;</button>
+                </div>
+
+                <ul className="overflow-y-auto flex-1 divide-y divide-on-surface/10">
+                    {tree.map(({ category, depth }) => (
+                        <li key={category.id} className="flex items-center gap-3 py-2 text-on-surface" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                            {renaming?.id === category.id ? (
+                                <input
+                                    autoFocus
+                                    value={renaming.name}
+                                    onChange={e => setRenaming({ id: category.id, name: e.target.value })}
+                                    onBlur={handleRename}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleRename(); }}
+                                    className={`${inputClass} flex-1`}
+                                />
+                            ) : (
+                                <button onClick={() => setRenaming({ id: category.id, name: category.name })} className="flex-1 text-left hover:text-primary" title="Rename">
+                                    {category.name} <span className="text-xs text-on-surface/50">({productCount(category.id)})</span>
+                                </button>
+                            )}
+                            <select value={category.parentId || ''} onChange={e => handleMove(category, e.target.value)} className="p-1 bg-background border border-on-surface/20 rounded text-xs text-on-surface" title="Parent category">
+                                <option value="">Top level</option>
+                                {tree.filter(node => node.category.id !== category.id).map(node => (
+                                    <option key={node.category.id} value={node.category.id}>{'\u00A0\u00A0'.repeat(node.depth)}{node.category.name}</option>
+                                ))}
+                            </select>
+                            <button onClick={() => handleDelete(category)} className="text-on-surface/60 hover:text-red-500 text-sm">Remove</button>
+                        </li>
+                    ))}
+                    {tree.length === 0 && <li className="py-6 text-center text-on-surface/50">No categories yet.</li>}
+                </ul>
+
+                <form onSubmit={handleAdd} className="mt-4 pt-4 border-t border-on-surface/20 flex gap-2">
+                    <input value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="New category" className={inputClass} required />
+                    <select value={form.parentId} onChange={e => setForm(prev => ({ ...prev, parentId: e.target.value }))} className={inputClass}>
+                        <option value="">Top level</option>
+                        {tree.map(({ category, depth }) => <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>)}
+                    </select>
+                    <button type="submit" className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition text-sm whitespace-nowrap">Add</button>
+                </form>
+            </div>
+        </div>
+    );
+};
 
 interface ProductFormProps {
     product: Product | null;
+    suppliers: Supplier[];
     onSave: (product: Product) => void;
     onCancel: () => void;
 }
 
-const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel }) => {
-    const { currentUser } = useAppContext();
+const ProductForm: React.FC<ProductFormProps> = ({ product, suppliers, onSave, onCancel }) => {
+    const { currentUser, role, products, categories, showToast } = useAppContext();
     const [formData, setFormData] = useState<Omit<Product, 'id' | 'stockHistory'>>({
         name: product?.name || '',
         brand: product?.brand || '',
         price: product?.price || 0,
+        unit: product?.unit || 'pcs',
+        pluCode: product?.pluCode || '',
+        barcodes: product?.barcodes || [],
+        categoryId: product?.categoryId,
+        parentId: product?.parentId,
+        variant: product?.variant,
         expireDate: product?.expireDate || '',
         stock: product?.stock || 0,
+        hsnCode: product?.hsnCode || '',
+        gstRate: product?.gstRate,
+        costPrice: product?.costPrice,
+        reorderLevel: product?.reorderLevel,
+        reorderQuantity: product?.reorderQuantity,
+        preferredSupplierId: product?.preferredSupplierId,
+        shelf: product?.shelf || '',
     });
+    const setOptionalNumber = (field: 'reorderLevel' | 'reorderQuantity') => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setFormData(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : parseInt(e.target.value, 10) }));
     const [stockReason, setStockReason] = useState('');
+    const [newBarcode, setNewBarcode] = useState('');
+
+    const handleAddBarcode = () => {
+        const code = newBarcode.trim();
+        if (!code) return;
+        const error = barcodeError(code);
+        if (error) {
+            showToast(error, 'error');
+            return;
+        }
+        const [conflict] = barcodeConflicts({ id: product?.id || '', barcodes: [...(formData.barcodes || []), code] }, products);
+        if (conflict) {
+            showToast(conflict.holder ? `${conflict.code} is already on ${conflict.holder.name}.` : `${conflict.code} is already listed.`, 'error');
+            return;
+        }
+        setFormData(prev => ({ ...prev, barcodes: [...(prev.barcodes || []), code] }));
+        setNewBarcode('');
+    };
+
+    // Only stand-alone products can have variants, so the family is one level deep
+    const parentOptions = useMemo(() => products.filter(p => !p.parentId && p.id !== product?.id), [products, product]);
+    const hasVariants = !!product && variantsOf(product.id, products).length > 0;
+    const parent = products.find(p => p.id === formData.parentId);
+
+    const setVariantField = (field: 'size' | 'flavour') => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setFormData(prev => ({ ...prev, variant: { ...prev.variant, [field]: e.target.value || undefined } }));
+
+    const handleRemoveBarcode = (code: string) => setFormData(prev => ({ ...prev, barcodes: (prev.barcodes || []).filter(c => c !== code) }));
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value, type } = e.target;
@@ -96,7 +519,22 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (formData.pluCode && products.some(p => p.id !== product?.id && p.pluCode === formData.pluCode)) {
+            showToast(`PLU ${formData.pluCode} is already used by another product.`, 'error');
+            return;
+        }
+        const [conflict] = barcodeConflicts({ id: product?.id || '', barcodes: formData.barcodes }, products);
+        if (conflict) {
+            showToast(`Barcode ${conflict.code} is already on ${conflict.holder?.name || 'this product'}.`, 'error');
+            return;
+        }
         
+        const variant = formData.parentId && (formData.variant?.size || formData.variant?.flavour) ? formData.variant : undefined;
+        if (formData.parentId && !variant) {
+            showToast('Give the variant a size or flavour.', 'error');
+            return;
+        }
+
         const productId = product?.id || `prod_${Date.now()}`;
         const initialStock = product?.stock || 0;
         const stockDiff = formData.stock - initialStock;
@@ -117,13 +555,21 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
             updatedHistory = [...updatedHistory, logEntry];
         }
 
-        const newProduct: Product = {
+        let newProduct: Product = {
+            ...product,
             ...formData,
+            parentId: formData.parentId || undefined,
+            variant,
+            shelf: formData.shelf?.trim().toUpperCase() || undefined,
             id: productId,
             stockHistory: updatedHistory
         };
+        // A manual cut below what the batches hold comes out of the batches too
+        if (product?.batches?.length) {
+            newProduct = withBatches(newProduct, trimBatches(product.batches, formData.stock));
+        }
         
-        onSave(newProduct);
+        onSave(withPriceHistory(product, newProduct, 'Manual Update', currentUser?.id || 'unknown'));
     };
     
     const showStockReasonInput = product && formData.stock !== product.stock;
@@ -136,8 +582,72 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
                     <input name="name" value={formData.name} onChange={handleChange} placeholder="Product Name" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
                     <input name="brand" value={formData.brand} onChange={handleChange} placeholder="Brand" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
                     <div className="flex gap-4">
-                        <input name="price" type="number" step="0.01" value={formData.price} onChange={handleChange} placeholder="Price" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
-                        <input name="stock" type="number" value={formData.stock} onChange={handleChange} placeholder="Stock" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
+                        <select
+                            value={formData.categoryId || ''}
+                            onChange={e => setFormData(prev => ({ ...prev, categoryId: e.target.value || undefined }))}
+                            className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        >
+                            <option value="">{parent?.categoryId ? `Category: as ${parent.name}` : 'Category: none'}</option>
+                            {categoryTree(categories).map(({ category, depth }) => (
+                                <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={formData.parentId || ''}
+                            onChange={e => setFormData(prev => ({ ...prev, parentId: e.target.value || undefined }))}
+                            disabled={hasVariants}
+                            title={hasVariants ? 'This product has variants of its own' : 'Make this a size or flavour of another product'}
+                            className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface disabled:opacity-50"
+                        >
+                            <option value="">Variant of: none</option>
+                            {parentOptions.map(p => <option key={p.id} value={p.id}>{p.name} ({p.brand})</option>)}
+                        </select>
+                    </div>
+                    {formData.parentId && (
+                        <div className="flex gap-4">
+                            <input value={formData.variant?.size || ''} onChange={setVariantField('size')} placeholder="Size, e.g. 1L" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                            <input value={formData.variant?.flavour || ''} onChange={setVariantField('flavour')} placeholder="Flavour" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        </div>
+                    )}
+                    <div>
+                        <div className="flex gap-2">
+                            <input
+                                value={newBarcode}
+                                onChange={e => setNewBarcode(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddBarcode(); } }}
+                                placeholder="Scan or type a barcode"
+                                className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface font-mono"
+                            />
+                            <button type="button" onClick={handleAddBarcode} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Add</button>
+                        </div>
+                        {(formData.barcodes || []).length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {(formData.barcodes || []).map((code, i) => (
+                                    <span key={code} className="inline-flex items-center gap-2 px-2 py-1 rounded bg-on-surface/10 text-on-surface text-xs">
+                                        <span className="font-mono">{code}</span>
+                                        <span className="text-on-surface/60">{BARCODE_LABELS[barcodeType(code)]}{i === 0 && ' · on labels'}</span>
+                                        <button type="button" onClick={() => handleRemoveBarcode(code)} className="text-on-surface/60 hover:text-red-500">✕</button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex gap-4">
+                        <select
+                            value={formData.unit || 'pcs'}
+                            onChange={e => setFormData(prev => ({ ...prev, unit: e.target.value as UnitOfMeasure }))}
+                            className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        >
+                            {UNITS.map(unit => <option key={unit} value={unit}>Sold by: {UNIT_LABELS[unit]}</option>)}
+                        </select>
+                        {isWeighed(formData) && (
+                            <input name="pluCode" value={formData.pluCode} onChange={handleChange} placeholder="Scale PLU" pattern="\d{5}" title="5-digit item code set on the weighing scale" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        )}
+                    </div>
+                    <div className="flex gap-4">
+                        <input name="price" type="number" step="0.01" value={formData.price} onChange={handleChange} placeholder={isWeighed(formData) ? `Price per ${formData.unit}` : 'Price'} title={isWeighed(formData) ? `Price per ${formData.unit}` : 'Price'} className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required disabled={!!product && !can(role, 'prices')} />
+                        <input type="number" step="0.01" min={0} value={formData.costPrice ?? ''} onChange={e => setFormData(prev => ({ ...prev, costPrice: e.target.value === '' ? undefined : parseFloat(e.target.value) }))} placeholder="Cost" title="Last purchase cost" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <input name="stock" type="number" step={isWeighed(formData) ? 'any' : 1} value={formData.stock} onChange={handleChange} placeholder="Stock" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
                     </div>
                     {showStockReasonInput && (
                         <div className="animate-fade-in-down">
@@ -151,7 +661,35 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
                             />
                         </div>
                     )}
-                    <input name="expireDate" type="date" value={formData.expireDate} onChange={handleChange} placeholder="Expiry Date" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
+                    {product?.batches?.length ? (
+                        <p className="text-xs text-on-surface/70">Expiry follows the batches (next: {product.expireDate}). Add stock with a new expiry from the Batches view.</p>
+                    ) : (
+                        <input name="expireDate" type="date" value={formData.expireDate} onChange={handleChange} placeholder="Expiry Date" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" required />
+                    )}
+                    <div className="flex gap-4">
+                        <input name="hsnCode" value={formData.hsnCode} onChange={handleChange} placeholder="HSN Code" pattern="\d{4,8}" title="4 to 8 digit HSN code" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <select
+                            value={formData.gstRate ?? ''}
+                            onChange={e => setFormData(prev => ({ ...prev, gstRate: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                            className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                        >
+                            <option value="">GST: Shop default</option>
+                            {GST_SLABS.map(rate => <option key={rate} value={rate}>GST {rate}%</option>)}
+                        </select>
+                    </div>
+                    <div className="flex gap-4">
+                        <input type="number" min={0} value={formData.reorderLevel ?? ''} onChange={setOptionalNumber('reorderLevel')} placeholder="Reorder level" title="Suggest a reorder when stock falls to this. Leave blank to work it out from sales." className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <input type="number" min={0} value={formData.reorderQuantity ?? ''} onChange={setOptionalNumber('reorderQuantity')} placeholder="Reorder qty" title="Minimum quantity per order" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <input name="shelf" value={formData.shelf} onChange={handleChange} placeholder="Shelf" title="Aisle or shelf code, used to scope stocktakes" className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                    </div>
+                    <select
+                        value={formData.preferredSupplierId || ''}
+                        onChange={e => setFormData(prev => ({ ...prev, preferredSupplierId: e.target.value || undefined }))}
+                        className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                    >
+                        <option value="">Preferred supplier: none</option>
+                        {suppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{supplier.name}</option>)}
+                    </select>
                     <div className="flex justify-end gap-4 pt-4">
                         <button type="button" onClick={onCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
                         <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Save</button>
@@ -200,16 +738,31 @@ const Barcode: React.FC<{ value: string; displayValue?: boolean }> = ({ value, d
 
 
 const ProductManagement: React.FC = () => {
-    const { products, setProducts, showToast } = useAppContext();
+    const { products, setProducts, categories, shopDetails, showToast } = useAppContext();
     const [isFormOpen, setIsFormOpen] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
     const [barcodeProduct, setBarcodeProduct] = useState<Product | null>(null);
     const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+    const [batchProduct, setBatchProduct] = useState<Product | null>(null);
+    const [priceProduct, setPriceProduct] = useState<Product | null>(null);
     const [lowStockThreshold, setLowStockThreshold] = useState(10);
     const [searchTerm, setSearchTerm] = useState('');
+    const [categoryFilter, setCategoryFilter] = useState('');
+    const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+    useEffect(() => {
+        database.getSuppliers().then(setSuppliers).catch(err => console.error("Failed to load suppliers", err));
+    }, []);
 
     const handleSaveProduct = async (product: Product) => {
-        await database.saveProduct(product);
+        try {
+            await database.saveProduct(product);
+        } catch (err: any) {
+            showToast(err?.message || 'Failed to save product.', 'error');
+            return;
+        }
         if (editingProduct) {
             setProducts(products.map(p => p.id === product.id ? product : p));
             showToast('Product updated successfully!');
@@ -221,7 +774,26 @@ const ProductManagement: React.FC = () => {
         setEditingProduct(null);
     };
 
+    const handleSaveBatches = async (product: Product) => {
+        await database.saveProduct(product);
+        setProducts(products.map(p => p.id === product.id ? product : p));
+        setBatchProduct(product);
+        showToast('Batch added.');
+    };
+
+    const handleSavePrices = async (product: Product) => {
+        await database.saveProduct(product);
+        setProducts(products.map(p => p.id === product.id ? product : p));
+        setPriceProduct(product);
+        showToast('Prices updated.');
+    };
+
     const handleDeleteProduct = async (productId: string) => {
+        const variants = variantsOf(productId, products);
+        if (variants.length > 0) {
+            showToast(`Delete or detach its ${variants.length} variant(s) first.`, 'error');
+            return;
+        }
         if (window.confirm("Are you sure you want to delete this product?")) {
             await database.deleteProduct(productId);
             setProducts(products.filter(p => p.id !== productId));
@@ -254,16 +826,28 @@ const ProductManagement: React.FC = () => {
     }) : "";
 
     const filteredProducts = useMemo(() => {
+        const inCategory = filterByCategory(products, categoryFilter, categories);
         if (!searchTerm) {
-            return products;
+            return inCategory;
         }
         const lowercasedTerm = searchTerm.toLowerCase();
-        return products.filter(product =>
+        const key = barcodeKey(searchTerm);
+        return inCategory.filter(product =>
             product.name.toLowerCase().includes(lowercasedTerm) ||
             product.brand.toLowerCase().includes(lowercasedTerm) ||
-            product.id.toLowerCase().includes(lowercasedTerm)
+            product.id.toLowerCase().includes(lowercasedTerm) ||
+            (product.barcodes || []).some(code => barcodeKey(code).includes(key))
         );
-    }, [products, searchTerm]);
+    }, [products, categories, categoryFilter, searchTerm]);
+
+    const handleExport = (format: 'csv' | 'xlsx') => {
+        try {
+            exportCatalog(filteredProducts, categories, format);
+            showToast(`Exported ${filteredProducts.length} products.`);
+        } catch (err: any) {
+            showToast(err?.message || 'Export failed.', 'error');
+        }
+    };
 
     return (
         <div>
@@ -275,13 +859,19 @@ const ProductManagement: React.FC = () => {
                         </span>
                         <input
                             type="text"
-                            placeholder="Search by name, brand, ID..."
+                            placeholder="Search by name, brand, ID, barcode..."
                             value={searchTerm}
                             onChange={(e) => setSearchTerm(e.target.value)}
                             className="w-full max-w-sm p-2 pl-10 bg-surface border border-on-surface/20 rounded-md text-on-surface"
                         />
                     </div>
                 </div>
+                <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} className="p-2 bg-surface border border-on-surface/20 rounded-md text-on-surface">
+                    <option value="">All categories</option>
+                    {categoryTree(categories).map(({ category, depth }) => (
+                        <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                    ))}
+                </select>
                 <div className="flex items-center gap-4">
                      <div className="flex items-center gap-2">
                         <label htmlFor="low-stock-threshold" className="text-sm font-medium text-on-surface whitespace-nowrap">Low Stock Alert:</label>
@@ -293,6 +883,14 @@ const ProductManagement: React.FC = () => {
                             className="w-20 p-2 bg-surface border border-on-surface/20 rounded-md text-on-surface"
                         />
                     </div>
+                    <div className="flex rounded-md border border-on-surface/20 overflow-hidden">
+                        <button onClick={() => setIsImportOpen(true)} className="py-2 px-3 bg-surface text-on-surface font-semibold hover:bg-on-surface/10 transition">Import</button>
+                        <button onClick={() => handleExport('csv')} className="py-2 px-3 bg-surface text-on-surface border-l border-on-surface/20 hover:bg-on-surface/10 transition" title="Export the products listed below">CSV</button>
+                        <button onClick={() => handleExport('xlsx')} className="py-2 px-3 bg-surface text-on-surface border-l border-on-surface/20 hover:bg-on-surface/10 transition" title="Export the products listed below">Excel</button>
+                    </div>
+                    <button onClick={() => setIsCategoriesOpen(true)} className="py-2 px-4 bg-surface text-on-surface border border-on-surface/20 font-semibold rounded-md hover:bg-on-surface/10 transition">
+                        Categories
+                    </button>
                     <button onClick={() => { setEditingProduct(null); setIsFormOpen(true); }} className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition flex items-center gap-2">
                         <PlusIcon /> Add Product
                     </button>
@@ -308,27 +906,47 @@ const ProductManagement: React.FC = () => {
                             <th className="p-4 text-on-surface font-semibold">Price</th>
                             <th className="p-4 text-on-surface font-semibold">Stock</th>
                             <th className="p-4 text-on-surface font-semibold">Expiry Date</th>
+                            <th className="p-4 text-on-surface font-semibold">HSN / GST</th>
                             <th className="p-4 text-on-surface font-semibold text-right">Actions</th>
                         </tr>
                     </thead>
                     <tbody>
                         {filteredProducts.map(product => (
                             <tr key={product.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
-                                <td className="p-4 text-on-surface">{product.name}</td>
+                                <td className="p-4 text-on-surface">
+                                    {product.name}
+                                    {variantLabel(product) && <span className="ml-2 px-2 py-0.5 rounded text-xs bg-primary/10 text-primary">{variantLabel(product)}</span>}
+                                    {effectiveCategoryId(product, products) && <span className="block text-xs text-on-surface/60">{categoryPath(effectiveCategoryId(product, products), categories)}</span>}
+                                </td>
                                 <td className="p-4 text-on-surface">{product.brand}</td>
-                                <td className="p-4 text-on-surface">₹{product.price.toFixed(2)}</td>
+                                <td className="p-4 text-on-surface">
+                                    ₹{product.price.toFixed(2)}{isWeighed(product) && <span className="text-xs text-on-surface/60"> /{unitOf(product)}</span>}
+                                    {upcomingPrices(product)[0] && <span className="block text-xs text-on-surface/60">{priceListLabel(upcomingPrices(product)[0].priceList)} ₹{upcomingPrices(product)[0].price.toFixed(2)} from {upcomingPrices(product)[0].effectiveFrom}</span>}
+                                </td>
                                 <td className="p-4 text-on-surface">
                                     <div className="flex items-center gap-2">
-                                        {product.stock}
-                                        {product.stock <= lowStockThreshold && (
+                                        {formatQuantity(product.stock, unitOf(product))}
+                                        {product.stock <= (product.reorderLevel ?? lowStockThreshold) && (
                                             <span title="Low Stock!" className="text-red-500">
                                                 <AlertIcon />
                                             </span>
                                         )}
                                     </div>
+                                    {product.locationStock && (
+                                        <span className="block text-xs text-on-surface/60">
+                                            {stockLocations(shopDetails).filter(l => locationQuantity(product, l.id) > 0).map(l => `${l.name} ${formatQuantity(locationQuantity(product, l.id), unitOf(product))}`).join(' · ')}
+                                        </span>
+                                    )}
                                 </td>
-                                <td className="p-4 text-on-surface">{product.expireDate}</td>
+                                <td className="p-4 text-on-surface">
+                                    {product.expireDate}
+                                    {product.batches?.length ? <span className="block text-xs text-on-surface/60">{product.batches.length} batch{product.batches.length > 1 ? 'es' : ''}</span> : null}
+                                    {expiredQuantity(product) > 0 && <span className="block text-xs font-bold text-red-500">{expiredQuantity(product)} expired</span>}
+                                </td>
+                                <td className="p-4 text-on-surface text-sm">{product.hsnCode || '—'} / {product.gstRate ?? '—'}{product.gstRate !== undefined && '%'}</td>
                                 <td className="p-4 text-right space-x-2">
+                                    <button onClick={() => setBatchProduct(product)} className="p-2 text-on-surface/60 hover:text-secondary transition" title="Batches & Expiry"><LayersIcon /></button>
+                                    <button onClick={() => setPriceProduct(product)} className="p-2 text-on-surface/60 hover:text-secondary transition" title="Price Lists & History"><TagIcon /></button>
                                     <button onClick={() => setHistoryProduct(product)} className="p-2 text-on-surface/60 hover:text-secondary transition" title="View Stock History"><HistoryIcon /></button>
                                     <button onClick={() => setBarcodeProduct(product)} className="p-2 text-on-surface/60 hover:text-primary transition" title={`Generate barcode for ${product.name}`}><BarcodeIcon /></button>
                                     <button onClick={() => handleCopyBarcodeData(product)} className="p-2 text-on-surface/60 hover:text-primary transition" title={`Copy barcode data for ${product.name}`}><ClipboardCopyIcon /></button>
@@ -339,7 +957,7 @@ const ProductManagement: React.FC = () => {
                         ))}
                         {filteredProducts.length === 0 && (
                             <tr>
-                                <td colSpan={6} className="text-center p-8 text-on-surface/50">
+                                <td colSpan={7} className="text-center p-8 text-on-surface/50">
                                     No products found.
                                 </td>
                             </tr>
@@ -348,7 +966,11 @@ const ProductManagement: React.FC = () => {
                 </table>
             </div>
 
-            {isFormOpen && <ProductForm product={editingProduct} onSave={handleSaveProduct} onCancel={() => setIsFormOpen(false)} />}
+            {isImportOpen && <ProductImportModal onClose={() => setIsImportOpen(false)} />}
+
+            {isCategoriesOpen && <CategoriesModal onClose={() => setIsCategoriesOpen(false)} />}
+
+            {isFormOpen && <ProductForm product={editingProduct} suppliers={suppliers} onSave={handleSaveProduct} onCancel={() => setIsFormOpen(false)} />}
             
             {barcodeProduct && (
                 <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={() => setBarcodeProduct(null)}>
@@ -364,6 +986,14 @@ const ProductManagement: React.FC = () => {
             {historyProduct && (
                 <StockHistoryModal product={historyProduct} onClose={() => setHistoryProduct(null)} />
             )}
+
+            {priceProduct && (
+                <PricesModal product={priceProduct} onSave={handleSavePrices} onClose={() => setPriceProduct(null)} />
+            )}
+
+            {batchProduct && (
+                <BatchesModal product={batchProduct} onSave={handleSaveBatches} onClose={() => setBatchProduct(null)} />
+            )}
         </div>
     );
 };
@@ -377,5 +1007,7 @@ const BarcodeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5
 const AlertIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.21 3.03-1.742 3.03H4.42c-1.532 0-2.492-1.696-1.742-3.03l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>;
 const ClipboardCopyIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" /><path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" /></svg>;
 const HistoryIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" /></svg>;
+const TagIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M17.707 9.293a1 1 0 010 1.414l-7 7a1 1 0 01-1.414 0l-7-7A.997.997 0 012 10V5a3 3 0 013-3h5c.256 0 .512.098.707.293l7 7zM5 6a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" /></svg>;
+const LayersIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" /></svg>;
 
 export default ProductManagement;
\ No newline at end of file
@@ -0,0 +1,837 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { Supplier, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, GoodsReceipt, GoodsReceiptLine, SupplierPayment } from '../../types';
+import database from '../../services/database';
+import { invoiceSeries, purchaseOrderSeries, goodsReceiptSeries } from '../../services/invoiceNumbering';
+import { orderTotal, receiptTotal, amountPaid, amountOutstanding, dueDateFor, payablesBySupplier } from '../../services/purchasing';
+import { replenishmentReport, DEFAULT_REPLENISHMENT } from '../../services/replenishment';
+
+type Section = 'orders' | 'replenishment' | 'suppliers' | 'payables';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+    DRAFT: 'bg-on-surface/10 text-on-surface',
+    ORDERED: 'bg-blue-500/20 text-blue-500',
+    PARTIAL: 'bg-orange-500/20 text-orange-500',
+    RECEIVED: 'bg-green-500/20 text-green-500',
+    CANCELLED: 'bg-red-500/20 text-red-500',
+};
+
+const inputClass = "w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface";
+
+// --- Supplier Form ---
+interface SupplierFormProps {
+    supplier: Supplier | null;
+    onSave: (supplier: Supplier) => void;
+    onCancel: () => void;
+}
+
+const SupplierForm: React.FC<SupplierFormProps> = ({ supplier, onSave, onCancel }) => {
+    const [formData, setFormData] = useState<Omit<Supplier, 'id'>>({
+        name: supplier?.name || '',
+        contact: supplier?.contact || '',
+        gstin: supplier?.gstin || '',
+        address: supplier?.address || '',
+        paymentTermsDays: supplier?.paymentTermsDays,
+    });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type } = e.target;
+        setFormData(prev => ({ ...prev, [name]: type === 'number' ? (value === '' ? undefined : parseInt(value, 10)) : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...supplier, ...formData, gstin: formData.gstin?.toUpperCase() || '', id: supplier?.id || `sup_${Date.now()}` });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onCancel}>
+            <div className="bg-surface p-8 rounded-lg shadow-2xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-on-surface mb-6">{supplier ? 'Edit Supplier' : 'Add Supplier'}</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input name="name" value={formData.name} onChange={handleChange} placeholder="Supplier Name" className={inputClass} required />
+                    <input name="contact" value={formData.contact} onChange={handleChange} placeholder="Phone / Email" className={inputClass} />
+                    <input name="gstin" value={formData.gstin} onChange={handleChange} placeholder="GSTIN (Optional)" pattern="\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]" title="15-character GSTIN" className={`${inputClass} uppercase`} />
+                    <input name="address" value={formData.address} onChange={handleChange} placeholder="Address" className={inputClass} />
+                    <div>
+                        <label className="text-xs text-on-surface">Payment terms (days after delivery)</label>
+                        <input name="paymentTermsDays" type="number" min={0} value={formData.paymentTermsDays ?? ''} onChange={handleChange} placeholder="e.g. 30" className={inputClass} />
+                    </div>
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
+                        <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Save</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Purchase Order Form ---
+interface PurchaseOrderFormProps {
+    order: PurchaseOrder | null;
+    suppliers: Supplier[];
+    onSave: (order: PurchaseOrder) => void;
+    onCancel: () => void;
+}
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ order, suppliers, onSave, onCancel }) => {
+    const { products, currentUser, showToast } = useAppContext();
+    const [supplierId, setSupplierId] = useState(order?.supplierId || suppliers[0]?.id || '');
+    const [expectedDate, setExpectedDate] = useState(order?.expectedDate || '');
+    const [notes, setNotes] = useState(order?.notes || '');
+    const [lines, setLines] = useState<PurchaseOrderLine[]>(order?.lines || []);
+    const [productId, setProductId] = useState('');
+
+    const handleAddLine = () => {
+        const product = products.find(p => p.id === productId);
+        if (!product || lines.some(l => l.productId === product.id)) return;
+        setLines(prev => [...prev, { productId: product.id, name: product.name, quantity: 1, costPrice: product.costPrice || 0, received: 0 }]);
+        setProductId('');
+    };
+
+    const updateLine = (index: number, field: 'quantity' | 'costPrice', value: number) => {
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: Math.max(0, value || 0) } : line));
+    };
+
+    const handleSubmit = (status: PurchaseOrderStatus) => {
+        const supplier = suppliers.find(s => s.id === supplierId);
+        if (!supplier) {
+            showToast('Choose a supplier.', 'error');
+            return;
+        }
+        const validLines = lines.filter(l => l.quantity > 0);
+        if (validLines.length === 0) {
+            showToast('Add at least one item.', 'error');
+            return;
+        }
+        onSave({
+            id: order?.id || `po_${Date.now()}`,
+            poNumber: order?.poNumber,
+            supplierId: supplier.id,
+            supplierName: supplier.name,
+            date: order?.date || new Date().toISOString(),
+            expectedDate: expectedDate || undefined,
+            status,
+            lines: validLines,
+            notes: notes.trim() || undefined,
+            createdBy: order?.createdBy || currentUser?.id || 'unknown'
+        });
+    };
+
+    const total = lines.reduce((sum, l) => sum + l.quantity * l.costPrice, 0);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onCancel}>
+            <div className="bg-surface p-8 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-on-surface mb-6">{order?.poNumber ? `Edit ${order.poNumber}` : 'New Purchase Order'}</h2>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <select value={supplierId} onChange={e => setSupplierId(e.target.value)} className={inputClass}>
+                        <option value="">Select supplier</option>
+                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <div>
+                        <input type="date" value={expectedDate} onChange={e => setExpectedDate(e.target.value)} className={inputClass} title="Expected delivery" />
+                    </div>
+                </div>
+
+                <div className="flex gap-2 mb-4">
+                    <select value={productId} onChange={e => setProductId(e.target.value)} className={inputClass}>
+                        <option value="">Add product...</option>
+                        {products.filter(p => !lines.some(l => l.productId === p.id)).map(p => <option key={p.id} value={p.id}>{p.name} ({p.brand}) · stock {p.stock}</option>)}
+                    </select>
+                    <button type="button" onClick={handleAddLine} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition">Add</button>
+                </div>
+
+                <table className="w-full text-left mb-4">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-2 text-on-surface text-sm">Item</th>
+                            <th className="p-2 text-on-surface text-sm w-28">Qty</th>
+                            <th className="p-2 text-on-surface text-sm w-32">Unit Cost (₹)</th>
+                            <th className="p-2 text-on-surface text-sm text-right">Amount</th>
+                            <th className="p-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map((line, i) => (
+                            <tr key={line.productId} className="border-b border-on-surface/20">
+                                <td className="p-2 text-on-surface text-sm">{line.name}{line.received > 0 && <span className="text-xs text-on-surface/60"> ({line.received} received)</span>}</td>
+                                <td className="p-2"><input type="number" min={line.received} value={line.quantity} onChange={e => updateLine(i, 'quantity', parseFloat(e.target.value))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2"><input type="number" step="0.01" min={0} value={line.costPrice} onChange={e => updateLine(i, 'costPrice', parseFloat(e.target.value))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2 text-on-surface text-sm text-right">₹{(line.quantity * line.costPrice).toFixed(2)}</td>
+                                <td className="p-2 text-right">
+                                    {line.received === 0 && <button onClick={() => setLines(prev => prev.filter((_, j) => j !== i))} className="text-on-surface/60 hover:text-red-500">&times;</button>}
+                                </td>
+                            </tr>
+                        ))}
+                        {lines.length === 0 && (
+                            <tr><td colSpan={5} className="p-4 text-center text-on-surface/50 text-sm">No items yet.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+
+                <input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes for the supplier (optional)" className={`${inputClass} mb-4`} />
+
+                <div className="flex justify-between items-center">
+                    <span className="text-xl font-bold text-on-surface">Total: ₹{total.toFixed(2)}</span>
+                    <div className="flex gap-4">
+                        <button type="button" onClick={onCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
+                        {(!order || order.status === 'DRAFT') && (
+                            <button type="button" onClick={() => handleSubmit('DRAFT')} className="py-2 px-4 bg-on-surface/20 text-on-surface rounded-md hover:bg-on-surface/30 transition">Save Draft</button>
+                        )}
+                        <button type="button" onClick={() => handleSubmit(order && order.status !== 'DRAFT' ? order.status : 'ORDERED')} className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">
+                            {order && order.status !== 'DRAFT' ? 'Save' : 'Place Order'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Goods Receipt ---
+interface GoodsReceiptModalProps {
+    order: PurchaseOrder;
+    supplier?: Supplier;
+    onReceive: (receipt: GoodsReceipt) => void;
+    onCancel: () => void;
+}
+
+const GoodsReceiptModal: React.FC<GoodsReceiptModalProps> = ({ order, supplier, onReceive, onCancel }) => {
+    const { currentUser, showToast } = useAppContext();
+    // Default to everything still outstanding at the ordered cost
+    const [lines, setLines] = useState<GoodsReceiptLine[]>(order.lines
+        .filter(l => l.quantity > l.received)
+        .map(l => ({ productId: l.productId, name: l.name, quantity: l.quantity - l.received, costPrice: l.costPrice })));
+    const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+    const pendingFor = (productId: string) => {
+        const line = order.lines.find(l => l.productId === productId);
+        return line ? line.quantity - line.received : 0;
+    };
+
+    const updateLine = (index: number, field: 'quantity' | 'costPrice', value: number) => {
+        setLines(prev => prev.map((line, i) => {
+            if (i !== index) return line;
+            const clean = Math.max(0, value || 0);
+            return { ...line, [field]: field === 'quantity' ? Math.min(clean, pendingFor(line.productId)) : clean };
+        }));
+    };
+
+    const updateBatch = (index: number, field: 'batchNumber' | 'mfgDate' | 'expiryDate', value: string) => {
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: value || undefined } : line));
+    };
+
+    const receivedLines = lines.filter(l => l.quantity > 0);
+    const total = receiptTotal(receivedLines);
+
+    const handleSubmit = () => {
+        if (receivedLines.length === 0) {
+            showToast('Enter the quantities that arrived.', 'error');
+            return;
+        }
+        if (receivedLines.some(l => l.batchNumber && !l.expiryDate)) {
+            showToast('Enter the expiry date for every batch.', 'error');
+            return;
+        }
+        // Keep the time of day so receipts on the same date stay in order
+        const receivedAt = date === new Date().toISOString().split('T')[0] ? new Date().toISOString() : new Date(date).toISOString();
+        onReceive({
+            id: `grn_${Date.now()}`,
+            poId: order.id,
+            poNumber: order.poNumber,
+            supplierId: order.supplierId,
+            supplierName: order.supplierName,
+            date: receivedAt,
+            supplierInvoiceNumber: supplierInvoiceNumber.trim() || undefined,
+            lines: receivedLines,
+            total,
+            dueDate: dueDateFor(supplier, receivedAt),
+            payments: [],
+            receivedBy: currentUser?.id || 'unknown'
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onCancel}>
+            <div className="bg-surface p-8 rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-on-surface mb-1">Receive Goods</h2>
+                <p className="text-sm text-on-surface/70 mb-6">{order.poNumber} · {order.supplierName}</p>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <input value={supplierInvoiceNumber} onChange={e => setSupplierInvoiceNumber(e.target.value)} placeholder="Supplier bill / invoice no." className={inputClass} />
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+                </div>
+
+                <table className="w-full text-left mb-4">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-2 text-on-surface text-sm">Item</th>
+                            <th className="p-2 text-on-surface text-sm text-right">Pending</th>
+                            <th className="p-2 text-on-surface text-sm w-28">Received</th>
+                            <th className="p-2 text-on-surface text-sm w-32">Unit Cost (₹)</th>
+                            <th className="p-2 text-on-surface text-sm w-28">Batch</th>
+                            <th className="p-2 text-on-surface text-sm w-36">MFG</th>
+                            <th className="p-2 text-on-surface text-sm w-36">Expiry</th>
+                            <th className="p-2 text-on-surface text-sm text-right">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map((line, i) => (
+                            <tr key={line.productId} className="border-b border-on-surface/20">
+                                <td className="p-2 text-on-surface text-sm">{line.name}</td>
+                                <td className="p-2 text-on-surface text-sm text-right">{pendingFor(line.productId)}</td>
+                                <td className="p-2"><input type="number" min={0} max={pendingFor(line.productId)} value={line.quantity} onChange={e => updateLine(i, 'quantity', parseFloat(e.target.value))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2"><input type="number" step="0.01" min={0} value={line.costPrice} onChange={e => updateLine(i, 'costPrice', parseFloat(e.target.value))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2"><input value={line.batchNumber || ''} onChange={e => updateBatch(i, 'batchNumber', e.target.value)} placeholder="Lot no." className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2"><input type="date" value={line.mfgDate || ''} onChange={e => updateBatch(i, 'mfgDate', e.target.value)} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2"><input type="date" value={line.expiryDate || ''} onChange={e => updateBatch(i, 'expiryDate', e.target.value)} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" /></td>
+                                <td className="p-2 text-on-surface text-sm text-right">₹{(line.quantity * line.costPrice).toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-xs text-on-surface/60 mb-4">Lines with an expiry date are stocked as a batch and sold earliest-expiry first.</p>
+
+                <div className="flex justify-between items-center">
+                    <span className="text-xl font-bold text-on-surface">Bill Value: ₹{total.toFixed(2)}</span>
+                    <div className="flex gap-4">
+                        <button type="button" onClick={onCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
+                        <button type="button" onClick={handleSubmit} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition">Post GRN</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Supplier Payment ---
+interface PaymentFormProps {
+    receipt: GoodsReceipt;
+    onSave: (payment: SupplierPayment) => void;
+    onCancel: () => void;
+}
+
+const PaymentForm: React.FC<PaymentFormProps> = ({ receipt, onSave, onCancel }) => {
+    const outstanding = amountOutstanding(receipt);
+    const [amount, setAmount] = useState<number>(outstanding);
+    const [method, setMethod] = useState<SupplierPayment['method']>('BANK');
+    const [reference, setReference] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!(amount > 0) || amount > outstanding) return;
+        onSave({ id: `spay_${Date.now()}`, date: new Date().toISOString(), amount, method, reference: reference.trim() || undefined });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onCancel}>
+            <div className="bg-surface p-8 rounded-lg shadow-2xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-on-surface mb-1">Pay Supplier</h2>
+                <p className="text-sm text-on-surface/70 mb-6">{receipt.supplierName} · {receipt.grnNumber} · ₹{outstanding.toFixed(2)} due</p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input type="number" step="0.01" min={0.01} max={outstanding} value={amount} onChange={e => setAmount(parseFloat(e.target.value))} className={inputClass} required />
+                    <select value={method} onChange={e => setMethod(e.target.value as SupplierPayment['method'])} className={inputClass}>
+                        <option value="BANK">Bank Transfer</option>
+                        <option value="UPI">UPI</option>
+                        <option value="CHEQUE">Cheque</option>
+                        <option value="CASH">Cash</option>
+                    </select>
+                    <input value={reference} onChange={e => setReference(e.target.value)} placeholder="UTR / cheque no. (optional)" className={inputClass} />
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Cancel</button>
+                        <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Record Payment</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Replenishment ---
+interface ReplenishmentPanelProps {
+    orders: PurchaseOrder[];
+    suppliers: Supplier[];
+    onCreateDrafts: (drafts: PurchaseOrder[]) => Promise<void>;
+}
+
+const ReplenishmentPanel: React.FC<ReplenishmentPanelProps> = ({ orders, suppliers, onCreateDrafts }) => {
+    const { products, sales, currentUser, showToast } = useAppContext();
+    const [windowDays, setWindowDays] = useState(DEFAULT_REPLENISHMENT.windowDays);
+    const [coverDays, setCoverDays] = useState(DEFAULT_REPLENISHMENT.coverDays);
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [supplierFor, setSupplierFor] = useState<Record<string, string>>({});
+    const [skipped, setSkipped] = useState<Set<string>>(new Set());
+    const [fallbackSupplierId, setFallbackSupplierId] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+
+    const lines = useMemo(
+        () => replenishmentReport(products, sales, orders, { ...DEFAULT_REPLENISHMENT, windowDays, coverDays }),
+        [products, sales, orders, windowDays, coverDays]
+    );
+
+    const quantityOf = (productId: string, suggested: number) => quantities[productId] ?? suggested;
+    const supplierOf = (productId: string, preferred?: string) => supplierFor[productId] || preferred || fallbackSupplierId;
+
+    const selected = lines.filter(line => !skipped.has(line.product.id) && quantityOf(line.product.id, line.suggestedQuantity) > 0);
+
+    const toggle = (productId: string) => setSkipped(prev => {
+        const next = new Set(prev);
+        if (next.has(productId)) next.delete(productId); else next.add(productId);
+        return next;
+    });
+
+    // One draft per supplier, ready to review and place from the Orders list
+    const handleCreate = async () => {
+        if (selected.length === 0) return;
+        const missing = selected.filter(line => !suppliers.some(s => s.id === supplierOf(line.product.id, line.product.preferredSupplierId)));
+        if (missing.length > 0) {
+            showToast(`Choose a supplier for ${missing[0].product.name}${missing.length > 1 ? ` and ${missing.length - 1} more` : ''}.`, 'error');
+            return;
+        }
+        const bySupplier = new Map<string, PurchaseOrderLine[]>();
+        selected.forEach(line => {
+            const supplierId = supplierOf(line.product.id, line.product.preferredSupplierId);
+            bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), {
+                productId: line.product.id,
+                name: line.product.name,
+                quantity: quantityOf(line.product.id, line.suggestedQuantity),
+                costPrice: line.product.costPrice || 0,
+                received: 0
+            }]);
+        });
+        const now = Date.now();
+        const drafts: PurchaseOrder[] = Array.from(bySupplier.entries()).map(([supplierId, orderLines], i) => ({
+            id: `po_${now}_${i}`,
+            supplierId,
+            supplierName: suppliers.find(s => s.id === supplierId)!.name,
+            date: new Date().toISOString(),
+            status: 'DRAFT',
+            lines: orderLines,
+            notes: 'Raised from replenishment suggestions',
+            createdBy: currentUser?.id || 'unknown'
+        }));
+        setIsCreating(true);
+        await onCreateDrafts(drafts);
+        setIsCreating(false);
+        setQuantities({});
+        setSkipped(new Set());
+    };
+
+    return (
+        <>
+            <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+                <div className="flex gap-4 items-end">
+                    <div>
+                        <label className="block text-xs text-on-surface/70 mb-1">Sales history</label>
+                        <select value={windowDays} onChange={e => setWindowDays(parseInt(e.target.value, 10))} className="bg-surface p-2 rounded-md border border-on-surface/20 text-on-surface">
+                            {[14, 30, 60, 90].map(d => <option key={d} value={d}>Last {d} days</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-on-surface/70 mb-1">Order enough for (days)</label>
+                        <input type="number" min={1} value={coverDays} onChange={e => setCoverDays(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-24 bg-surface p-2 rounded-md border border-on-surface/20 text-on-surface" />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-on-surface/70 mb-1">Supplier for items without a preferred one</label>
+                        <select value={fallbackSupplierId} onChange={e => setFallbackSupplierId(e.target.value)} className="bg-surface p-2 rounded-md border border-on-surface/20 text-on-surface">
+                            <option value="">Choose...</option>
+                            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <button onClick={handleCreate} disabled={selected.length === 0 || isCreating} className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition disabled:opacity-50">
+                    {isCreating ? 'Creating...' : `Create Draft PO${selected.length === 1 ? '' : 's'} (${selected.length} items)`}
+                </button>
+            </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-3 w-8"></th>
+                            <th className="p-3 text-on-surface font-semibold">Item</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">Stock</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">On Order</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">Sold</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">Per Day</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">Days Left</th>
+                            <th className="p-3 text-on-surface font-semibold text-right">Reorder At</th>
+                            <th className="p-3 text-on-surface font-semibold w-28">Order Qty</th>
+                            <th className="p-3 text-on-surface font-semibold">Supplier</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map(line => {
+                            const id = line.product.id;
+                            return (
+                                <tr key={id} className={`border-b border-on-surface/20 ${skipped.has(id) ? 'opacity-50' : ''}`}>
+                                    <td className="p-3"><input type="checkbox" checked={!skipped.has(id)} onChange={() => toggle(id)} /></td>
+                                    <td className="p-3 text-on-surface">{line.product.name}<span className="block text-xs text-on-surface/60">{line.product.brand}</span></td>
+                                    <td className={`p-3 text-right font-bold ${line.product.stock <= 0 ? 'text-red-500' : 'text-on-surface'}`}>{line.product.stock}</td>
+                                    <td className="p-3 text-on-surface text-right">{line.onOrder || '—'}</td>
+                                    <td className="p-3 text-on-surface text-right">{line.unitsSold}</td>
+                                    <td className="p-3 text-on-surface text-right">{line.dailyVelocity.toFixed(1)}</td>
+                                    <td className="p-3 text-on-surface text-right">{line.daysOfCover === null ? '—' : Math.floor(line.daysOfCover)}</td>
+                                    <td className="p-3 text-on-surface text-right">{line.reorderLevel}{line.product.reorderLevel === undefined && <span className="text-xs text-on-surface/50"> (auto)</span>}</td>
+                                    <td className="p-3">
+                                        <input type="number" min={0} value={quantityOf(id, line.suggestedQuantity)} onChange={e => setQuantities(prev => ({ ...prev, [id]: Math.max(0, parseInt(e.target.value, 10) || 0) }))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface" />
+                                    </td>
+                                    <td className="p-3">
+                                        <select value={supplierOf(id, line.product.preferredSupplierId)} onChange={e => setSupplierFor(prev => ({ ...prev, [id]: e.target.value }))} className="w-full p-1 bg-background border border-on-surface/20 rounded text-on-surface text-sm">
+                                            <option value="">—</option>
+                                            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                        </select>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {lines.length === 0 && (
+                            <tr><td colSpan={10} className="text-center p-8 text-on-surface/50">Nothing needs reordering. Stock and open orders cover every item's reorder level.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+};
+
+
+const Purchasing: React.FC = () => {
+    const { shopDetails, currentUser, setProducts, showToast } = useAppContext();
+    const [section, setSection] = useState<Section>('orders');
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+    const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'OPEN' | 'ALL'>('OPEN');
+
+    const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+    const [isSupplierFormOpen, setIsSupplierFormOpen] = useState(false);
+    const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+    const [isOrderFormOpen, setIsOrderFormOpen] = useState(false);
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [payingReceipt, setPayingReceipt] = useState<GoodsReceipt | null>(null);
+
+    const series = invoiceSeries(shopDetails.invoicePrefix);
+
+    useEffect(() => {
+        const load = async () => {
+            const [loadedSuppliers, loadedOrders, loadedReceipts] = await Promise.all([
+                database.getSuppliers(),
+                database.getPurchaseOrders(),
+                database.getGoodsReceipts()
+            ]);
+            setSuppliers(loadedSuppliers);
+            setOrders(loadedOrders);
+            setReceipts(loadedReceipts);
+            setIsLoading(false);
+        };
+        load();
+        database.syncInvoiceCounter(purchaseOrderSeries(series));
+        database.syncInvoiceCounter(goodsReceiptSeries(series));
+    }, [series]);
+
+    const visibleOrders = useMemo(() => orders.filter(o => {
+        if (statusFilter === 'ALL') return true;
+        if (statusFilter === 'OPEN') return o.status === 'DRAFT' || o.status === 'ORDERED' || o.status === 'PARTIAL';
+        return o.status === statusFilter;
+    }), [orders, statusFilter]);
+
+    const payables = useMemo(() => payablesBySupplier(receipts), [receipts]);
+    const openBills = useMemo(() => receipts.filter(r => amountOutstanding(r) > 0), [receipts]);
+    const totalOutstanding = payables.reduce((sum, p) => sum + p.outstanding, 0);
+    const totalOverdue = payables.reduce((sum, p) => sum + p.overdue, 0);
+    const today = new Date().toISOString().split('T')[0];
+
+    // --- Suppliers ---
+    const handleSaveSupplier = async (supplier: Supplier) => {
+        await database.saveSupplier(supplier);
+        setSuppliers(prev => {
+            const exists = prev.some(s => s.id === supplier.id);
+            return (exists ? prev.map(s => s.id === supplier.id ? supplier : s) : [...prev, supplier]).sort((a, b) => a.name.localeCompare(b.name));
+        });
+        showToast(editingSupplier ? 'Supplier updated.' : 'Supplier added.');
+        setIsSupplierFormOpen(false);
+        setEditingSupplier(null);
+    };
+
+    const handleDeleteSupplier = async (supplier: Supplier) => {
+        if (orders.some(o => o.supplierId === supplier.id && (o.status === 'ORDERED' || o.status === 'PARTIAL'))) {
+            showToast('This supplier has open purchase orders.', 'error');
+            return;
+        }
+        if (window.confirm(`Delete supplier ${supplier.name}?`)) {
+            await database.deleteSupplier(supplier.id);
+            setSuppliers(prev => prev.filter(s => s.id !== supplier.id));
+            showToast('Supplier deleted.', 'error');
+        }
+    };
+
+    // --- Orders ---
+    const upsertOrder = (order: PurchaseOrder) => {
+        setOrders(prev => prev.some(o => o.id === order.id) ? prev.map(o => o.id === order.id ? order : o) : [order, ...prev]);
+    };
+
+    const handleSaveOrder = async (order: PurchaseOrder) => {
+        try {
+            const saved = await database.savePurchaseOrder(order, purchaseOrderSeries(series));
+            upsertOrder(saved);
+            showToast(`${saved.poNumber} ${saved.status === 'DRAFT' ? 'saved as draft' : 'saved'}.`);
+            setIsOrderFormOpen(false);
+            setEditingOrder(null);
+        } catch (error) {
+            console.error("Failed to save purchase order", error);
+            showToast('Purchase order could not be saved.', 'error');
+        }
+    };
+
+    const handleCreateDrafts = async (drafts: PurchaseOrder[]) => {
+        try {
+            const saved: PurchaseOrder[] = [];
+            for (const draft of drafts) {
+                saved.push(await database.savePurchaseOrder(draft, purchaseOrderSeries(series)));
+            }
+            setOrders(prev => [...saved, ...prev]);
+            showToast(`Created ${saved.map(o => o.poNumber).join(', ')} as draft. Review and place from Purchase Orders.`);
+            setStatusFilter('DRAFT');
+            setSection('orders');
+        } catch (error) {
+            console.error("Failed to create draft purchase orders", error);
+            showToast('Draft purchase orders could not be created.', 'error');
+        }
+    };
+
+    const handleCancelOrder = async (order: PurchaseOrder) => {
+        if (!window.confirm(`Cancel ${order.poNumber}? Anything not yet received will no longer be expected.`)) return;
+        const saved = await database.savePurchaseOrder({ ...order, status: 'CANCELLED' }, purchaseOrderSeries(series));
+        upsertOrder(saved);
+        showToast(`${saved.poNumber} cancelled.`, 'error');
+    };
+
+    const handleReceive = async (receipt: GoodsReceipt) => {
+        if (!currentUser) return;
+        try {
+            const result = await database.commitGoodsReceipt(receipt, currentUser.id, goodsReceiptSeries(series));
+            upsertOrder(result.order);
+            setReceipts(prev => [result.receipt, ...prev]);
+            const updatedById = new Map(result.products.map(p => [p.id, p]));
+            setProducts(prev => prev.map(p => updatedById.get(p.id) || p));
+            showToast(`${result.receipt.grnNumber} posted. Stock updated for ${result.products.length} item(s).`);
+            setReceivingOrder(null);
+        } catch (error) {
+            console.error("Failed to post goods receipt", error);
+            showToast(error instanceof Error ? error.message : 'Goods receipt could not be posted.', 'error');
+        }
+    };
+
+    const handlePayment = async (payment: SupplierPayment) => {
+        if (!payingReceipt) return;
+        const updated = await database.recordSupplierPayment(payingReceipt, payment);
+        setReceipts(prev => prev.map(r => r.id === updated.id ? updated : r));
+        showToast(`Paid ₹${payment.amount.toFixed(2)} to ${updated.supplierName}.`);
+        setPayingReceipt(null);
+    };
+
+    const cell = "p-4 text-on-surface";
+    const head = "p-4 text-on-surface font-semibold";
+
+    const renderOrders = () => (
+        <>
+            <div className="flex justify-between items-center mb-4">
+                <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as typeof statusFilter)} className="bg-surface p-2 rounded-md border border-on-surface/20 text-on-surface">
+                    <option value="OPEN">Open orders</option>
+                    <option value="ALL">All orders</option>
+                    {(Object.keys(STATUS_STYLES) as PurchaseOrderStatus[]).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+                <button
+                    onClick={() => { if (suppliers.length === 0) { showToast('Add a supplier first.', 'error'); return; } setEditingOrder(null); setIsOrderFormOpen(true); }}
+                    className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition"
+                >
+                    + New Purchase Order
+                </button>
+            </div>
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className={head}>PO</th><th className={head}>Supplier</th><th className={head}>Date</th><th className={head}>Expected</th>
+                            <th className={head}>Received</th><th className={`${head} text-right`}>Value</th><th className={head}>Status</th><th className={`${head} text-right`}>Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleOrders.map(order => {
+                            const ordered = order.lines.reduce((n, l) => n + l.quantity, 0);
+                            const received = order.lines.reduce((n, l) => n + l.received, 0);
+                            return (
+                                <tr key={order.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                    <td className={`${cell} font-mono text-sm`}>{order.poNumber}</td>
+                                    <td className={cell}>{order.supplierName}</td>
+                                    <td className={`${cell} text-sm`}>{new Date(order.date).toLocaleDateString()}</td>
+                                    <td className={`${cell} text-sm`}>{order.expectedDate || '—'}</td>
+                                    <td className={`${cell} text-sm`}>{received} / {ordered}</td>
+                                    <td className={`${cell} text-right`}>₹{orderTotal(order).toFixed(2)}</td>
+                                    <td className={cell}><span className={`px-2 py-1 rounded text-xs font-bold ${STATUS_STYLES[order.status]}`}>{order.status}</span></td>
+                                    <td className={`${cell} text-right space-x-2 whitespace-nowrap`}>
+                                        {(order.status === 'ORDERED' || order.status === 'PARTIAL') && (
+                                            <button onClick={() => setReceivingOrder(order)} className="py-1 px-3 bg-secondary text-on-primary text-sm rounded-md hover:bg-green-500 transition">Receive</button>
+                                        )}
+                                        {(order.status === 'DRAFT' || order.status === 'ORDERED') && (
+                                            <button onClick={() => { setEditingOrder(order); setIsOrderFormOpen(true); }} className="py-1 px-3 bg-on-surface/10 text-on-surface text-sm rounded-md hover:bg-on-surface/20 transition">Edit</button>
+                                        )}
+                                        {order.status !== 'RECEIVED' && order.status !== 'CANCELLED' && (
+                                            <button onClick={() => handleCancelOrder(order)} className="py-1 px-3 text-red-500 text-sm rounded-md hover:bg-red-500/10 transition">Cancel</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {visibleOrders.length === 0 && (
+                            <tr><td colSpan={8} className="text-center p-8 text-on-surface/50">{isLoading ? 'Loading...' : 'No purchase orders.'}</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+
+    const renderSuppliers = () => (
+        <>
+            <div className="flex justify-end mb-4">
+                <button onClick={() => { setEditingSupplier(null); setIsSupplierFormOpen(true); }} className="py-2 px-4 bg-primary text-on-primary font-semibold rounded-md hover:bg-indigo-500 transition">+ Add Supplier</button>
+            </div>
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr><th className={head}>Name</th><th className={head}>Contact</th><th className={head}>GSTIN</th><th className={head}>Terms</th><th className={`${head} text-right`}>Outstanding</th><th className={`${head} text-right`}>Actions</th></tr>
+                    </thead>
+                    <tbody>
+                        {suppliers.map(supplier => (
+                            <tr key={supplier.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                <td className={cell}>{supplier.name}</td>
+                                <td className={`${cell} text-sm`}>{supplier.contact || '—'}</td>
+                                <td className={`${cell} text-sm font-mono`}>{supplier.gstin || '—'}</td>
+                                <td className={`${cell} text-sm`}>{supplier.paymentTermsDays ? `${supplier.paymentTermsDays} days` : 'On delivery'}</td>
+                                <td className={`${cell} text-right`}>₹{(payables.find(p => p.supplierId === supplier.id)?.outstanding || 0).toFixed(2)}</td>
+                                <td className={`${cell} text-right space-x-2`}>
+                                    <button onClick={() => { setEditingSupplier(supplier); setIsSupplierFormOpen(true); }} className="py-1 px-3 bg-on-surface/10 text-on-surface text-sm rounded-md hover:bg-on-surface/20 transition">Edit</button>
+                                    <button onClick={() => handleDeleteSupplier(supplier)} className="py-1 px-3 text-red-500 text-sm rounded-md hover:bg-red-500/10 transition">Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                        {suppliers.length === 0 && (
+                            <tr><td colSpan={6} className="text-center p-8 text-on-surface/50">{isLoading ? 'Loading...' : 'No suppliers yet.'}</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+
+    const renderPayables = () => (
+        <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Total Payable</h3>
+                    <p className="text-3xl font-bold text-on-surface mt-2">₹{totalOutstanding.toFixed(2)}</p>
+                </div>
+                <div className="bg-surface p-6 rounded-lg shadow-md">
+                    <h3 className="text-lg font-semibold text-on-surface/70">Overdue</h3>
+                    <p className={`text-3xl font-bold mt-2 ${totalOverdue > 0 ? 'text-red-500' : 'text-on-surface'}`}>₹{totalOverdue.toFixed(2)}</p>
+                </div>
+            </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto mb-6">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr><th className={head}>Supplier</th><th className={`${head} text-right`}>Billed</th><th className={`${head} text-right`}>Paid</th><th className={`${head} text-right`}>Outstanding</th><th className={`${head} text-right`}>Overdue</th><th className={`${head} text-right`}>Open Bills</th></tr>
+                    </thead>
+                    <tbody>
+                        {payables.map(p => (
+                            <tr key={p.supplierId} className="border-b border-on-surface/20">
+                                <td className={cell}>{p.supplierName}</td>
+                                <td className={`${cell} text-right`}>₹{p.billed.toFixed(2)}</td>
+                                <td className={`${cell} text-right`}>₹{p.paid.toFixed(2)}</td>
+                                <td className={`${cell} text-right font-bold`}>₹{p.outstanding.toFixed(2)}</td>
+                                <td className={`${cell} text-right ${p.overdue > 0 ? 'text-red-500 font-bold' : ''}`}>₹{p.overdue.toFixed(2)}</td>
+                                <td className={`${cell} text-right`}>{p.openBills}</td>
+                            </tr>
+                        ))}
+                        {payables.length === 0 && (
+                            <tr><td colSpan={6} className="text-center p-8 text-on-surface/50">No supplier bills yet. Bills are created when goods are received.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <h2 className="text-xl font-bold text-on-surface mb-3">Open Bills</h2>
+            <div className="bg-surface rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr><th className={head}>GRN</th><th className={head}>Supplier Bill</th><th className={head}>Supplier</th><th className={head}>Received</th><th className={head}>Due</th><th className={`${head} text-right`}>Value</th><th className={`${head} text-right`}>Paid</th><th className={`${head} text-right`}>Balance</th><th className={head}></th></tr>
+                    </thead>
+                    <tbody>
+                        {openBills.map(r => (
+                            <tr key={r.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                <td className={`${cell} font-mono text-sm`}>{r.grnNumber}</td>
+                                <td className={`${cell} text-sm`}>{r.supplierInvoiceNumber || '—'}</td>
+                                <td className={cell}>{r.supplierName}</td>
+                                <td className={`${cell} text-sm`}>{new Date(r.date).toLocaleDateString()}</td>
+                                <td className={`${cell} text-sm ${r.dueDate && r.dueDate < today ? 'text-red-500 font-bold' : ''}`}>{r.dueDate || 'On delivery'}</td>
+                                <td className={`${cell} text-right`}>₹{r.total.toFixed(2)}</td>
+                                <td className={`${cell} text-right`}>₹{amountPaid(r).toFixed(2)}</td>
+                                <td className={`${cell} text-right font-bold`}>₹{amountOutstanding(r).toFixed(2)}</td>
+                                <td className={`${cell} text-right`}>
+                                    <button onClick={() => setPayingReceipt(r)} className="py-1 px-3 bg-primary text-on-primary text-sm rounded-md hover:bg-indigo-500 transition">Pay</button>
+                                </td>
+                            </tr>
+                        ))}
+                        {openBills.length === 0 && (
+                            <tr><td colSpan={9} className="text-center p-8 text-on-surface/50">Nothing outstanding.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+
+    const sections: { id: Section; label: string }[] = [
+        { id: 'orders', label: 'Purchase Orders' },
+        { id: 'replenishment', label: 'Reorder' },
+        { id: 'suppliers', label: `Suppliers (${suppliers.length})` },
+        { id: 'payables', label: 'Payables' },
+    ];
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-on-surface">Purchasing</h1>
+                <div className="flex gap-2">
+                    {sections.map(s => (
+                        <button
+                            key={s.id}
+                            onClick={() => setSection(s.id)}
+                            className={`py-2 px-4 rounded-md text-sm font-medium transition ${section === s.id ? 'bg-primary text-on-primary' : 'bg-surface text-on-surface hover:bg-on-surface/10'}`}
+                        >
+                            {s.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {section === 'orders' && renderOrders()}
+            {section === 'replenishment' && <ReplenishmentPanel orders={orders} suppliers={suppliers} onCreateDrafts={handleCreateDrafts} />}
+            {section === 'suppliers' && renderSuppliers()}
+            {section === 'payables' && renderPayables()}
+
+            {isSupplierFormOpen && <SupplierForm supplier={editingSupplier} onSave={handleSaveSupplier} onCancel={() => setIsSupplierFormOpen(false)} />}
+            {isOrderFormOpen && <PurchaseOrderForm order={editingOrder} suppliers={suppliers} onSave={handleSaveOrder} onCancel={() => setIsOrderFormOpen(false)} />}
+            {receivingOrder && <GoodsReceiptModal order={receivingOrder} supplier={suppliers.find(s => s.id === receivingOrder.supplierId)} onReceive={handleReceive} onCancel={() => setReceivingOrder(null)} />}
+            {payingReceipt && <PaymentForm receipt={payingReceipt} onSave={handlePayment} onCancel={() => setPayingReceipt(null)} />}
+        </div>
+    );
+};
+
+export default Purchasing;
@@ -1,6 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
 import { Product } from '../../types';
+import { BarcodeType, barcodeType } from '../../services/barcodes';
+import { categoryTree, filterByCategory, variantLabel } from '../../services/catalog';
+
+// JsBarcode's names for the symbologies; internal codes and bare ids print as CODE128
+const JSBARCODE_FORMATS: Record<BarcodeType, string> = {
+    EAN13: 'EAN13',
+    EAN8: 'EAN8',
+    UPCA: 'UPC',
+    INTERNAL: 'CODE128'
+};
 
 const QRCodeCanvas: React.FC<{ value: string }> = ({ value }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -36,7 +46,7 @@ const QRCodeCanvas: React.FC<{ value: string }> = ({ value }) => {
     return <canvas ref={canvasRef}></canvas>;
 };
 
-const BarcodeCanvas: React.FC<{ value: string }> = ({ value }) => {
+const BarcodeCanvas: React.FC<{ value: string; format?: string }> = ({ value, format = 'CODE128' }) => {
     const ref = useRef<SVGSVGElement>(null);
     const { theme } = useAppContext();
 
@@ -47,7 +57,7 @@ const BarcodeCanvas: React.FC<{ value: string }> = ({ value }) => {
 
             try {
                 (window as any).JsBarcode(ref.current, value, {
-                    format: 'CODE128',
+                    format,
                     lineColor: color,
                     background: 'transparent',
                     width: 1.5,
@@ -61,7 +71,7 @@ const BarcodeCanvas: React.FC<{ value: string }> = ({ value }) => {
                 if (ref.current) ref.current.innerHTML = '';
             }
         }
-    }, [value, theme]);
+    }, [value, format, theme]);
 
     if (!(window as any).JsBarcode) {
         return <p className="text-gray-800 text-xs">Loading Barcode Lib...</p>;
@@ -71,10 +81,11 @@ const BarcodeCanvas: React.FC<{ value: string }> = ({ value }) => {
 };
 
 const QRGenerator: React.FC = () => {
-    const { products } = useAppContext();
+    const { products, categories } = useAppContext();
     const [selectedProducts, setSelectedProducts] = useState<Product[]>([]);
     const printableRef = useRef<HTMLDivElement>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [categoryFilter, setCategoryFilter] = useState('');
     const [format, setFormat] = useState<'qrcode' | 'barcode'>('qrcode');
 
     const handleSelectProduct = (product: Product) => {
@@ -154,9 +165,10 @@ const QRGenerator: React.FC = () => {
         }
     };
 
-    const filteredProducts = products.filter(p => 
+    const filteredProducts = filterByCategory(products, categoryFilter, categories).filter(p => 
         p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        p.id.toLowerCase().includes(searchTerm.toLowerCase())
+        p.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (p.barcodes || []).some(code => code.includes(searchTerm.trim()))
     );
 
     return (
@@ -195,10 +207,25 @@ const QRGenerator: React.FC = () => {
                     <input 
                         type="text" 
                         placeholder="Search products..." 
-                        className="w-full p-2 mb-4 bg-background border border-on-surface/20 rounded text-on-surface"
+                        className="w-full p-2 mb-2 bg-background border border-on-surface/20 rounded text-on-surface"
                         value={searchTerm}
                         onChange={e => setSearchTerm(e.target.value)}
                     />
+                    <div className="flex gap-2 mb-4">
+                        <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} className="flex-1 p-2 bg-background border border-on-surface/20 rounded text-on-surface">
+                            <option value="">All categories</option>
+                            {categoryTree(categories).map(({ category, depth }) => (
+                                <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => setSelectedProducts(prev => [...prev, ...filteredProducts.filter(p => !prev.some(s => s.id === p.id))])}
+                            disabled={filteredProducts.length === 0}
+                            className="py-2 px-3 bg-on-surface/10 text-on-surface rounded text-sm hover:bg-on-surface/20 disabled:opacity-50"
+                        >
+                            Select All ({filteredProducts.length})
+                        </button>
+                    </div>
                     <ul>
                         {filteredProducts.map(product => (
                             <li key={product.id} className="flex items-center p-2 border-b border-on-surface/10">
@@ -210,7 +237,7 @@ const QRGenerator: React.FC = () => {
                                     className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
                                 />
                                 <label htmlFor={`product-${product.id}`} className="ml-3 text-on-surface cursor-pointer">
-                                    {product.name} <span className="text-on-surface/60">({product.brand})</span>
+                                    {product.name}{variantLabel(product) && ` · ${variantLabel(product)}`} <span className="text-on-surface/60">({product.brand})</span>
                                 </label>
                             </li>
                         ))}
@@ -224,12 +251,13 @@ const QRGenerator: React.FC = () => {
                             {selectedProducts.map(product => {
                                  // For QR, we embed full JSON. For Barcode, usually just ID is best as they have low capacity for text.
                                  // However, the scanner logic supports JSON fallback or direct ID. 
-                                 // To be safe for Barcode (Code128), we just use the ID if it's alphanumeric. 
+                                 // Products with a barcode print their first one in its own symbology; the rest fall back to the ID in Code128.
                                  const qrValue = JSON.stringify({
                                      id: product.id,
                                      name: product.name,
                                  });
-                                 const barcodeValue = product.id; 
+                                 const barcodeValue = product.barcodes?.[0] || product.id;
+                                 const barcodeFormat = product.barcodes?.[0] ? JSBARCODE_FORMATS[barcodeType(barcodeValue)] : 'CODE128';
 
                                  return (
                                     <div key={product.id} className="label border border-on-surface/20 p-2 text-center break-words bg-white text-black rounded h-40 flex flex-col justify-between items-center">
@@ -239,10 +267,10 @@ const QRGenerator: React.FC = () => {
                                             {format === 'qrcode' ? (
                                                 <QRCodeCanvas value={qrValue} />
                                             ) : (
-                                                <BarcodeCanvas value={barcodeValue} />
+                                                <BarcodeCanvas value={barcodeValue} format={barcodeFormat} />
                                             )}
                                          </div>
-                                         <p className="text-[10px] text-gray-500">{product.id}</p>
+                                         <p className="text-[10px] text-gray-500">{format === 'barcode' ? barcodeValue : product.id}</p>
                                      </div>
                                  )
                             })}
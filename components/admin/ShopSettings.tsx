@@ -1,13 +1,21 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { ShopDetails } from '../../types';
+import { NumberCollision, ShopDetails, Store } from '../../types';
 import database from '../../services/database';
+import { getRegisterCode, saveRegisterCode, invoiceSeries, financialYear, formatInvoiceNumber } from '../../services/invoiceNumbering';
+import { ScannerSettings, getScannerSettings, saveScannerSettings } from '../../services/wedgeScanner';
+import { storeSlug } from '../../services/stores';
+import { FLOOR_LOCATION, getCounterLocation, saveCounterLocation, stockLocations, locationQuantity } from '../../services/transfers';
 
 const ShopSettings: React.FC = () => {
-    const { shopDetails, updateShopDetails, showToast, currentUser, setCurrentUser } = useAppContext();
+    const { shopDetails, updateShopDetails, showToast, currentUser, setCurrentUser, products } = useAppContext();
     const [details, setDetails] = useState<ShopDetails>(shopDetails);
     const [bankDetails, setBankDetails] = useState(shopDetails.bankDetails || { accountName: '', accountNumber: '', bankName: '', ifscCode: '' });
+    const [registerCode, setRegisterCode] = useState(getRegisterCode());
+    const [scanner, setScanner] = useState<ScannerSettings>(getScannerSettings());
+    const [counterLocation, setCounterLocation] = useState(getCounterLocation());
+    const [newLocation, setNewLocation] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Admin Credentials State
@@ -33,11 +41,45 @@ const ShopSettings: React.FC = () => {
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (!/^[A-Za-z0-9]{1,4}$/.test(registerCode.trim())) {
+            showToast('Register code must be 1-4 letters or digits.', 'error');
+            return;
+        }
+        if (!(scanner.minLength >= 1) || !(scanner.maxKeyGapMs >= 5)) {
+            showToast('Scanner minimum length must be at least 1 and the key gap at least 5 ms.', 'error');
+            return;
+        }
+        saveRegisterCode(registerCode);
+        saveScannerSettings(scanner);
+        saveCounterLocation(counterLocation);
         const updatedDetails = { ...details, bankDetails };
         updateShopDetails(updatedDetails);
         showToast('Shop details updated successfully!');
     };
 
+    const handleAddLocation = () => {
+        const name = newLocation.trim();
+        const id = storeSlug(name);
+        if (!id) return;
+        if (stockLocations(details).some(l => l.id === id)) {
+            showToast('A location with that name already exists.', 'error');
+            return;
+        }
+        setDetails({ ...details, stockLocations: [...(details.stockLocations || []), { id, name }] });
+        setNewLocation('');
+    };
+
+    // A godown still holding stock has to be emptied with a transfer first
+    const handleRemoveLocation = (id: string) => {
+        if (products.some(p => locationQuantity(p, id) > 0)) {
+            showToast('Transfer the stock out of this location before removing it.', 'error');
+            return;
+        }
+        const remaining = (details.stockLocations || []).filter(l => l.id !== id);
+        setDetails({ ...details, stockLocations: remaining.length ? remaining : undefined });
+        if (counterLocation === id) setCounterLocation(FLOOR_LOCATION);
+    };
+
     const handleBackup = async () => {
         const data = await database.backupData();
         const blob = new Blob([data], { type: 'application/json' });
@@ -144,6 +186,34 @@ const ShopSettings: React.FC = () => {
                                 required
                             />
                         </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Invoice Prefix</label>
+                                <input
+                                    type="text"
+                                    name="invoicePrefix"
+                                    value={details.invoicePrefix || ''}
+                                    onChange={handleChange}
+                                    placeholder="RG"
+                                    maxLength={6}
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface uppercase"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Register Code (this device)</label>
+                                <input
+                                    type="text"
+                                    value={registerCode}
+                                    onChange={(e) => setRegisterCode(e.target.value)}
+                                    placeholder="01"
+                                    maxLength={4}
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface uppercase"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-on-surface/60 -mt-4">
+                            Next invoices look like {formatInvoiceNumber(invoiceSeries(details.invoicePrefix, registerCode.trim().toUpperCase()), financialYear(new Date()), 123)}. Every device starts with its own random code; two counters must never share one.
+                        </p>
                     </div>
                 </div>
 
@@ -176,6 +246,17 @@ const ShopSettings: React.FC = () => {
                             </div>
                         </div>
                         
+                        <label className="flex items-center gap-3 text-sm text-on-surface cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!details.pricesIncludeGst}
+                                onChange={(e) => setDetails({ ...details, pricesIncludeGst: e.target.checked })}
+                                className="h-4 w-4"
+                            />
+                            Selling prices include GST (tax is backed out of the price)
+                        </label>
+                        <p className="text-xs text-on-surface/60 -mt-4">Each product's own HSN code and GST slab is used; the default rate only applies to products without one.</p>
+
                         <div>
                             <label className="block text-sm font-medium text-on-surface mb-1 text-primary font-bold">UPI ID (VPA) for QR Code</label>
                             <input
@@ -201,6 +282,104 @@ const ShopSettings: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Barcode Scanner (per device, like the register code) */}
+                <div className="bg-surface p-8 rounded-lg shadow-md">
+                    <h2 className="text-xl font-semibold text-on-surface mb-6 border-b border-on-surface/20 pb-2">Barcode Scanner (this device)</h2>
+                    <div className="space-y-6">
+                        <label className="flex items-center gap-3 text-sm text-on-surface cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={scanner.enabled}
+                                onChange={(e) => setScanner({ ...scanner, enabled: e.target.checked })}
+                                className="h-4 w-4"
+                            />
+                            Accept USB/Bluetooth scanner input anywhere on the billing screen
+                        </label>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Minimum Code Length</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={scanner.minLength}
+                                    onChange={(e) => setScanner({ ...scanner, minLength: parseInt(e.target.value, 10) })}
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Max Gap Between Keys (ms)</label>
+                                <input
+                                    type="number"
+                                    min={5}
+                                    value={scanner.maxKeyGapMs}
+                                    onChange={(e) => setScanner({ ...scanner, maxKeyGapMs: parseInt(e.target.value, 10) })}
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Prefix</label>
+                                <input
+                                    type="text"
+                                    value={scanner.prefix}
+                                    onChange={(e) => setScanner({ ...scanner, prefix: e.target.value })}
+                                    placeholder="None"
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface font-mono"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface mb-1">Suffix</label>
+                                <input
+                                    type="text"
+                                    value={scanner.suffix}
+                                    onChange={(e) => setScanner({ ...scanner, suffix: e.target.value })}
+                                    placeholder="None (Enter)"
+                                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface font-mono"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-on-surface/60 -mt-2">A scanner types a whole code within a few milliseconds per key; slower typing stays in the field you are typing in. Raise the gap for slow Bluetooth scanners.</p>
+                    </div>
+                </div>
+
+                {/* Stock Locations */}
+                <div className="bg-surface p-8 rounded-lg shadow-md">
+                    <h2 className="text-xl font-semibold text-on-surface mb-6 border-b border-on-surface/20 pb-2">Stock Locations</h2>
+                    <div className="space-y-6">
+                        <ul className="divide-y divide-on-surface/10">
+                            {stockLocations(details).map(location => (
+                                <li key={location.id} className="py-2 flex justify-between items-center">
+                                    <span className="text-on-surface">{location.name}</span>
+                                    {location.id === FLOOR_LOCATION
+                                        ? <span className="text-xs text-on-surface/60">Receipts and stocktakes land here</span>
+                                        : <button type="button" onClick={() => handleRemoveLocation(location.id)} className="text-red-500 hover:text-red-400 text-sm font-semibold">Remove</button>}
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newLocation}
+                                onChange={(e) => setNewLocation(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddLocation(); } }}
+                                placeholder="e.g. Godown 1"
+                                className="flex-1 p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                            />
+                            <button type="button" onClick={handleAddLocation} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">Add</button>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface mb-1">This counter sells from</label>
+                            <select
+                                value={counterLocation}
+                                onChange={(e) => setCounterLocation(e.target.value)}
+                                className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                            >
+                                {stockLocations(details).map(location => <option key={location.id} value={location.id}>{location.name}</option>)}
+                            </select>
+                            <p className="text-xs text-on-surface/60 mt-1">Set on each device. Move stock between locations under Transfers.</p>
+                        </div>
+                    </div>
+                </div>
+
                 {/* Save Button */}
                 <div className="md:col-span-2 flex justify-end">
                     <button type="submit" className="py-3 px-8 bg-primary text-on-primary font-bold text-lg rounded-md hover:bg-indigo-600 transition shadow-lg transform hover:scale-105">
@@ -288,11 +467,139 @@ const ShopSettings: React.FC = () => {
                         </div>
                     )}
                 </div>
+
+                {database.isCloud && <BranchSettings />}
+                {database.isCloud && <NumberCollisions />}
             </div>
         </div>
     );
 };
 
+// Cloud Mode: the organisation's branches and what they share
+const BranchSettings: React.FC = () => {
+    const { showToast } = useAppContext();
+    const [stores, setStores] = useState<Store[]>([]);
+    const [sharedCustomers, setSharedCustomers] = useState(false);
+    const [newStore, setNewStore] = useState({ name: '', address: '' });
+
+    useEffect(() => {
+        database.getStores().then(setStores);
+        database.getTenancy().then(t => setSharedCustomers(t.sharedCustomers));
+    }, []);
+
+    const handleAddStore = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = storeSlug(newStore.name);
+        if (!id) return;
+        if (stores.some(s => s.id === id)) {
+            showToast('A branch with that name already exists.', 'error');
+            return;
+        }
+        const store: Store = { id, name: newStore.name.trim(), address: newStore.address.trim() || undefined };
+        await database.saveStore(store);
+        setStores(prev => [...prev, store]);
+        setNewStore({ name: '', address: '' });
+        showToast(`Branch "${store.name}" added. Switch to it from the sidebar to set it up.`);
+    };
+
+    const handleSharedCustomers = async (shared: boolean) => {
+        if (!window.confirm(shared
+            ? 'Share one customer list and wallet across all branches? Branch customer lists stay in the cloud but are no longer used.'
+            : 'Give every branch its own customer list and wallet again? The shared list is no longer used.')) return;
+        await database.saveTenancy({ sharedCustomers: shared });
+        setSharedCustomers(shared);
+        showToast('Customer sharing updated. Reloading...');
+        setTimeout(() => window.location.reload(), 1000);
+    };
+
+    return (
+        <div className="bg-surface p-8 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold text-on-surface mb-6 border-b border-on-surface/20 pb-2">Branches</h2>
+            <ul className="mb-6 divide-y divide-on-surface/10">
+                {stores.map(store => (
+                    <li key={store.id} className="py-2 flex justify-between items-center">
+                        <div>
+                            <p className="font-semibold text-on-surface">{store.name}</p>
+                            {store.address && <p className="text-xs text-on-surface/60">{store.address}</p>}
+                        </div>
+                        {store.id === database.storeId && <span className="px-2 py-0.5 rounded text-xs font-bold bg-primary/20 text-primary">THIS DEVICE</span>}
+                    </li>
+                ))}
+            </ul>
+            <form onSubmit={handleAddStore} className="space-y-3 mb-6">
+                <input
+                    type="text"
+                    value={newStore.name}
+                    onChange={(e) => setNewStore({ ...newStore, name: e.target.value })}
+                    placeholder="New branch name"
+                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                    required
+                />
+                <input
+                    type="text"
+                    value={newStore.address}
+                    onChange={(e) => setNewStore({ ...newStore, address: e.target.value })}
+                    placeholder="Address (optional)"
+                    className="w-full p-3 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                />
+                <button type="submit" className="w-full py-2 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Add Branch</button>
+            </form>
+            <label className="flex items-start gap-3 cursor-pointer">
+                <input type="checkbox" checked={sharedCustomers} onChange={(e) => handleSharedCustomers(e.target.checked)} className="h-4 w-4 mt-1" />
+                <span>
+                    <span className="block text-sm font-medium text-on-surface">Share customers and wallet across branches</span>
+                    <span className="block text-xs text-on-surface/60">Members can earn and redeem their wallet at any branch. Employees always stay bound to their own branch.</span>
+                </span>
+            </label>
+        </div>
+    );
+};
+
+// Cloud Mode: documents two counters numbered alike. They are all saved; the shop decides
+// which one to reissue (e.g. cancel and re-bill the sale) before filing returns.
+const NumberCollisions: React.FC = () => {
+    const { showToast } = useAppContext();
+    const [collisions, setCollisions] = useState<NumberCollision[]>([]);
+
+    useEffect(() => {
+        database.getNumberCollisions()
+            .then(setCollisions)
+            .catch(err => console.warn("Cloud unreachable, duplicate numbers unavailable", err));
+    }, []);
+
+    const handleDismiss = async (collision: NumberCollision) => {
+        try {
+            await database.dismissNumberCollision(collision.id);
+        } catch (err: any) {
+            showToast(err?.message || 'Could not mark the duplicate as reviewed.', 'error');
+            return;
+        }
+        setCollisions(prev => prev.filter(c => c.id !== collision.id));
+    };
+
+    if (collisions.length === 0) return null;
+
+    return (
+        <div className="bg-surface p-8 rounded-lg shadow-md md:col-span-2 border border-red-300">
+            <h2 className="text-xl font-semibold text-red-700 mb-2 border-b border-on-surface/20 pb-2">Duplicate Document Numbers</h2>
+            <p className="text-xs text-on-surface/60 mb-4">
+                These were saved with a number another device had already issued, usually because two counters share a register code. Give each counter its own code, reissue the duplicate, then mark it reviewed.
+            </p>
+            <ul className="divide-y divide-on-surface/10">
+                {collisions.map(collision => (
+                    <li key={collision.id} className="py-2 flex justify-between items-center">
+                        <div>
+                            <p className="font-semibold text-on-surface font-mono">{collision.number}</p>
+                            <p className="text-xs text-on-surface/60">{collision.collection.replace(/_/g, ' ')} · {collision.documentId} · {new Date(collision.detectedAt).toLocaleString()}</p>
+                        </div>
+                        <button type="button" onClick={() => handleDismiss(collision)} className="px-3 py-1 text-sm border border-on-surface/20 rounded-md hover:bg-on-surface/5">Mark Reviewed</button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
 const DownloadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 9.293a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>;
 const UploadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>;
 
@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { useWedgeScanner } from '../../hooks/useWedgeScanner';
+import { Stocktake as StocktakeSession, StocktakeLine, StocktakeScope } from '../../types';
+import database from '../../services/database';
+import QRScannerModal from '../employee/QRScannerModal';
+import { invoiceSeries, stocktakeSeries } from '../../services/invoiceNumbering';
+import { buildBarcodeIndex, lookupBarcode, parseScaleBarcode } from '../../services/barcodes';
+import { categoryTree } from '../../services/catalog';
+import { formatQuantity, isWeighed, unitOf } from '../../services/units';
+import { round2 } from '../../services/gst';
+import {
+    SCOPE_LABELS, lineVariance, postableLines, productsInScope, recordCount, shelvesOf, startStocktake, stocktakeSummary, varianceValue
+} from '../../services/stocktake';
+
+type LineFilter = 'all' | 'uncounted' | 'variances';
+
+const formatValue = (value: number) => `${value < 0 ? '-' : value > 0 ? '+' : ''}₹${Math.abs(value).toFixed(2)}`;
+
+const statusBadge = (status: StocktakeSession['status']) => {
+    const styles = { COUNTING: 'bg-primary/20 text-primary', POSTED: 'bg-green-500/20 text-green-500', CANCELLED: 'bg-on-surface/10 text-on-surface/60' };
+    return <span className={`px-2 py-0.5 rounded text-xs font-bold ${styles[status]}`}>{status}</span>;
+};
+
+const Stocktake: React.FC = () => {
+    const { products, setProducts, categories, shopDetails, currentUser, showToast } = useAppContext();
+    const [sessions, setSessions] = useState<StocktakeSession[]>([]);
+    const [active, setActive] = useState<StocktakeSession | null>(null);
+    // Scans can arrive faster than React re-renders, so handlers read the session from here
+    const activeRef = useRef<StocktakeSession | null>(null);
+    const [scope, setScope] = useState<StocktakeScope>('all');
+    const [scopeValue, setScopeValue] = useState('');
+    const [code, setCode] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
+    const [isPosting, setIsPosting] = useState(false);
+
+    const series = stocktakeSeries(invoiceSeries(shopDetails.invoicePrefix));
+
+    useEffect(() => {
+        database.getStocktakes().then(setSessions).catch(err => console.error("Failed to load stocktakes", err));
+        database.syncInvoiceCounter(series);
+    }, [series]);
+
+    const shelves = useMemo(() => shelvesOf(products), [products]);
+    const inScope = useMemo(
+        () => scope === 'all' || scopeValue ? productsInScope(products, categories, scope, scopeValue) : [],
+        [products, categories, scope, scopeValue]
+    );
+
+    // Scans only resolve to products in the session
+    const sessionProducts = useMemo(() => {
+        const ids = new Set(active?.lines.map(line => line.productId));
+        return products.filter(p => ids.has(p.id));
+    }, [active, products]);
+    const barcodeIndex = useMemo(() => buildBarcodeIndex(products), [products]);
+
+    const summary = active ? stocktakeSummary(active) : null;
+    const visibleLines = (active?.lines || []).filter(line =>
+        lineFilter === 'all' || (lineFilter === 'uncounted' ? line.counted === undefined : !!lineVariance(line))
+    );
+
+    const open = (session: StocktakeSession | null) => {
+        activeRef.current = session;
+        setActive(session);
+    };
+
+    const persist = async (session: StocktakeSession) => {
+        open(session);
+        setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+        try {
+            await database.saveStocktake(session);
+        } catch (err) {
+            console.error("Failed to save stocktake", err);
+            showToast('Count could not be saved on this device.', 'error');
+        }
+    };
+
+    const handleStart = () => {
+        if (!currentUser || inScope.length === 0) return;
+        persist(startStocktake(products, categories, scope, scope === 'all' ? undefined : scopeValue, currentUser.id));
+        setLineFilter('all');
+        showToast(`Stocktake started: ${inScope.length} products, quantities frozen.`);
+    };
+
+    const handleScan = (data: string, keepOpen = false) => {
+        if (!keepOpen) setIsScannerOpen(false);
+        const active = activeRef.current;
+        if (!active || active.status !== 'COUNTING') return;
+        const text = data.trim();
+        const step = parseFloat(quantity) || 1;
+        // A scale label carries its own weight; anything else counts `step` units
+        const reading = parseScaleBarcode(text, sessionProducts);
+        const product = reading?.product
+            || lookupBarcode(barcodeIndex, text)
+            || products.find(p => p.name.toLowerCase() === text.toLowerCase());
+        if (!product) {
+            showToast(`No product matches "${text}".`, 'error');
+            return;
+        }
+        const line = active.lines.find(l => l.productId === product.id);
+        if (!line) {
+            showToast(`${product.name} is not part of this stocktake.`, 'error');
+            return;
+        }
+        const counted = reading ? reading.quantity : step;
+        persist(recordCount(active, product.id, counted, 'add'));
+        showToast(`${product.name}: ${formatQuantity((line.counted || 0) + counted, unitOf(line))} counted`);
+    };
+
+    useWedgeScanner(scanned => handleScan(scanned, true), !!active && active.status === 'COUNTING' && !isScannerOpen);
+
+    const handleCodeSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        handleScan(code, true);
+        setCode('');
+    };
+
+    const handleSetCount = (line: StocktakeLine, value: string) => {
+        const active = activeRef.current;
+        if (!active) return;
+        if (value === '') {
+            persist({ ...active, lines: active.lines.map(l => l.productId === line.productId ? { ...l, counted: undefined, approved: undefined } : l) });
+            return;
+        }
+        const counted = parseFloat(value);
+        if (counted >= 0) persist(recordCount(active, line.productId, counted, 'set'));
+    };
+
+    const setApproved = (productIds: Set<string>, approved: boolean) => {
+        const active = activeRef.current;
+        if (!active) return;
+        persist({ ...active, lines: active.lines.map(l => productIds.has(l.productId) ? { ...l, approved } : l) });
+    };
+
+    const handleApproveAll = () => {
+        if (!active) return;
+        setApproved(new Set(active.lines.filter(l => !!lineVariance(l)).map(l => l.productId)), true);
+    };
+
+    const handlePost = async () => {
+        if (!active || !currentUser || !summary) return;
+        const lines = postableLines(active);
+        if (lines.length === 0) {
+            showToast('Approve at least one variance to post.', 'error');
+            return;
+        }
+        const skipped = summary.uncounted > 0 ? `\n${summary.uncounted} products were not counted and keep their stock.` : '';
+        if (!window.confirm(`Post ${lines.length} stock adjustments worth ${formatValue(summary.approvedValue)}?${skipped}`)) return;
+        setIsPosting(true);
+        try {
+            const result = await database.commitStocktake(active, currentUser.id, series);
+            const updatedById = new Map(result.products.map(p => [p.id, p]));
+            setProducts(prev => prev.map(p => updatedById.get(p.id) || p));
+            setSessions(prev => [result.stocktake, ...prev.filter(s => s.id !== result.stocktake.id)]);
+            open(result.stocktake);
+            showToast(`Stocktake ${result.stocktake.stocktakeNumber} posted: ${result.products.length} products adjusted.`);
+        } catch (err: any) {
+            console.error("Failed to post stocktake", err);
+            showToast(err?.message || 'Stocktake could not be posted.', 'error');
+        } finally {
+            setIsPosting(false);
+        }
+    };
+
+    const handleCancel = () => {
+        if (!active || !window.confirm('Cancel this stocktake? Counts are kept for reference but nothing is posted.')) return;
+        persist({ ...active, status: 'CANCELLED' });
+        open(null);
+    };
+
+    if (active && summary) {
+        const counting = active.status === 'COUNTING';
+        return (
+            <div>
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h1 className="text-3xl font-bold text-on-surface">Stocktake: {active.scopeLabel} {statusBadge(active.status)}</h1>
+                        <p className="text-sm text-on-surface/60">
+                            {active.stocktakeNumber && <span className="font-mono">{active.stocktakeNumber} · </span>}
+                            Expected quantities as of {new Date(active.startedAt).toLocaleString()}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        {counting && <button onClick={handleCancel} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-red-500/20 hover:text-red-500 transition">Cancel Stocktake</button>}
+                        <button onClick={() => open(null)} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">{counting ? 'Save & Close' : 'Close'}</button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    <div className="bg-surface p-4 rounded-lg shadow-md">
+                        <p className="text-sm text-on-surface/60">Counted</p>
+                        <p className="text-2xl font-bold text-on-surface">{summary.counted} / {active.lines.length}</p>
+                    </div>
+                    <div className="bg-surface p-4 rounded-lg shadow-md">
+                        <p className="text-sm text-on-surface/60">Shortage</p>
+                        <p className="text-2xl font-bold text-red-500">{formatValue(summary.shortageValue)}</p>
+                    </div>
+                    <div className="bg-surface p-4 rounded-lg shadow-md">
+                        <p className="text-sm text-on-surface/60">Surplus</p>
+                        <p className="text-2xl font-bold text-green-500">{formatValue(summary.surplusValue)}</p>
+                    </div>
+                    <div className="bg-surface p-4 rounded-lg shadow-md">
+                        <p className="text-sm text-on-surface/60">Approved ({summary.approved} of {summary.variances})</p>
+                        <p className="text-2xl font-bold text-on-surface">{formatValue(summary.approvedValue)}</p>
+                    </div>
+                </div>
+
+                {counting && (
+                    <form onSubmit={handleCodeSubmit} className="bg-surface p-4 rounded-lg shadow-md mb-6 flex gap-2 items-center">
+                        <input
+                            value={code}
+                            onChange={e => setCode(e.target.value)}
+                            placeholder="Scan or type a barcode, product ID or exact name"
+                            className="flex-1 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                            autoFocus
+                        />
+                        <input type="number" min={0} step="any" value={quantity} onChange={e => setQuantity(e.target.value)} title="Units added per scan" className="w-20 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Count</button>
+                        <button type="button" onClick={() => setIsScannerOpen(true)} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition">Camera</button>
+                    </form>
+                )}
+
+                <div className="bg-surface rounded-lg shadow-md overflow-hidden">
+                    <div className="flex items-center gap-2 p-4 border-b border-on-surface/10">
+                        {(['all', 'uncounted', 'variances'] as LineFilter[]).map(filter => (
+                            <button
+                                key={filter}
+                                onClick={() => setLineFilter(filter)}
+                                className={`py-1 px-3 rounded-full text-sm capitalize ${lineFilter === filter ? 'bg-primary text-on-primary' : 'bg-on-surface/10 text-on-surface'}`}
+                            >
+                                {filter}
+                            </button>
+                        ))}
+                        {counting && (
+                            <div className="ml-auto flex gap-2">
+                                <button onClick={handleApproveAll} disabled={summary.variances === 0} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition text-sm disabled:opacity-50">Approve All Variances</button>
+                                <button onClick={handlePost} disabled={isPosting || summary.approved === 0} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition text-sm disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    {isPosting ? 'Posting...' : `Post ${summary.approved} Adjustment${summary.approved === 1 ? '' : 's'}`}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5">
+                            <tr>
+                                <th className="p-3 text-on-surface font-semibold">Product</th>
+                                <th className="p-3 text-on-surface font-semibold text-right">Expected</th>
+                                <th className="p-3 text-on-surface font-semibold text-right">Counted</th>
+                                <th className="p-3 text-on-surface font-semibold text-right">Variance</th>
+                                <th className="p-3 text-on-surface font-semibold text-right">Value</th>
+                                <th className="p-3 text-on-surface font-semibold text-center">Approve</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleLines.map(line => {
+                                const variance = lineVariance(line);
+                                return (
+                                    <tr key={line.productId} className={`border-b border-on-surface/10 ${variance ? (variance < 0 ? 'bg-red-500/5' : 'bg-green-500/5') : ''}`}>
+                                        <td className="p-3 text-on-surface">{line.name}<span className="block text-xs text-on-surface/50 font-mono">{line.productId}</span></td>
+                                        <td className="p-3 text-on-surface text-right">{formatQuantity(line.expected, unitOf(line))}</td>
+                                        <td className="p-3 text-right">
+                                            {counting ? (
+                                                <input
+                                                    type="number" min={0} step={isWeighed(line) ? 'any' : 1}
+                                                    value={line.counted ?? ''}
+                                                    onChange={e => handleSetCount(line, e.target.value)}
+                                                    placeholder="—"
+                                                    className="w-24 p-1 bg-background border border-on-surface/20 rounded text-on-surface text-right"
+                                                />
+                                            ) : (
+                                                <span className="text-on-surface">{line.counted !== undefined ? formatQuantity(line.counted, unitOf(line)) : '—'}</span>
+                                            )}
+                                        </td>
+                                        <td className={`p-3 text-right font-bold ${variance ? (variance < 0 ? 'text-red-500' : 'text-green-500') : 'text-on-surface/50'}`}>
+                                            {variance === null ? '' : `${variance > 0 ? '+' : ''}${formatQuantity(variance, unitOf(line))}`}
+                                        </td>
+                                        <td className="p-3 text-right text-on-surface">{variance ? formatValue(varianceValue(line)) : ''}</td>
+                                        <td className="p-3 text-center">
+                                            {!!variance && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!line.approved}
+                                                    disabled={!counting}
+                                                    onChange={e => setApproved(new Set([line.productId]), e.target.checked)}
+                                                    className="h-4 w-4"
+                                                />
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleLines.length === 0 && (
+                                <tr><td colSpan={6} className="p-6 text-center text-on-surface/50">No products to show.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <QRScannerModal isOpen={isScannerOpen} onClose={() => setIsScannerOpen(false)} onScan={handleScan} />
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <h1 className="text-3xl font-bold text-on-surface mb-6">Stocktake</h1>
+
+            <div className="bg-surface p-6 rounded-lg shadow-md mb-6">
+                <h2 className="text-xl font-semibold text-on-surface mb-4">New Count</h2>
+                <div className="flex flex-wrap gap-4 items-end">
+                    <div>
+                        <label className="block text-xs text-on-surface/70 mb-1">Scope</label>
+                        <select value={scope} onChange={e => { setScope(e.target.value as StocktakeScope); setScopeValue(''); }} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                            {(Object.keys(SCOPE_LABELS) as StocktakeScope[]).map(s => <option key={s} value={s}>{SCOPE_LABELS[s]}</option>)}
+                        </select>
+                    </div>
+                    {scope === 'category' && (
+                        <div>
+                            <label className="block text-xs text-on-surface/70 mb-1">Category</label>
+                            <select value={scopeValue} onChange={e => setScopeValue(e.target.value)} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                                <option value="">Choose...</option>
+                                {categoryTree(categories).map(({ category, depth }) => (
+                                    <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {scope === 'shelf' && (
+                        <div>
+                            <label className="block text-xs text-on-surface/70 mb-1">Shelf</label>
+                            <select value={scopeValue} onChange={e => setScopeValue(e.target.value)} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                                <option value="">Choose...</option>
+                                {shelves.map(shelf => <option key={shelf} value={shelf}>{shelf}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <button onClick={handleStart} disabled={inScope.length === 0} className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition disabled:bg-gray-400 disabled:cursor-not-allowed">
+                        Start Count ({inScope.length} products)
+                    </button>
+                </div>
+                {scope === 'shelf' && shelves.length === 0 && <p className="text-sm text-on-surface/60 mt-2">No products have a shelf yet. Set one in the product form.</p>}
+            </div>
+
+            <div className="bg-surface rounded-lg shadow-md overflow-hidden">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-4 text-on-surface font-semibold">Started</th>
+                            <th className="p-4 text-on-surface font-semibold">Scope</th>
+                            <th className="p-4 text-on-surface font-semibold">Status</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Counted</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Net Variance</th>
+                            <th className="p-4"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sessions.map(session => {
+                            const s = stocktakeSummary(session);
+                            return (
+                                <tr key={session.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                    <td className="p-4 text-on-surface">
+                                        {new Date(session.startedAt).toLocaleString()}
+                                        {session.stocktakeNumber && <span className="block text-xs font-mono text-on-surface/60">{session.stocktakeNumber}</span>}
+                                    </td>
+                                    <td className="p-4 text-on-surface">{session.scopeLabel}</td>
+                                    <td className="p-4">{statusBadge(session.status)}</td>
+                                    <td className="p-4 text-on-surface text-right">{s.counted} / {session.lines.length}</td>
+                                    <td className="p-4 text-on-surface text-right">{formatValue(session.status === 'POSTED' ? s.approvedValue : round2(s.shortageValue + s.surplusValue))}</td>
+                                    <td className="p-4 text-right">
+                                        <button onClick={() => { open(session); setLineFilter(session.status === 'COUNTING' ? 'all' : 'variances'); }} className="text-primary hover:underline text-sm">
+                                            {session.status === 'COUNTING' ? 'Continue' : 'View'}
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {sessions.length === 0 && (
+                            <tr><td colSpan={6} className="p-8 text-center text-on-surface/50">No stocktakes yet.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default Stocktake;
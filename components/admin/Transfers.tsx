@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { Product, StockTransfer, Store, TransferLine } from '../../types';
+import database from '../../services/database';
+import { invoiceSeries, transferSeries } from '../../services/invoiceNumbering';
+import { buildBarcodeIndex, lookupBarcode } from '../../services/barcodes';
+import { formatQuantity, isWeighed, unitOf } from '../../services/units';
+import { storeName } from '../../services/stores';
+import { can } from '../../services/permissions';
+import {
+    FLOOR_LOCATION, createTransfer, isInterStore, locationName, locationQuantity, stockLocations, withTransferLine
+} from '../../services/transfers';
+
+const statusBadge = (status: StockTransfer['status']) => {
+    const styles = {
+        DRAFT: 'bg-on-surface/10 text-on-surface',
+        IN_TRANSIT: 'bg-yellow-500/20 text-yellow-600',
+        RECEIVED: 'bg-green-500/20 text-green-500',
+        CANCELLED: 'bg-on-surface/10 text-on-surface/60'
+    };
+    return <span className={`px-2 py-0.5 rounded text-xs font-bold ${styles[status]}`}>{status.replace('_', ' ')}</span>;
+};
+
+const Transfers: React.FC = () => {
+    const { products, setProducts, shopDetails, currentUser, role, showToast } = useAppContext();
+    // Receiving is its own permission, so a role may take transfers in without sending stock out
+    const canSend = can(role, 'stock');
+    const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+    const [stores, setStores] = useState<Store[]>([]);
+    const [active, setActive] = useState<StockTransfer | null>(null);
+    const [fromLocation, setFromLocation] = useState(FLOOR_LOCATION);
+    // '<storeId>' for another branch, '<storeId>:<location>' within this one
+    const [destination, setDestination] = useState('');
+    const [code, setCode] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [receiveLocation, setReceiveLocation] = useState(FLOOR_LOCATION);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const series = transferSeries(invoiceSeries(shopDetails.invoicePrefix));
+    const locations = stockLocations(shopDetails);
+    const barcodeIndex = useMemo(() => buildBarcodeIndex(products), [products]);
+
+    useEffect(() => {
+        database.getTransfers().then(setTransfers).catch(err => console.error("Failed to load transfers", err));
+        if (database.isCloud) database.getStores().then(setStores);
+        database.syncInvoiceCounter(series);
+    }, [series]);
+
+    const destinations = [
+        ...locations.filter(l => l.id !== fromLocation).map(l => ({ value: `${database.storeId}:${l.id}`, label: l.name })),
+        ...stores.filter(s => s.id !== database.storeId).map(s => ({ value: s.id, label: `${s.name} (branch)` }))
+    ];
+
+    // "Godown 1" within this store, the branch name for the other side of an inter-store transfer
+    const sideLabel = (storeId: string, location?: string) => storeId === database.storeId
+        ? locationName(locations, location)
+        : storeName(stores, storeId);
+
+    const remember = (transfer: StockTransfer) => {
+        setActive(transfer);
+        setTransfers(prev => [transfer, ...prev.filter(t => t.id !== transfer.id)]);
+    };
+
+    const persist = async (transfer: StockTransfer) => {
+        remember(transfer);
+        try {
+            await database.saveTransfer(transfer);
+        } catch (err) {
+            console.error("Failed to save transfer", err);
+            showToast('Transfer could not be saved on this device.', 'error');
+        }
+    };
+
+    const handleCreate = () => {
+        if (!currentUser) return;
+        const target = destination || destinations[0]?.value;
+        if (!target) {
+            showToast('Add a godown under Shop Settings, or a second branch, to transfer stock.', 'error');
+            return;
+        }
+        const [toStoreId, toLocation] = target.split(':');
+        persist(createTransfer(database.storeId, fromLocation, toStoreId, toLocation, currentUser.id));
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!active || !code.trim()) return;
+        const text = code.trim();
+        const product = lookupBarcode(barcodeIndex, text) || products.find(p => p.name.toLowerCase() === text.toLowerCase());
+        if (!product) {
+            showToast(`No product matches "${text}".`, 'error');
+            return;
+        }
+        const current = active.lines.find(l => l.productId === product.id)?.quantity || 0;
+        persist(withTransferLine(active, product, current + (parseFloat(quantity) || 1)));
+        setCode('');
+    };
+
+    const handleSetQuantity = (line: TransferLine, value: string) => {
+        const product = products.find(p => p.id === line.productId);
+        if (!active || !product) return;
+        persist(withTransferLine(active, product, parseFloat(value) || 0));
+    };
+
+    const applyResult = (updated: StockTransfer, changed: Product[]) => {
+        const updatedById = new Map(changed.map(p => [p.id, p]));
+        setProducts(prev => prev.map(p => updatedById.get(p.id) || p));
+        remember(updated);
+    };
+
+    const handleDispatch = async () => {
+        if (!active || !currentUser) return;
+        if (!window.confirm(`Dispatch ${active.lines.length} products from ${locationName(locations, active.fromLocation)}? They leave its stock now and arrive when received.`)) return;
+        setIsSaving(true);
+        try {
+            const result = await database.dispatchTransfer(active, currentUser.id, series);
+            applyResult(result.transfer, result.products);
+            showToast(`Transfer ${result.transfer.transferNumber} dispatched.`);
+        } catch (err: any) {
+            console.error("Failed to dispatch transfer", err);
+            showToast(err?.message || 'Transfer could not be dispatched.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReceive = async () => {
+        if (!active || !currentUser) return;
+        setIsSaving(true);
+        try {
+            const transfer = isInterStore(active) ? { ...active, toLocation: receiveLocation } : active;
+            const result = await database.receiveTransfer(transfer, currentUser.id);
+            applyResult(result.transfer, result.products);
+            showToast(`Transfer ${result.transfer.transferNumber} received into ${locationName(locations, result.transfer.toLocation)}.`);
+        } catch (err: any) {
+            console.error("Failed to receive transfer", err);
+            showToast(err?.message || 'Transfer could not be received.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDiscard = () => {
+        if (!active || !window.confirm('Discard this draft transfer? No stock has moved.')) return;
+        persist({ ...active, status: 'CANCELLED' });
+        setActive(null);
+    };
+
+    if (active) {
+        const isDraft = active.status === 'DRAFT' && canSend;
+        const canReceive = active.status === 'IN_TRANSIT' && active.toStoreId === database.storeId;
+        return (
+            <div>
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h1 className="text-3xl font-bold text-on-surface">
+                            {sideLabel(active.fromStoreId, active.fromLocation)} → {sideLabel(active.toStoreId, active.toLocation)} {statusBadge(active.status)}
+                        </h1>
+                        <p className="text-sm text-on-surface/60">
+                            {active.transferNumber && <span className="font-mono">{active.transferNumber} · </span>}
+                            {active.dispatchedAt ? `Dispatched ${new Date(active.dispatchedAt).toLocaleString()}` : `Created ${new Date(active.createdAt).toLocaleString()}`}
+                            {active.receivedAt && ` · Received ${new Date(active.receivedAt).toLocaleString()}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        {isDraft && <button onClick={handleDiscard} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-red-500/20 hover:text-red-500 transition">Discard</button>}
+                        {isDraft && (
+                            <button onClick={handleDispatch} disabled={isSaving || active.lines.length === 0} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                {isSaving ? 'Dispatching...' : 'Dispatch'}
+                            </button>
+                        )}
+                        <button onClick={() => setActive(null)} className="py-2 px-4 bg-on-surface/10 text-on-surface rounded-md hover:bg-on-surface/20 transition">{isDraft ? 'Save & Close' : 'Close'}</button>
+                    </div>
+                </div>
+
+                {canReceive && (
+                    <div className="bg-surface p-4 rounded-lg shadow-md mb-6 flex gap-4 items-center">
+                        <p className="flex-1 text-on-surface">Check the goods against the list below, then book them in.</p>
+                        {isInterStore(active) && (
+                            <select value={receiveLocation} onChange={e => setReceiveLocation(e.target.value)} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                                {locations.map(l => <option key={l.id} value={l.id}>Into {l.name}</option>)}
+                            </select>
+                        )}
+                        <button onClick={handleReceive} disabled={isSaving} className="py-2 px-4 bg-secondary text-on-primary rounded-md hover:bg-green-500 transition disabled:bg-gray-400">
+                            {isSaving ? 'Receiving...' : 'Receive'}
+                        </button>
+                    </div>
+                )}
+
+                {isDraft && (
+                    <form onSubmit={handleAdd} className="bg-surface p-4 rounded-lg shadow-md mb-6 flex gap-2 items-center">
+                        <input
+                            value={code}
+                            onChange={e => setCode(e.target.value)}
+                            placeholder="Scan or type a barcode, product ID or exact name"
+                            className="flex-1 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface"
+                            autoFocus
+                        />
+                        <input type="number" min={0} step="any" value={quantity} onChange={e => setQuantity(e.target.value)} title="Quantity to add" className="w-20 p-2 bg-background border border-on-surface/20 rounded-md text-on-surface" />
+                        <button type="submit" className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition">Add</button>
+                    </form>
+                )}
+
+                <div className="bg-surface rounded-lg shadow-md overflow-hidden">
+                    <table className="w-full text-left">
+                        <thead className="bg-on-surface/5">
+                            <tr>
+                                <th className="p-3 text-on-surface font-semibold">Product</th>
+                                {isDraft && <th className="p-3 text-on-surface font-semibold text-right">Available at {locationName(locations, active.fromLocation)}</th>}
+                                <th className="p-3 text-on-surface font-semibold text-right">Quantity</th>
+                                <th className="p-3 text-on-surface font-semibold">Lots</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {active.lines.map(line => {
+                                const product = products.find(p => p.id === line.productId);
+                                const available = product ? locationQuantity(product, active.fromLocation) : 0;
+                                return (
+                                    <tr key={line.productId} className={`border-b border-on-surface/10 ${isDraft && line.quantity > available ? 'bg-red-500/5' : ''}`}>
+                                        <td className="p-3 text-on-surface">{line.name}<span className="block text-xs text-on-surface/50 font-mono">{line.productId}</span></td>
+                                        {isDraft && <td className={`p-3 text-right ${line.quantity > available ? 'text-red-500 font-bold' : 'text-on-surface'}`}>{formatQuantity(available, unitOf(line))}</td>}
+                                        <td className="p-3 text-right">
+                                            {isDraft ? (
+                                                <input
+                                                    type="number" min={0} step={isWeighed(line) ? 'any' : 1}
+                                                    value={line.quantity}
+                                                    onChange={e => handleSetQuantity(line, e.target.value)}
+                                                    className="w-24 p-1 bg-background border border-on-surface/20 rounded text-on-surface text-right"
+                                                />
+                                            ) : (
+                                                <span className="text-on-surface">{formatQuantity(line.quantity, unitOf(line))}</span>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-xs text-on-surface/70">
+                                            {line.allocations?.map(a => `${a.batchNumber} (exp ${a.expiryDate}) × ${a.quantity}`).join(', ')}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {active.lines.length === 0 && (
+                                <tr><td colSpan={4} className="p-6 text-center text-on-surface/50">No products on this transfer yet.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <h1 className="text-3xl font-bold text-on-surface mb-6">Stock Transfers</h1>
+
+            {canSend && (
+                <div className="bg-surface p-6 rounded-lg shadow-md mb-6">
+                    <h2 className="text-xl font-semibold text-on-surface mb-4">New Transfer</h2>
+                    <div className="flex flex-wrap gap-4 items-end">
+                        <div>
+                            <label className="block text-xs text-on-surface/70 mb-1">From</label>
+                            <select value={fromLocation} onChange={e => { setFromLocation(e.target.value); setDestination(''); }} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                                {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-on-surface/70 mb-1">To</label>
+                            <select value={destination || destinations[0]?.value || ''} onChange={e => setDestination(e.target.value)} disabled={destinations.length === 0} className="p-2 bg-background border border-on-surface/20 rounded-md text-on-surface">
+                                {destinations.length === 0 && <option value="">No other location</option>}
+                                {destinations.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                            </select>
+                        </div>
+                        <button onClick={handleCreate} disabled={destinations.length === 0} className="py-2 px-4 bg-primary text-on-primary rounded-md hover:bg-indigo-500 transition disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            Start Transfer
+                        </button>
+                    </div>
+                    {destinations.length === 0 && <p className="text-sm text-on-surface/60 mt-2">Add a godown under Shop Settings to move stock off the shop floor.</p>}
+                </div>
+            )}
+
+            <div className="bg-surface rounded-lg shadow-md overflow-hidden">
+                <table className="w-full text-left">
+                    <thead className="bg-on-surface/5">
+                        <tr>
+                            <th className="p-4 text-on-surface font-semibold">Date</th>
+                            <th className="p-4 text-on-surface font-semibold">From</th>
+                            <th className="p-4 text-on-surface font-semibold">To</th>
+                            <th className="p-4 text-on-surface font-semibold">Status</th>
+                            <th className="p-4 text-on-surface font-semibold text-right">Products</th>
+                            <th className="p-4"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {transfers.map(transfer => {
+                            const incoming = transfer.status === 'IN_TRANSIT' && transfer.toStoreId === database.storeId;
+                            return (
+                                <tr key={transfer.id} className="border-b border-on-surface/20 hover:bg-on-surface/5">
+                                    <td className="p-4 text-on-surface">
+                                        {new Date(transfer.dispatchedAt || transfer.createdAt).toLocaleString()}
+                                        {transfer.transferNumber && <span className="block text-xs font-mono text-on-surface/60">{transfer.transferNumber}</span>}
+                                    </td>
+                                    <td className="p-4 text-on-surface">{sideLabel(transfer.fromStoreId, transfer.fromLocation)}</td>
+                                    <td className="p-4 text-on-surface">{sideLabel(transfer.toStoreId, transfer.toLocation)}</td>
+                                    <td className="p-4">{statusBadge(transfer.status)}</td>
+                                    <td className="p-4 text-on-surface text-right">{transfer.lines.length}</td>
+                                    <td className="p-4 text-right">
+                                        <button onClick={() => { setActive(transfer); setReceiveLocation(FLOOR_LOCATION); }} className="text-primary hover:underline text-sm">
+                                            {transfer.status === 'DRAFT' ? 'Continue' : incoming ? 'Receive' : 'View'}
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {transfers.length === 0 && (
+                            <tr><td colSpan={6} className="p-8 text-center text-on-surface/50">No transfers yet.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default Transfers;
@@ -0,0 +1,305 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { RegisterSession, Tender } from '../../types';
+import database from '../../services/database';
+import { getRegisterCode } from '../../services/invoiceNumbering';
+import { buildZReport, closeSession } from '../../services/cashDrawer';
+import { TENDER_LABELS } from '../../services/tender';
+import { round2 } from '../../services/gst';
+
+export type CashDrawerMode = 'open' | 'movement' | 'close';
+
+interface CashDrawerModalProps {
+    mode: CashDrawerMode | null;
+    session: RegisterSession | null;
+    onSessionChange: (session: RegisterSession | null) => void;
+    onClose: () => void;
+}
+
+const CashDrawerModal: React.FC<CashDrawerModalProps> = ({ mode, session, onSessionChange, onClose }) => {
+    const { currentUser, sales, creditNotes, shopDetails, showToast, logout } = useAppContext();
+    const [amount, setAmount] = useState<number | ''>('');
+    const [movementType, setMovementType] = useState<'IN' | 'OUT'>('OUT');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [closedSession, setClosedSession] = useState<RegisterSession | null>(null);
+    const reportRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setAmount('');
+        setReason('');
+        setMovementType('OUT');
+    }, [mode]);
+
+    // Running totals while counting the drawer
+    const liveReport = useMemo(
+        () => session && mode === 'close' ? buildZReport(session, sales, creditNotes, typeof amount === 'number' ? amount : 0) : null,
+        [session, mode, sales, creditNotes, amount]
+    );
+
+    if (!mode && !closedSession) return null;
+
+    const handleOpen = async () => {
+        if (!currentUser || amount === '' || amount < 0) {
+            showToast('Enter the opening float (0 if the drawer is empty).', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const opened: RegisterSession = {
+            id: `shift_${Date.now()}`,
+            userId: currentUser.id,
+            register: getRegisterCode(),
+            status: 'OPEN',
+            openedAt: new Date().toISOString(),
+            openingFloat: round2(amount),
+            movements: []
+        };
+        try {
+            await database.saveRegisterSession(opened);
+            onSessionChange(opened);
+            showToast(`Shift opened with ₹${opened.openingFloat.toFixed(2)} float.`);
+            onClose();
+        } catch (error) {
+            console.error("Failed to open shift", error);
+            showToast('Could not open the shift.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleMovement = async () => {
+        if (!session || amount === '' || amount <= 0 || !reason.trim()) {
+            showToast('Enter an amount and a reason.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const updated: RegisterSession = {
+            ...session,
+            movements: [...session.movements, {
+                id: `cash_${Date.now()}`,
+                type: movementType,
+                amount: round2(amount),
+                reason: reason.trim(),
+                date: new Date().toISOString()
+            }]
+        };
+        try {
+            await database.saveRegisterSession(updated);
+            onSessionChange(updated);
+            showToast(`Cash ${movementType === 'IN' ? 'in' : 'out'}: ₹${round2(amount).toFixed(2)}`);
+            onClose();
+        } catch (error) {
+            console.error("Failed to record cash movement", error);
+            showToast('Could not record the entry.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleClose = async () => {
+        if (!session || amount === '' || amount < 0) {
+            showToast('Enter the cash counted in the drawer.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const closed = closeSession(session, sales, creditNotes, amount);
+        try {
+            await database.saveRegisterSession(closed);
+            setClosedSession(closed);
+            onSessionChange(null);
+            onClose();
+        } catch (error) {
+            console.error("Failed to close shift", error);
+            showToast('Could not close the shift.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePrint = () => {
+        const printContent = reportRef.current?.innerHTML;
+        if (printContent) {
+            const printWindow = window.open('', '', 'height=600,width=800');
+            if (printWindow) {
+                printWindow.document.write('<html><head><title>Z-Report</title>');
+                printWindow.document.write('<style>body { font-family: "Courier New", monospace; margin: 0; padding: 20px; } .row { display: flex; justify-content: space-between; }</style>');
+                printWindow.document.write('</head><body>');
+                printWindow.document.write(printContent);
+                printWindow.document.write('</body></html>');
+                printWindow.document.close();
+                printWindow.print();
+            }
+        }
+    };
+
+    // --- Z-Report after closing ---
+    if (closedSession?.zReport) {
+        const z = closedSession.zReport;
+        const row = (label: string, value: number, bold = false) => (
+            <div className={`row flex justify-between mb-1 ${bold ? 'font-bold' : ''}`}>
+                <span>{label}</span>
+                <span>₹{value.toFixed(2)}</span>
+            </div>
+        );
+        return (
+            <div className="fixed inset-0 flex items-center justify-center z-[80] bg-black/70 backdrop-blur-sm p-4">
+                <div className="bg-white rounded-lg shadow-2xl flex flex-col max-h-[90vh] w-full max-w-sm overflow-hidden animate-fade-in-up">
+                    <div className="bg-blue-700 p-4 text-white">
+                        <h2 className="font-bold text-lg">Shift Closed</h2>
+                    </div>
+                    <div className="overflow-y-auto p-6 bg-gray-100 flex-1 flex justify-center">
+                        <div ref={reportRef} className="bg-white text-black p-6 shadow-md w-full max-w-[300px] text-xs font-mono leading-tight">
+                            <div className="text-center mb-2">
+                                <h2 className="font-bold text-lg uppercase">{shopDetails.name}</h2>
+                                <p className="font-bold">Z-REPORT</p>
+                            </div>
+                            <div className="border-b border-dashed border-gray-400 my-2"></div>
+                            <div className="mb-1">POS: {closedSession.register} · User: {currentUser?.username}</div>
+                            <div className="mb-1">Opened: {new Date(closedSession.openedAt).toLocaleString()}</div>
+                            <div className="mb-1">Closed: {closedSession.closedAt && new Date(closedSession.closedAt).toLocaleString()}</div>
+                            <div className="border-b border-dashed border-gray-400 my-2"></div>
+
+                            <div className="row flex justify-between mb-1"><span>Sales</span><span>{z.salesCount}</span></div>
+                            {row('Gross Sales', z.grossSales, true)}
+                            {(Object.keys(z.byTender) as Tender[]).filter(t => z.byTender[t] > 0).map(t => (
+                                <React.Fragment key={t}>{row(`  ${TENDER_LABELS[t]}`, z.byTender[t])}</React.Fragment>
+                            ))}
+                            {row('Discounts Given', z.discounts)}
+                            <div className="row flex justify-between mb-1"><span>Returns</span><span>{z.returnsCount}</span></div>
+                            {row('  Cash Refunds', z.cashRefunds)}
+                            {row('  Wallet Refunds', z.walletRefunds)}
+                            <div className="border-b border-dashed border-gray-400 my-2"></div>
+
+                            {row('Opening Float', closedSession.openingFloat)}
+                            {row('+ Cash Sales', z.byTender.CASH)}
+                            {row('- Cash Refunds', z.cashRefunds)}
+                            {row('+ Cash In', z.cashIn)}
+                            {row('- Cash Out', z.cashOut)}
+                            {row('Expected Cash', z.expectedCash, true)}
+                            {row('Counted Cash', z.countedCash, true)}
+                            <div className="border-t border-dashed border-gray-400 pt-2 mt-2">
+                                {row(z.variance < 0 ? 'SHORT' : z.variance > 0 ? 'OVER' : 'VARIANCE', Math.abs(z.variance), true)}
+                            </div>
+
+                            {closedSession.movements.length > 0 && (
+                                <>
+                                    <div className="border-b border-dashed border-gray-400 my-2"></div>
+                                    {closedSession.movements.map(m => (
+                                        <div key={m.id} className="row flex justify-between mb-1">
+                                            <span className="truncate max-w-[180px]">{m.type === 'IN' ? '+' : '-'} {m.reason}</span>
+                                            <span>₹{m.amount.toFixed(2)}</span>
+                                        </div>
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                    <div className="p-4 bg-white border-t border-gray-100 flex gap-3">
+                        <button onClick={handlePrint} className="flex-1 py-3 bg-gray-800 text-white font-bold rounded-lg hover:bg-black transition-colors flex justify-center items-center gap-2">
+                            <span>🖨️</span> Print
+                        </button>
+                        <button onClick={() => { setClosedSession(null); logout(); }} className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors">
+                            Log Out
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center z-[70] bg-black/70 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-96 animate-fade-in-up border border-blue-200">
+                {mode === 'open' && (
+                    <>
+                        <h3 className="text-lg font-bold text-blue-900 mb-1">Open Shift</h3>
+                        <p className="text-xs text-gray-500 mb-4">POS {getRegisterCode()} · {currentUser?.username}. Count the cash in the drawer before the first sale.</p>
+                        <label className="text-xs font-bold text-gray-600 uppercase">Opening Float (₹)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleOpen(); }}
+                            className="w-full p-2 border border-blue-300 rounded text-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                            autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button onClick={logout} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded">Log Out</button>
+                            <button onClick={handleOpen} disabled={isSaving} className="px-4 py-1 bg-blue-600 text-white font-bold rounded hover:bg-blue-700 disabled:opacity-50">Start Shift</button>
+                        </div>
+                    </>
+                )}
+
+                {mode === 'movement' && (
+                    <>
+                        <h3 className="text-lg font-bold text-blue-900 mb-4">Cash In / Out</h3>
+                        <div className="flex gap-2 mb-4">
+                            <label className={`flex-1 p-2 text-center rounded cursor-pointer border ${movementType === 'OUT' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}>
+                                <input type="radio" name="movement-type" checked={movementType === 'OUT'} onChange={() => setMovementType('OUT')} className="hidden" />
+                                Cash Out
+                            </label>
+                            <label className={`flex-1 p-2 text-center rounded cursor-pointer border ${movementType === 'IN' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}>
+                                <input type="radio" name="movement-type" checked={movementType === 'IN'} onChange={() => setMovementType('IN')} className="hidden" />
+                                Cash In
+                            </label>
+                        </div>
+                        <input
+                            type="number"
+                            min={0}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            className="w-full p-2 border border-blue-300 rounded text-lg mb-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder="Amount"
+                            autoFocus
+                        />
+                        <input
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className="w-full p-2 border border-blue-300 rounded text-sm mb-4 outline-none"
+                            placeholder={movementType === 'OUT' ? 'e.g. Tea, courier, cleaning' : 'e.g. Change top-up'}
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button onClick={onClose} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+                            <button onClick={handleMovement} disabled={isSaving} className="px-4 py-1 bg-blue-600 text-white font-bold rounded hover:bg-blue-700 disabled:opacity-50">Save</button>
+                        </div>
+                    </>
+                )}
+
+                {mode === 'close' && liveReport && session && (
+                    <>
+                        <h3 className="text-lg font-bold text-blue-900 mb-1">Close Shift</h3>
+                        <p className="text-xs text-gray-500 mb-4">Opened {new Date(session.openedAt).toLocaleString()} · {liveReport.salesCount} sales</p>
+                        <div className="text-sm mb-4 space-y-1">
+                            <div className="flex justify-between"><span>Opening float</span><span className="font-mono">₹{session.openingFloat.toFixed(2)}</span></div>
+                            <div className="flex justify-between"><span>Cash sales</span><span className="font-mono">₹{liveReport.byTender.CASH.toFixed(2)}</span></div>
+                            <div className="flex justify-between"><span>Cash refunds</span><span className="font-mono">-₹{liveReport.cashRefunds.toFixed(2)}</span></div>
+                            <div className="flex justify-between"><span>Cash in / out</span><span className="font-mono">₹{(liveReport.cashIn - liveReport.cashOut).toFixed(2)}</span></div>
+                            <div className="flex justify-between font-bold border-t pt-1"><span>Expected in drawer</span><span className="font-mono">₹{liveReport.expectedCash.toFixed(2)}</span></div>
+                        </div>
+                        <label className="text-xs font-bold text-gray-600 uppercase">Counted Cash (₹)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            className="w-full p-2 border border-blue-300 rounded text-lg mb-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                            autoFocus
+                        />
+                        {amount !== '' && (
+                            <p className={`text-sm font-bold mb-4 ${liveReport.variance === 0 ? 'text-green-700' : 'text-red-600'}`}>
+                                {liveReport.variance === 0 ? 'Drawer balances.' : `${liveReport.variance < 0 ? 'Short' : 'Over'} by ₹${Math.abs(liveReport.variance).toFixed(2)}`}
+                            </p>
+                        )}
+                        <div className="flex justify-end gap-2">
+                            <button onClick={onClose} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+                            <button onClick={handleClose} disabled={isSaving || amount === ''} className="px-4 py-1 bg-red-600 text-white font-bold rounded hover:bg-red-700 disabled:opacity-50">Close Shift</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CashDrawerModal;
@@ -1,31 +1,51 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { useAppContext } from '../../hooks/useAppContext';
-import { Product, BillItem, Bill, Customer } from '../../types';
+import { useWedgeScanner } from '../../hooks/useWedgeScanner';
+import { Product, BillItem, Bill, Customer, ParkedBill, PaymentLine, Tender, RegisterSession, PriceListId } from '../../types';
 import InvoiceModal from './InvoiceModal';
+import ReturnModal from './ReturnModal';
+import ParkedBillsModal from './ParkedBillsModal';
+import CashDrawerModal, { CashDrawerMode } from './CashDrawerModal';
 import QRScannerModal from './QRScannerModal';
 import VisualScannerModal from './VisualScannerModal';
 import CustomerFaceCamera from './CustomerFaceCamera';
 import MarketNews from './MarketNews';
 import { processVoiceCommand, analyzeImageForBilling, getSmartUpsellSuggestion } from '../../services/geminiService';
 import database from '../../services/database';
+import { getRegisterCode } from '../../services/invoiceNumbering';
+import { applyGst, gstRateFor, lineNetAmount, taxTotals, GST_STATES, shopStateCode, round2 } from '../../services/gst';
+import { TENDER_LABELS, summarizeTender, addPaymentLine, paymentMethodFor } from '../../services/tender';
+import { expiredQuantity, sellableQuantity } from '../../services/batches';
+import { markdownFor } from '../../services/expiry';
+import { isWeighed, unitOf, roundQuantity, formatQuantity } from '../../services/units';
+import { parseScaleBarcode, buildBarcodeIndex, lookupBarcode, barcodeKey } from '../../services/barcodes';
+import { categoryTree, filterByCategory, variantLabel } from '../../services/catalog';
+import { PRICE_LISTS, activateDuePrices, listPrice, priceListFor } from '../../services/pricing';
+import { FLOOR_LOCATION, getCounterLocation, locationName, locationQuantity, stockLocations } from '../../services/transfers';
+import { can, discountCapError } from '../../services/permissions';
 
 // --- PAYMENT MODAL COMPONENT ---
 interface PaymentModalProps {
     isOpen: boolean;
     onClose: () => void;
     bill: Bill;
-    onConfirm: (method: 'CASH' | 'UPI' | 'NET_BANKING', walletRedeemed: number) => void;
+    onConfirm: (payments: PaymentLine[]) => void;
     upiId?: string;
     shopName: string;
 }
 
+const TENDER_ICONS: Record<Exclude<Tender, 'WALLET'>, string> = { CASH: '💵', UPI: '📱', CARD: '💳', NET_BANKING: '🏦' };
+
 const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, bill, onConfirm, upiId, shopName }) => {
     const { showToast } = useAppContext();
-    const [method, setMethod] = useState<'CASH' | 'UPI' | 'NET_BANKING'>('CASH');
+    const [method, setMethod] = useState<Exclude<Tender, 'WALLET'>>('CASH');
     const [qrError, setQrError] = useState<string | null>(null);
     const [customer, setCustomer] = useState<Customer | null>(null);
-    const [useWallet, setUseWallet] = useState(false);
+    const [payments, setPayments] = useState<PaymentLine[]>([]);
+    const [amount, setAmount] = useState<number | ''>('');
+    const [reference, setReference] = useState('');
+    const [walletAmount, setWalletAmount] = useState<number | ''>('');
     
     // Look up customer on mount
     useEffect(() => {
@@ -38,18 +58,58 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, bill, onCo
         fetchCustomer();
     }, [bill.customerMobile]);
 
+    // Start every checkout with a clean tender list
+    useEffect(() => {
+        if (isOpen) {
+            setPayments([]);
+            setAmount('');
+            setReference('');
+            setWalletAmount('');
+            setMethod('CASH');
+        }
+    }, [isOpen]);
+
     // Calculate financials
+    const { paid, remaining, changeDue, walletRedeemed } = summarizeTender(bill.total, payments);
     const walletBalance = customer?.walletBalance || 0;
-    const maxRedeemable = Math.min(walletBalance, bill.total);
-    // Wallet redemption is now direct without OTP
-    const redeemAmount = useWallet ? maxRedeemable : 0;
-    const finalPayable = Math.max(0, bill.total - redeemAmount);
-    
-    const handleWalletCheck = () => {
-        setUseWallet(!useWallet);
-        if (!useWallet) {
-            showToast("Wallet balance applied to bill.");
+    const maxRedeemable = round2(Math.min(walletBalance - walletRedeemed, remaining));
+    // The amount box defaults to whatever is still owed
+    const entryAmount = amount === '' ? remaining : amount;
+
+    const handleAddLine = (lineMethod: Tender = method, offered = entryAmount) => {
+        if (!(offered > 0)) return payments;
+        if (lineMethod !== 'CASH' && offered > remaining + 0.001) {
+            showToast(`Only cash can be more than the ₹${remaining.toFixed(2)} due.`, 'error');
+            return null;
+        }
+        const next = addPaymentLine(payments, bill.total, lineMethod, offered, lineMethod === 'CASH' ? undefined : reference);
+        setPayments(next);
+        setAmount('');
+        setReference('');
+        return next;
+    };
+
+    const handleRedeemWallet = () => {
+        const requested = walletAmount === '' ? maxRedeemable : Math.min(walletAmount, maxRedeemable);
+        if (requested <= 0) return;
+        handleAddLine('WALLET', requested);
+        setWalletAmount('');
+        showToast(`₹${requested.toFixed(2)} redeemed from wallet.`);
+    };
+
+    const handleRemoveLine = (index: number) => {
+        setPayments(prev => prev.filter((_, i) => i !== index));
+    };
+
+    // The pending amount box counts too, so a single-tender bill is one click
+    const handleConfirm = () => {
+        const final = remaining > 0 ? handleAddLine() : payments;
+        if (!final) return;
+        if (summarizeTender(bill.total, final).remaining > 0) {
+            showToast(`₹${summarizeTender(bill.total, final).remaining.toFixed(2)} still due.`, 'error');
+            return;
         }
+        onConfirm(final);
     };
 
     // Helper to ensure QR Lib is loaded
@@ -77,7 +137,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, bill, onCo
 
     // Use Callback Ref to ensure canvas exists before drawing
     const qrCanvasRef = useCallback((node: HTMLCanvasElement | null) => {
-        if (node !== null && method === 'UPI' && upiId) {
+        if (node !== null && method === 'UPI' && upiId && entryAmount > 0) {
             setQrError("Initializing QR...");
             
             const startGeneration = async () => {
@@ -93,17 +153,17 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, bill, onCo
 
             startGeneration();
         }
-    }, [method, upiId, finalPayable, shopName]);
+    }, [method, upiId, entryAmount, shopName]);
 
     const generate = (canvas: HTMLCanvasElement, lib: any) => {
         try {
              // UPI String Format: upi://pay?pa=UPI_ID&pn=NAME&am=AMOUNT&cu=INR
-             const upiString = `upi://pay?pa=${upiId}&pn=${encodeURIComponent(shopName)}&am=${finalPayable.toFixed(2)}&cu=INR`;
+             const upiString = `upi://pay?pa=${upiId}&pn=${encodeURIComponent(shopName)}&am=${entryAmount.toFixed(2)}&cu=INR`;
              
              // Check if toCanvas exists (node-qrcode style)
              if (lib.toCanvas) {
                  lib.toCanvas(canvas, upiString, {
-                     width: 200,
+                     width: 180,
                      margin: 2,
                      color: {
                          dark: "#000000",
@@ -132,102 +192,139 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, bill, onCo
 
     return (
         <div className="fixed inset-0 flex items-center justify-center z-[70] bg-black/80 backdrop-blur-sm">
-            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[95vh] overflow-y-auto animate-fade-in-up">
                 <div className="bg-blue-600 p-4 text-white text-center">
-                    <h2 className="text-xl font-bold">Select Payment Mode</h2>
+                    <h2 className="text-xl font-bold">Take Payment</h2>
                     <p className="text-blue-100 text-sm">Bill Total: <span className="text-white font-mono text-lg font-bold">₹{bill.total.toFixed(2)}</span></p>
                 </div>
                 
                 <div className="p-6">
                     {/* Wallet Section */}
                     {customer && customer.isMember && walletBalance > 0 && (
-                        <div className={`mb-4 border rounded-lg p-3 transition-all ${useWallet ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+                        <div className={`mb-4 border rounded-lg p-3 transition-all ${walletRedeemed > 0 ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
                             <div className="flex justify-between items-center mb-2">
                                 <span className="text-sm font-bold text-yellow-800 flex items-center gap-1">
                                     <span className="text-lg">👑</span> Wallet Balance
                                 </span>
-                                <span className="font-mono font-bold text-yellow-900">₹{walletBalance.toFixed(2)}</span>
+                                <span className="font-mono font-bold text-yellow-900">₹{(walletBalance - walletRedeemed).toFixed(2)}</span>
                             </div>
-                            
-                            <label className="flex items-center gap-2 cursor-pointer select-none">
-                                <input 
-                                    type="checkbox" 
-                                    checked={useWallet} 
-                                    onChange={handleWalletCheck}
-                                    className="w-5 h-5 text-yellow-600 rounded focus:ring-yellow-500"
-                                />
-                                <span className="text-sm text-gray-700">
-                                    {useWallet ? 
-                                        <span className="font-bold text-green-700">Balance Applied! (-₹{maxRedeemable.toFixed(2)})</span> : 
-                                        <span>Redeem <span className="font-bold">₹{maxRedeemable.toFixed(2)}</span></span>
-                                    }
-                                </span>
-                            </label>
+                            {maxRedeemable > 0 && (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={maxRedeemable}
+                                        value={walletAmount}
+                                        onChange={(e) => setWalletAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                                        className="flex-1 p-1 border border-yellow-300 rounded text-sm"
+                                        placeholder={`Up to ₹${maxRedeemable.toFixed(2)}`}
+                                    />
+                                    <button onClick={handleRedeemWallet} className="px-3 py-1 bg-yellow-500 text-white text-sm font-bold rounded hover:bg-yellow-600">
+                                        Redeem
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
 
-                    <div className="grid grid-cols-3 gap-3 mb-6">
-                        <button onClick={() => onConfirm('CASH', redeemAmount)} className={`p-3 rounded-lg border-2 flex flex-col items-center gap-1 transition-all border-green-600 bg-green-50 text-green-700 hover:bg-green-100 hover:shadow-lg transform hover:scale-105 active:scale-95`}>
-                            <span className="text-2xl">💵</span>
-                            <span className="text-xs font-bold">CASH (Direct)</span>
-                        </button>
-                        <button onClick={() => setMethod('UPI')} className={`p-3 rounded-lg border-2 flex flex-col items-center gap-1 transition-all ${method === 'UPI' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
-                            <span className="text-2xl">📱</span>
-                            <span className="text-xs font-bold">UPI QR</span>
-                        </button>
-                        <button onClick={() => setMethod('NET_BANKING')} className={`p-3 rounded-lg border-2 flex flex-col items-center gap-1 transition-all ${method === 'NET_BANKING' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
-                            <span className="text-2xl">🏦</span>
-                            <span className="text-xs font-bold">BANK</span>
-                        </button>
+                    <div className="grid grid-cols-4 gap-2 mb-4">
+                        {(Object.keys(TENDER_ICONS) as Exclude<Tender, 'WALLET'>[]).map(m => (
+                            <button key={m} onClick={() => setMethod(m)} className={`p-2 rounded-lg border-2 flex flex-col items-center gap-1 transition-all ${method === m ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
+                                <span className="text-2xl">{TENDER_ICONS[m]}</span>
+                                <span className="text-xs font-bold uppercase">{TENDER_LABELS[m]}</span>
+                            </button>
+                        ))}
                     </div>
 
-                    <div className="bg-gray-50 rounded-lg p-6 min-h-[220px] flex flex-col items-center justify-center border border-gray-200">
-                        {method === 'CASH' && (
-                            <div className="text-center">
-                                <p className="text-gray-500 mb-2">Cash Payment Selected</p>
-                                <div className="text-4xl font-bold text-slate-800">₹{finalPayable.toFixed(2)}</div>
-                                {useWallet && <p className="text-xs text-green-600 mt-1 font-bold animate-pulse">Wallet Redeemed: -₹{redeemAmount.toFixed(2)}</p>}
-                                <p className="text-xs text-gray-400 mt-2 font-semibold">Click "CASH (Direct)" above for instant bill</p>
+                    {remaining > 0 && (
+                        <div className="bg-gray-50 rounded-lg p-4 mb-4 border border-gray-200">
+                            <div className="flex gap-2 items-center">
+                                <span className="text-gray-500 text-sm font-bold w-16">{TENDER_LABELS[method]}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleAddLine(); }}
+                                    className="flex-1 p-2 border border-blue-300 rounded text-lg font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                                    placeholder={remaining.toFixed(2)}
+                                    autoFocus
+                                />
+                                <button onClick={() => handleAddLine()} className="px-3 py-2 bg-blue-600 text-white font-bold rounded hover:bg-blue-700">Add</button>
                             </div>
-                        )}
+                            {method !== 'CASH' && (
+                                <input
+                                    value={reference}
+                                    onChange={(e) => setReference(e.target.value)}
+                                    className="w-full mt-2 p-1 border border-gray-300 rounded text-sm"
+                                    placeholder="Transaction reference (optional)"
+                                />
+                            )}
+                            {method === 'UPI' && (
+                                <div className="text-center flex flex-col items-center w-full mt-3">
+                                    {upiId ? (
+                                        <>
+                                            <div className="bg-white p-2 border border-gray-300 rounded-lg shadow-sm mb-2 mx-auto relative min-h-[180px] min-w-[180px] flex items-center justify-center">
+                                                <canvas ref={qrCanvasRef} key="upi-qr-canvas"></canvas>
+                                                {qrError && (
+                                                    <div className="absolute inset-0 flex flex-col items-center justify-center text-red-500 text-xs font-bold text-center p-2 bg-white/95">
+                                                        <p>{qrError}</p>
+                                                        {qrError.includes("Failed") && <button onClick={() => setMethod('CASH')} className="mt-2 text-blue-600 underline">Switch to Cash</button>}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <p className="text-xs text-gray-500 font-mono mb-1">ID: {upiId}</p>
+                                            <p className="text-sm font-bold text-blue-600 animate-pulse">Scan & Pay ₹{entryAmount.toFixed(2)}</p>
+                                        </>
+                                    ) : (
+                                        <p className="text-red-500 text-sm font-bold">UPI ID not configured in Admin Settings.</p>
+                                    )}
+                                </div>
+                            )}
+                            {(method === 'CARD' || method === 'NET_BANKING') && (
+                                <p className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded mt-2 text-center">Verify payment on the terminal / bank app</p>
+                            )}
+                        </div>
+                    )}
 
-                        {method === 'UPI' && (
-                            <div className="text-center flex flex-col items-center w-full">
-                                {upiId ? (
-                                    <>
-                                        <div className="bg-white p-2 border border-gray-300 rounded-lg shadow-sm mb-3 mx-auto relative min-h-[200px] min-w-[200px] flex items-center justify-center">
-                                            <canvas ref={qrCanvasRef} key="upi-qr-canvas"></canvas>
-                                            {qrError && (
-                                                <div className="absolute inset-0 flex flex-col items-center justify-center text-red-500 text-xs font-bold text-center p-2 bg-white/95">
-                                                    <p>{qrError}</p>
-                                                    {qrError.includes("Failed") && <button onClick={() => setMethod('CASH')} className="mt-2 text-blue-600 underline">Switch to Cash</button>}
-                                                </div>
-                                            )}
-                                        </div>
-                                        <p className="text-xs text-gray-500 font-mono mb-1">ID: {upiId}</p>
-                                        <p className="text-sm font-bold text-blue-600 animate-pulse">Scan & Pay ₹{finalPayable.toFixed(2)}</p>
-                                        {useWallet && <p className="text-xs text-green-600 font-bold">Wallet Applied</p>}
-                                    </>
-                                ) : (
-                                    <p className="text-red-500 text-sm font-bold">UPI ID not configured in Admin Settings.</p>
-                                )}
-                            </div>
-                        )}
+                    {payments.length > 0 && (
+                        <div className="divide-y divide-gray-200 border border-gray-200 rounded mb-4 text-sm">
+                            {payments.map((line, i) => (
+                                <div key={i} className="flex justify-between items-center p-2">
+                                    <span className="font-bold text-slate-800">
+                                        {TENDER_LABELS[line.method]}
+                                        {line.reference && <span className="text-xs text-gray-400 font-normal ml-2">#{line.reference}</span>}
+                                        {line.tendered !== undefined && <span className="text-xs text-gray-500 font-normal ml-2">(given ₹{line.tendered.toFixed(2)})</span>}
+                                    </span>
+                                    <span className="flex items-center gap-3">
+                                        <span className="font-mono">₹{line.amount.toFixed(2)}</span>
+                                        <button onClick={() => handleRemoveLine(i)} className="text-gray-400 hover:text-red-600">✕</button>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
 
-                        {method === 'NET_BANKING' && (
-                            <div className="text-center">
-                                <p className="text-gray-500 text-sm mb-2">Record Net Banking / Card Transaction</p>
-                                <div className="text-2xl font-bold text-slate-800 mb-1">₹{finalPayable.toFixed(2)}</div>
-                                <p className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded">Verify payment in bank app manually</p>
-                            </div>
-                        )}
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="bg-gray-50 rounded p-2">
+                            <div className="text-xs text-gray-500 uppercase font-bold">Paid</div>
+                            <div className="font-mono font-bold text-slate-900">₹{paid.toFixed(2)}</div>
+                        </div>
+                        <div className={`rounded p-2 ${remaining > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+                            <div className="text-xs text-gray-500 uppercase font-bold">Due</div>
+                            <div className={`font-mono font-bold ${remaining > 0 ? 'text-red-700' : 'text-slate-900'}`}>₹{remaining.toFixed(2)}</div>
+                        </div>
+                        <div className={`rounded p-2 ${changeDue > 0 ? 'bg-green-50' : 'bg-gray-50'}`}>
+                            <div className="text-xs text-gray-500 uppercase font-bold">Change</div>
+                            <div className={`font-mono font-bold ${changeDue > 0 ? 'text-green-700 text-lg' : 'text-slate-900'}`}>₹{changeDue.toFixed(2)}</div>
+                        </div>
                     </div>
                 </div>
 
                 <div className="p-4 bg-gray-100 flex gap-3">
                     <button onClick={onClose} className="flex-1 py-3 text-gray-600 font-bold hover:bg-gray-200 rounded-lg transition-colors">Cancel</button>
-                    <button onClick={() => onConfirm(method, redeemAmount)} className="flex-[2] py-3 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 shadow-md transition-colors flex items-center justify-center gap-2">
-                        <span>✓</span> {method === 'CASH' ? 'Confirm Cash' : 'Payment Received'}
+                    <button onClick={handleConfirm} className="flex-[2] py-3 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 shadow-md transition-colors flex items-center justify-center gap-2">
+                        <span>✓</span> {remaining > 0 ? `Confirm ${TENDER_LABELS[method]} ₹${entryAmount.toFixed(2)}` : 'Complete Sale'}
                     </button>
                 </div>
             </div>
@@ -241,9 +338,10 @@ interface DiscountModalProps {
     onClose: () => void;
     onApply: (discount: { type: 'percentage' | 'fixed'; value: number }) => void;
     itemName: string;
+    maxPercent?: number; // The cashier's role cap, shown as a hint
 }
 
-const DiscountModal: React.FC<DiscountModalProps> = ({ isOpen, onClose, onApply, itemName }) => {
+const DiscountModal: React.FC<DiscountModalProps> = ({ isOpen, onClose, onApply, itemName, maxPercent }) => {
     const [type, setType] = useState<'percentage' | 'fixed'>('percentage');
     const [value, setValue] = useState<number | ''>('');
 
@@ -279,6 +377,7 @@ const DiscountModal: React.FC<DiscountModalProps> = ({ isOpen, onClose, onApply,
                     placeholder="Enter value"
                     autoFocus
                 />
+                {maxPercent !== undefined && <p className="text-xs text-gray-500 -mt-2 mb-4">Your role may give up to {maxPercent}% off the bill in total.</p>}
 
                 <div className="flex justify-end gap-2">
                      <button onClick={() => onApply({ type: 'fixed', value: -1 })} className="px-3 py-1 text-red-600 text-sm hover:bg-red-50 rounded">
@@ -292,18 +391,121 @@ const DiscountModal: React.FC<DiscountModalProps> = ({ isOpen, onClose, onApply,
     );
 };
 
+interface WeightEntryModalProps {
+    product: Product;
+    initialQuantity?: number;
+    onConfirm: (quantity: number) => void;
+    onClose: () => void;
+}
+
+// Loose goods: key in the weight off the counter scale, or the amount the customer asked for
+const WeightEntryModal: React.FC<WeightEntryModalProps> = ({ product, initialQuantity, onConfirm, onClose }) => {
+    const unit = unitOf(product);
+    const [quantity, setQuantity] = useState<number | ''>(initialQuantity ?? '');
+    const [amount, setAmount] = useState<number | ''>('');
+    const presets = unit === 'g' ? [100, 250, 500, 1000] : [0.25, 0.5, 1, 2];
+
+    const handleQuantity = (value: number | '') => {
+        setQuantity(value);
+        setAmount(value === '' ? '' : round2(value * product.price));
+    };
+
+    const handleAmount = (value: number | '') => {
+        setAmount(value);
+        setQuantity(value === '' || product.price <= 0 ? '' : roundQuantity(value / product.price, unit));
+    };
+
+    const handleConfirm = () => {
+        if (typeof quantity === 'number' && quantity > 0) onConfirm(roundQuantity(quantity, unit));
+    };
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center z-[60] bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-96 animate-fade-in-up border border-blue-200" onKeyDown={e => { if (e.key === 'Enter') handleConfirm(); if (e.key === 'Escape') onClose(); }}>
+                <h3 className="text-lg font-bold text-blue-900">{product.name}</h3>
+                <p className="text-xs text-gray-500 mb-4">₹{product.price.toFixed(2)} per {unit}</p>
+
+                <label className="block text-xs font-bold text-gray-600 mb-1">Weight ({unit})</label>
+                <input
+                    type="number"
+                    step={unit === 'g' ? 1 : 0.005}
+                    min={0}
+                    value={quantity}
+                    onChange={e => handleQuantity(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                    className="w-full p-2 border border-blue-300 rounded text-2xl font-mono mb-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder={unit === 'g' ? '250' : '0.500'}
+                    autoFocus
+                />
+                <div className="flex gap-2 mb-4">
+                    {presets.map(preset => (
+                        <button key={preset} onClick={() => handleQuantity(preset)} className="flex-1 py-1 bg-gray-100 hover:bg-blue-100 text-slate-800 text-xs font-bold rounded border border-gray-300">
+                            {formatQuantity(preset, unit)}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-bold text-gray-600 mb-1">or Amount (₹)</label>
+                <input
+                    type="number"
+                    min={0}
+                    value={amount}
+                    onChange={e => handleAmount(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                    className="w-full p-2 border border-gray-300 rounded text-lg font-mono mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g. 50"
+                />
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+                    <button onClick={handleConfirm} disabled={!(typeof quantity === 'number' && quantity > 0)} className="px-4 py-1 bg-blue-600 text-white font-bold rounded hover:bg-blue-700 disabled:opacity-50">Add</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// An open bill at the counter; several can be in progress side by side
+interface CartTab {
+    id: string;
+    label: string;
+    bill: Bill;
+}
+
+const emptyBill = (): Bill => ({ customerName: 'Walk-in', customerMobile: '', items: [], subtotal: 0, taxAmount: 0, total: 0 });
+
 const EmployeePOS: React.FC = () => {
-    const { logout, products, addSale, showToast, currentUser, shopDetails } = useAppContext();
-    const [currentBill, setCurrentBill] = useState<Bill>({ customerName: 'Walk-in', customerMobile: '', items: [], subtotal: 0, taxAmount: 0, total: 0 });
+    const { logout, products, categories, customers, addSale, showToast, currentUser, shopDetails, role } = useAppContext();
+    const canTakeReturns = can(role, 'returns');
+    const counterLocation = getCounterLocation();
+
+    // --- Cart Tabs ---
+    const cartCounter = useRef(1);
+    const [carts, setCarts] = useState<CartTab[]>([{ id: 'cart_1', label: 'Cart 1', bill: emptyBill() }]);
+    const [activeCartId, setActiveCartId] = useState('cart_1');
+    const currentBill = carts.find(c => c.id === activeCartId)?.bill || emptyBill();
+    // Same shape as a useState setter, applied to whichever cart is active
+    const setCurrentBill = useCallback((update: Bill | ((prev: Bill) => Bill)) => {
+        setCarts(prev => prev.map(c => c.id === activeCartId
+            ? { ...c, bill: typeof update === 'function' ? update(c.bill) : update }
+            : c));
+    }, [activeCartId]);
+    const [isParkedOpen, setIsParkedOpen] = useState(false);
+    const [parkedCount, setParkedCount] = useState(0);
     const [searchTerm, setSearchTerm] = useState('');
+    const [categoryFilter, setCategoryFilter] = useState('');
     const [invoiceReady, setInvoiceReady] = useState<Bill | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
     const recognitionRef = useRef<any>(null);
     
     // UI Toggles
     const [discountModal, setDiscountModal] = useState<{ isOpen: boolean; target: string | 'bill'; itemName: string } | null>(null);
+    const [weighing, setWeighing] = useState<{ product: Product; replace?: boolean } | null>(null);
     const [paymentModalOpen, setPaymentModalOpen] = useState(false);
     const [isScannerOpen, setIsScannerOpen] = useState(false);
+    const [isReturnOpen, setIsReturnOpen] = useState(false);
+    const [drawerMode, setDrawerMode] = useState<CashDrawerMode | null>(null);
+
+    // Cash drawer shift; selling needs an open one
+    const [session, setSession] = useState<RegisterSession | null>(null);
     
     // Feature States
     const [selectedResultIndex, setSelectedResultIndex] = useState(0);
@@ -324,15 +526,23 @@ const EmployeePOS: React.FC = () => {
         setSelectedResultIndex(0);
     }, [searchTerm]);
 
+    // Rebuilt only when the catalog changes, so a scan is one map lookup
+    const barcodeIndex = useMemo(() => buildBarcodeIndex(products), [products]);
+
     const filteredProducts = useMemo(() => {
         if (!searchTerm) return [];
+        // A full barcode or id typed into the box puts its product first, so Enter adds it
+        const exact = lookupBarcode(barcodeIndex, searchTerm);
         const lowerTerm = searchTerm.toLowerCase();
-        return products.filter(p => 
+        const key = barcodeKey(searchTerm);
+        const matches = filterByCategory(products, categoryFilter, categories).filter(p => p !== exact && (
             p.name.toLowerCase().includes(lowerTerm) || 
             p.id.toLowerCase().includes(lowerTerm) ||
-            p.brand.toLowerCase().includes(lowerTerm)
-        ).slice(0, 10);
-    }, [products, searchTerm]);
+            p.brand.toLowerCase().includes(lowerTerm) ||
+            (p.barcodes || []).some(code => barcodeKey(code).startsWith(key))
+        ));
+        return (exact ? [exact, ...matches] : matches).slice(0, 10);
+    }, [products, categories, categoryFilter, barcodeIndex, searchTerm]);
 
     // Keyboard Shortcuts
     useEffect(() => {
@@ -341,7 +551,10 @@ const EmployeePOS: React.FC = () => {
             if (e.key === 'F2') { e.preventDefault(); setIsScannerOpen(true); }
             if (e.key === 'F3') { e.preventDefault(); toggleVoiceListening(); }
             if (e.key === 'F4') { e.preventDefault(); setShowVisualScanner(true); }
+            if (e.key === 'F7' && canTakeReturns) { e.preventDefault(); setIsReturnOpen(true); }
             if (e.key === 'F8') { e.preventDefault(); handleClearBill(); }
+            if (e.key === 'F10') { e.preventDefault(); handleParkBill(); }
+            if (e.key === 'F11') { e.preventDefault(); setIsParkedOpen(true); }
             if (e.key === 'F9') { e.preventDefault(); setShowLiveMonitor(prev => !prev); }
             
             // Checkout
@@ -366,7 +579,7 @@ const EmployeePOS: React.FC = () => {
                 } else if (e.key === 'Enter') {
                     e.preventDefault();
                     if (filteredProducts.length > 0) {
-                        addToBill(filteredProducts[selectedResultIndex]);
+                        addOrWeigh(filteredProducts[selectedResultIndex]);
                         setSearchTerm('');
                     }
                 }
@@ -374,7 +587,7 @@ const EmployeePOS: React.FC = () => {
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [searchTerm, selectedResultIndex, filteredProducts, isScannerOpen, currentBill, paymentModalOpen]);
+    }, [searchTerm, selectedResultIndex, filteredProducts, isScannerOpen, currentBill, paymentModalOpen, carts, activeCartId]);
 
     // Upsell Logic
     useEffect(() => {
@@ -404,9 +617,42 @@ const EmployeePOS: React.FC = () => {
         }
     };
 
+    // A line's price on the bill's list, counting a scheduled change that fell due while the till was open
+    const linePrice = (product: Product, priceList: PriceListId = 'retail') =>
+        listPrice(activateDuePrices(products.find(p => p.id === product.id) || product), priceList);
+
+    const repriceBill = (bill: Bill, priceList: PriceListId): Bill =>
+        calculateTotal({ ...bill, priceList, items: bill.items.map(item => ({ ...item, price: linePrice(item, priceList) })) });
+
+    // A known customer's number switches the cart to their price list
+    const setBillCustomer = (fields: Pick<Bill, 'customerName' | 'customerMobile'>) => setCurrentBill(prev => {
+        const customer = customers.find(c => c.mobile === fields.customerMobile);
+        const next = { ...prev, ...fields };
+        return customer ? repriceBill(next, priceListFor(customer)) : next;
+    });
+
     const addToBill = (product: Product, quantity = 1, discount?: { type: 'percentage' | 'fixed'; value: number }) => {
-        if (product.stock < quantity) {
+        // Cart lines are snapshots, so check batches against the live product
+        const live = products.find(p => p.id === product.id) || product;
+        const inCart = currentBill.items.find(item => item.id === product.id)?.quantity || 0;
+        if (quantity > 0 && expiredQuantity(live) > 0 && inCart + quantity > sellableQuantity(live)) {
+            showToast(`${live.name}: only ${sellableQuantity(live)} in date. ${expiredQuantity(live)} expired, remove from shelf.`, 'error');
+            return;
+        }
+        // Markdown rules (admin Expiry tab) price short-dated stock down as it is scanned
+        const markdown = !discount && quantity > 0 && inCart === 0 ? markdownFor(live, shopDetails.markdownRules) : null;
+        // Only what this counter's location holds can be sold here. The shop floor keeps
+        // selling into negative stock as before unless the stock is in a godown.
+        const available = locationQuantity(live, counterLocation);
+        const heldElsewhere = counterLocation !== FLOOR_LOCATION || available < live.stock;
+        if (quantity > 0 && inCart + quantity > available && heldElsewhere) {
+            showToast(`${live.name}: only ${available} at ${locationName(stockLocations(shopDetails), counterLocation)}. Transfer more stock first.`, 'error');
+            return;
+        }
+        if (available < quantity) {
             showToast(`Stock Low: ${product.name}`, 'error');
+        } else if (markdown) {
+            showToast(`${markdown.rule.percent}% markdown: ${live.name} expires ${markdown.daysLeft === 0 ? 'today' : `in ${markdown.daysLeft} day${markdown.daysLeft === 1 ? '' : 's'}`}`);
         }
 
         setCurrentBill(prev => {
@@ -417,7 +663,7 @@ const EmployeePOS: React.FC = () => {
                 const existingItem = newItems[existingItemIndex];
                 newItems[existingItemIndex] = {
                     ...existingItem,
-                    quantity: existingItem.quantity + quantity,
+                    quantity: roundQuantity(existingItem.quantity + quantity, unitOf(existingItem)),
                     discount: discount || existingItem.discount
                 };
             } else {
@@ -425,11 +671,14 @@ const EmployeePOS: React.FC = () => {
                     id: product.id,
                     name: product.name,
                     brand: product.brand,
-                    price: product.price,
+                    price: linePrice(product, prev.priceList),
+                    unit: product.unit,
                     expireDate: product.expireDate,
-                    stock: product.stock,
+                    stock: available,
+                    hsnCode: product.hsnCode,
+                    gstRate: gstRateFor(product, shopDetails),
                     quantity, 
-                    discount 
+                    discount: discount || (markdown ? { type: 'percentage', value: markdown.rule.percent, markdown: true } : undefined)
                 });
             }
             playBeep();
@@ -437,12 +686,34 @@ const EmployeePOS: React.FC = () => {
         });
     };
 
+    // Loose items open the weight dialog instead of adding one unit
+    const addOrWeigh = (product: Product) => {
+        if (isWeighed(product)) setWeighing({ product: { ...product, price: linePrice(product, currentBill.priceList) } });
+        else addToBill(product);
+    };
+
+    const handleWeightConfirm = (quantity: number) => {
+        if (!weighing) return;
+        if (weighing.replace) {
+            setCurrentBill(prev => calculateTotal({ ...prev, items: prev.items.map(item => item.id === weighing.product.id ? { ...item, quantity } : item) }));
+        } else {
+            addToBill(weighing.product, quantity);
+        }
+        setWeighing(null);
+    };
+
     const handleUpdateItem = (id: string, discount: { type: 'percentage' | 'fixed'; value: number }) => {
         if (discount.value === -1) {
             removeFromBill(id);
             setDiscountModal(null);
             return;
         }
+        // Refused here rather than at checkout, where the database would refuse the sale
+        const overCap = discountCapError(role, calculateTotal({ ...currentBill, items: currentBill.items.map(item => item.id === id ? { ...item, discount } : item) }));
+        if (overCap) {
+            showToast(overCap, 'error');
+            return;
+        }
         setCurrentBill(prev => {
             const newItems = prev.items.map(item => {
                 if (item.id === id) {
@@ -455,6 +726,18 @@ const EmployeePOS: React.FC = () => {
         setDiscountModal(null);
     };
 
+    const handleBillDiscount = (discount: { type: 'percentage' | 'fixed'; value: number }) => {
+        // Remove (-1) takes the bill discount off
+        const billDiscount = discount.value === -1 ? undefined : discount;
+        const overCap = discountCapError(role, calculateTotal({ ...currentBill, billDiscount }));
+        if (overCap) {
+            showToast(overCap, 'error');
+            return;
+        }
+        setCurrentBill(prev => calculateTotal({ ...prev, billDiscount }));
+        setDiscountModal(null);
+    };
+
     const removeFromBill = (productId: string) => {
         setCurrentBill(prev => {
             const newItems = prev.items.filter(item => item.id !== productId);
@@ -462,60 +745,119 @@ const EmployeePOS: React.FC = () => {
         });
     };
 
-    const calculateTotal = (bill: Bill): Bill => {
-        const subtotal = bill.items.reduce((sum, item) => {
-            const gross = item.price * item.quantity;
-            let discount = 0;
-            if (item.discount) {
-                discount = item.discount.type === 'fixed' 
-                    ? item.discount.value 
-                    : gross * (item.discount.value / 100);
+    // GST is worked out per line from each product's own slab (services/gst.ts)
+    const calculateTotal = (bill: Bill): Bill => applyGst(bill, shopDetails);
+
+    const handleNewCart = (label?: string, bill: Bill = emptyBill()) => {
+        cartCounter.current += 1;
+        const id = `cart_${Date.now()}`;
+        setCarts(prev => [...prev, { id, label: label || `Cart ${cartCounter.current}`, bill }]);
+        setActiveCartId(id);
+    };
+
+    const handleCloseCart = (cartId: string) => {
+        const cart = carts.find(c => c.id === cartId);
+        if (!cart) return;
+        if (cart.bill.items.length > 0 && !window.confirm(`Discard "${cart.label}" with ${cart.bill.items.length} items?`)) return;
+
+        if (carts.length === 1) {
+            setCarts([{ ...cart, bill: emptyBill() }]);
+            return;
+        }
+        const remaining = carts.filter(c => c.id !== cartId);
+        setCarts(remaining);
+        if (cartId === activeCartId) setActiveCartId(remaining[remaining.length - 1].id);
+    };
+
+    // Put the active bill on hold so the next customer can be served
+    const handleParkBill = async () => {
+        if (currentBill.items.length === 0 || !currentUser) return;
+        const activeCart = carts.find(c => c.id === activeCartId);
+        const suggested = currentBill.customerName && currentBill.customerName !== 'Walk-in' ? currentBill.customerName : activeCart?.label;
+        const label = window.prompt("Label for the parked bill:", suggested || '');
+        if (label === null) return;
+
+        try {
+            await database.parkBill({
+                id: `park_${Date.now()}`,
+                label: label.trim() || suggested || 'Parked bill',
+                bill: currentBill,
+                parkedAt: new Date().toISOString(),
+                parkedBy: currentUser.id,
+                register: getRegisterCode()
+            });
+            setParkedCount(prev => prev + 1);
+            showToast(`Bill parked as "${label.trim() || suggested}"`);
+            if (carts.length > 1) {
+                const remaining = carts.filter(c => c.id !== activeCartId);
+                setCarts(remaining);
+                setActiveCartId(remaining[remaining.length - 1].id);
+            } else {
+                setCurrentBill(emptyBill());
             }
-            return sum + (gross - discount);
-        }, 0);
-
-        let totalAfterDiscount = subtotal;
-        if (bill.billDiscount) {
-            const discountAmount = bill.billDiscount.type === 'fixed'
-                ? bill.billDiscount.value
-                : subtotal * (bill.billDiscount.value / 100);
-            totalAfterDiscount -= discountAmount;
+        } catch (error) {
+            console.error("Failed to park bill", error);
+            showToast("Could not park the bill", 'error');
         }
-        
-        // Apply GST if Default Rate is set
-        let taxAmount = 0;
-        if (shopDetails.defaultGstRate && shopDetails.defaultGstRate > 0) {
-            taxAmount = totalAfterDiscount * (shopDetails.defaultGstRate / 100);
+    };
+
+    const handleResumeParked = (parked: ParkedBill) => {
+        const bill = calculateTotal(parked.bill);
+        // Reuse the active tab if it's still empty
+        if (currentBill.items.length === 0) {
+            setCarts(prev => prev.map(c => c.id === activeCartId ? { ...c, label: parked.label, bill } : c));
+        } else {
+            handleNewCart(parked.label, bill);
         }
+        showToast(`Resumed "${parked.label}"`);
+    };
 
-        const total = totalAfterDiscount + taxAmount;
+    useEffect(() => {
+        if (!currentUser) return;
+        database.getOpenRegisterSession(currentUser.id).then(open => {
+            setSession(open);
+            if (!open) setDrawerMode('open');
+        }).catch(err => console.error("Failed to load register session", err));
+    }, [currentUser]);
 
-        return { ...bill, subtotal, taxAmount, total: Math.max(0, total) };
-    };
+    useEffect(() => {
+        database.getParkedBills().then(list => setParkedCount(list.length)).catch(() => {});
+    }, []);
 
     const handleClearBill = () => {
         if (currentBill.items.length === 0) return;
         if (window.confirm("Clear current bill?")) {
-            setCurrentBill({ customerName: 'Walk-in', customerMobile: '', items: [], subtotal: 0, taxAmount: 0, total: 0 });
+            setCurrentBill(emptyBill());
         }
     };
 
     const handleQRScan = (data: string, keepOpen = false) => {
-        let product = products.find(p => p.id === data || p.name === data);
+        // Weighing-scale label: the barcode carries the item and its weight or price
+        const reading = parseScaleBarcode(data.trim(), products);
+        if (reading) {
+            addToBill(reading.product, reading.quantity);
+            showToast(`${reading.product.name}: ${formatQuantity(reading.quantity, unitOf(reading.product))}${reading.price !== undefined ? ` (₹${reading.price.toFixed(2)})` : ''}`);
+            if (!keepOpen) setIsScannerOpen(false);
+            return;
+        }
+        let product = lookupBarcode(barcodeIndex, data) || products.find(p => p.name === data);
         if (!product) {
             try {
                 const parsed = JSON.parse(data);
-                if (parsed.id) product = products.find(p => p.id === parsed.id);
+                if (parsed.id) product = barcodeIndex.get(parsed.id);
             } catch(e) {}
         }
         if (product) {
-            addToBill(product);
+            addOrWeigh(product);
             if (!keepOpen) setIsScannerOpen(false);
         } else {
             showToast('Product Not Found', 'error');
         }
     };
 
+    // Handheld HID scanners type the code anywhere on the screen; a modal with its own fields takes the keys instead
+    useWedgeScanner(code => handleQRScan(code, true), !(paymentModalOpen || weighing || discountModal || isReturnOpen || drawerMode || isParkedOpen || invoiceReady || showVisualScanner));
+
     const handleVisualScan = async (base64Image: string) => {
         setShowVisualScanner(false);
         showToast("Analyzing...");
@@ -602,11 +944,16 @@ const EmployeePOS: React.FC = () => {
             showToast("Add items to bill first", "error");
             return;
         }
+        if (!session) {
+            setDrawerMode('open');
+            return;
+        }
         setPaymentModalOpen(true);
     };
 
-    // Updated payment logic to handle Wallet Redemption and 5% Cashback
-    const handlePaymentComplete = async (method: 'CASH' | 'UPI' | 'NET_BANKING', walletRedeemed = 0) => {
+    // Split tender: any mix of cash/UPI/card/bank plus partial wallet redemption, and 5% Cashback
+    const handlePaymentComplete = async (payments: PaymentLine[]) => {
+        const { walletRedeemed, changeDue } = summarizeTender(currentBill.total, payments);
         // Calculate Earned Amount (5% of Paid Amount)
         // Paid Amount = Total Bill - Wallet Redemption
         const paidAmount = currentBill.total - walletRedeemed;
@@ -614,36 +961,29 @@ const EmployeePOS: React.FC = () => {
 
         const finalizedBill = { 
             ...currentBill, 
-            paymentMethod: method,
+            // Registered business buyers get a B2B invoice
+            customerGstin: customers.find(c => c.mobile === currentBill.customerMobile)?.gstin || undefined,
+            paymentMethod: paymentMethodFor(payments),
+            payments,
+            changeDue,
             walletRedeemed,
             walletEarned
         };
         
-        // Save Sale
-        addSale(finalizedBill);
-        
-        // Update Customer Wallet
-        if (currentBill.customerMobile) {
-            const customer = await database.getCustomerByMobile(currentBill.customerMobile);
-            if (customer && customer.isMember) {
-                const currentBalance = customer.walletBalance || 0;
-                const newBalance = currentBalance - walletRedeemed + walletEarned;
-                
-                // Update customer record
-                await database.saveCustomer({
-                    ...customer,
-                    walletBalance: newBalance
-                });
-                
-                if (walletEarned > 0) {
-                     showToast(`₹${walletEarned.toFixed(2)} Cashback Added!`);
-                }
-            }
+        // Save Sale (stock and member wallet are updated in the same commit)
+        const result = await addSale(finalizedBill);
+        if (!result) return;
+
+        if (result.customer?.isMember && walletEarned > 0) {
+            showToast(`₹${walletEarned.toFixed(2)} Cashback Added!`);
+        }
+        if (changeDue > 0) {
+            showToast(`Return change: ₹${changeDue.toFixed(2)}`);
         }
 
-        setInvoiceReady(finalizedBill);
+        setInvoiceReady({ ...finalizedBill, invoiceNumber: result.sale.invoiceNumber });
         setPaymentModalOpen(false);
-        setCurrentBill({ customerName: 'Walk-in', customerMobile: '', items: [], subtotal: 0, taxAmount: 0, total: 0 });
+        setCurrentBill(emptyBill());
     };
 
     return (
@@ -655,8 +995,13 @@ const EmployeePOS: React.FC = () => {
                     <span className="font-bold text-lg tracking-wide">{shopDetails.name}</span>
                     <div className="flex gap-2">
                         <span className="bg-blue-800 px-2 rounded text-xs border border-blue-600 shadow-sm flex items-center">
-                            <span className="opacity-70 mr-1">POS:</span> 01
+                            <span className="opacity-70 mr-1">POS:</span> {getRegisterCode()}
                         </span>
+                        {counterLocation !== FLOOR_LOCATION && (
+                            <span className="bg-blue-800 px-2 rounded text-xs border border-blue-600 shadow-sm flex items-center">
+                                <span className="opacity-70 mr-1">Stock:</span> {locationName(stockLocations(shopDetails), counterLocation)}
+                            </span>
+                        )}
                         <span className="bg-blue-800 px-2 rounded text-xs border border-blue-600 shadow-sm flex items-center">
                             <span className="opacity-70 mr-1">User:</span> {currentUser?.username}
                         </span>
@@ -669,6 +1014,12 @@ const EmployeePOS: React.FC = () => {
                     <div className="bg-blue-800 px-2 py-0.5 rounded border border-blue-600 font-mono font-bold text-xs">
                         {new Date().toLocaleDateString()}
                     </div>
+                    <button onClick={() => setDrawerMode('movement')} disabled={!session} className="bg-blue-800 hover:bg-blue-900 px-2 py-0.5 rounded border border-blue-600 font-bold text-xs disabled:opacity-50">
+                        CASH IN/OUT
+                    </button>
+                    <button onClick={() => setDrawerMode('close')} disabled={!session} className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-0.5 rounded font-bold text-xs border border-orange-700 shadow-sm disabled:opacity-50">
+                        CLOSE SHIFT
+                    </button>
                     <button onClick={logout} className="bg-red-600 hover:bg-red-700 text-white px-3 py-0.5 rounded font-bold text-xs border border-red-800 shadow-sm">
                         LOGOUT
                     </button>
@@ -692,6 +1043,19 @@ const EmployeePOS: React.FC = () => {
                          {searchTerm && (
                              <button onClick={() => setSearchTerm('')} className="px-3 text-gray-400 hover:text-red-600 font-bold">X</button>
                          )}
+                         {categories.length > 0 && (
+                             <select
+                                value={categoryFilter}
+                                onChange={e => { setCategoryFilter(e.target.value); searchInputRef.current?.focus(); }}
+                                className="h-full max-w-[9rem] px-2 border-l border-blue-200 bg-blue-50 text-xs font-bold text-blue-900 outline-none"
+                                title="Search within a category"
+                             >
+                                 <option value="">ALL</option>
+                                 {categoryTree(categories).map(({ category, depth }) => (
+                                     <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                                 ))}
+                             </select>
+                         )}
                      </div>
                      {/* Search Dropdown */}
                      {searchTerm && filteredProducts.length > 0 && (
@@ -700,13 +1064,13 @@ const EmployeePOS: React.FC = () => {
                                  <div 
                                     key={p.id} 
                                     className={`p-2 flex justify-between border-b border-gray-100 cursor-pointer ${idx === selectedResultIndex ? 'bg-blue-600 text-white' : 'hover:bg-blue-50 text-slate-900'}`}
-                                    onClick={() => { addToBill(p); setSearchTerm(''); }}
+                                    onClick={() => { addOrWeigh(p); setSearchTerm(''); }}
                                  >
                                      <div>
-                                         <div className="font-bold text-sm">{p.name}</div>
+                                         <div className="font-bold text-sm">{p.name}{variantLabel(p) && <span className="ml-2 text-xs font-normal opacity-80">{variantLabel(p)}</span>}</div>
                                          <div className="text-xs opacity-80">{p.id} | {p.brand}</div>
                                      </div>
-                                     <div className="font-bold text-md">₹{p.price}</div>
+                                     <div className="font-bold text-md">₹{linePrice(p, currentBill.priceList)}</div>
                                  </div>
                              ))}
                          </div>
@@ -727,11 +1091,21 @@ const EmployeePOS: React.FC = () => {
                          <label className="text-[10px] text-gray-500 uppercase font-bold px-1">Mobile</label>
                          <input 
                             value={currentBill.customerMobile}
-                            onChange={e => setCurrentBill({...currentBill, customerMobile: e.target.value})}
+                            onChange={e => setBillCustomer({ customerName: currentBill.customerName, customerMobile: e.target.value })}
                             className="w-full outline-none font-semibold text-sm px-1 text-slate-900"
                             placeholder="Optional"
                          />
                      </div>
+                     <div className="w-24 bg-white border border-blue-300 rounded p-1 flex flex-col justify-center shadow-sm">
+                         <label className="text-[10px] text-gray-500 uppercase font-bold px-1">Price List</label>
+                         <select
+                            value={currentBill.priceList || 'retail'}
+                            onChange={e => setCurrentBill(prev => repriceBill(prev, e.target.value as PriceListId))}
+                            className="w-full outline-none font-semibold text-sm text-slate-900 bg-transparent"
+                         >
+                            {PRICE_LISTS.map(list => <option key={list.id} value={list.id}>{list.label}</option>)}
+                         </select>
+                     </div>
                  </div>
 
                  {/* Last Bill / Status */}
@@ -747,6 +1121,29 @@ const EmployeePOS: React.FC = () => {
                  </div>
              </div>
 
+             {/* Cart tabs + hold/resume */}
+             <div className="bg-blue-50 px-2 pt-1 flex items-end gap-1 shrink-0 overflow-x-auto">
+                 {carts.map(cart => (
+                     <div
+                        key={cart.id}
+                        onClick={() => setActiveCartId(cart.id)}
+                        className={`flex items-center gap-2 px-3 py-1 rounded-t border border-b-0 cursor-pointer text-xs font-bold whitespace-nowrap ${cart.id === activeCartId ? 'bg-white border-blue-300 text-blue-900' : 'bg-blue-100 border-blue-200 text-gray-600 hover:bg-blue-200'}`}
+                     >
+                         <span>{cart.label}</span>
+                         {cart.bill.items.length > 0 && <span className="bg-blue-600 text-white rounded-full px-1.5 text-[10px]">{cart.bill.items.length}</span>}
+                         <button onClick={(e) => { e.stopPropagation(); handleCloseCart(cart.id); }} className="text-gray-400 hover:text-red-600">✕</button>
+                     </div>
+                 ))}
+                 <button onClick={() => handleNewCart()} className="px-2 py-1 text-blue-700 font-bold text-sm hover:bg-blue-100 rounded-t" title="New cart">+</button>
+                 <div className="flex-grow"></div>
+                 <button onClick={handleParkBill} disabled={currentBill.items.length === 0} className="mb-1 px-3 py-0.5 text-xs font-bold rounded border border-orange-300 bg-orange-50 text-orange-700 hover:bg-orange-100 disabled:opacity-40">
+                     F10 Park Bill
+                 </button>
+                 <button onClick={() => setIsParkedOpen(true)} className="mb-1 px-3 py-0.5 text-xs font-bold rounded border border-blue-300 bg-white text-blue-700 hover:bg-blue-100">
+                     F11 Parked ({parkedCount})
+                 </button>
+             </div>
+
              {/* 3. BILLING GRID - LEGACY TABLE STRUCTURE */}
              <div className="flex-grow bg-white border-y border-gray-300 overflow-auto relative shadow-inner">
                  <table className="w-full text-left border-collapse table-fixed">
@@ -772,13 +1169,19 @@ const EmployeePOS: React.FC = () => {
                                          <div className="font-bold text-slate-900 text-sm truncate">{item.name}</div>
                                          <div className="text-[10px] text-gray-500">{item.brand}</div>
                                      </td>
-                                     <td className="p-2 text-right font-mono text-slate-800 border-r border-gray-100">{item.price.toFixed(2)}</td>
+                                     <td className="p-2 text-right font-mono text-slate-800 border-r border-gray-100">{item.price.toFixed(2)}{isWeighed(item) && <span className="text-[10px] text-gray-500">/{unitOf(item)}</span>}</td>
                                      <td className="p-2 text-center border-r border-gray-100">
-                                         <div className="flex items-center justify-center gap-1">
-                                             <button onClick={() => addToBill(item, -1)} className="w-6 h-6 bg-gray-200 hover:bg-red-200 text-red-800 rounded font-bold text-xs opacity-0 group-hover:opacity-100 transition-opacity">-</button>
-                                             <span className="w-8 text-center font-bold text-slate-900">{item.quantity}</span>
-                                             <button onClick={() => addToBill(item, 1)} className="w-6 h-6 bg-gray-200 hover:bg-green-200 text-green-800 rounded font-bold text-xs opacity-0 group-hover:opacity-100 transition-opacity">+</button>
-                                         </div>
+                                         {isWeighed(item) ? (
+                                             <button onClick={() => setWeighing({ product: item, replace: true })} className="font-bold font-mono text-slate-900 text-xs hover:underline" title="Change weight">
+                                                 {formatQuantity(item.quantity, unitOf(item))}
+                                             </button>
+                                         ) : (
+                                             <div className="flex items-center justify-center gap-1">
+                                                 <button onClick={() => addToBill(item, -1)} className="w-6 h-6 bg-gray-200 hover:bg-red-200 text-red-800 rounded font-bold text-xs opacity-0 group-hover:opacity-100 transition-opacity">-</button>
+                                                 <span className="w-8 text-center font-bold text-slate-900">{item.quantity}</span>
+                                                 <button onClick={() => addToBill(item, 1)} className="w-6 h-6 bg-gray-200 hover:bg-green-200 text-green-800 rounded font-bold text-xs opacity-0 group-hover:opacity-100 transition-opacity">+</button>
+                                             </div>
+                                         )}
                                      </td>
                                      <td 
                                         className="p-2 text-center text-xs text-red-600 cursor-pointer border-r border-gray-100 font-medium hover:bg-red-50 hover:underline"
@@ -787,7 +1190,8 @@ const EmployeePOS: React.FC = () => {
                                          {item.discount ? (item.discount.type === 'fixed' ? `-${item.discount.value}` : `-${item.discount.value}%`) : '--'}
                                      </td>
                                      <td className="p-2 text-right font-bold font-mono text-slate-900 text-sm border-r border-gray-100">
-                                         {((item.price * item.quantity) - (item.discount ? (item.discount.type==='fixed' ? item.discount.value : (item.price*item.quantity*item.discount.value/100)) : 0)).toFixed(2)}
+                                         {lineNetAmount(item).toFixed(2)}
+                                         <div className="text-[10px] font-normal text-gray-500">GST {item.gstRate || 0}%</div>
                                      </td>
                                      <td className="p-2 text-center">
                                          <button onClick={() => removeFromBill(item.id)} className="text-gray-400 hover:text-red-600 font-bold transition-colors">✕</button>
@@ -832,12 +1236,30 @@ const EmployeePOS: React.FC = () => {
                          </span>
                      </div>
                  )}
-                 {currentBill.taxAmount > 0 && (
+                 {shopStateCode(shopDetails) && (
                      <div className="flex flex-col items-end">
-                        <span className="text-[10px] text-blue-600 uppercase font-bold">GST {shopDetails.defaultGstRate}%</span>
-                        <span className="font-bold text-blue-700 text-xl leading-none">+{currentBill.taxAmount.toFixed(2)}</span>
+                        <span className="text-[10px] text-gray-500 uppercase font-bold">Place of Supply</span>
+                        <select
+                            value={currentBill.placeOfSupply || shopStateCode(shopDetails)}
+                            onChange={(e) => setCurrentBill(prev => calculateTotal({ ...prev, placeOfSupply: e.target.value === shopStateCode(shopDetails) ? undefined : e.target.value }))}
+                            className="text-xs border border-blue-300 rounded bg-white px-1 py-0.5 max-w-[140px]"
+                        >
+                            {GST_STATES.map(s => <option key={s.code} value={s.code}>{s.code} - {s.name}</option>)}
+                        </select>
                      </div>
                  )}
+                 {currentBill.taxAmount > 0 && (() => {
+                     const totals = taxTotals(currentBill.items);
+                     return (
+                         <div className="flex flex-col items-end">
+                            <span className="text-[10px] text-blue-600 uppercase font-bold">
+                                {totals.igst > 0 ? `IGST ${totals.igst.toFixed(2)}` : `CGST ${totals.cgst.toFixed(2)} + SGST ${totals.sgst.toFixed(2)}`}
+                                {shopDetails.pricesIncludeGst ? ' (incl.)' : ''}
+                            </span>
+                            <span className="font-bold text-blue-700 text-xl leading-none">{shopDetails.pricesIncludeGst ? '' : '+'}{currentBill.taxAmount.toFixed(2)}</span>
+                         </div>
+                     );
+                 })()}
                  <div className="bg-slate-900 text-green-400 px-6 py-2 rounded shadow-lg flex flex-col items-end min-w-[200px] ml-4 border border-slate-700">
                      <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Net Payable</span>
                      <span className="font-mono text-4xl font-bold leading-none">₹{currentBill.total.toFixed(2)}</span>
@@ -876,7 +1298,10 @@ const EmployeePOS: React.FC = () => {
                      <span className="text-xs text-gray-700 font-bold uppercase">Monitor</span>
                  </button>
 
-                 <div className="hidden lg:block col-span-1"></div>
+                 <button onClick={() => setIsReturnOpen(true)} disabled={!canTakeReturns} title={canTakeReturns ? undefined : 'Your role cannot take returns'} className="bg-white hover:bg-blue-50 border-b-4 border-gray-300 active:border-b-0 active:mt-1 rounded p-1 flex flex-col items-center justify-center h-14 transition-all disabled:opacity-40 disabled:cursor-not-allowed">
+                     <span className="font-bold text-blue-800 text-xs bg-blue-100 px-2 rounded-full mb-1">F7</span>
+                     <span className="text-xs text-gray-700 font-bold uppercase">Return</span>
+                 </button>
 
                  <button 
                     onClick={handleCheckout} 
@@ -889,16 +1314,21 @@ const EmployeePOS: React.FC = () => {
 
             {/* Feature Modules */}
             <CustomerFaceCamera 
-                onIdentify={(c) => { setCurrentBill(prev => ({ ...prev, customerName: c.name, customerMobile: c.mobile })); }} 
+                onIdentify={(c) => { setBillCustomer({ customerName: c.name, customerMobile: c.mobile }); }} 
                 isActive={showLiveMonitor} 
                 onClose={() => setShowLiveMonitor(false)}
             />
             <QRScannerModal isOpen={isScannerOpen} onClose={() => setIsScannerOpen(false)} onScan={handleQRScan} />
             <VisualScannerModal isOpen={showVisualScanner} onClose={() => setShowVisualScanner(false)} onCapture={handleVisualScan} isProcessing={isProcessingVoice} />
             
+            <ReturnModal isOpen={isReturnOpen} onClose={() => setIsReturnOpen(false)} />
+            <CashDrawerModal mode={drawerMode} session={session} onSessionChange={setSession} onClose={() => setDrawerMode(null)} />
+            <ParkedBillsModal isOpen={isParkedOpen} onClose={() => setIsParkedOpen(false)} onResume={handleResumeParked} onChange={setParkedCount} />
+
             {invoiceReady && <InvoiceModal bill={invoiceReady} onNewBill={() => setInvoiceReady(null)} />}
             
-            {discountModal && <DiscountModal isOpen={discountModal.isOpen} onClose={() => setDiscountModal(null)} onApply={(d) => { if (discountModal.target === 'bill') { setCurrentBill(prev => calculateTotal({ ...prev, billDiscount: d })); setDiscountModal(null); } else { handleUpdateItem(discountModal.target, d); } }} itemName={discountModal.itemName} />}
+            {weighing && <WeightEntryModal product={weighing.product} initialQuantity={weighing.replace ? currentBill.items.find(i => i.id === weighing.product.id)?.quantity : undefined} onConfirm={handleWeightConfirm} onClose={() => setWeighing(null)} />}
+            {discountModal && <DiscountModal isOpen={discountModal.isOpen} onClose={() => setDiscountModal(null)} onApply={(d) => { if (discountModal.target === 'bill') { handleBillDiscount(d); } else { handleUpdateItem(discountModal.target, d); } }} itemName={discountModal.itemName} maxPercent={role?.maxDiscountPercent} />}
             
             {paymentModalOpen && <PaymentModal isOpen={paymentModalOpen} onClose={() => setPaymentModalOpen(false)} bill={currentBill} onConfirm={handlePaymentComplete} upiId={shopDetails.upiId} shopName={shopDetails.name} />}
         </div>
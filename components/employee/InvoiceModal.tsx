@@ -2,6 +2,9 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { Bill } from '../../types';
 import { useAppContext } from '../../hooks/useAppContext';
+import { taxTotals, hsnSummary, GST_STATES } from '../../services/gst';
+import { paymentsOf, TENDER_LABELS } from '../../services/tender';
+import { formatQuantity, unitOf } from '../../services/units';
 
 interface InvoiceModalProps {
     bill: Bill;
@@ -12,6 +15,10 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
     const { shopDetails } = useAppContext();
     const invoiceRef = useRef<HTMLDivElement>(null);
     const [qrStatus, setQrStatus] = useState("Generating...");
+    const totals = taxTotals(bill.items);
+    const hsnRows = hsnSummary(bill.items);
+    const placeOfSupply = GST_STATES.find(s => s.code === bill.placeOfSupply);
+    const payments = paymentsOf(bill);
 
     // Helper to ensure QR Lib is loaded
     const ensureQrLib = async (): Promise<any> => {
@@ -46,6 +53,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
                      
                      const digitalReceipt = {
                         shop: shopDetails.name,
+                        inv: bill.invoiceNumber,
                         date: new Date().toLocaleDateString(),
                         total: bill.total,
                         items: bill.items.map(i => ({n: i.name, p: i.price, q: i.quantity})),
@@ -120,11 +128,14 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
                         
                         <div className="border-b border-dashed border-gray-400 my-2"></div>
                         
+                        {bill.invoiceNumber && <div className="mb-1 text-left font-bold">Invoice No: {bill.invoiceNumber}</div>}
                         <div className="flex justify-between mb-1">
                             <span>Date: {new Date().toLocaleDateString()}</span>
                             <span>Time: {new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
                         </div>
                         {bill.customerName && <div className="mb-1 text-left">Cust: {bill.customerName}</div>}
+                        {bill.customerGstin && <div className="mb-1 text-left">Buyer GSTIN: {bill.customerGstin}</div>}
+                        {placeOfSupply && <div className="mb-1 text-left">Place of Supply: {placeOfSupply.code}-{placeOfSupply.name}</div>}
                         
                         <div className="border-b border-dashed border-gray-400 my-2"></div>
                         
@@ -140,7 +151,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
                                 {bill.items.map(item => (
                                     <tr key={item.id}>
                                         <td className="truncate max-w-[120px] py-0.5">{item.name}</td>
-                                        <td className="text-right py-0.5">{item.quantity}</td>
+                                        <td className="text-right py-0.5">{formatQuantity(item.quantity, unitOf(item))}</td>
                                         <td className="text-right py-0.5">{(item.price * item.quantity).toFixed(2)}</td>
                                     </tr>
                                 ))}
@@ -155,10 +166,29 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
                         </div>
 
                         {bill.taxAmount > 0 && (
-                            <div className="flex justify-between mb-1">
-                                <span>GST ({shopDetails.defaultGstRate}%):</span>
-                                <span>₹{bill.taxAmount.toFixed(2)}</span>
-                            </div>
+                            <>
+                                <div className="flex justify-between mb-1">
+                                    <span>Taxable Value:</span>
+                                    <span>₹{totals.taxableValue.toFixed(2)}</span>
+                                </div>
+                                {totals.igst > 0 ? (
+                                    <div className="flex justify-between mb-1">
+                                        <span>IGST:</span>
+                                        <span>₹{totals.igst.toFixed(2)}</span>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="flex justify-between mb-1">
+                                            <span>CGST:</span>
+                                            <span>₹{totals.cgst.toFixed(2)}</span>
+                                        </div>
+                                        <div className="flex justify-between mb-1">
+                                            <span>SGST:</span>
+                                            <span>₹{totals.sgst.toFixed(2)}</span>
+                                        </div>
+                                    </>
+                                )}
+                            </>
                         )}
                         
                         <div className="flex justify-between font-bold text-sm mb-4 border-t border-dashed border-gray-400 pt-2">
@@ -166,11 +196,51 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ bill, onNewBill }) => {
                             <span>₹{bill.total.toFixed(2)}</span>
                         </div>
 
-                        <div className="mb-4 text-center">
-                            <span className="border border-black px-2 py-1 rounded font-bold uppercase">
-                                PAID VIA {bill.paymentMethod?.replace('_', ' ') || 'CASH'}
-                            </span>
-                        </div>
+                        {bill.taxAmount > 0 && (
+                            <table className="w-full text-[10px] mb-4 border-collapse">
+                                <thead>
+                                    <tr className="border-b border-dashed border-gray-400">
+                                        <th className="text-left pb-1">HSN</th>
+                                        <th className="text-right pb-1">Rate</th>
+                                        <th className="text-right pb-1">Taxable</th>
+                                        {totals.igst > 0 ? <th className="text-right pb-1">IGST</th> : <><th className="text-right pb-1">CGST</th><th className="text-right pb-1">SGST</th></>}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {hsnRows.map(row => (
+                                        <tr key={`${row.hsnCode}-${row.gstRate}`}>
+                                            <td className="py-0.5">{row.hsnCode}</td>
+                                            <td className="text-right py-0.5">{row.gstRate}%</td>
+                                            <td className="text-right py-0.5">{row.taxableValue.toFixed(2)}</td>
+                                            {totals.igst > 0 ? <td className="text-right py-0.5">{row.igst.toFixed(2)}</td> : <><td className="text-right py-0.5">{row.cgst.toFixed(2)}</td><td className="text-right py-0.5">{row.sgst.toFixed(2)}</td></>}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+
+                        {payments.length > 1 || payments[0]?.method === 'WALLET' ? (
+                            <div className="mb-4">
+                                {payments.map((line, i) => (
+                                    <div key={i} className="flex justify-between mb-1">
+                                        <span className="uppercase">Paid {TENDER_LABELS[line.method]}{line.tendered !== undefined && ` (given ₹${line.tendered.toFixed(2)})`}:</span>
+                                        <span>₹{line.amount.toFixed(2)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="mb-4 text-center">
+                                <span className="border border-black px-2 py-1 rounded font-bold uppercase">
+                                    PAID VIA {bill.paymentMethod?.replace('_', ' ') || 'CASH'}
+                                </span>
+                            </div>
+                        )}
+                        {(bill.changeDue || 0) > 0 && (
+                            <div className="flex justify-between font-bold mb-4">
+                                <span>CHANGE:</span>
+                                <span>₹{bill.changeDue!.toFixed(2)}</span>
+                            </div>
+                        )}
                         
                         <div className="flex flex-col items-center justify-center my-4 relative min-h-[100px]">
                             <canvas ref={qrCanvasRef} className="p-1 bg-white"></canvas>
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { ParkedBill } from '../../types';
+import database from '../../services/database';
+
+interface ParkedBillsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onResume: (parked: ParkedBill) => void;
+    onChange: (count: number) => void;
+}
+
+const ParkedBillsModal: React.FC<ParkedBillsModalProps> = ({ isOpen, onClose, onResume, onChange }) => {
+    const { employees, showToast } = useAppContext();
+    const [parkedBills, setParkedBills] = useState<ParkedBill[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const load = async () => {
+        setIsLoading(true);
+        const list = await database.getParkedBills();
+        setParkedBills(list);
+        onChange(list.length);
+        setIsLoading(false);
+    };
+
+    // Always reload on open: in Cloud Mode other counters may have parked or resumed bills
+    useEffect(() => {
+        if (isOpen) load();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleResume = async (parked: ParkedBill) => {
+        setBusyId(parked.id);
+        const claimed = await database.resumeParkedBill(parked.id);
+        setBusyId(null);
+        if (!claimed) {
+            showToast(`"${parked.label}" was already resumed on another counter.`, 'error');
+            load();
+            return;
+        }
+        onChange(parkedBills.length - 1);
+        onResume(claimed);
+        onClose();
+    };
+
+    const handleDelete = async (parked: ParkedBill) => {
+        if (!window.confirm(`Discard parked bill "${parked.label}"?`)) return;
+        await database.deleteParkedBill(parked.id);
+        load();
+    };
+
+    const parkedByName = (userId: string) => employees.find(e => e.id === userId)?.username || userId;
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center z-[60] bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-xl max-h-[80vh] overflow-y-auto animate-fade-in-up border border-blue-200">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-blue-900">Parked Bills</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-xl">&times;</button>
+                </div>
+
+                {isLoading ? (
+                    <p className="text-center text-sm text-gray-400 py-6">Loading...</p>
+                ) : parkedBills.length === 0 ? (
+                    <p className="text-center text-sm text-gray-400 py-6">No bills on hold.</p>
+                ) : (
+                    <div className="divide-y divide-gray-200 border border-gray-200 rounded">
+                        {parkedBills.map(parked => (
+                            <div key={parked.id} className="p-2 flex justify-between items-center">
+                                <div>
+                                    <div className="font-bold text-slate-900">{parked.label}</div>
+                                    <div className="text-xs text-gray-500">
+                                        {parked.bill.items.length} items · {new Date(parked.parkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · POS {parked.register} · {parkedByName(parked.parkedBy)}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-bold font-mono text-slate-900 mr-2">₹{parked.bill.total.toFixed(2)}</span>
+                                    <button onClick={() => handleDelete(parked)} className="px-2 py-1 text-red-600 text-sm hover:bg-red-50 rounded">Discard</button>
+                                    <button onClick={() => handleResume(parked)} disabled={busyId === parked.id} className="px-3 py-1 bg-blue-600 text-white font-bold rounded hover:bg-blue-700 disabled:opacity-50">
+                                        {busyId === parked.id ? '...' : 'Resume'}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ParkedBillsModal;
@@ -0,0 +1,236 @@
+import React, { useState, useMemo } from 'react';
+import { useAppContext } from '../../hooks/useAppContext';
+import { Sale, CreditNote, BillItem } from '../../types';
+import { returnableQuantity } from '../../services/ledger';
+import { linePaidAmount, lineTax, prorateLine, round2 } from '../../services/gst';
+import { isWeighed, unitOf, roundQuantity, formatQuantity } from '../../services/units';
+
+interface ReturnModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ReturnModal: React.FC<ReturnModalProps> = ({ isOpen, onClose }) => {
+    const { sales, customers, processReturn, showToast, currentUser } = useAppContext();
+    const [lookup, setLookup] = useState('');
+    const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
+    // Keyed by line index: the same product can sit on two lines (another price or batch)
+    const [quantities, setQuantities] = useState<Record<number, number>>({});
+    const [refundMethod, setRefundMethod] = useState<'CASH' | 'WALLET'>('CASH');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [issuedNote, setIssuedNote] = useState<CreditNote | null>(null);
+
+    // Look up by invoice number or customer mobile
+    const matches = useMemo(() => {
+        const term = lookup.trim().toUpperCase();
+        if (term.length < 3) return [];
+        return sales
+            .filter(s => s.invoiceNumber?.toUpperCase().includes(term) || s.customerMobile?.includes(term))
+            .slice(0, 20);
+    }, [lookup, sales]);
+
+    const customer = selectedSale?.customerMobile ? customers.find(c => c.mobile === selectedSale.customerMobile) : undefined;
+
+    const returnItems = useMemo(() => {
+        if (!selectedSale) return [];
+        return selectedSale.items
+            .map((item, index) => ({ item, index, quantity: quantities[index] || 0 }))
+            .filter(({ quantity }) => quantity > 0)
+            .map(({ item, index, quantity }) => ({ ...prorateLine(item, quantity), saleLine: index }));
+    }, [selectedSale, quantities]);
+
+    const refundTotal = round2(returnItems.reduce((sum, item) => sum + linePaidAmount(item), 0));
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setLookup('');
+        setSelectedSale(null);
+        setQuantities({});
+        setRefundMethod('CASH');
+        setReason('');
+        setIssuedNote(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleSelectSale = (sale: Sale) => {
+        setSelectedSale(sale);
+        setQuantities({});
+        setRefundMethod('CASH');
+    };
+
+    // Each line is returned against its own sold quantity, at its own price
+    const lineMax = (sale: Sale, index: number): number =>
+        roundQuantity(Math.max(0, returnableQuantity(sale, index)), unitOf(sale.items[index]));
+
+    // Loose items can be returned by weight; counted items in whole units
+    const handleQuantityChange = (index: number, item: BillItem, value: number, max: number) => {
+        const clean = isWeighed(item) ? roundQuantity(value || 0, unitOf(item)) : Math.floor(value) || 0;
+        setQuantities(prev => ({ ...prev, [index]: Math.max(0, Math.min(max, clean)) }));
+    };
+
+    const handleConfirm = async () => {
+        if (!selectedSale || returnItems.length === 0) {
+            showToast('Select at least one item to return.', 'error');
+            return;
+        }
+        if (refundMethod === 'WALLET' && !customer) {
+            showToast('Wallet refunds need a registered customer. Refund in cash instead.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const result = await processReturn({
+            id: `cn_${Date.now()}`,
+            saleId: selectedSale.id,
+            invoiceNumber: selectedSale.invoiceNumber,
+            date: new Date().toISOString(),
+            items: returnItems,
+            total: refundTotal,
+            taxAmount: round2(returnItems.reduce((sum, item) => sum + lineTax(item), 0)),
+            refundMethod,
+            reason: reason.trim() || undefined,
+            customerName: selectedSale.customerName,
+            customerMobile: selectedSale.customerMobile,
+            customerGstin: selectedSale.customerGstin,
+            placeOfSupply: selectedSale.placeOfSupply,
+            employeeId: currentUser?.id || ''
+        });
+        setIsSaving(false);
+        if (result) {
+            setIssuedNote(result.creditNote);
+            showToast(`Credit note ${result.creditNote.creditNoteNumber} issued. Refund ₹${refundTotal.toFixed(2)} ${refundMethod === 'WALLET' ? 'to wallet' : 'in cash'}.`);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center z-[60] bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in-up border border-blue-200">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-blue-900">Sales Return / Credit Note</h3>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-gray-700 text-xl">&times;</button>
+                </div>
+
+                {issuedNote ? (
+                    <div className="text-center py-6">
+                        <p className="text-sm text-gray-500 uppercase font-bold">Credit Note</p>
+                        <p className="text-2xl font-mono font-bold text-blue-900 my-2">{issuedNote.creditNoteNumber}</p>
+                        <p className="text-sm text-gray-600">Against invoice {issuedNote.invoiceNumber || issuedNote.saleId}</p>
+                        <p className="text-3xl font-bold text-green-700 my-4">₹{issuedNote.total.toFixed(2)}</p>
+                        <p className="text-sm font-bold uppercase text-gray-700">{issuedNote.refundMethod === 'WALLET' ? 'Credited to wallet' : 'Refund in cash'}</p>
+                        <div className="flex justify-center gap-2 mt-6">
+                            <button onClick={reset} className="px-4 py-1 text-blue-700 border border-blue-300 rounded hover:bg-blue-50">New Return</button>
+                            <button onClick={handleClose} className="px-4 py-1 bg-blue-600 text-white font-bold rounded hover:bg-blue-700">Done</button>
+                        </div>
+                    </div>
+                ) : !selectedSale ? (
+                    <>
+                        <input
+                            value={lookup}
+                            onChange={(e) => setLookup(e.target.value)}
+                            className="w-full p-2 border border-blue-300 rounded text-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder="Invoice number or customer mobile"
+                            autoFocus
+                        />
+                        <div className="divide-y divide-gray-200 border border-gray-200 rounded">
+                            {matches.map(sale => (
+                                <button key={sale.id} onClick={() => handleSelectSale(sale)} className="w-full text-left p-2 hover:bg-blue-50 flex justify-between items-center">
+                                    <div>
+                                        <div className="font-mono font-bold text-sm text-slate-900">{sale.invoiceNumber || sale.id}</div>
+                                        <div className="text-xs text-gray-500">{new Date(sale.date).toLocaleString()} · {sale.customerName || 'Walk-in'} {sale.customerMobile && `(${sale.customerMobile})`}</div>
+                                    </div>
+                                    <span className="font-bold text-slate-900">₹{sale.total.toFixed(2)}</span>
+                                </button>
+                            ))}
+                            {lookup.trim().length >= 3 && matches.length === 0 && (
+                                <p className="p-4 text-center text-sm text-gray-400">No matching sales.</p>
+                            )}
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="flex justify-between items-center mb-3 text-sm">
+                            <div>
+                                <span className="font-mono font-bold">{selectedSale.invoiceNumber || selectedSale.id}</span>
+                                <span className="text-gray-500 ml-2">{new Date(selectedSale.date).toLocaleDateString()} · {selectedSale.customerName || 'Walk-in'}</span>
+                            </div>
+                            <button onClick={() => setSelectedSale(null)} className="text-blue-600 hover:underline text-xs">Change invoice</button>
+                        </div>
+
+                        <table className="w-full text-left text-sm mb-4">
+                            <thead className="bg-blue-600 text-white text-xs uppercase">
+                                <tr>
+                                    <th className="p-2">Item</th>
+                                    <th className="p-2 text-right">Sold</th>
+                                    <th className="p-2 text-right">Returnable</th>
+                                    <th className="p-2 text-center w-24">Return</th>
+                                    <th className="p-2 text-right">Refund</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {selectedSale.items.map((item, index) => {
+                                    const max = lineMax(selectedSale, index);
+                                    const qty = quantities[index] || 0;
+                                    return (
+                                        <tr key={index}>
+                                            <td className="p-2 font-semibold text-slate-900">{item.name}</td>
+                                            <td className="p-2 text-right">{formatQuantity(item.quantity, unitOf(item))}</td>
+                                            <td className="p-2 text-right">{formatQuantity(max, unitOf(item))}</td>
+                                            <td className="p-2 text-center">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={max}
+                                                    step={isWeighed(item) && unitOf(item) !== 'g' ? 0.005 : 1}
+                                                    value={qty}
+                                                    disabled={max === 0}
+                                                    onChange={(e) => handleQuantityChange(index, item, parseFloat(e.target.value), max)}
+                                                    className="w-16 p-1 border border-blue-300 rounded text-center disabled:bg-gray-100"
+                                                />
+                                            </td>
+                                            <td className="p-2 text-right font-mono">{qty > 0 ? linePaidAmount(prorateLine(item, qty)).toFixed(2) : '--'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+
+                        <input
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className="w-full p-2 border border-blue-300 rounded text-sm mb-4 outline-none"
+                            placeholder="Reason (e.g. spoiled, wrong item)"
+                        />
+
+                        <div className="flex gap-2 mb-4">
+                            <label className={`flex-1 p-2 text-center rounded cursor-pointer border ${refundMethod === 'CASH' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}>
+                                <input type="radio" name="refund-method" checked={refundMethod === 'CASH'} onChange={() => setRefundMethod('CASH')} className="hidden" />
+                                Cash Refund
+                            </label>
+                            <label className={`flex-1 p-2 text-center rounded border ${!customer ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'} ${refundMethod === 'WALLET' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}>
+                                <input type="radio" name="refund-method" checked={refundMethod === 'WALLET'} onChange={() => setRefundMethod('WALLET')} disabled={!customer} className="hidden" />
+                                To Wallet {customer && `(₹${(customer.walletBalance || 0).toFixed(2)})`}
+                            </label>
+                        </div>
+
+                        <div className="flex justify-between items-center">
+                            <span className="text-xl font-bold text-slate-900">Refund: ₹{refundTotal.toFixed(2)}</span>
+                            <div className="flex gap-2">
+                                <button onClick={handleClose} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+                                <button onClick={handleConfirm} disabled={isSaving || returnItems.length === 0} className="px-4 py-1 bg-red-600 text-white font-bold rounded hover:bg-red-700 disabled:opacity-50">
+                                    {isSaving ? 'Saving...' : 'Issue Credit Note'}
+                                </button>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReturnModal;
@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import { getScannerSettings, stripAffixes } from '../services/wedgeScanner';
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const isTextField = (el: EventTarget | null): el is TextField =>
+    el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement;
+
+// Puts a field back to its value from before the burst. Going through the native setter
+// and an input event keeps React's controlled state in step with the DOM.
+const restoreField = (el: TextField, value: string) => {
+    if (el.value === value) return;
+    const proto = el instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    Object.getOwnPropertyDescriptor(proto, 'value')?.set?.call(el, value);
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Listens on the whole window for keyboard-wedge scanner bursts and hands each code to
+// onScan. Keystrokes a burst typed into the focused field are taken back out, and the
+// terminating Enter never reaches the page, so focus and the field stay as they were.
+export const useWedgeScanner = (onScan: (code: string) => void, enabled = true) => {
+    const onScanRef = useRef(onScan);
+    onScanRef.current = onScan;
+
+    useEffect(() => {
+        const settings = getScannerSettings();
+        if (!enabled || !settings.enabled) return;
+
+        let buffer = '';
+        let lastKeyAt = 0;
+        let field: TextField | null = null;
+        let fieldValue = '';
+        let idleTimer: number | undefined;
+
+        const reset = () => {
+            buffer = '';
+            field = null;
+            window.clearTimeout(idleTimer);
+        };
+
+        // Returns whether the burst was a scan
+        const finish = (): boolean => {
+            const code = stripAffixes(buffer, settings);
+            const isScan = buffer.length >= settings.minLength && code.length > 0;
+            if (isScan) {
+                if (field) restoreField(field, fieldValue);
+                onScanRef.current(code);
+            }
+            reset();
+            return isScan;
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Shortcuts and held-down keys are never a scanner
+            if (e.ctrlKey || e.altKey || e.metaKey || e.repeat) {
+                reset();
+                return;
+            }
+            const now = performance.now();
+            const gap = now - lastKeyAt;
+
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                if (buffer && gap <= settings.maxKeyGapMs && finish()) {
+                    e.preventDefault();
+                    e.stopImmediatePropagation();
+                } else {
+                    reset();
+                }
+                lastKeyAt = now;
+                return;
+            }
+            // Shift and other non-printing keys: scanners hold Shift for capitals
+            if (e.key.length !== 1) return;
+
+            if (buffer && gap > settings.maxKeyGapMs) reset();
+            if (!buffer) {
+                field = isTextField(e.target) ? e.target : null;
+                fieldValue = field?.value ?? '';
+            }
+            buffer += e.key;
+            lastKeyAt = now;
+
+            if (settings.suffix && buffer.length > settings.suffix.length && buffer.endsWith(settings.suffix)) {
+                if (finish()) e.preventDefault();
+                return;
+            }
+            // Scanners set up without Enter or a suffix: the burst ends when the keys stop
+            window.clearTimeout(idleTimer);
+            idleTimer = window.setTimeout(finish, settings.maxKeyGapMs * 4);
+        };
+
+        // Capture phase, so a scan's Enter is consumed before the page's own shortcuts see it
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown, true);
+            window.clearTimeout(idleTimer);
+        };
+    }, [enabled]);
+};
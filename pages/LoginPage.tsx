@@ -3,6 +3,9 @@ import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../hooks/useAppContext';
 import { User, Role } from '../types';
 import database from '../services/database';
+import { storeOfUser } from '../services/stores';
+import { can, hasBackOffice, roleOf } from '../services/permissions';
+import { INSECURE_CONTEXT_MESSAGE, canHashPasswords } from '../services/passwords';
 
 // Icons
 const AdminIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>;
@@ -10,7 +13,7 @@ const EmployeeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-
 const BackIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" /></svg>;
 
 const LoginPage: React.FC = () => {
-  const { setCurrentUser, showToast, setIsLoading } = useAppContext();
+  const { setCurrentUser, showToast, setIsLoading, shopDetails } = useAppContext();
   
   // States: 'checking' -> 'create_admin' OR 'selection' -> 'login_admin'/'login_employee' -> 'forgot_password'
   const [view, setView] = useState<'checking' | 'create_admin' | 'selection' | 'login_admin' | 'login_employee' | 'forgot_password'>('checking');
@@ -27,9 +30,8 @@ const LoginPage: React.FC = () => {
       const checkAdmin = async () => {
           // Check for existing admin logic
           if (!database.isCloud) {
-              // In Local mode (SQLite sim), we check table_users for an ADMIN role
-              const users = JSON.parse(localStorage.getItem('table_users') || '[]');
-              const hasAdmin = users.some((u: any) => u.role === 'ADMIN');
+              // In Local mode (IndexedDB), we check the users store for an ADMIN role
+              const hasAdmin = await database.hasLocalAdmin();
               
               if (!hasAdmin) {
                   setView('create_admin');
@@ -62,11 +64,17 @@ const LoginPage: React.FC = () => {
         const user = await database.login(username, password);
         
         if (user) {
-            // Strict Role Check based on Portal
-            if (isAdminAttempt && user.role !== Role.ADMIN) {
+            // Strict Role Check based on Portal. Employees whose role opens admin tabs
+            // (e.g. a store manager) may use the Admin portal too.
+            const role = roleOf(user, shopDetails.roles);
+            if (isAdminAttempt && !hasBackOffice(role)) {
                 triggerError('Access Denied: This account does not have Admin privileges.');
-            } else if (!isAdminAttempt && user.role !== Role.EMPLOYEE) {
+            } else if (!isAdminAttempt && (user.role !== Role.EMPLOYEE || !can(role, 'pos'))) {
                 triggerError('Access Denied: This account is not authorized for POS.');
+            } else if (user.role !== Role.ADMIN && storeOfUser(user) !== database.storeId) {
+                // Employees only sign in at their own branch
+                await database.logout();
+                triggerError('Access Denied: This account belongs to another branch.');
             } else {
                 setCurrentUser(user);
                 showToast(`Welcome back, ${user.username}!`);
@@ -74,8 +82,9 @@ const LoginPage: React.FC = () => {
         } else {
             triggerError('Invalid credentials. Please try again.');
         }
-    } catch (e) {
-        triggerError('Login failed. Please check your connection.');
+    } catch (e: any) {
+        // Local Mode fails here only when passwords can't be hashed; say why
+        triggerError(database.isCloud ? 'Login failed. Please check your connection.' : e?.message || 'Login failed.');
     } finally {
         setIsLoading(false);
     }
@@ -86,16 +95,20 @@ const LoginPage: React.FC = () => {
     if (username.trim() && password.trim()) {
       setIsLoading(true);
       const newAdmin: User = { id: 'temp', username, role: Role.ADMIN }; // ID assigned by service
-      const success = await database.registerAdmin(newAdmin, password);
-      setIsLoading(false);
-      
-      if (success) {
-          // Auto login after creation
-          const user = await database.login(username, password);
-          if (user) setCurrentUser(user);
-          showToast('Admin account created successfully!');
-      } else {
-          triggerError("Failed to create admin. Username might be taken.");
+      try {
+          const success = await database.registerAdmin(newAdmin, password);
+          if (success) {
+              // Auto login after creation
+              const user = await database.login(username, password);
+              if (user) setCurrentUser(user);
+              showToast('Admin account created successfully!');
+          } else {
+              triggerError("Failed to create admin. Username might be taken.");
+          }
+      } catch (e: any) {
+          triggerError(e?.message || "Failed to create admin.");
+      } finally {
+          setIsLoading(false);
       }
     } else {
         triggerError("Username and password cannot be empty.");
@@ -111,7 +124,13 @@ const LoginPage: React.FC = () => {
               return;
           }
           
-          const success = await database.recoverLocalAdmin(newPassword);
+          let success = false;
+          try {
+              success = await database.recoverLocalAdmin(newPassword);
+          } catch (e: any) {
+              triggerError(e?.message || "Recovery failed.");
+              return;
+          }
           if (success) {
               showToast("Admin account recovered! Username reset to 'admin'.");
               setView('login_admin');
@@ -311,6 +330,9 @@ const LoginPage: React.FC = () => {
                 )}
             </div>
         </div>
+        {!database.isCloud && !canHashPasswords() && (
+            <div className="mb-6 max-w-md p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-on-surface text-center">{INSECURE_CONTEXT_MESSAGE}</div>
+        )}
 
         {/* Main Content Area */}
         {view === 'checking' && <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>}
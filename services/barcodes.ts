@@ -0,0 +1,107 @@
+// services/barcodes.ts
+// Retail barcode arithmetic and the lookup the scanner resolves codes through.
+// Packaged goods carry manufacturer EAN-13, EAN-8 or UPC-A codes; anything else a
+// shop prints itself is an internal code. Weighing scales print GS1 variable-measure
+// EAN-13 codes in the restricted range 20-29: 2P IIIII VVVVV C, where II..I is the
+// item's PLU code and VVVVV is the weight in grams (prefixes 20-27) or the price in
+// paise (prefixes 28-29).
+
+import { Product } from "../types";
+import { fromBaseMeasure, roundQuantity, unitOf } from "./units";
+
+// GS1 mod-10 check digit over the digits that precede it
+export const gs1CheckDigit = (digits: string): number => {
+    const sum = digits.split('').reverse().reduce((total, d, i) => total + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+    /^\d{13}$/.test(code) && gs1CheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+export type BarcodeType = 'EAN13' | 'EAN8' | 'UPCA' | 'INTERNAL';
+
+export const BARCODE_LABELS: Record<BarcodeType, string> = {
+    EAN13: 'EAN-13',
+    EAN8: 'EAN-8',
+    UPCA: 'UPC-A',
+    INTERNAL: 'Internal'
+};
+
+// All-digit codes of a GTIN length are read as that symbology; anything else is internal
+export const barcodeType = (code: string): BarcodeType => {
+    if (/^\d{13}$/.test(code)) return 'EAN13';
+    if (/^\d{12}$/.test(code)) return 'UPCA';
+    if (/^\d{8}$/.test(code)) return 'EAN8';
+    return 'INTERNAL';
+};
+
+// Why a code can't be stored, or null if it can
+export const barcodeError = (code: string): string | null => {
+    const type = barcodeType(code);
+    if (type === 'INTERNAL') {
+        return /^[A-Za-z0-9._-]{3,32}$/.test(code) ? null : 'Internal codes are 3-32 letters, digits, dots, dashes or underscores.';
+    }
+    const expected = gs1CheckDigit(code.slice(0, -1));
+    return expected === Number(code[code.length - 1]) ? null : `${BARCODE_LABELS[type]} ${code} fails its check digit (expected ${expected}).`;
+};
+
+// The form a code is indexed under. Scanners report UPC-A either as 12 digits or as
+// the equivalent EAN-13 with a leading zero, so both map to the 13-digit form.
+export const barcodeKey = (code: string): string => {
+    const trimmed = code.trim();
+    if (/^\d{12}$/.test(trimmed)) return `0${trimmed}`;
+    return /^\d+$/.test(trimmed) ? trimmed : trimmed.toUpperCase();
+};
+
+// Products by barcode key, and by id so labels printed before barcodes still scan
+export const buildBarcodeIndex = (products: Product[]): Map<string, Product> => {
+    const index = new Map<string, Product>();
+    products.forEach(product => {
+        index.set(product.id, product);
+        (product.barcodes || []).forEach(code => index.set(barcodeKey(code), product));
+    });
+    return index;
+};
+
+export const lookupBarcode = (index: Map<string, Product>, code: string): Product | undefined =>
+    index.get(code.trim()) || index.get(barcodeKey(code));
+
+// Codes on `product` that another product already carries, or that repeat on the product itself
+export const barcodeConflicts = (product: Pick<Product, 'id' | 'barcodes'>, products: Product[]): { code: string; holder?: Product }[] => {
+    const seen = new Set<string>();
+    const conflicts: { code: string; holder?: Product }[] = [];
+    (product.barcodes || []).forEach(code => {
+        const key = barcodeKey(code);
+        const holder = products.find(p => p.id !== product.id && (p.barcodes || []).some(other => barcodeKey(other) === key));
+        if (holder) conflicts.push({ code, holder });
+        else if (seen.has(key)) conflicts.push({ code });
+        seen.add(key);
+    });
+    return conflicts;
+};
+
+export const isVariableMeasure = (code: string): boolean => /^2\d{12}$/.test(code);
+
+export interface ScaleReading {
+    product: Product;
+    quantity: number; // In the product's unit
+    price?: number; // Label price, when the scale printed the price rather than the weight
+}
+
+// Decodes a scale label into the product and the quantity on it; null if the code
+// isn't a valid variable-measure EAN-13 or no product carries its PLU
+export const parseScaleBarcode = (code: string, products: Product[]): ScaleReading | null => {
+    if (!isVariableMeasure(code) || !isValidEan13(code)) return null;
+    const plu = code.slice(2, 7);
+    const value = Number(code.slice(7, 12));
+    const product = products.find(p => p.pluCode === plu);
+    if (!product) return null;
+
+    const unit = unitOf(product);
+    if (Number(code[1]) >= 8) {
+        const price = value / 100;
+        if (product.price <= 0) return null;
+        return { product, quantity: roundQuantity(price / product.price, unit), price };
+    }
+    return { product, quantity: fromBaseMeasure(value, unit) };
+};
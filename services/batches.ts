@@ -0,0 +1,122 @@
+// services/batches.ts
+// Per-lot stock. Sales draw from the earliest-expiring batch first (FEFO); expired
+// batches stay on the books but can't be sold. Shared by the local and cloud write paths.
+
+import { Batch, BatchAllocation, BillItem, Product } from "../types";
+
+// The shop's calendar day, so expiry, markdowns and scheduled prices turn over at local midnight
+export const todayDate = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export const isExpired = (batch: Pick<Batch, 'expiryDate'>, today = todayDate()): boolean =>
+    batch.expiryDate < today;
+
+// Earliest expiry first; lots expiring the same day go oldest receipt first
+export const fefoOrder = (batches: Batch[]): Batch[] =>
+    [...batches].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || (a.receivedAt || '').localeCompare(b.receivedAt || ''));
+
+export const batchedQuantity = (product: Product): number =>
+    (product.batches || []).reduce((sum, batch) => sum + batch.quantity, 0);
+
+export const expiredQuantity = (product: Product, today = todayDate()): number =>
+    (product.batches || []).filter(batch => isExpired(batch, today)).reduce((sum, batch) => sum + batch.quantity, 0);
+
+export const sellableQuantity = (product: Product, today = todayDate()): number =>
+    Math.max(0, product.stock - expiredQuantity(product, today));
+
+// Keeps expireDate pointing at the first lot to go off, so lists that only know the
+// single date still sort and warn correctly
+export const withBatches = (product: Product, batches: Batch[]): Product => {
+    const live = fefoOrder(batches.filter(batch => batch.quantity > 0));
+    return { ...product, batches: live, expireDate: live[0]?.expiryDate || product.expireDate };
+};
+
+// Takes up to `quantity` units from in-date batches, earliest expiry first. Whatever the
+// batches can't cover comes out of untracked stock and has no allocation.
+export const drawFefo = (batches: Batch[], quantity: number, today = todayDate()): { batches: Batch[]; allocations: BatchAllocation[] } => {
+    let left = quantity;
+    const allocations: BatchAllocation[] = [];
+    const drawn = new Map<string, number>();
+    fefoOrder(batches).forEach(batch => {
+        if (left <= 0 || batch.quantity <= 0 || isExpired(batch, today)) return;
+        const take = Math.min(batch.quantity, left);
+        allocations.push({ batchId: batch.id, batchNumber: batch.batchNumber, expiryDate: batch.expiryDate, quantity: take });
+        drawn.set(batch.id, take);
+        left -= take;
+    });
+    return {
+        batches: batches.map(batch => drawn.has(batch.id) ? { ...batch, quantity: batch.quantity - drawn.get(batch.id)! } : batch),
+        allocations
+    };
+};
+
+// Throws if the sale needs units that only exist in expired batches
+export const assertSellable = (product: Product, quantity: number, today = todayDate()): void => {
+    const sellable = sellableQuantity(product, today);
+    if (product.batches?.length && quantity > sellable) {
+        throw new Error(`Cannot sell ${quantity} of ${product.name}: only ${sellable} in date, the rest has expired`);
+    }
+};
+
+// Allocates every line of a sale. Lines of the same product share its batches, so the
+// second line carries on where the first stopped. Returns the updated batches per product.
+export const allocateItems = (items: BillItem[], products: Map<string, Product>, today = todayDate()) => {
+    const batches = new Map<string, Batch[]>();
+    const allocated = items.map(item => {
+        const product = products.get(item.id);
+        if (!product?.batches?.length) return item;
+        const result = drawFefo(batches.get(item.id) ?? product.batches, item.quantity, today);
+        batches.set(item.id, result.batches);
+        return result.allocations.length ? { ...item, allocations: result.allocations } : item;
+    });
+    return { items: allocated, batches };
+};
+
+// Puts returned units back into the batches they were sold from, freshest lot first.
+// A lot that has since sold out is recreated from the allocation.
+export const restoreItems = (items: BillItem[], products: Map<string, Product>) => {
+    const batches = new Map<string, Batch[]>();
+    items.forEach(item => {
+        const product = products.get(item.id);
+        if (!product || !item.allocations?.length) return;
+        const current = [...(batches.get(item.id) ?? product.batches ?? [])];
+        let left = item.quantity;
+        [...item.allocations].sort((a, b) => b.expiryDate.localeCompare(a.expiryDate)).forEach(allocation => {
+            if (left <= 0) return;
+            const back = Math.min(allocation.quantity, left);
+            const index = current.findIndex(batch => batch.id === allocation.batchId);
+            if (index > -1) {
+                current[index] = { ...current[index], quantity: current[index].quantity + back };
+            } else {
+                current.push({ id: allocation.batchId, batchNumber: allocation.batchNumber, expiryDate: allocation.expiryDate, quantity: back });
+            }
+            left -= back;
+        });
+        batches.set(item.id, current);
+    });
+    return batches;
+};
+
+// Adds a received lot, topping up an existing batch with the same number and expiry
+export const receiveBatch = (batches: Batch[], batch: Batch): Batch[] => {
+    const index = batches.findIndex(b => b.batchNumber === batch.batchNumber && b.expiryDate === batch.expiryDate);
+    if (index === -1) return [...batches, batch];
+    return batches.map((b, i) => i === index ? { ...b, quantity: b.quantity + batch.quantity, costPrice: batch.costPrice ?? b.costPrice } : b);
+};
+
+// After a manual stock cut below the batches' total, remove the difference from the
+// batches, expired and earliest-expiring lots first
+export const trimBatches = (batches: Batch[], stock: number): Batch[] => {
+    let excess = batches.reduce((sum, batch) => sum + batch.quantity, 0) - Math.max(0, stock);
+    if (excess <= 0) return batches;
+    const trimmed = new Map<string, number>();
+    fefoOrder(batches).forEach(batch => {
+        if (excess <= 0) return;
+        const take = Math.min(batch.quantity, excess);
+        trimmed.set(batch.id, batch.quantity - take);
+        excess -= take;
+    });
+    return batches.map(batch => trimmed.has(batch.id) ? { ...batch, quantity: trimmed.get(batch.id)! } : batch);
+};
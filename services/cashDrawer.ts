@@ -0,0 +1,66 @@
+// services/cashDrawer.ts
+// Register sessions: what should be in the drawer at any point of a shift, and
+// the Z-report frozen onto the session when the employee counts up and closes.
+
+import { RegisterSession, Sale, CreditNote, ZReport, Tender } from "../types";
+import { round2, lineNetAmount } from "./gst";
+import { paymentsOf } from "./tender";
+
+// Discount given on a sale; older sales didn't record it, so rebuild it from the line discounts
+export const saleDiscount = (sale: Sale): number =>
+    sale.discountAmount ?? round2(sale.items.reduce((sum, item) => sum + item.price * item.quantity - lineNetAmount(item), 0));
+
+const inSession = (session: RegisterSession, date: string, until: string) =>
+    date >= session.openedAt && date <= until;
+
+export const sessionSales = (session: RegisterSession, sales: Sale[], until = session.closedAt || new Date().toISOString()) =>
+    sales.filter(sale => sale.employeeId === session.userId && inSession(session, sale.date, until));
+
+export const sessionReturns = (session: RegisterSession, creditNotes: CreditNote[], until = session.closedAt || new Date().toISOString()) =>
+    creditNotes.filter(note => note.employeeId === session.userId && inSession(session, note.date, until));
+
+// Totals for the shift so far; countedCash is 0 until the drawer is counted
+export const buildZReport = (session: RegisterSession, sales: Sale[], creditNotes: CreditNote[], countedCash = 0, until?: string): ZReport => {
+    const shiftSales = sessionSales(session, sales, until);
+    const shiftReturns = sessionReturns(session, creditNotes, until);
+
+    const byTender: Record<Tender, number> = { CASH: 0, UPI: 0, CARD: 0, NET_BANKING: 0, WALLET: 0 };
+    shiftSales.forEach(sale => paymentsOf(sale).forEach(line => {
+        byTender[line.method] = round2(byTender[line.method] + line.amount);
+    }));
+
+    const refunds = (method: CreditNote['refundMethod']) =>
+        round2(shiftReturns.filter(note => note.refundMethod === method).reduce((sum, note) => sum + note.total, 0));
+    const movements = (type: 'IN' | 'OUT') =>
+        round2(session.movements.filter(m => m.type === type).reduce((sum, m) => sum + m.amount, 0));
+
+    const cashRefunds = refunds('CASH');
+    const cashIn = movements('IN');
+    const cashOut = movements('OUT');
+    const expectedCash = round2(session.openingFloat + byTender.CASH - cashRefunds + cashIn - cashOut);
+
+    return {
+        salesCount: shiftSales.length,
+        grossSales: round2(shiftSales.reduce((sum, sale) => sum + sale.total, 0)),
+        byTender,
+        discounts: round2(shiftSales.reduce((sum, sale) => sum + saleDiscount(sale), 0)),
+        returnsCount: shiftReturns.length,
+        cashRefunds,
+        walletRefunds: refunds('WALLET'),
+        cashIn,
+        cashOut,
+        expectedCash,
+        countedCash: round2(countedCash),
+        variance: round2(countedCash - expectedCash)
+    };
+};
+
+export const closeSession = (session: RegisterSession, sales: Sale[], creditNotes: CreditNote[], countedCash: number): RegisterSession => {
+    const closedAt = new Date().toISOString();
+    return {
+        ...session,
+        status: 'CLOSED',
+        closedAt,
+        zReport: buildZReport(session, sales, creditNotes, countedCash, closedAt)
+    };
+};
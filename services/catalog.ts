@@ -0,0 +1,120 @@
+// services/catalog.ts
+// The category tree and product variants. Categories nest through parentId; a
+// variant is a full product (own price, stock and barcodes) that points at the
+// product it is a size or flavour of, and takes that product's category unless
+// it has its own.
+
+import { Category, CreditNote, Product, Sale } from "../types";
+import { linePaidAmount, round2 } from "./gst";
+
+export interface CategoryNode {
+    category: Category;
+    depth: number;
+}
+
+// Depth-first, siblings by name; what selects and the analytics table list
+export const categoryTree = (categories: Category[]): CategoryNode[] => {
+    const ids = new Set(categories.map(c => c.id));
+    const byParent = new Map<string, Category[]>();
+    categories.forEach(category => {
+        // A dangling parent puts the category back at the top level
+        const parent = category.parentId && ids.has(category.parentId) ? category.parentId : '';
+        byParent.set(parent, [...(byParent.get(parent) || []), category]);
+    });
+    const nodes: CategoryNode[] = [];
+    const visit = (parentId: string, depth: number) => {
+        [...(byParent.get(parentId) || [])].sort((a, b) => a.name.localeCompare(b.name)).forEach(category => {
+            nodes.push({ category, depth });
+            visit(category.id, depth + 1);
+        });
+    };
+    visit('', 0);
+    return nodes;
+};
+
+// 'Grocery › Edible Oils'
+export const categoryPath = (categoryId: string | undefined, categories: Category[]): string => {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let current = categories.find(c => c.id === categoryId);
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        names.unshift(current.name);
+        current = categories.find(c => c.id === current!.parentId);
+    }
+    return names.join(' › ');
+};
+
+// The category and everything below it
+export const descendantIds = (categoryId: string, categories: Category[]): Set<string> => {
+    const ids = new Set([categoryId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        categories.forEach(c => {
+            if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+                ids.add(c.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+};
+
+export const effectiveCategoryId = (product: Product, products: Product[]): string | undefined =>
+    product.categoryId || (product.parentId ? products.find(p => p.id === product.parentId)?.categoryId : undefined);
+
+// Products in the category or any of its subcategories; no category id keeps them all
+export const filterByCategory = (products: Product[], categoryId: string, categories: Category[]): Product[] => {
+    if (!categoryId) return products;
+    const ids = descendantIds(categoryId, categories);
+    return products.filter(product => {
+        const effective = effectiveCategoryId(product, products);
+        return !!effective && ids.has(effective);
+    });
+};
+
+export const variantLabel = (product: Product): string =>
+    [product.variant?.size, product.variant?.flavour].filter(Boolean).join(' · ');
+
+export const variantsOf = (productId: string, products: Product[]): Product[] =>
+    products.filter(p => p.parentId === productId);
+
+// The category whose name the text mentions, most specific (longest) name first
+export const matchCategory = (text: string, categories: Category[]): Category | undefined => {
+    const lower = text.toLowerCase();
+    return [...categories].sort((a, b) => b.name.length - a.name.length).find(c => lower.includes(c.name.toLowerCase()));
+};
+
+export interface CategorySalesRow {
+    category: Category | null; // null = products without a category
+    depth: number;
+    revenue: number; // Paid value net of returns, this category and its subcategories
+    units: number;
+}
+
+// Category-level sales, each row rolled up over its subtree, in tree order
+export const categorySales = (sales: Sale[], creditNotes: CreditNote[], products: Product[], categories: Category[]): CategorySalesRow[] => {
+    const own = new Map<string, { revenue: number; units: number }>();
+    const known = new Set(categories.map(c => c.id));
+    const add = (productId: string, revenue: number, units: number) => {
+        const product = products.find(p => p.id === productId);
+        const effective = product ? effectiveCategoryId(product, products) : undefined;
+        const key = effective && known.has(effective) ? effective : '';
+        const totals = own.get(key) || { revenue: 0, units: 0 };
+        own.set(key, { revenue: totals.revenue + revenue, units: totals.units + units });
+    };
+    sales.forEach(sale => sale.items.forEach(item => add(item.id, linePaidAmount(item), item.quantity)));
+    creditNotes.forEach(note => note.items.forEach(item => add(item.id, -linePaidAmount(item), -item.quantity)));
+
+    const rows: CategorySalesRow[] = categoryTree(categories).map(({ category, depth }) => {
+        const totals = Array.from(descendantIds(category.id, categories)).reduce((sum, id) => {
+            const t = own.get(id);
+            return t ? { revenue: sum.revenue + t.revenue, units: sum.units + t.units } : sum;
+        }, { revenue: 0, units: 0 });
+        return { category, depth, revenue: round2(totals.revenue), units: totals.units };
+    });
+    const uncategorised = own.get('');
+    if (uncategorised) rows.push({ category: null, depth: 0, revenue: round2(uncategorised.revenue), units: uncategorised.units });
+    return rows;
+};
@@ -0,0 +1,256 @@
+// services/catalogImport.ts
+// Bulk catalog import and export. A sheet (CSV, or XLSX read through SheetJS) is a
+// grid of strings; columns are mapped onto product fields, every row is checked
+// before anything is written, and a row updates the product with the same id (or
+// barcode) or creates a new one. Export writes the same columns, so an exported
+// file can be edited and imported back.
+
+import { Category, Product, UnitOfMeasure } from "../types";
+import { GST_SLABS } from "./gst";
+import { createStockLogEntry } from "./ledger";
+import { UNITS } from "./units";
+import { barcodeError, barcodeKey, buildBarcodeIndex, lookupBarcode } from "./barcodes";
+import { categoryPath } from "./catalog";
+import { withPriceHistory } from "./pricing";
+
+export type ImportField = 'id' | 'name' | 'brand' | 'price' | 'stock' | 'expireDate' | 'unit' | 'barcodes' | 'category'
+    | 'hsnCode' | 'gstRate' | 'costPrice' | 'reorderLevel' | 'reorderQuantity' | 'shelf';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; aliases: string[] }[] = [
+    { key: 'id', label: 'ID', aliases: ['sku', 'product id', 'item code'] },
+    { key: 'name', label: 'Name', aliases: ['product', 'product name', 'item', 'item name', 'description'] },
+    { key: 'brand', label: 'Brand', aliases: ['make', 'manufacturer'] },
+    { key: 'price', label: 'Price', aliases: ['mrp', 'selling price', 'sale price', 'rate'] },
+    { key: 'stock', label: 'Stock', aliases: ['qty', 'quantity', 'on hand'] },
+    { key: 'expireDate', label: 'Expiry', aliases: ['expiry date', 'expire date', 'best before', 'exp'] },
+    { key: 'unit', label: 'Unit', aliases: ['uom', 'unit of measure'] },
+    { key: 'barcodes', label: 'Barcodes', aliases: ['barcode', 'ean', 'upc', 'gtin'] },
+    { key: 'category', label: 'Category', aliases: ['department', 'group'] },
+    { key: 'hsnCode', label: 'HSN', aliases: ['hsn code'] },
+    { key: 'gstRate', label: 'GST %', aliases: ['gst', 'gst rate', 'tax', 'tax rate'] },
+    { key: 'costPrice', label: 'Cost', aliases: ['cost price', 'purchase price'] },
+    { key: 'reorderLevel', label: 'Reorder Level', aliases: ['min stock', 'reorder point'] },
+    { key: 'reorderQuantity', label: 'Reorder Qty', aliases: ['reorder quantity'] },
+    { key: 'shelf', label: 'Shelf', aliases: ['aisle', 'location', 'bin'] }
+];
+
+// Column index per field; -1 = not imported
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportRow {
+    rowNumber: number; // As the spreadsheet numbers it, header = 1
+    action: 'create' | 'update';
+    product: Product | null; // null when the row has errors
+    errors: string[];
+}
+
+export interface ImportPreview {
+    rows: ImportRow[];
+    newCategories: Category[]; // Category paths in the file that don't exist yet
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length) rows.push([...row, field]);
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+    rows.map(row => row.map(cell => {
+        const text = String(cell);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',')).join('\r\n');
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    return IMPORT_FIELDS.reduce((mapping, field) => {
+        const names = [field.key.toLowerCase(), field.label.toLowerCase(), ...field.aliases];
+        mapping[field.key] = normalized.findIndex(h => names.includes(h));
+        return mapping;
+    }, {} as ColumnMapping);
+};
+
+// YYYY-MM-DD, or DD-MM-YYYY / DD/MM/YYYY as Indian suppliers write it
+export const parseImportDate = (value: string): string | null => {
+    const text = value.trim();
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const [y, m, d] = match
+        ? [match[1], match[2], match[3]]
+        : (match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/)) ? [match[3], match[2], match[1]] : [];
+    if (!y) return null;
+    const iso = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+    const date = new Date(`${iso}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : null;
+};
+
+const CATEGORY_SEPARATOR = /\s*(?:›|>|\/)\s*/;
+
+// Resolves 'Grocery > Oils' against the tree, adding any missing levels to `created`
+const resolveCategory = (path: string, categories: Category[], created: Category[]): string => {
+    let parentId: string | undefined;
+    path.split(CATEGORY_SEPARATOR).filter(Boolean).forEach(name => {
+        const all = [...categories, ...created];
+        let node = all.find(c => c.name.toLowerCase() === name.toLowerCase() && c.parentId === parentId);
+        if (!node) {
+            node = { id: `cat_${Date.now()}_${created.length}`, name, parentId };
+            created.push(node);
+        }
+        parentId = node.id;
+    });
+    return parentId!;
+};
+
+export const buildImportPreview = (
+    grid: string[][],
+    mapping: ColumnMapping,
+    products: Product[],
+    categories: Category[],
+    userId: string
+): ImportPreview => {
+    const index = buildBarcodeIndex(products);
+    const newCategories: Category[] = [];
+    const idsInFile = new Map<string, number>();
+    const barcodesInFile = new Map<string, number>();
+
+    const rows = grid.slice(1).map((cells, i): ImportRow => {
+        const rowNumber = i + 2;
+        const errors: string[] = [];
+        const cell = (field: ImportField) => mapping[field] >= 0 ? (cells[mapping[field]] ?? '').trim() : '';
+        const has = (field: ImportField) => mapping[field] >= 0 && cell(field) !== '';
+        const number = (field: ImportField, label: string, integer = false): number | undefined => {
+            if (!has(field)) return undefined;
+            const value = Number(cell(field).replace(/[₹,\s]/g, ''));
+            if (!isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+                errors.push(`${label} "${cell(field)}" is not a valid ${integer ? 'whole number' : 'number'}.`);
+                return undefined;
+            }
+            return value;
+        };
+
+        const codes = has('barcodes') ? cell('barcodes').split(/[;|\s]+/).filter(Boolean) : [];
+        const existing = (has('id') ? products.find(p => p.id === cell('id')) : undefined)
+            || codes.map(code => lookupBarcode(index, code)).find(Boolean);
+        const id = existing?.id || cell('id') || `prod_${Date.now()}_${i}`;
+
+        const firstRow = idsInFile.get(id);
+        if (firstRow) errors.push(`Same product as row ${firstRow}.`);
+        else idsInFile.set(id, rowNumber);
+
+        codes.forEach(code => {
+            const error = barcodeError(code);
+            if (error) errors.push(error);
+            const key = barcodeKey(code);
+            const holder = lookupBarcode(index, code);
+            if (holder && holder.id !== id) errors.push(`Barcode ${code} belongs to ${holder.name}.`);
+            const seenAt = barcodesInFile.get(key);
+            if (seenAt) errors.push(`Barcode ${code} is also on row ${seenAt}.`);
+            else barcodesInFile.set(key, rowNumber);
+        });
+
+        if (!existing) {
+            if (!has('name')) errors.push('Name is required for a new product.');
+            if (!has('price')) errors.push('Price is required for a new product.');
+        }
+        const price = number('price', 'Price');
+        const costPrice = number('costPrice', 'Cost');
+        const stock = number('stock', 'Stock');
+        const reorderLevel = number('reorderLevel', 'Reorder level', true);
+        const reorderQuantity = number('reorderQuantity', 'Reorder qty', true);
+        const gstRate = number('gstRate', 'GST');
+        if (gstRate !== undefined && !GST_SLABS.includes(gstRate)) errors.push(`GST ${gstRate}% is not a GST slab (${GST_SLABS.join(', ')}).`);
+
+        let expireDate: string | undefined;
+        if (has('expireDate')) {
+            expireDate = parseImportDate(cell('expireDate')) || undefined;
+            if (!expireDate) errors.push(`Expiry "${cell('expireDate')}" is not a date (use YYYY-MM-DD or DD/MM/YYYY).`);
+        } else if (!existing) {
+            errors.push('Expiry is required for a new product.');
+        }
+
+        const unit = has('unit') ? UNITS.find(u => u.toLowerCase() === cell('unit').toLowerCase()) : undefined;
+        if (has('unit') && !unit) errors.push(`Unit "${cell('unit')}" must be one of ${UNITS.join(', ')}.`);
+        if (stock !== undefined && !(unit && unit !== 'pcs') && !(existing?.unit && existing.unit !== 'pcs') && !Number.isInteger(stock)) {
+            errors.push('Stock must be a whole number for items sold by piece.');
+        }
+        const hsnCode = has('hsnCode') ? cell('hsnCode') : undefined;
+        if (hsnCode && !/^\d{4,8}$/.test(hsnCode)) errors.push(`HSN "${hsnCode}" must be 4 to 8 digits.`);
+
+        if (errors.length > 0) return { rowNumber, action: existing ? 'update' : 'create', product: null, errors };
+
+        const base: Product = existing || { id, name: '', brand: 'Generic', price: 0, expireDate: '', stock: 0, stockHistory: [] };
+        let product: Product = {
+            ...base,
+            ...(has('name') ? { name: cell('name') } : {}),
+            ...(has('brand') ? { brand: cell('brand') } : {}),
+            ...(price !== undefined ? { price } : {}),
+            ...(expireDate ? { expireDate } : {}),
+            ...(unit ? { unit: unit as UnitOfMeasure } : {}),
+            ...(codes.length ? { barcodes: Array.from(new Set([...(existing?.barcodes || []), ...codes])) } : {}),
+            ...(has('category') ? { categoryId: resolveCategory(cell('category'), categories, newCategories) } : {}),
+            ...(hsnCode ? { hsnCode } : {}),
+            ...(gstRate !== undefined ? { gstRate } : {}),
+            ...(costPrice !== undefined ? { costPrice } : {}),
+            ...(reorderLevel !== undefined ? { reorderLevel } : {}),
+            ...(reorderQuantity !== undefined ? { reorderQuantity } : {}),
+            ...(has('shelf') ? { shelf: cell('shelf').toUpperCase() } : {})
+        };
+        // Stock changes go through the ledger like any manual adjustment
+        if (stock !== undefined && stock !== base.stock) {
+            const entry = createStockLogEntry(base.stock, stock - base.stock, existing ? 'Import' : 'Initial Stock', userId);
+            product = { ...product, stock: entry.newStock, stockHistory: [...(base.stockHistory || []), entry] };
+        }
+        return { rowNumber, action: existing ? 'update' : 'create', product: withPriceHistory(existing, product, 'Import', userId), errors };
+    });
+
+    return { rows, newCategories };
+};
+
+// The catalog as a sheet with the import's own headers
+export const catalogSheet = (products: Product[], categories: Category[]): (string | number)[][] => [
+    IMPORT_FIELDS.map(field => field.label),
+    ...products.map(p => [
+        p.id,
+        p.name,
+        p.brand,
+        p.price,
+        p.stock,
+        p.expireDate,
+        p.unit || 'pcs',
+        (p.barcodes || []).join(';'),
+        p.categoryId ? categoryPath(p.categoryId, categories).replace(/ › /g, ' > ') : '',
+        p.hsnCode || '',
+        p.gstRate ?? '',
+        p.costPrice ?? '',
+        p.reorderLevel ?? '',
+        p.reorderQuantity ?? '',
+        p.shelf || ''
+    ])
+];
@@ -10,15 +10,33 @@ import {
   getDocs, 
   deleteDoc,
   updateDoc, 
+  deleteField,
   query, 
   where, 
   serverTimestamp, 
   Timestamp,
   orderBy,
-  limit
+  limit,
+  runTransaction,
+  Transaction,
+  DocumentReference,
+  DocumentSnapshot
 } from "firebase/firestore";
 import { firebaseConfig, isFirebaseConfigured } from "./firebaseConfig";
-import { Product, Sale, Customer, User, Role, ShopDetails } from "../types";
+import { IndexedDBEngine } from "./localDatabase";
+import { SyncQueue, SyncHandlers, SyncStatus, OutboxOp } from "./syncQueue";
+import { Product, Category, Sale, Customer, User, Role, ShopDetails, SaleCommitResult, CreditNote, ReturnCommitResult, ParkedBill, RegisterSession, Supplier, PurchaseOrder, GoodsReceipt, GoodsReceiptCommitResult, SupplierPayment, Batch, Stocktake, StocktakeCommitResult, StockLogEntry, Store, BranchSales, NumberCollision, StockTransfer, TransferCommitResult, Permission, RoleDefinition } from "../types";
+import { createStockLogEntry, quantitiesByProduct, tallyReturn, walletBalanceAfterSale } from "./ledger";
+import { financialYear, counterKey } from "./invoiceNumbering";
+import { receivingStatus, receivedBatch } from "./purchasing";
+import { allocateItems, restoreItems, receiveBatch, trimBatches, withBatches } from "./batches";
+import { activateDuePrices, hasDuePrices, listPrice, pricesChanged } from "./pricing";
+import { applyStocktakeLine, postableLines } from "./stocktake";
+import { WriteOff, applyWriteOff, writeOffProductIds } from "./expiry";
+import { dispatchLine, receiveLine, withLocationChange } from "./transfers";
+import { DEFAULT_STORE_ID, TenancySettings, cacheTenancy, getCachedTenancy, getStoreId, saveStoreId, storeCollection, storeOfUser } from "./stores";
+import { discountCapError, permissionLabel, shopDetailsPermissions } from "./permissions";
+import { hashPassword } from "./passwords";
 
 // --- Configuration ---
 const isCloud = isFirebaseConfigured();
@@ -39,268 +57,658 @@ if (isCloud) {
   }
 }
 
-// --- SQLite Simulation (Local Mode) ---
-// OPTIMIZED: Uses In-Memory Cache to prevent slow JSON.parse() on every operation
+// --- Store (Cloud Mode tenancy) ---
+// Fixed for the page's lifetime: switching store reloads the app (see switchStore)
+const storeId = isCloud ? getStoreId() : DEFAULT_STORE_ID;
+let tenancy = getCachedTenancy();
 
-class SQLiteSimulator {
-    // In-memory cache
-    private cache: { [key: string]: any[] } = {};
-    private shopDetailsCache: ShopDetails | null = null;
-    
-    constructor() {
-        this.init();
-    }
+const storePath = (name: string) => storeCollection(name, storeId);
+// Shared customers (and their wallets) live at the root for every branch
+const customersPath = () => tenancy.sharedCustomers ? "customers" : storePath("customers");
 
-    private init() {
-        // Initialize tables if missing
-        if (!localStorage.getItem('table_users')) localStorage.setItem('table_users', JSON.stringify([]));
-        if (!localStorage.getItem('table_products')) localStorage.setItem('table_products', JSON.stringify([]));
-        if (!localStorage.getItem('table_sales')) localStorage.setItem('table_sales', JSON.stringify([]));
-        if (!localStorage.getItem('table_customers')) localStorage.setItem('table_customers', JSON.stringify([]));
-        if (!localStorage.getItem('table_shop_details')) localStorage.setItem('table_shop_details', JSON.stringify(null));
-
-        // Load into memory (RAM) for speed
-        this.cache['table_users'] = this.loadFromDisk('table_users');
-        this.cache['table_products'] = this.loadFromDisk('table_products');
-        this.cache['table_sales'] = this.loadFromDisk('table_sales');
-        this.cache['table_customers'] = this.loadFromDisk('table_customers');
-        
-        const details = localStorage.getItem('table_shop_details');
-        this.shopDetailsCache = details ? JSON.parse(details) : null;
-    }
+// --- Permissions ---
+// The signed-in user and their role (see setSession). The admin tabs already hide what a
+// role can't do; these checks stop the same writes reaching the data some other way.
+// Signed out (the login screen, first run) means no checks; signed in without a role
+// (a restored session before the shop's roles have loaded) means nothing is allowed.
+let signedIn = false;
+let sessionRole: RoleDefinition | null = null;
 
-    private loadFromDisk(tableName: string): any[] {
-        const data = localStorage.getItem(tableName);
-        return data ? JSON.parse(data) : [];
-    }
+// Passes when the role has any of the permissions
+const requirePermission = (...permissions: Permission[]) => {
+  if (!signedIn) return;
+  if (!sessionRole) throw new Error(`Not allowed yet: ${permissionLabel(permissions[0])} (your role is still loading)`);
+  if (!permissions.some(p => sessionRole!.permissions.includes(p))) {
+    throw new Error(`Not allowed for ${sessionRole.name}: ${permissionLabel(permissions[0])}`);
+  }
+};
 
-    // Helper to get table data (READ from RAM)
-    private getTable(tableName: string): any[] {
-        return this.cache[tableName] || [];
-    }
+// --- IndexedDB Engine ---
+// Local Mode: the database itself. Cloud Mode: the offline copy + outbox, one per store.
+const localDb = new IndexedDBEngine(storeId === DEFAULT_STORE_ID ? undefined : `rg_shop_local_${storeId}`);
 
-    // Helper to save table data (WRITE to RAM & Disk)
-    private saveTable(tableName: string, data: any[]) {
-        this.cache[tableName] = data; // Update RAM immediately
-        // Async write to disk to not block UI (simulated)
-        setTimeout(() => {
-            localStorage.setItem(tableName, JSON.stringify(data));
-        }, 0);
-    }
+// Editing a product is not the same as repricing it. Scheduled prices falling due are
+// applied by whoever has the app open, so a save that only does that is let through.
+const checkProductWrite = async (product: Product) => {
+  if (!signedIn) return;
+  const before = await localDb.get_product(product.id);
+  if (before && pricesChanged(before, product)) {
+    if (pricesChanged(activateDuePrices(before), product)) requirePermission('prices');
+  } else {
+    requirePermission('products', 'stock');
+  }
+};
 
-    // 2. FUNCTIONS FOR LOGIN SYSTEM (Ported from Python)
-    register_user(username: string, password: string): boolean {
-        const users = this.getTable('table_users');
-        
-        if (users.find((u: any) => u.username === username)) {
-            return false;
-        }
+const toCloudSaleRecord = (sale: Sale, shopDetails?: any) => ({
+  // Issued at checkout from the register's series (see invoiceNumbering.ts)
+  invoiceNumber: sale.invoiceNumber || null,
+  // The sale's own time, not the replay time
+  saleDate: Timestamp.fromDate(new Date(sale.date)),
+  customerName: sale.customerName || "Walk-in Customer",
+  customerMobile: sale.customerMobile || null,
+  customerGstin: sale.customerGstin || null,
+  items: sale.items.map(item => ({
+      productId: item.id, name: item.name, brand: item.brand, unitPrice: item.price, quantity: item.quantity, unit: item.unit || 'pcs', totalItemPrice: item.price * item.quantity,
+      hsnCode: item.hsnCode || '', gstRate: item.gstRate || 0, taxableValue: item.taxableValue || 0,
+      cgst: item.cgst || 0, sgst: item.sgst || 0, igst: item.igst || 0,
+      allocations: item.allocations || null
+  })),
+  totalAmount: sale.total,
+  taxAmount: sale.taxAmount || 0,
+  placeOfSupply: sale.placeOfSupply || null,
+  location: sale.location || null,
+  paymentMethod: sale.paymentMethod || null,
+  payments: sale.payments ? JSON.parse(JSON.stringify(sale.payments)) : null,
+  changeDue: sale.changeDue || 0,
+  discountAmount: sale.discountAmount || 0,
+  walletRedeemed: sale.walletRedeemed || 0,
+  walletEarned: sale.walletEarned || 0,
+  generatedByEmployeeId: sale.employeeId,
+  shopDetails: shopDetails || { name: "RG Shop" },
+  thankYouMessage: "THANK YOU ❣️",
+  createdAt: serverTimestamp()
+});
+
+// Just enough of a product doc for the batch and location helpers
+const fromCloudBatches = (id: string, data: any): Product => ({
+  id, name: data.name, brand: data.brand, price: data.basePrice ?? data.currentPrice ?? 0, unit: data.unit || undefined,
+  expireDate: data.expireDate || '', stock: data.stock || 0, batches: data.batches || undefined,
+  locationStock: data.locationStock || undefined
+});
+
+// Product fields to write after a movement at a location other than the shop floor
+const locationFields = (before: Product, after: Product) =>
+  after.locationStock === before.locationStock ? {} : { locationStock: after.locationStock || null };
+
+// Product fields to write after a batch movement; nothing when the batches didn't change
+const batchFields = (product: Product, batches?: Batch[]) => {
+  if (!batches) return {};
+  const updated = withBatches(product, batches);
+  return { batches: JSON.parse(JSON.stringify(updated.batches)), expireDate: updated.expireDate };
+};
+
+// Numbers are handed out on the device, so one at or below the last the cloud has seen on
+// its series may already have been issued by another device sharing the register code. By
+// then the document is printed and booked on the counter, so it is still saved; the clash is
+// logged for an admin to review (Shop Settings) and the counter is left where it was.
+const claimNumber = (tx: Transaction, counterRef: DocumentReference | null, counterSnap: DocumentSnapshot | null, series: string | undefined, fy: string, number: string | undefined, documentRef: DocumentReference) => {
+  if (!counterRef || !number) return;
+  const sequence = Number(number.split('/').pop());
+  const last = counterSnap?.data()?.last || 0;
+  if (sequence > last) {
+    tx.set(counterRef, { series, financialYear: fy, last: sequence, updatedAt: serverTimestamp() });
+    return;
+  }
+  tx.set(doc(documentRef.firestore, storePath("number_collisions"), `${documentRef.parent.id}_${documentRef.id}`), {
+    number, series, financialYear: fy, collection: documentRef.parent.id, documentId: documentRef.id, lastIssued: last, detectedAt: new Date().toISOString()
+  });
+};
+
+// What a product edit (manual adjustment, batch added, import) did to stock: the ledger
+// entries it added and the units each batch gained. The cloud applies it to its own figures.
+interface StockMovement {
+  productId: string;
+  entries: StockLogEntry[];
+  received: Batch[];
+}
+
+const stockMovement = (before: Product, after: Product): StockMovement | null => {
+  const known = new Set((before.stockHistory || []).map(entry => entry.id));
+  const entries = (after.stockHistory || []).filter(entry => !known.has(entry.id));
+  if (entries.length === 0) return null;
+  const received = (after.batches || [])
+    .map(batch => ({ ...batch, quantity: batch.quantity - (before.batches?.find(b => b.id === batch.id)?.quantity || 0) }))
+    .filter(batch => batch.quantity > 0);
+  return { productId: after.id, entries, received };
+};
+
+const requireDb = () => {
+  if (!db) throw new Error("Firestore not initialized");
+  return db;
+};
+
+// A sale doc (see toCloudSaleRecord) back in the app's shape
+const fromCloudSale = (id: string, data: any): Sale => ({
+  id,
+  date: data.saleDate instanceof Timestamp ? data.saleDate.toDate().toISOString() : data.saleDate,
+  items: data.items.map((i: any) => ({
+      id: i.productId, name: i.name, brand: i.brand, price: i.unitPrice, quantity: i.quantity, unit: i.unit || undefined,
+      hsnCode: i.hsnCode, gstRate: i.gstRate, taxableValue: i.taxableValue, cgst: i.cgst, sgst: i.sgst, igst: i.igst,
+      allocations: i.allocations || undefined
+  })),
+  total: data.totalAmount,
+  employeeId: data.generatedByEmployeeId,
+  customerName: data.customerName,
+  customerMobile: data.customerMobile,
+  customerGstin: data.customerGstin || undefined,
+  returnedQuantities: data.returnedQuantities || undefined,
+  paymentMethod: data.paymentMethod || undefined,
+  payments: data.payments || undefined,
+  changeDue: data.changeDue || 0,
+  discountAmount: data.discountAmount ?? undefined,
+  walletRedeemed: data.walletRedeemed || 0,
+  walletEarned: data.walletEarned || 0,
+  taxAmount: data.taxAmount || 0,
+  placeOfSupply: data.placeOfSupply || undefined,
+  invoiceNumber: data.invoiceNumber || undefined,
+  location: data.location || undefined,
+} as Sale);
+
+// --- Cloud Writers ---
+// The Firestore half of every write. Only the sync queue calls these, so a
+// write made while offline is replayed here once connectivity returns.
+const cloudWriters: SyncHandlers = {
+  // The catalog fields only. Stock, its ledger, batches and location stock belong to the
+  // stock transactions (and adjustStock for edits), so a till that is behind can't put
+  // back figures it last loaded. A product the cloud hasn't seen yet is written whole.
+  async saveProduct(product: Product) {
+    const productData = {
+        name: product.name,
+        brand: product.brand,
+        basePrice: product.price,
+        // What retail sells at today, even before a due scheduled change has been activated
+        currentPrice: listPrice(activateDuePrices(product), 'retail'),
+        listPrices: product.listPrices ? JSON.parse(JSON.stringify(product.listPrices)) : null,
+        scheduledPrices: product.scheduledPrices ? JSON.parse(JSON.stringify(product.scheduledPrices)) : null,
+        priceHistory: product.priceHistory || [],
+        unit: product.unit || 'pcs',
+        pluCode: product.pluCode || null,
+        barcodes: product.barcodes || [],
+        categoryId: product.categoryId || null,
+        parentId: product.parentId || null,
+        variant: product.variant ? JSON.parse(JSON.stringify(product.variant)) : null,
+        stock: product.stock,
+        expireDate: product.expireDate,
+        stockHistory: product.stockHistory || [],
+        hsnCode: product.hsnCode || '',
+        gstRate: product.gstRate ?? null,
+        costPrice: product.costPrice ?? null,
+        batches: product.batches ? JSON.parse(JSON.stringify(product.batches)) : null,
+        reorderLevel: product.reorderLevel ?? null,
+        reorderQuantity: product.reorderQuantity ?? null,
+        preferredSupplierId: product.preferredSupplierId || null,
+        shelf: product.shelf || null,
+        locationStock: product.locationStock || null,
+        qrCodeData: `rgstore://product/${product.id}`,
+        lastPriceUpdate: serverTimestamp(),
+    };
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const ref = doc(firestore, storePath("products"), product.id);
+      const snap = await tx.get(ref);
+      if (!snap.exists()) {
+        tx.set(ref, productData);
+        return;
+      }
+      const { stock, stockHistory, batches, locationStock, expireDate, ...catalog } = productData;
+      // Without batches the expiry date is typed in; with them it follows the batches
+      tx.set(ref, { ...catalog, ...(snap.data().batches?.length ? {} : { expireDate }) }, { merge: true });
+    });
+  },
+
+  // A product edit's stock change, on top of the server's current stock like commitStocktake
+  async adjustStock({ productId, entries, received }: StockMovement) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const snap = await tx.get(doc(firestore, storePath("products"), productId));
+      if (!snap.exists()) return;
+      const data = snap.data();
+      const history: StockLogEntry[] = data.stockHistory || [];
+      // Already applied: a replay after a timeout that did reach the server
+      if (history.some(entry => entry.id === entries[0].id)) return;
+
+      let stock = data.stock || 0;
+      const rebased = entries.map(entry => {
+        const moved = { ...entry, previousStock: stock, newStock: stock + entry.change };
+        stock = moved.newStock;
+        return moved;
+      });
+      const product = fromCloudBatches(snap.id, data);
+      const batches = product.batches?.length || received.length
+        ? trimBatches(received.reduce(receiveBatch, product.batches || []), stock)
+        : undefined;
+      tx.update(snap.ref, { stock, stockHistory: [...history, ...JSON.parse(JSON.stringify(rebased))], ...batchFields(product, batches) });
+    });
+  },
 
-        const newUser = {
-            id: users.length + 1,
-            username,
-            password,
-            role: 'ADMIN'
+  // Only the price fields, from the server's copy: every open till activates the same change,
+  // and only the first may record it in the price history
+  async activatePrices({ productIds, today }: { productIds: string[]; today: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const snaps = await Promise.all(productIds.map(productId => tx.get(doc(firestore, storePath("products"), productId))));
+      snaps.forEach(snap => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const product: Product = {
+          ...fromCloudBatches(snap.id, data),
+          listPrices: data.listPrices || undefined,
+          scheduledPrices: data.scheduledPrices?.length ? data.scheduledPrices : undefined,
+          priceHistory: data.priceHistory || []
         };
+        // Another till got there first
+        if (!hasDuePrices(product, today)) return;
+        const activated = activateDuePrices(product, today);
+        tx.update(snap.ref, {
+          basePrice: activated.price,
+          currentPrice: listPrice(activated, 'retail'),
+          listPrices: activated.listPrices ? JSON.parse(JSON.stringify(activated.listPrices)) : null,
+          scheduledPrices: activated.scheduledPrices ? JSON.parse(JSON.stringify(activated.scheduledPrices)) : null,
+          priceHistory: activated.priceHistory || [],
+          lastPriceUpdate: serverTimestamp()
+        });
+      });
+    });
+  },
 
-        // Mutation must be careful with reference, best to clone or push
-        const newUsers = [...users, newUser]; 
-        this.saveTable('table_users', newUsers);
-        return true;
-    }
+  async deleteProduct(productId: string) {
+    await deleteDoc(doc(requireDb(), storePath("products"), productId));
+  },
 
-    check_login(username: string, password: string): User | null {
-        const users = this.getTable('table_users');
-        const user = users.find((u: any) => u.username === username && u.password === password);
-        
-        if (user) {
-            return {
-                id: user.id.toString(),
-                username: user.username,
-                role: (user.role as Role) || Role.EMPLOYEE
-            };
-        }
-        return null;
-    }
+  async saveCategory(category: Category) {
+    await setDoc(doc(requireDb(), storePath("categories"), category.id), JSON.parse(JSON.stringify(category)));
+  },
 
-    save_employee(user: User, password?: string) {
-        const users = [...this.getTable('table_users')];
-        const existingIndex = users.findIndex((u: any) => u.username === user.username);
+  async deleteCategory(categoryId: string) {
+    await deleteDoc(doc(requireDb(), storePath("categories"), categoryId));
+  },
 
-        if (existingIndex >= 0) {
-            users[existingIndex] = { ...users[existingIndex], ...user, password: password || users[existingIndex].password };
-        } else {
-            users.push({
-                id: users.length + 1,
-                username: user.username,
-                password: password || '1234',
-                role: Role.EMPLOYEE
-            });
-        }
-        this.saveTable('table_users', users);
-    }
+  async addSale(sale: Sale) {
+    const firestore = requireDb();
+    const shopSnap = await getDoc(doc(firestore, storePath("settings"), "shop_details"));
+    await setDoc(doc(firestore, storePath("sales"), sale.id), toCloudSaleRecord(sale, shopSnap.data()));
+  },
 
-    get_all_employees(): User[] {
-        const users = this.getTable('table_users');
-        return users
-            .filter((u: any) => u.role === Role.EMPLOYEE)
-            .map((u: any) => ({ id: u.id.toString(), username: u.username, role: Role.EMPLOYEE }));
-    }
-    
-    delete_user(userId: string) {
-        let users = this.getTable('table_users');
-        users = users.filter((u: any) => u.id.toString() !== userId);
-        this.saveTable('table_users', users);
-    }
+  // Stock is decremented from the server's current value inside a transaction,
+  // so two counters selling the same item can't overwrite each other
+  async commitSale({ sale, userId, series }: { sale: Sale; userId: string; series?: string }) {
+    const firestore = requireDb();
+    const shopSnap = await getDoc(doc(firestore, storePath("settings"), "shop_details"));
 
-    update_user_credentials(userId: string, newUsername?: string, newPassword?: string): boolean {
-        const users = [...this.getTable('table_users')];
-        const index = users.findIndex((u: any) => u.id.toString() === userId);
-        
-        if (index !== -1) {
-            if (newUsername) users[index].username = newUsername;
-            if (newPassword) users[index].password = newPassword;
-            this.saveTable('table_users', users);
-            return true;
-        }
-        return false;
+    // Transactions can't run queries, so resolve the customer doc up front
+    let customerRef = null;
+    if (sale.customerMobile) {
+      const customerQuery = query(collection(firestore, customersPath()), where("mobile", "==", sale.customerMobile), limit(1));
+      const customerSnap = await getDocs(customerQuery);
+      if (!customerSnap.empty) customerRef = customerSnap.docs[0].ref;
     }
 
-    recover_admin(newPassword: string): boolean {
-        const users = [...this.getTable('table_users')];
-        const adminIndex = users.findIndex((u: any) => u.role === 'ADMIN');
-        
-        if (adminIndex >= 0) {
-            users[adminIndex].username = 'admin'; 
-            users[adminIndex].password = newPassword;
-            this.saveTable('table_users', users);
-            return true;
-        } else {
-            return this.register_user('admin', newPassword);
-        }
-    }
+    await runTransaction(firestore, async (tx) => {
+      const saleRef = doc(firestore, storePath("sales"), sale.id);
+      // Already committed by an earlier attempt whose ack we never saw
+      if ((await tx.get(saleRef)).exists()) return;
 
-    // 3. FUNCTIONS FOR PRODUCTS
-    add_product(product: Product) {
-        const products = [...this.getTable('table_products')];
-        const existingIndex = products.findIndex((p: any) => p.id === product.id);
-
-        const row = {
-            id: product.id,
-            product_name: product.name,
-            price: product.price,
-            quantity: product.stock,
-            brand: product.brand,
-            expireDate: product.expireDate,
-            stockHistory: product.stockHistory
-        };
+      // Firestore requires every read before the first write
+      const quantities = Array.from(quantitiesByProduct(sale.items));
+      const productSnaps = await Promise.all(quantities.map(([productId]) => tx.get(doc(firestore, storePath("products"), productId))));
+      const customerSnap = customerRef ? await tx.get(customerRef) : null;
+      // Cloud high-water mark of the register's series, so a reinstalled counter can catch up
+      const fy = financialYear(sale.date);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
 
-        if (existingIndex >= 0) {
-            products[existingIndex] = row;
-        } else {
-            products.push(row);
-        }
+      // Re-run FEFO against the server's batches, which other registers may have drawn on
+      const current = new Map(productSnaps.filter(snap => snap.exists()).map(snap => [snap.id, fromCloudBatches(snap.id, snap.data())]));
+      const allocation = allocateItems(sale.items, current, sale.date.split('T')[0]);
+
+      tx.set(saleRef, toCloudSaleRecord({ ...sale, items: allocation.items }, shopSnap.data()));
+
+      productSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const logEntry = createStockLogEntry(data.stock || 0, -quantities[i][1], 'Sale', userId, sale.date);
+        const product = current.get(snap.id)!;
+        tx.update(snap.ref, {
+          stock: logEntry.newStock, stockHistory: [...(data.stockHistory || []), logEntry], ...batchFields(product, allocation.batches.get(snap.id)),
+          ...locationFields(product, withLocationChange(product, sale.location, -quantities[i][1]))
+        });
+      });
+
+      if (customerSnap?.exists()) {
+        const newBalance = walletBalanceAfterSale(customerSnap.data() as Customer, sale);
+        if (newBalance !== null) tx.update(customerSnap.ref, { walletBalance: newBalance });
+      }
+
+      claimNumber(tx, counterRef, counterSnap, series, fy, sale.invoiceNumber, saleRef);
+    });
+  },
 
-        this.saveTable('table_products', products);
+  async commitReturn({ creditNote, userId, series }: { creditNote: CreditNote; userId: string; series?: string }) {
+    const firestore = requireDb();
+
+    let customerRef = null;
+    if (creditNote.refundMethod === 'WALLET' && creditNote.customerMobile) {
+      const customerQuery = query(collection(firestore, customersPath()), where("mobile", "==", creditNote.customerMobile), limit(1));
+      const customerSnap = await getDocs(customerQuery);
+      if (!customerSnap.empty) customerRef = customerSnap.docs[0].ref;
     }
 
-    get_all_products(): Product[] {
-        const rows = this.getTable('table_products');
-        return rows.map((row: any) => ({
-            id: row.id,
-            name: row.product_name,
-            price: row.price,
-            stock: row.quantity,
-            brand: row.brand || 'Generic',
-            expireDate: row.expireDate || '',
-            stockHistory: row.stockHistory || []
+    await runTransaction(firestore, async (tx) => {
+      const noteRef = doc(firestore, storePath("credit_notes"), creditNote.id);
+      if ((await tx.get(noteRef)).exists()) return;
+
+      const saleSnap = await tx.get(doc(firestore, storePath("sales"), creditNote.saleId));
+      const quantities = Array.from(quantitiesByProduct(creditNote.items));
+      const productSnaps = await Promise.all(quantities.map(([productId]) => tx.get(doc(firestore, storePath("products"), productId))));
+      const customerSnap = customerRef ? await tx.get(customerRef) : null;
+      const fy = financialYear(creditNote.date);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
+      // Same rule as the local store: no customer, no wallet to refund into
+      // (and a permanent code, so the outbox parks this note instead of stalling behind it)
+      if (creditNote.refundMethod === 'WALLET' && !customerSnap?.exists()) {
+        throw Object.assign(new Error("Wallet refund needs a registered customer"), { code: 'invalid-argument' });
+      }
+
+      // Firestore rejects undefined fields; JSON round-trip drops them
+      tx.set(noteRef, { ...JSON.parse(JSON.stringify(creditNote)), createdAt: serverTimestamp() });
+
+      if (saleSnap.exists()) {
+        tx.update(saleSnap.ref, { returnedQuantities: tallyReturn(saleSnap.data().returnedQuantities, creditNote) });
+      }
+
+      const current = new Map(productSnaps.filter(snap => snap.exists()).map(snap => [snap.id, fromCloudBatches(snap.id, snap.data())]));
+      const restored = restoreItems(creditNote.items, current);
+      productSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const logEntry = createStockLogEntry(data.stock || 0, quantities[i][1], 'Return', userId, creditNote.date);
+        const product = current.get(snap.id)!;
+        tx.update(snap.ref, {
+          stock: logEntry.newStock, stockHistory: [...(data.stockHistory || []), logEntry], ...batchFields(product, restored.get(snap.id)),
+          ...locationFields(product, withLocationChange(product, saleSnap.data()?.location || undefined, quantities[i][1]))
+        });
+      });
+
+      if (customerSnap) {
+        tx.update(customerSnap.ref, { walletBalance: ((customerSnap.data() as Customer).walletBalance || 0) + creditNote.total });
+      }
+
+      claimNumber(tx, counterRef, counterSnap, series, fy, creditNote.creditNoteNumber, noteRef);
+    });
+  },
+
+  async saveCustomer(customer: Customer) {
+    await setDoc(doc(requireDb(), customersPath(), customer.id), { ...customer, priceList: customer.priceList || null }, { merge: true });
+  },
+
+  async deleteCustomer(customerId: string) {
+    await deleteDoc(doc(requireDb(), customersPath(), customerId));
+  },
+
+  async saveEmployee({ user, passwordHash, password }: { user: User; passwordHash?: string; password?: string }) {
+    // Entries queued before passwords were hashed still carry the plaintext
+    const hash = passwordHash || (password ? await hashPassword(password) : undefined);
+    const { password: _plaintext, ...fields } = user;
+    // Merged, so moving an employee to another branch keeps their password; a plaintext one left by older versions is removed
+    await setDoc(doc(requireDb(), "users", user.id), { ...fields, ...(hash ? { passwordHash: hash } : {}), password: deleteField(), createdAt: serverTimestamp() }, { merge: true });
+  },
+
+  async deleteEmployee(userId: string) {
+    await deleteDoc(doc(requireDb(), "users", userId));
+  },
+
+  async saveStore(store: Store) {
+    await setDoc(doc(requireDb(), "stores", store.id), { ...store, address: store.address || null });
+  },
+
+  async saveTenancy(settings: TenancySettings) {
+    await setDoc(doc(requireDb(), "organisation", "tenancy"), settings);
+  },
+
+  async saveShopDetails(details: ShopDetails) {
+    await setDoc(doc(requireDb(), storePath("settings"), "shop_details"), details);
+  },
+
+  async parkBill(parked: ParkedBill) {
+    // Firestore rejects undefined fields; JSON round-trip drops them
+    await setDoc(doc(requireDb(), storePath("parked_bills"), parked.id), JSON.parse(JSON.stringify(parked)));
+  },
+
+  async deleteParkedBill(id: string) {
+    await deleteDoc(doc(requireDb(), storePath("parked_bills"), id));
+  },
+
+  async saveRegisterSession(session: RegisterSession) {
+    // Firestore rejects undefined fields; JSON round-trip drops them
+    await setDoc(doc(requireDb(), storePath("register_sessions"), session.id), JSON.parse(JSON.stringify(session)));
+  },
+
+  async saveSupplier(supplier: Supplier) {
+    await setDoc(doc(requireDb(), storePath("suppliers"), supplier.id), JSON.parse(JSON.stringify(supplier)));
+  },
+
+  async deleteSupplier(supplierId: string) {
+    await deleteDoc(doc(requireDb(), storePath("suppliers"), supplierId));
+  },
+
+  async dismissNumberCollision(id: string) {
+    await deleteDoc(doc(requireDb(), storePath("number_collisions"), id));
+  },
+
+  async savePurchaseOrder({ order, series }: { order: PurchaseOrder; series?: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const orderRef = doc(firestore, storePath("purchase_orders"), order.id);
+      const orderSnap = await tx.get(orderRef);
+      const fy = financialYear(order.date);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
+
+      // Goods receipts keep the received tallies; don't roll them back with an older copy
+      const serverLines = orderSnap.exists() ? (orderSnap.data() as PurchaseOrder).lines : [];
+      const lines = order.lines.map(line => ({
+        ...line,
+        received: Math.max(line.received, serverLines.find(l => l.productId === line.productId)?.received || 0)
+      }));
+      const status = order.status === 'DRAFT' || order.status === 'CANCELLED' ? order.status : receivingStatus(lines);
+      tx.set(orderRef, JSON.parse(JSON.stringify({ ...order, lines, status })));
+
+      // Orders are saved again as they're edited; only the first save claims the number
+      if (orderSnap.data()?.poNumber !== order.poNumber) claimNumber(tx, counterRef, counterSnap, series, fy, order.poNumber, orderRef);
+    });
+  },
+
+  // Restock from the server's current stock, like commitSale
+  async commitGoodsReceipt({ receipt, userId, series }: { receipt: GoodsReceipt; userId: string; series?: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const receiptRef = doc(firestore, storePath("goods_receipts"), receipt.id);
+      if ((await tx.get(receiptRef)).exists()) return;
+
+      const orderSnap = await tx.get(doc(firestore, storePath("purchase_orders"), receipt.poId));
+      const productSnaps = await Promise.all(receipt.lines.map(line => tx.get(doc(firestore, storePath("products"), line.productId))));
+      const fy = financialYear(receipt.date);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
+
+      tx.set(receiptRef, { ...JSON.parse(JSON.stringify(receipt)), createdAt: serverTimestamp() });
+
+      if (orderSnap.exists()) {
+        const lines = (orderSnap.data() as PurchaseOrder).lines.map(line => ({
+          ...line,
+          received: line.received + receipt.lines.filter(l => l.productId === line.productId).reduce((sum, l) => sum + l.quantity, 0)
         }));
-    }
+        tx.update(orderSnap.ref, { lines, status: receivingStatus(lines) });
+      }
 
-    delete_product(productId: string) {
-        let products = this.getTable('table_products');
-        products = products.filter((p: any) => p.id !== productId);
-        this.saveTable('table_products', products);
-    }
+      productSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const line = receipt.lines[i];
+        const logEntry = createStockLogEntry(data.stock || 0, line.quantity, 'Restock', userId, receipt.date, receipt.grnNumber);
+        const received = receivedBatch(receipt, line);
+        const product = fromCloudBatches(snap.id, data);
+        tx.update(snap.ref, {
+          stock: logEntry.newStock, costPrice: line.costPrice, stockHistory: [...(data.stockHistory || []), logEntry],
+          ...batchFields(product, received ? receiveBatch(product.batches || [], received) : undefined)
+        });
+      });
 
-    get_all_sales(): Sale[] {
-        return this.getTable('table_sales');
-    }
+      claimNumber(tx, counterRef, counterSnap, series, fy, receipt.grnNumber, receiptRef);
+    });
+  },
 
-    add_sale(sale: Sale) {
-        const sales = [...this.getTable('table_sales')];
-        sales.push(sale);
-        this.saveTable('table_sales', sales);
-    }
+  // Counts in progress; posting goes through commitStocktake
+  async saveStocktake(stocktake: Stocktake) {
+    await setDoc(doc(requireDb(), storePath("stocktakes"), stocktake.id), JSON.parse(JSON.stringify(stocktake)));
+  },
 
-    get_all_customers(): Customer[] {
-        return this.getTable('table_customers');
-    }
+  // Variances against the server's current stock, like commitGoodsReceipt
+  async commitStocktake({ stocktake, userId, series }: { stocktake: Stocktake; userId: string; series?: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const stocktakeRef = doc(firestore, storePath("stocktakes"), stocktake.id);
+      const existing = await tx.get(stocktakeRef);
+      if (existing.exists() && existing.data().status === 'POSTED') return;
 
-    save_customer(customer: Customer) {
-        const customers = [...this.getTable('table_customers')];
-        const index = customers.findIndex((c: any) => c.id === customer.id);
-        if (index >= 0) customers[index] = customer;
-        else customers.push(customer);
-        this.saveTable('table_customers', customers);
-    }
-    
-    delete_customer(id: string) {
-        let customers = this.getTable('table_customers');
-        customers = customers.filter((c: any) => c.id !== id);
-        this.saveTable('table_customers', customers);
-    }
-    
-    // NEW: Get customer by mobile for POS lookup
-    get_customer_by_mobile(mobile: string): Customer | undefined {
-        const customers = this.getTable('table_customers');
-        return customers.find((c: any) => c.mobile === mobile);
-    }
+      const lines = postableLines(stocktake);
+      const productSnaps = await Promise.all(lines.map(line => tx.get(doc(firestore, storePath("products"), line.productId))));
+      const fy = financialYear(stocktake.postedAt!);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
 
-    get_shop_details(): ShopDetails | null {
-        return this.shopDetailsCache;
-    }
+      tx.set(stocktakeRef, JSON.parse(JSON.stringify(stocktake)));
 
-    save_shop_details(details: ShopDetails) {
-        this.shopDetailsCache = details;
-        localStorage.setItem('table_shop_details', JSON.stringify(details));
-    }
+      productSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const product = { ...fromCloudBatches(snap.id, data), stockHistory: data.stockHistory || [] };
+        const updated = applyStocktakeLine(product, lines[i], userId, stocktake.postedAt!, stocktake.stocktakeNumber);
+        tx.update(snap.ref, {
+          stock: updated.stock, stockHistory: updated.stockHistory,
+          ...(updated.batches !== product.batches ? batchFields(product, updated.batches) : {})
+        });
+      });
 
-    export_database(): string {
-        const data = {
-            users: this.getTable('table_users'),
-            products: this.getTable('table_products'),
-            sales: this.getTable('table_sales'),
-            customers: this.getTable('table_customers'),
-            shop_details: this.shopDetailsCache
-        };
-        return JSON.stringify(data, null, 2);
-    }
+      claimNumber(tx, counterRef, counterSnap, series, fy, stocktake.stocktakeNumber, stocktakeRef);
+    });
+  },
 
-    import_database(jsonData: string): boolean {
-        try {
-            const data = JSON.parse(jsonData);
-            if (data.users) this.saveTable('table_users', data.users);
-            if (data.products) this.saveTable('table_products', data.products);
-            if (data.sales) this.saveTable('table_sales', data.sales);
-            if (data.customers) this.saveTable('table_customers', data.customers);
-            if (data.shop_details) this.save_shop_details(data.shop_details);
-            return true;
-        } catch (e) {
-            console.error("Import failed", e);
-            return false;
-        }
-    }
-}
+  // Against the server's current stock and batches, like commitStocktake. The write-off
+  // is recorded too, so a replay of one that already reached the server is skipped.
+  async commitWriteOff(writeOff: WriteOff) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const writeOffRef = doc(firestore, storePath("write_offs"), writeOff.id);
+      if ((await tx.get(writeOffRef)).exists()) return;
+
+      const productSnaps = await Promise.all(writeOffProductIds(writeOff).map(productId => tx.get(doc(firestore, storePath("products"), productId))));
+
+      tx.set(writeOffRef, { ...JSON.parse(JSON.stringify(writeOff)), createdAt: serverTimestamp() });
+
+      productSnaps.forEach(snap => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const product = { ...fromCloudBatches(snap.id, data), stockHistory: data.stockHistory || [] };
+        const updated = applyWriteOff(product, writeOff);
+        tx.update(snap.ref, {
+          stock: updated.stock, stockHistory: updated.stockHistory,
+          ...(updated.batches !== product.batches ? batchFields(product, updated.batches) : {})
+        });
+      });
+    });
+  },
+
+  // Transfers live in one collection for the whole organisation, so both branches see them
+  async saveTransfer(transfer: StockTransfer) {
+    await setDoc(doc(requireDb(), "transfers", transfer.id), JSON.parse(JSON.stringify(transfer)));
+  },
+
+  // Takes the lines out of the source store's stock; lots are drawn again from the server's batches
+  async dispatchTransfer({ transfer, userId, series }: { transfer: StockTransfer; userId: string; series?: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const transferRef = doc(firestore, "transfers", transfer.id);
+      const existing = await tx.get(transferRef);
+      if (existing.exists() && existing.data().status !== 'DRAFT') return;
+
+      const productSnaps = await Promise.all(transfer.lines.map(line => tx.get(doc(firestore, storeCollection("products", transfer.fromStoreId), line.productId))));
+      const fy = financialYear(transfer.dispatchedAt!);
+      const counterRef = series ? doc(firestore, storePath("counters"), counterKey(series, fy)) : null;
+      const counterSnap = counterRef ? await tx.get(counterRef) : null;
+
+      const lines = transfer.lines.map((line, i) => {
+        const snap = productSnaps[i];
+        if (!snap.exists()) return line;
+        const data = snap.data();
+        const product = { ...fromCloudBatches(snap.id, data), stockHistory: data.stockHistory || [] };
+        const dispatched = dispatchLine(product, line, transfer, userId);
+        tx.update(snap.ref, {
+          stock: dispatched.product.stock, stockHistory: dispatched.product.stockHistory,
+          ...batchFields(product, dispatched.product.batches), ...locationFields(product, dispatched.product)
+        });
+        return dispatched.line;
+      });
+      tx.set(transferRef, JSON.parse(JSON.stringify({ ...transfer, lines })));
+
+      claimNumber(tx, counterRef, counterSnap, series, fy, transfer.transferNumber, transferRef);
+    });
+  },
+
+  // Puts the lines into the destination store, with the lots the cloud recorded on dispatch
+  async receiveTransfer({ transfer, userId }: { transfer: StockTransfer; userId: string }) {
+    const firestore = requireDb();
+    await runTransaction(firestore, async (tx) => {
+      const transferRef = doc(firestore, "transfers", transfer.id);
+      const existing = await tx.get(transferRef);
+      if (existing.exists() && existing.data().status === 'RECEIVED') return;
+      const lines: StockTransfer['lines'] = existing.exists() ? existing.data().lines : transfer.lines;
+
+      const productSnaps = await Promise.all(lines.map(line => tx.get(doc(firestore, storeCollection("products", transfer.toStoreId), line.productId))));
 
-const sqlite = new SQLiteSimulator();
+      productSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const product = { ...fromCloudBatches(snap.id, data), stockHistory: data.stockHistory || [] };
+        const updated = receiveLine(product, lines[i], transfer, userId);
+        tx.update(snap.ref, {
+          stock: updated.stock, stockHistory: updated.stockHistory,
+          ...batchFields(product, updated.batches), ...locationFields(product, updated)
+        });
+      });
+      tx.set(transferRef, JSON.parse(JSON.stringify({ ...transfer, lines })));
+    });
+  },
 
-// --- Helper for Invoice Number ---
-const generateInvoiceNumber = () => {
-  const now = new Date();
-  const dateStr = now.toISOString().split('T')[0].replace(/-/g, '');
-  const timeStr = now.getTime().toString().slice(-6);
-  return `RG-INV-${dateStr}-${timeStr}`;
+  // Supplier payments; the receipt's lines never change after it is committed
+  async saveGoodsReceipt(receipt: GoodsReceipt) {
+    await updateDoc(doc(requireDb(), storePath("goods_receipts"), receipt.id), { payments: JSON.parse(JSON.stringify(receipt.payments)) });
+  },
+};
+
+const syncQueue = new SyncQueue(localDb, cloudWriters);
+if (isCloud) syncQueue.start();
+
+// Writes still sitting in the outbox are newer than what the cloud returned
+const overlayPending = async <T extends { id: string }>(rows: T[], saveOp: OutboxOp, deleteOp?: OutboxOp): Promise<T[]> => {
+  const entries = await syncQueue.pendingEntries(deleteOp ? [saveOp, deleteOp] : [saveOp]);
+  const byId = new Map(rows.map(row => [row.id, row]));
+  entries.forEach(entry => {
+    if (entry.op === saveOp) byId.set(entry.payload.id, entry.payload);
+    else byId.delete(entry.payload);
+  });
+  return Array.from(byId.values());
 };
 
 const database = {
@@ -318,7 +726,7 @@ const database = {
         
         if (userDoc.exists()) {
           const userData = userDoc.data();
-          return { id: fbUser.uid, username: userData.username || userData.displayName || fbUser.email, role: userData.role as Role };
+          return { id: fbUser.uid, username: userData.username || userData.displayName || fbUser.email, role: userData.role as Role, storeId: userData.storeId || undefined, roleId: userData.roleId || undefined };
         } else {
             return { id: fbUser.uid, username: fbUser.email?.split('@')[0] || 'User', role: Role.EMPLOYEE };
         }
@@ -327,7 +735,7 @@ const database = {
         return null;
       }
     } else {
-      return sqlite.check_login(usernameOrEmail, password);
+      return localDb.check_login(usernameOrEmail, password);
     }
   },
 
@@ -347,13 +755,19 @@ const database = {
         return false;
       }
     } else {
-      return sqlite.register_user(user.username, password);
+      return localDb.register_user(user.username, password);
     }
   },
   
+  // Local Mode only: decides between the first-run "create admin" screen and the login portals
+  async hasLocalAdmin(): Promise<boolean> {
+      if (isCloud) return true;
+      return localDb.has_admin();
+  },
+
   async recoverLocalAdmin(newPassword: string): Promise<boolean> {
       if (isCloud) return false;
-      return sqlite.recover_admin(newPassword);
+      return localDb.recover_admin(newPassword);
   },
 
   async updateCurrentUserCredentials(userId: string, newUsername?: string, newPassword?: string): Promise<boolean> {
@@ -374,7 +788,7 @@ const database = {
              return false;
          }
       } else {
-          return sqlite.update_user_credentials(userId, newUsername, newPassword);
+          return localDb.update_user_credentials(userId, newUsername, newPassword);
       }
   },
   
@@ -382,226 +796,720 @@ const database = {
       if (isCloud && auth) await signOut(auth);
   },
 
+  // The app calls this as the user signs in or out, before anything can write on their behalf,
+  // and again with the role once the shop's roles are known or change
+  setSession(user: User | null, role: RoleDefinition | null) {
+      signedIn = !!user;
+      sessionRole = user ? role : null;
+  },
+
   // --- Products ---
   async getProducts(): Promise<Product[]> {
-    if (isCloud) {
-      if (!db) { console.warn("DB not ready"); return []; }
-      // Optimizing Firestore Read
-      const querySnapshot = await getDocs(collection(db, "products"));
-      return querySnapshot.docs.map(docData => {
-         const data = docData.data();
-         return { 
-             id: docData.id, 
-             name: data.name,
-             brand: data.brand,
-             price: data.currentPrice || data.basePrice || 0,
-             expireDate: data.expireDate || '', 
-             stock: data.stock || 0,
-             stockHistory: data.stockHistory || []
-         } as Product;
-      });
-    } else {
-      return sqlite.get_all_products();
+    if (isCloud && db) {
+      try {
+        // Optimizing Firestore Read
+        const querySnapshot = await getDocs(collection(db, storePath("products")));
+        const products = querySnapshot.docs.map(docData => {
+           const data = docData.data();
+           return { 
+               id: docData.id, 
+               name: data.name,
+               brand: data.brand,
+               price: data.basePrice ?? data.currentPrice ?? 0,
+               unit: data.unit || undefined,
+               pluCode: data.pluCode || undefined,
+               barcodes: data.barcodes?.length ? data.barcodes : undefined,
+               categoryId: data.categoryId || undefined,
+               parentId: data.parentId || undefined,
+               variant: data.variant || undefined,
+               expireDate: data.expireDate || '', 
+               stock: data.stock || 0,
+               stockHistory: data.stockHistory || [],
+               hsnCode: data.hsnCode || undefined,
+               gstRate: data.gstRate ?? undefined,
+               costPrice: data.costPrice ?? undefined,
+               batches: data.batches || undefined,
+               reorderLevel: data.reorderLevel ?? undefined,
+               reorderQuantity: data.reorderQuantity ?? undefined,
+               preferredSupplierId: data.preferredSupplierId || undefined,
+               shelf: data.shelf || undefined,
+               locationStock: data.locationStock || undefined,
+               listPrices: data.listPrices || undefined,
+               scheduledPrices: data.scheduledPrices?.length ? data.scheduledPrices : undefined,
+               priceHistory: data.priceHistory?.length ? data.priceHistory : undefined
+           } as Product;
+        });
+        const merged = await overlayPending(products, 'saveProduct', 'deleteProduct');
+        // Keep the offline copy current so commitSale and offline reads see the same stock
+        localDb.replace_products(merged).catch(err => console.error("Failed to cache products", err));
+        return merged;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of products", error);
+      }
     }
+    return localDb.get_all_products();
   },
 
+  // Every write lands in IndexedDB first; in Cloud Mode it is also queued for Firestore
   async saveProduct(product: Product): Promise<void> {
+    await checkProductWrite(product);
+    const before = isCloud ? await localDb.get_product(product.id) : undefined;
+    await localDb.add_product(product);
     if (isCloud) {
-      if (!db) return;
-      const docRef = doc(db, "products", product.id);
-      const productData = {
-          name: product.name,
-          brand: product.brand,
-          basePrice: product.price, 
-          currentPrice: product.price,
-          stock: product.stock,
-          expireDate: product.expireDate,
-          stockHistory: product.stockHistory || [],
-          qrCodeData: `rgstore://product/${product.id}`,
-          lastPriceUpdate: serverTimestamp(),
-      };
-      await setDoc(docRef, productData, { merge: true }); 
-    } else {
-      sqlite.add_product(product);
+      await syncQueue.enqueue('saveProduct', product);
+      // Stock travels separately, as a change rather than a figure
+      const movement = before && stockMovement(before, product);
+      if (movement) await syncQueue.enqueue('adjustStock', movement);
     }
   },
   
+  // Scheduled prices are the shop's own decision, already checked when they were set,
+  // so whoever has the app open when they fall due applies them
+  async activateScheduledPrices(productIds: string[], today: string): Promise<Product[]> {
+    const products = await localDb.activate_prices(productIds, today);
+    if (isCloud && products.length > 0) await syncQueue.enqueue('activatePrices', { productIds: products.map(p => p.id), today });
+    return products;
+  },
+
   async deleteProduct(productId: string): Promise<void> {
-      if (isCloud) {
-          if (!db) return;
-          await deleteDoc(doc(db, "products", productId));
-      } else {
-          sqlite.delete_product(productId);
+    requirePermission('products');
+    await localDb.delete_product(productId);
+    if (isCloud) await syncQueue.enqueue('deleteProduct', productId);
+  },
+
+  // --- Categories ---
+  async getCategories(): Promise<Category[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(collection(db, storePath("categories")));
+        const categories = await overlayPending(snapshot.docs.map(d => d.data() as Category), 'saveCategory', 'deleteCategory');
+        localDb.replace_categories(categories).catch(err => console.error("Failed to cache categories", err));
+        return categories.sort((a, b) => a.name.localeCompare(b.name));
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of categories", error);
       }
+    }
+    const categories = await localDb.get_categories();
+    return categories.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async saveCategory(category: Category): Promise<void> {
+    requirePermission('products');
+    await localDb.save_category(category);
+    if (isCloud) await syncQueue.enqueue('saveCategory', category);
+  },
+
+  async deleteCategory(categoryId: string): Promise<void> {
+    requirePermission('products');
+    await localDb.delete_category(categoryId);
+    if (isCloud) await syncQueue.enqueue('deleteCategory', categoryId);
   },
 
   // --- Sales ---
   async getSales(limitCount?: number): Promise<Sale[]> {
-    if (isCloud) {
-      if (!db) return [];
-      let q;
-      // Optimize Cloud: If limit provided (e.g. for dashboard recent activity), use it.
-      // Note: We normally need ALL sales for total revenue stats. 
-      // For now, we order by date to ensure consistency.
-      if (limitCount) {
-         q = query(collection(db, "sales"), orderBy("saleDate", "desc"), limit(limitCount));
-      } else {
-         q = query(collection(db, "sales"), orderBy("saleDate", "desc"));
+    if (isCloud && db) {
+      try {
+        // Optimize Cloud: If limit provided (e.g. for dashboard recent activity), use it.
+        // Note: We normally need ALL sales for total revenue stats. 
+        // For now, we order by date to ensure consistency.
+        const q = limitCount
+          ? query(collection(db, storePath("sales")), orderBy("saleDate", "desc"), limit(limitCount))
+          : query(collection(db, storePath("sales")), orderBy("saleDate", "desc"));
+        
+        const querySnapshot = await getDocs(q);
+        const sales = querySnapshot.docs.map(d => fromCloudSale(d.id, d.data()));
+        const merged = await overlayPending(sales, 'addSale');
+        // Committed sales are queued as { sale, userId }
+        const pendingCommits = await syncQueue.pendingEntries(['commitSale']);
+        pendingCommits.forEach(entry => {
+          if (!merged.some(s => s.id === entry.payload.sale.id)) merged.push(entry.payload.sale);
+        });
+        const sorted = merged.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        // Returns are committed against the offline copy, so it needs every sale, not just this counter's.
+        // A limited read only refreshes the sales it returned.
+        (limitCount ? localDb.put_sales(sorted) : localDb.replace_sales(sorted)).catch(err => console.error("Failed to cache sales", err));
+        return sorted;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of sales", error);
       }
-      
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(docData => {
-          const data = docData.data();
-          return {
-              id: docData.id,
-              date: data.saleDate instanceof Timestamp ? data.saleDate.toDate().toISOString() : data.saleDate,
-              items: data.items.map((i: any) => ({ id: i.productId, name: i.name, brand: i.brand, price: i.unitPrice, quantity: i.quantity })),
-              total: data.totalAmount,
-              employeeId: data.generatedByEmployeeId,
-              customerName: data.customerName,
-              customerMobile: data.customerMobile,
-              walletRedeemed: data.walletRedeemed || 0,
-              walletEarned: data.walletEarned || 0,
-          } as Sale;
-      });
-    } else {
-      const sales = sqlite.get_all_sales();
-      return sales.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     }
+    return localDb.get_all_sales();
   },
 
   async addSale(sale: Sale): Promise<void> {
-    if (isCloud) {
-      if (!db) return;
-      const invoiceNumber = generateInvoiceNumber();
-      const shopDetails = await this.getShopDetails();
-      const saleRecord = {
-        invoiceNumber: invoiceNumber,
-        saleDate: serverTimestamp(),
-        customerName: sale.customerName || "Walk-in Customer",
-        customerMobile: sale.customerMobile || null,
-        items: sale.items.map(item => ({
-            productId: item.id, name: item.name, brand: item.brand, unitPrice: item.price, quantity: item.quantity, totalItemPrice: item.price * item.quantity
-        })),
-        totalAmount: sale.total,
-        walletRedeemed: sale.walletRedeemed || 0,
-        walletEarned: sale.walletEarned || 0,
-        generatedByEmployeeId: sale.employeeId,
-        shopDetails: shopDetails || { name: "RG Shop" },
-        thankYouMessage: "THANK YOU ❣️",
-        createdAt: serverTimestamp()
-      };
-      await setDoc(doc(db, "sales", sale.id), saleRecord);
-    } else {
-      sqlite.add_sale(sale);
+    await localDb.add_sale(sale);
+    if (isCloud) await syncQueue.enqueue('addSale', sale);
+  },
+
+  // Creates the sale, decrements stock (with 'Sale' log entries) and adjusts the
+  // member wallet as one unit. Locally that is a single IndexedDB transaction;
+  // in Cloud Mode the same unit is replayed as a Firestore transaction.
+  // The sale is numbered from `series` (this register's invoice series) as part of the same unit.
+  async commitSale(sale: Sale, userId: string, series: string): Promise<SaleCommitResult> {
+    requirePermission('pos');
+    const overCap = discountCapError(sessionRole, sale);
+    if (overCap) throw new Error(overCap);
+    const result = await localDb.commit_sale(sale, userId, series);
+    if (isCloud) await syncQueue.enqueue('commitSale', { sale: result.sale, userId, series });
+    return result;
+  },
+
+  // Cloud Mode: bring this register's counter up to the highest number the cloud has seen,
+  // e.g. after the browser data was cleared or the register moved to a new machine.
+  async syncInvoiceCounter(series: string): Promise<void> {
+    if (!isCloud) return;
+    try {
+      const key = counterKey(series, financialYear(new Date()));
+      const snap = await getDoc(doc(requireDb(), storePath("counters"), key));
+      if (snap.exists()) await localDb.raise_invoice_counter(key, snap.data().last || 0);
+    } catch (error) {
+      console.warn("Could not check invoice counter in cloud", error);
+    }
+  },
+
+  // --- Returns / Credit Notes ---
+  async getCreditNotes(): Promise<CreditNote[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(query(collection(db, storePath("credit_notes")), orderBy("date", "desc")));
+        const notes = snapshot.docs.map(d => {
+          const { createdAt, ...note } = d.data();
+          return note as CreditNote;
+        });
+        const pending = await syncQueue.pendingEntries(['commitReturn']);
+        pending.forEach(entry => {
+          if (!notes.some(n => n.id === entry.payload.creditNote.id)) notes.unshift(entry.payload.creditNote);
+        });
+        localDb.replace_credit_notes(notes).catch(err => console.error("Failed to cache credit notes", err));
+        return notes;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of credit notes", error);
+      }
     }
+    return localDb.get_all_credit_notes();
+  },
+
+  // Restock, refund and credit note number as one unit, like commitSale
+  async commitReturn(creditNote: CreditNote, userId: string, series: string): Promise<ReturnCommitResult> {
+    requirePermission('returns');
+    const result = await localDb.commit_return(creditNote, userId, series);
+    if (isCloud) await syncQueue.enqueue('commitReturn', { creditNote: result.creditNote, userId, series });
+    return result;
   },
 
   // --- Customers ---
   async getCustomers(): Promise<Customer[]> {
-    if (isCloud) {
-      if (!db) return [];
-      const querySnapshot = await getDocs(collection(db, "customers"));
-      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer));
-    } else {
-      return sqlite.get_all_customers();
+    if (isCloud && db) {
+      try {
+        const querySnapshot = await getDocs(collection(db, customersPath()));
+        const customers = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer));
+        const merged = await overlayPending(customers, 'saveCustomer', 'deleteCustomer');
+        localDb.replace_customers(merged).catch(err => console.error("Failed to cache customers", err));
+        return merged;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of customers", error);
+      }
     }
+    return localDb.get_all_customers();
   },
   
   // Quick lookup for POS
   async getCustomerByMobile(mobile: string): Promise<Customer | null> {
-      if (isCloud) {
-          if (!db) return null;
-          const q = query(collection(db, "customers"), where("mobile", "==", mobile), limit(1));
-          const querySnapshot = await getDocs(q);
-          if (!querySnapshot.empty) {
-              const doc = querySnapshot.docs[0];
-              return { id: doc.id, ...doc.data() } as Customer;
+      if (isCloud && db) {
+          try {
+              const pending = await overlayPending<Customer>([], 'saveCustomer');
+              const pendingMatch = pending.find(c => c.mobile === mobile);
+              if (pendingMatch) return pendingMatch;
+
+              const q = query(collection(db, customersPath()), where("mobile", "==", mobile), limit(1));
+              const querySnapshot = await getDocs(q);
+              if (!querySnapshot.empty) {
+                  const doc = querySnapshot.docs[0];
+                  return { id: doc.id, ...doc.data() } as Customer;
+              }
+              return null;
+          } catch (error) {
+              console.warn("Cloud unreachable, using offline copy for customer lookup", error);
           }
-          return null;
-      } else {
-          return sqlite.get_customer_by_mobile(mobile) || null;
       }
+      return (await localDb.get_customer_by_mobile(mobile)) || null;
   },
 
   async saveCustomer(customer: Customer): Promise<void> {
-    if (isCloud) {
-        if (!db) return;
-        await setDoc(doc(db, "customers", customer.id), customer, { merge: true });
-    } else {
-        sqlite.save_customer(customer);
-    }
+    await localDb.save_customer(customer);
+    if (isCloud) await syncQueue.enqueue('saveCustomer', customer);
   },
   
   async deleteCustomer(customerId: string): Promise<void> {
-      if (isCloud) {
-          if (!db) return;
-          await deleteDoc(doc(db, "customers", customerId));
-      } else {
-          sqlite.delete_customer(customerId);
-      }
+    requirePermission('deleteCustomers');
+    await localDb.delete_customer(customerId);
+    if (isCloud) await syncQueue.enqueue('deleteCustomer', customerId);
   },
 
   // --- Employees ---
+  // Cloud employees are Firestore user docs, not local login rows, so they only go through the outbox
   async getEmployees(): Promise<User[]> {
     if (isCloud) {
        if (!db) return [];
-       const q = query(collection(db, "users"), where("role", "==", Role.EMPLOYEE));
-       const querySnapshot = await getDocs(q);
-       return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as User));
+       try {
+           const q = query(collection(db, "users"), where("role", "==", Role.EMPLOYEE));
+           const querySnapshot = await getDocs(q);
+           // Employees are bound to their branch; each store only sees its own staff
+           return querySnapshot.docs
+               .map(doc => {
+                   const { password, passwordHash, ...data } = doc.data();
+                   return { id: doc.id, ...data } as User;
+               })
+               .filter(user => storeOfUser(user) === storeId);
+       } catch (error) {
+           console.warn("Cloud unreachable, employee list unavailable", error);
+           return [];
+       }
     } else {
-      return sqlite.get_all_employees();
+      return localDb.get_all_employees();
     }
   },
 
   async saveEmployee(user: User, password?: string): Promise<void> {
+      requirePermission('employees');
       if (isCloud) {
-          if (!db) return;
-          await setDoc(doc(db, "users", user.id), { ...user, password, createdAt: serverTimestamp() }); 
+          // Hashed before it is queued, so the plaintext never reaches the outbox or the users doc
+          const { password: _plaintext, ...fields } = user;
+          const passwordHash = password ? await hashPassword(password) : undefined;
+          await syncQueue.enqueue('saveEmployee', { user: { ...fields, storeId: user.storeId || storeId, roleId: user.roleId || null }, passwordHash });
       } else {
-          sqlite.save_employee(user, password);
+          await localDb.save_employee(user, password);
       }
   },
   
   async deleteEmployee(userId: string): Promise<void> {
-      if(isCloud) {
-          if (!db) return;
-          await deleteDoc(doc(db, "users", userId));
+      requirePermission('employees');
+      if (isCloud) {
+          await syncQueue.enqueue('deleteEmployee', userId);
       } else {
-          sqlite.delete_user(userId);
+          await localDb.delete_user(userId);
       }
   },
 
   // --- Shop Details ---
   async getShopDetails(): Promise<ShopDetails | null> {
-    if (isCloud) {
-        if (!db) return null;
-        const docRef = doc(db, "settings", "shop_details");
-        const docSnap = await getDoc(docRef);
-        return docSnap.exists() ? docSnap.data() as ShopDetails : null;
-    } else {
-        return sqlite.get_shop_details();
+    if (isCloud && db) {
+        try {
+            const pending = await syncQueue.pendingEntries(['saveShopDetails']);
+            if (pending.length > 0) return pending[pending.length - 1].payload;
+
+            const docSnap = await getDoc(doc(db, storePath("settings"), "shop_details"));
+            return docSnap.exists() ? docSnap.data() as ShopDetails : null;
+        } catch (error) {
+            console.warn("Cloud unreachable, using offline copy of shop details", error);
+        }
     }
+    return localDb.get_shop_details();
   },
 
   async saveShopDetails(details: ShopDetails): Promise<void> {
-    if (isCloud) {
-        if (!db) return;
-        await setDoc(doc(db, "settings", "shop_details"), details);
-    } else {
-        sqlite.save_shop_details(details);
+    // Markdown rules and roles have their own permissions; everything else is a shop setting
+    if (signedIn) shopDetailsPermissions(await database.getShopDetails(), details).forEach(p => requirePermission(p));
+    await localDb.save_shop_details(details);
+    if (isCloud) await syncQueue.enqueue('saveShopDetails', details);
+  },
+
+  // --- Parked Bills ---
+  // In Cloud Mode parked bills are shared, so any counter can pick one up
+  async getParkedBills(): Promise<ParkedBill[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(collection(db, storePath("parked_bills")));
+        const parked = await overlayPending(snapshot.docs.map(d => d.data() as ParkedBill), 'parkBill', 'deleteParkedBill');
+        localDb.replace_parked_bills(parked).catch(err => console.error("Failed to cache parked bills", err));
+        return parked.sort((a, b) => a.parkedAt.localeCompare(b.parkedAt));
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of parked bills", error);
+      }
+    }
+    const parked = await localDb.get_parked_bills();
+    return parked.sort((a, b) => a.parkedAt.localeCompare(b.parkedAt));
+  },
+
+  async parkBill(parked: ParkedBill): Promise<void> {
+    await localDb.save_parked_bill(parked);
+    if (isCloud) await syncQueue.enqueue('parkBill', parked);
+  },
+
+  async deleteParkedBill(id: string): Promise<void> {
+    await localDb.delete_parked_bill(id);
+    if (isCloud) await syncQueue.enqueue('deleteParkedBill', id);
+  },
+
+  // Takes a parked bill off hold. Online in Cloud Mode the claim is a transaction, so two
+  // counters can't both resume the same bill; returns null if someone else got it first.
+  async resumeParkedBill(id: string): Promise<ParkedBill | null> {
+    if (isCloud && db && navigator.onLine) {
+      try {
+        const firestore = db;
+        const claimed = await runTransaction(firestore, async (tx) => {
+          const ref = doc(firestore, storePath("parked_bills"), id);
+          const snap = await tx.get(ref);
+          if (!snap.exists()) return null;
+          tx.delete(ref);
+          return snap.data() as ParkedBill;
+        });
+        await localDb.delete_parked_bill(id);
+        if (claimed) return claimed;
+        // Parked on this counter while offline and not synced yet
+        const pending = await syncQueue.pendingEntries(['parkBill']);
+        const local = pending.reverse().find(e => e.payload.id === id)?.payload as ParkedBill | undefined;
+        if (local) await syncQueue.enqueue('deleteParkedBill', id);
+        return local || null;
+      } catch (error) {
+        console.warn("Could not claim parked bill in cloud, resuming offline copy", error);
+      }
+    }
+    const parked = await localDb.get_parked_bill(id);
+    if (!parked) return null;
+    await this.deleteParkedBill(id);
+    return parked;
+  },
+
+  // --- Register Sessions ---
+  async getRegisterSessions(): Promise<RegisterSession[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(query(collection(db, storePath("register_sessions")), orderBy("openedAt", "desc")));
+        const sessions = await overlayPending(snapshot.docs.map(d => d.data() as RegisterSession), 'saveRegisterSession');
+        localDb.replace_register_sessions(sessions).catch(err => console.error("Failed to cache register sessions", err));
+        return sessions.sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of register sessions", error);
+      }
     }
+    return localDb.get_register_sessions();
+  },
+
+  // The employee's shift still in progress, if any (on whichever register it was opened)
+  async getOpenRegisterSession(userId: string): Promise<RegisterSession | null> {
+    if (isCloud && db) {
+      try {
+        const q = query(collection(db, storePath("register_sessions")), where("userId", "==", userId), where("status", "==", "OPEN"));
+        const snapshot = await getDocs(q);
+        const sessions = await overlayPending(snapshot.docs.map(d => d.data() as RegisterSession), 'saveRegisterSession');
+        return sessions.find(s => s.userId === userId && s.status === 'OPEN') || null;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of register session", error);
+      }
+    }
+    return (await localDb.get_open_register_session(userId)) || null;
+  },
+
+  async saveRegisterSession(session: RegisterSession): Promise<void> {
+    await localDb.save_register_session(session);
+    if (isCloud) await syncQueue.enqueue('saveRegisterSession', session);
+  },
+
+  // --- Purchasing ---
+  async getSuppliers(): Promise<Supplier[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(collection(db, storePath("suppliers")));
+        const suppliers = await overlayPending(snapshot.docs.map(d => d.data() as Supplier), 'saveSupplier', 'deleteSupplier');
+        localDb.replace_suppliers(suppliers).catch(err => console.error("Failed to cache suppliers", err));
+        return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of suppliers", error);
+      }
+    }
+    const suppliers = await localDb.get_suppliers();
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async saveSupplier(supplier: Supplier): Promise<void> {
+    requirePermission('purchasing');
+    await localDb.save_supplier(supplier);
+    if (isCloud) await syncQueue.enqueue('saveSupplier', supplier);
+  },
+
+  async deleteSupplier(supplierId: string): Promise<void> {
+    requirePermission('purchasing');
+    await localDb.delete_supplier(supplierId);
+    if (isCloud) await syncQueue.enqueue('deleteSupplier', supplierId);
+  },
+
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(query(collection(db, storePath("purchase_orders")), orderBy("date", "desc")));
+        const byId = new Map(snapshot.docs.map(d => [d.id, d.data() as PurchaseOrder]));
+        // Orders saved or received on this device but not yet in the cloud
+        const pending = await syncQueue.pendingEntries(['savePurchaseOrder', 'commitGoodsReceipt']);
+        pending.forEach(entry => byId.set(entry.payload.order.id, entry.payload.order));
+        const orders = Array.from(byId.values()).sort((a, b) => b.date.localeCompare(a.date));
+        localDb.replace_purchase_orders(orders).catch(err => console.error("Failed to cache purchase orders", err));
+        return orders;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of purchase orders", error);
+      }
+    }
+    return localDb.get_purchase_orders();
+  },
+
+  // Issues the PO number on first save
+  async savePurchaseOrder(order: PurchaseOrder, series: string): Promise<PurchaseOrder> {
+    requirePermission('purchasing');
+    const saved = await localDb.save_purchase_order(order, series);
+    if (isCloud) await syncQueue.enqueue('savePurchaseOrder', { order: saved, series });
+    return saved;
+  },
+
+  async getGoodsReceipts(): Promise<GoodsReceipt[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(query(collection(db, storePath("goods_receipts")), orderBy("date", "desc")));
+        const byId = new Map(snapshot.docs.map(d => {
+          const { createdAt, ...receipt } = d.data();
+          return [d.id, receipt as GoodsReceipt];
+        }));
+        const pending = await syncQueue.pendingEntries(['commitGoodsReceipt', 'saveGoodsReceipt']);
+        pending.forEach(entry => {
+          const receipt: GoodsReceipt = entry.op === 'commitGoodsReceipt' ? entry.payload.receipt : entry.payload;
+          byId.set(receipt.id, receipt);
+        });
+        const receipts = Array.from(byId.values()).sort((a, b) => b.date.localeCompare(a.date));
+        localDb.replace_goods_receipts(receipts).catch(err => console.error("Failed to cache goods receipts", err));
+        return receipts;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of goods receipts", error);
+      }
+    }
+    return localDb.get_goods_receipts();
+  },
+
+  // Receipt, restock, cost update and PO tallies as one unit, like commitSale
+  async commitGoodsReceipt(receipt: GoodsReceipt, userId: string, series: string): Promise<GoodsReceiptCommitResult> {
+    requirePermission('receiveStock');
+    const result = await localDb.commit_goods_receipt(receipt, userId, series);
+    if (isCloud) await syncQueue.enqueue('commitGoodsReceipt', { receipt: result.receipt, order: result.order, userId, series });
+    return result;
+  },
+
+  async recordSupplierPayment(receipt: GoodsReceipt, payment: SupplierPayment): Promise<GoodsReceipt> {
+    requirePermission('purchasing');
+    const updated = { ...receipt, payments: [...receipt.payments, payment] };
+    await localDb.save_goods_receipt(updated);
+    if (isCloud) await syncQueue.enqueue('saveGoodsReceipt', updated);
+    return updated;
+  },
+
+  // --- Stocktakes ---
+  async getStocktakes(): Promise<Stocktake[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(query(collection(db, storePath("stocktakes")), orderBy("startedAt", "desc")));
+        const byId = new Map(snapshot.docs.map(d => [d.id, d.data() as Stocktake]));
+        const pending = await syncQueue.pendingEntries(['saveStocktake', 'commitStocktake']);
+        pending.forEach(entry => {
+          const stocktake: Stocktake = entry.op === 'commitStocktake' ? entry.payload.stocktake : entry.payload;
+          byId.set(stocktake.id, stocktake);
+        });
+        const stocktakes = Array.from(byId.values()).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+        localDb.replace_stocktakes(stocktakes).catch(err => console.error("Failed to cache stocktakes", err));
+        return stocktakes;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of stocktakes", error);
+      }
+    }
+    return localDb.get_stocktakes();
+  },
+
+  async saveStocktake(stocktake: Stocktake): Promise<void> {
+    requirePermission('stock');
+    await localDb.save_stocktake(stocktake);
+    if (isCloud) await syncQueue.enqueue('saveStocktake', stocktake);
+  },
+
+  // Stock adjustments and the closed session as one unit, like commitGoodsReceipt
+  async commitStocktake(stocktake: Stocktake, userId: string, series: string): Promise<StocktakeCommitResult> {
+    requirePermission('stock');
+    const result = await localDb.commit_stocktake(stocktake, userId, series);
+    if (isCloud) await syncQueue.enqueue('commitStocktake', { stocktake: result.stocktake, userId, series });
+    return result;
+  },
+
+  // Expired lots off the books as one unit, like commitStocktake
+  async commitWriteOff(writeOff: WriteOff): Promise<Product[]> {
+    requirePermission('stock');
+    const products = await localDb.commit_write_off(writeOff);
+    if (isCloud) await syncQueue.enqueue('commitWriteOff', writeOff);
+    return products;
+  },
+
+  // --- Stock Transfers ---
+  // This store's side of the organisation's transfers: sent from here or addressed here
+  async getTransfers(): Promise<StockTransfer[]> {
+    if (isCloud && db) {
+      try {
+        const snapshot = await getDocs(collection(db, "transfers"));
+        const byId = new Map((await overlayPending(snapshot.docs.map(d => d.data() as StockTransfer), 'saveTransfer')).map(t => [t.id, t]));
+        const pending = await syncQueue.pendingEntries(['dispatchTransfer', 'receiveTransfer']);
+        pending.forEach(entry => byId.set(entry.payload.transfer.id, entry.payload.transfer));
+        const transfers = Array.from(byId.values())
+          .filter(t => t.fromStoreId === storeId || t.toStoreId === storeId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        localDb.replace_transfers(transfers).catch(err => console.error("Failed to cache transfers", err));
+        return transfers;
+      } catch (error) {
+        console.warn("Cloud unreachable, using offline copy of transfers", error);
+      }
+    }
+    return localDb.get_transfers();
+  },
+
+  async saveTransfer(transfer: StockTransfer): Promise<void> {
+    requirePermission('stock');
+    await localDb.save_transfer(transfer);
+    if (isCloud) await syncQueue.enqueue('saveTransfer', transfer);
+  },
+
+  // 'Transfer Out' from the source location and the transfer in transit, as one unit
+  async dispatchTransfer(transfer: StockTransfer, userId: string, series: string): Promise<TransferCommitResult> {
+    requirePermission('stock');
+    const result = await localDb.dispatch_transfer(transfer, userId, series);
+    if (isCloud) await syncQueue.enqueue('dispatchTransfer', { transfer: result.transfer, userId, series });
+    return result;
+  },
+
+  // The paired 'Transfer In' at the destination
+  async receiveTransfer(transfer: StockTransfer, userId: string): Promise<TransferCommitResult> {
+    requirePermission('receiveStock');
+    const result = await localDb.receive_transfer(transfer, userId);
+    if (isCloud) await syncQueue.enqueue('receiveTransfer', { transfer: result.transfer, userId });
+    return result;
+  },
+
+  // --- Stores (Cloud Mode) ---
+  // The store this device works in; always the default store in Local Mode
+  storeId,
+
+  async getStores(): Promise<Store[]> {
+    if (!isCloud || !db) return [];
+    let stores: Store[] = [];
+    try {
+      const snapshot = await getDocs(collection(db, "stores"));
+      stores = snapshot.docs.map(d => {
+        const { name, address } = d.data();
+        return { id: d.id, name, address: address || undefined };
+      });
+    } catch (error) {
+      console.warn("Cloud unreachable, store list unavailable", error);
+    }
+    stores = await overlayPending(stores, 'saveStore');
+    // The original single-store data is the default store, whether or not it was ever named
+    if (!stores.some(s => s.id === DEFAULT_STORE_ID)) stores.unshift({ id: DEFAULT_STORE_ID, name: 'Main Store' });
+    return stores.sort((a, b) => a.id === DEFAULT_STORE_ID ? -1 : b.id === DEFAULT_STORE_ID ? 1 : a.name.localeCompare(b.name));
+  },
+
+  async saveStore(store: Store): Promise<void> {
+    requirePermission('settings');
+    if (isCloud) await syncQueue.enqueue('saveStore', store);
+  },
+
+  // Takes effect on the next load: the caller reloads the app so every path and the offline copy follow
+  switchStore(id: string) {
+    saveStoreId(id);
+  },
+
+  // Refreshes the cached organisation settings; call before loading customers
+  async getTenancy(): Promise<TenancySettings> {
+    if (isCloud && db) {
+      try {
+        const pending = await syncQueue.pendingEntries(['saveTenancy']);
+        const snap = pending.length > 0 ? null : await getDoc(doc(db, "organisation", "tenancy"));
+        tenancy = { ...tenancy, ...(pending.length > 0 ? pending[pending.length - 1].payload : snap?.data()) };
+        cacheTenancy(tenancy);
+      } catch (error) {
+        console.warn("Cloud unreachable, using cached organisation settings", error);
+      }
+    }
+    return tenancy;
+  },
+
+  async saveTenancy(settings: TenancySettings): Promise<void> {
+    requirePermission('settings');
+    if (!isCloud) return;
+    tenancy = settings;
+    cacheTenancy(settings);
+    await syncQueue.enqueue('saveTenancy', settings);
+  },
+
+  // Consolidated analytics: every branch's sales and credit notes, straight from the cloud.
+  // A branch that can't be read comes back empty with an error rather than failing the rest.
+  async getBranchSales(): Promise<BranchSales[]> {
+    if (!isCloud || !db) return [];
+    const stores = await database.getStores();
+    return Promise.all(stores.map(async store => {
+      try {
+        const [salesSnap, notesSnap] = await Promise.all([
+          getDocs(collection(db, storeCollection("sales", store.id))),
+          getDocs(collection(db, storeCollection("credit_notes", store.id)))
+        ]);
+        return {
+          store,
+          sales: salesSnap.docs.map(d => fromCloudSale(d.id, d.data())),
+          creditNotes: notesSnap.docs.map(d => {
+            const { createdAt, ...note } = d.data();
+            return note as CreditNote;
+          })
+        };
+      } catch (error: any) {
+        console.warn(`Cloud unreachable, no figures for branch ${store.name}`, error);
+        return { store, sales: [], creditNotes: [], error: error?.message || String(error) };
+      }
+    }));
+  },
+
+  // Documents saved with a number another device had already issued (see claimNumber)
+  async getNumberCollisions(): Promise<NumberCollision[]> {
+    if (!isCloud || !db) return [];
+    const snapshot = await getDocs(collection(db, storePath("number_collisions")));
+    const pending = await syncQueue.pendingEntries(['dismissNumberCollision']);
+    const dismissed = new Set(pending.map(e => e.payload as string));
+    return snapshot.docs
+      .filter(d => !dismissed.has(d.id))
+      .map(d => ({ id: d.id, ...d.data() } as NumberCollision))
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  },
+
+  // Once the duplicate has been dealt with (e.g. reissued under a new number)
+  async dismissNumberCollision(id: string): Promise<void> {
+    requirePermission('settings');
+    if (isCloud) await syncQueue.enqueue('dismissNumberCollision', id);
+  },
+
+  // --- Sync Status ---
+  // Number of writes still waiting for the cloud; always zero in Local Mode
+  subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+      if (!isCloud) {
+          listener({ pending: 0, failed: 0 });
+          return () => {};
+      }
+      return syncQueue.subscribe(listener);
+  },
+
+  // Replays writes the cloud refused, after whatever refused them has been fixed
+  async retryFailedSync(): Promise<void> {
+    if (isCloud) await syncQueue.retryFailed();
   },
 
   // --- Backup / Restore ---
   async backupData(): Promise<string> {
+      requirePermission('settings');
       if(isCloud) return "Backup not available for Cloud mode directly.";
-      return sqlite.export_database();
+      return localDb.export_database();
   },
 
   async restoreData(jsonData: string): Promise<boolean> {
+      requirePermission('settings');
       if(isCloud) return false;
-      return sqlite.import_database(jsonData);
+      return localDb.import_database(jsonData);
   }
 };
 
@@ -0,0 +1,105 @@
+// services/expiry.ts
+// Stock close to or past its expiry: the lots at risk, the markdown the POS applies
+// to them, and the write-off that takes expired lots off the books.
+
+import { MarkdownRule, Product } from "../types";
+import { round2 } from "./gst";
+import { createStockLogEntry } from "./ledger";
+import { fefoOrder, isExpired, todayDate, withBatches } from "./batches";
+
+// One dated quantity of a product: a batch, or the whole stock of a product without batches
+export interface ExpiryLot {
+    productId: string;
+    name: string;
+    brand: string;
+    batchId?: string;
+    batchNumber?: string;
+    expiryDate: string;
+    quantity: number;
+    unitValue: number; // Cost where known, otherwise the selling price
+}
+
+// Expired lots taken off the books together (see database.commitWriteOff)
+export interface WriteOff {
+    id: string;
+    date: string; // ISO string
+    userId: string;
+    lots: ExpiryLot[];
+}
+
+export const daysToExpiry = (expiryDate: string, today = todayDate()): number =>
+    Math.round((new Date(expiryDate).getTime() - new Date(today).getTime()) / 86400000);
+
+// Stock beyond the batches' total has no date of its own once batches are tracked
+export const expiryLots = (product: Product): ExpiryLot[] => {
+    const base = { productId: product.id, name: product.name, brand: product.brand };
+    if (product.batches?.length) {
+        return fefoOrder(product.batches).filter(batch => batch.quantity > 0).map(batch => ({
+            ...base,
+            batchId: batch.id,
+            batchNumber: batch.batchNumber,
+            expiryDate: batch.expiryDate,
+            quantity: batch.quantity,
+            unitValue: batch.costPrice ?? product.costPrice ?? product.price
+        }));
+    }
+    if (!product.expireDate || product.stock <= 0) return [];
+    return [{ ...base, expiryDate: product.expireDate, quantity: product.stock, unitValue: product.costPrice ?? product.price }];
+};
+
+export const lotValue = (lot: ExpiryLot): number => round2(lot.quantity * lot.unitValue);
+
+// In-date lots that expire within `days`, soonest first
+export const expiringWithin = (products: Product[], days: number, today = todayDate()): ExpiryLot[] =>
+    products.flatMap(expiryLots)
+        .filter(lot => !isExpired(lot, today) && daysToExpiry(lot.expiryDate, today) <= days)
+        .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+
+export const expiredLots = (products: Product[], today = todayDate()): ExpiryLot[] =>
+    products.flatMap(expiryLots)
+        .filter(lot => isExpired(lot, today))
+        .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+
+// Expiry of the units the POS would sell next (FEFO), if they are still in date
+export const nextSellingExpiry = (product: Product, today = todayDate()): string | undefined => {
+    if (product.batches?.length) {
+        return fefoOrder(product.batches).find(batch => batch.quantity > 0 && !isExpired(batch, today))?.expiryDate;
+    }
+    return product.expireDate && product.expireDate >= today ? product.expireDate : undefined;
+};
+
+// The deepest markdown among the rules that cover this many days left
+export const ruleForDaysLeft = (rules: MarkdownRule[], daysLeft: number): MarkdownRule | undefined =>
+    rules.filter(r => daysLeft <= r.maxDaysToExpiry).sort((a, b) => b.percent - a.percent)[0];
+
+// Markdown for the units the POS would sell next
+export const markdownFor = (product: Product, rules: MarkdownRule[] = [], today = todayDate()): { rule: MarkdownRule; daysLeft: number } | null => {
+    const expiry = nextSellingExpiry(product, today);
+    if (!expiry || rules.length === 0) return null;
+    const daysLeft = daysToExpiry(expiry, today);
+    const rule = ruleForDaysLeft(rules, daysLeft);
+    return rule ? { rule, daysLeft } : null;
+};
+
+// Takes an expired lot off the shelf with an "Expired" stock entry
+export const writeOffLot = (product: Product, lot: ExpiryLot, userId: string, date?: string): Product => {
+    const quantity = Math.min(lot.quantity, product.stock);
+    const logEntry = createStockLogEntry(product.stock, -quantity, 'Expired', userId, date, lot.batchNumber ? `Batch ${lot.batchNumber}` : undefined);
+    const remaining = lot.batchId ? (product.batches || []).filter(batch => batch.id !== lot.batchId) : product.batches;
+    return {
+        ...(remaining ? withBatches(product, remaining) : product),
+        stock: logEntry.newStock,
+        stockHistory: [...(product.stockHistory || []), logEntry]
+    };
+};
+
+// The write-off's lots for one product, applied to the product as it is now: a batch is
+// written off at what is left of it, and one that has since gone is skipped
+export const applyWriteOff = (product: Product, writeOff: WriteOff): Product =>
+    writeOff.lots.filter(lot => lot.productId === product.id).reduce((current, lot) => {
+        if (!lot.batchId) return writeOffLot(current, lot, writeOff.userId, writeOff.date);
+        const batch = current.batches?.find(b => b.id === lot.batchId);
+        return batch ? writeOffLot(current, { ...lot, quantity: batch.quantity }, writeOff.userId, writeOff.date) : current;
+    }, product);
+
+export const writeOffProductIds = (writeOff: WriteOff): string[] => Array.from(new Set(writeOff.lots.map(lot => lot.productId)));
@@ -115,7 +115,7 @@ export const analyzeImageForBilling = async (base64Image: string, products: Prod
           const ai = getGenAI();
           
           // Optimization: Minify product list (remove prices, dates, history) to reduce input token size significantly
-          const productContext = products.map(p => ({ i: p.id, n: p.name }));
+          const productContext = products.map(p => ({ i: p.id, n: p.name, ...(p.unit && p.unit !== 'pcs' ? { u: p.unit } : {}) }));
 
           const prompt = `
             Act as a POS Voice Parser. Map input to Intent.
@@ -123,7 +123,7 @@ export const analyzeImageForBilling = async (base64Image: string, products: Prod
             Inventory: ${JSON.stringify(productContext)}
             
             Intents:
-            1. ADD: User wants to add item. Return { "type": "ADD_ITEM", "productId": "id", "quantity": number }. Handle weights (e.g. 500g of 1kg packet = 0.5).
+            1. ADD: User wants to add item. Return { "type": "ADD_ITEM", "productId": "id", "quantity": number }. Items with "u" are sold loose by that unit: give the quantity in it (e.g. "half kilo" of a kg item = 0.5, "250 grams" = 0.25). Items without "u" are counted packs.
             2. CHECKOUT: User wants to finish/pay. Return { "type": "CHECKOUT" }.
             3. CLEAR: Clear bill. Return { "type": "CLEAR_BILL" }.
             
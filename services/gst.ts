@@ -0,0 +1,153 @@
+// services/gst.ts
+// Per-line GST: every product carries its own HSN code and slab, tax is worked out
+// line by line (prices may be tax-inclusive or exclusive) and split into
+// CGST + SGST for an intra-state supply or IGST for an inter-state one.
+
+import { Bill, BillItem, Product, ShopDetails } from "../types";
+
+export const GST_SLABS = [0, 5, 12, 18, 28];
+
+// GST state codes (first two digits of a GSTIN), used for place of supply
+export const GST_STATES: { code: string; name: string }[] = [
+    { code: '01', name: 'Jammu & Kashmir' }, { code: '02', name: 'Himachal Pradesh' },
+    { code: '03', name: 'Punjab' }, { code: '04', name: 'Chandigarh' },
+    { code: '05', name: 'Uttarakhand' }, { code: '06', name: 'Haryana' },
+    { code: '07', name: 'Delhi' }, { code: '08', name: 'Rajasthan' },
+    { code: '09', name: 'Uttar Pradesh' }, { code: '10', name: 'Bihar' },
+    { code: '11', name: 'Sikkim' }, { code: '12', name: 'Arunachal Pradesh' },
+    { code: '13', name: 'Nagaland' }, { code: '14', name: 'Manipur' },
+    { code: '15', name: 'Mizoram' }, { code: '16', name: 'Tripura' },
+    { code: '17', name: 'Meghalaya' }, { code: '18', name: 'Assam' },
+    { code: '19', name: 'West Bengal' }, { code: '20', name: 'Jharkhand' },
+    { code: '21', name: 'Odisha' }, { code: '22', name: 'Chhattisgarh' },
+    { code: '23', name: 'Madhya Pradesh' }, { code: '24', name: 'Gujarat' },
+    { code: '26', name: 'Dadra & Nagar Haveli and Daman & Diu' }, { code: '27', name: 'Maharashtra' },
+    { code: '29', name: 'Karnataka' }, { code: '30', name: 'Goa' },
+    { code: '31', name: 'Lakshadweep' }, { code: '32', name: 'Kerala' },
+    { code: '33', name: 'Tamil Nadu' }, { code: '34', name: 'Puducherry' },
+    { code: '35', name: 'Andaman & Nicobar Islands' }, { code: '36', name: 'Telangana' },
+    { code: '37', name: 'Andhra Pradesh' }, { code: '38', name: 'Ladakh' },
+];
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The shop's own state comes from its GSTIN; without one every sale is treated as intra-state
+export const shopStateCode = (shopDetails: ShopDetails): string | undefined =>
+    shopDetails.gstNumber && /^\d{2}/.test(shopDetails.gstNumber) ? shopDetails.gstNumber.slice(0, 2) : undefined;
+
+export const isInterState = (shopDetails: ShopDetails, placeOfSupply?: string): boolean => {
+    const home = shopStateCode(shopDetails);
+    return !!(home && placeOfSupply && placeOfSupply !== home);
+};
+
+// Products without their own slab fall back to the shop-wide default rate
+export const gstRateFor = (product: Product, shopDetails: ShopDetails): number =>
+    product.gstRate ?? shopDetails.defaultGstRate ?? 0;
+
+// Line value after its own discount, before any bill-level discount
+export const lineNetAmount = (item: BillItem): number => {
+    const gross = item.price * item.quantity;
+    if (!item.discount) return gross;
+    return gross - (item.discount.type === 'fixed' ? item.discount.value : gross * (item.discount.value / 100));
+};
+
+export const lineTax = (item: BillItem): number => (item.cgst || 0) + (item.sgst || 0) + (item.igst || 0);
+
+// Recomputes subtotal, tax and total, and stamps each line with its taxable value and tax split.
+// A bill discount lowers the taxable value, so it is shared out across lines in proportion to their value.
+export const applyGst = (bill: Bill, shopDetails: ShopDetails): Bill => {
+    const inclusive = !!shopDetails.pricesIncludeGst;
+    const interState = isInterState(shopDetails, bill.placeOfSupply);
+
+    const subtotal = bill.items.reduce((sum, item) => sum + lineNetAmount(item), 0);
+    let billDiscount = 0;
+    if (bill.billDiscount) {
+        billDiscount = bill.billDiscount.type === 'fixed'
+            ? bill.billDiscount.value
+            : subtotal * (bill.billDiscount.value / 100);
+    }
+    const discountFactor = subtotal > 0 ? Math.max(0, subtotal - billDiscount) / subtotal : 0;
+
+    const items = bill.items.map(item => {
+        const rate = item.gstRate ?? shopDetails.defaultGstRate ?? 0;
+        const net = lineNetAmount(item) * discountFactor;
+        const taxableValue = round2(inclusive ? net / (1 + rate / 100) : net);
+        const tax = round2(inclusive ? net - taxableValue : taxableValue * rate / 100);
+        const cgst = interState ? 0 : round2(tax / 2);
+        return {
+            ...item,
+            gstRate: rate,
+            taxableValue,
+            cgst,
+            sgst: interState ? 0 : round2(tax - cgst),
+            igst: interState ? tax : 0
+        };
+    });
+
+    const taxableTotal = items.reduce((sum, i) => sum + (i.taxableValue || 0), 0);
+    const taxAmount = round2(items.reduce((sum, i) => sum + lineTax(i), 0));
+    const total = round2(taxableTotal + taxAmount);
+
+    const gross = bill.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const discountAmount = round2(gross - subtotal + Math.min(billDiscount, subtotal));
+
+    return { ...bill, items, subtotal, taxAmount, discountAmount, total: Math.max(0, total) };
+};
+
+export interface TaxTotals {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+}
+
+export const taxTotals = (items: BillItem[]): TaxTotals => items.reduce((t, i) => ({
+    taxableValue: round2(t.taxableValue + (i.taxableValue || 0)),
+    cgst: round2(t.cgst + (i.cgst || 0)),
+    sgst: round2(t.sgst + (i.sgst || 0)),
+    igst: round2(t.igst + (i.igst || 0))
+}), { taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+
+export interface HsnSummaryRow extends TaxTotals {
+    hsnCode: string;
+    gstRate: number;
+    quantity: number;
+}
+
+// One row per HSN code and rate, as printed on a tax invoice (and reported in GSTR-1 Table 12)
+export const hsnSummary = (items: BillItem[]): HsnSummaryRow[] => {
+    const rows = new Map<string, HsnSummaryRow>();
+    items.forEach(item => {
+        const hsnCode = item.hsnCode || 'NA';
+        const gstRate = item.gstRate || 0;
+        const key = `${hsnCode}|${gstRate}`;
+        const row = rows.get(key) || { hsnCode, gstRate, quantity: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 };
+        row.quantity += item.quantity;
+        row.taxableValue = round2(row.taxableValue + (item.taxableValue || 0));
+        row.cgst = round2(row.cgst + (item.cgst || 0));
+        row.sgst = round2(row.sgst + (item.sgst || 0));
+        row.igst = round2(row.igst + (item.igst || 0));
+        rows.set(key, row);
+    });
+    return Array.from(rows.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate);
+};
+
+// What the customer actually paid for a line: taxable value plus tax, or the
+// discounted line value for sales saved before per-line GST
+export const linePaidAmount = (item: BillItem): number =>
+    item.taxableValue !== undefined ? round2(item.taxableValue + lineTax(item)) : round2(lineNetAmount(item));
+
+// A part of a sold line (e.g. 2 of 5 returned), with its value and tax scaled to match
+export const prorateLine = (item: BillItem, quantity: number): BillItem => {
+    const share = item.quantity > 0 ? quantity / item.quantity : 0;
+    const scale = (value?: number) => value === undefined ? undefined : round2(value * share);
+    return {
+        ...item,
+        quantity,
+        discount: item.discount?.type === 'fixed' ? { type: 'fixed', value: round2(item.discount.value * share) } : item.discount,
+        taxableValue: scale(item.taxableValue),
+        cgst: scale(item.cgst),
+        sgst: scale(item.sgst),
+        igst: scale(item.igst)
+    };
+};
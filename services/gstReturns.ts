@@ -0,0 +1,353 @@
+// services/gstReturns.ts
+// Monthly GSTR-1 / GSTR-3B figures built from Sale and CreditNote records. The JSON
+// follows the layout the GST offline tool imports; the same rows back the CSV exports.
+
+import { Sale, BillItem, CreditNote, ShopDetails } from "../types";
+import { round2, shopStateCode } from "./gst";
+import { GST_UQC, roundQuantity, unitOf } from "./units";
+
+// Since Aug 2024 an inter-state B2C invoice above this value is reported invoice-wise (B2CL)
+const B2CL_THRESHOLD = 100000;
+
+interface RateLine {
+    rt: number;
+    txval: number;
+    iamt: number;
+    camt: number;
+    samt: number;
+    csamt: number;
+}
+
+export interface GstInvoice {
+    inum: string;
+    idt: string; // dd-mm-yyyy
+    val: number;
+    pos: string;
+    itms: { num: number; itm_det: RateLine }[];
+}
+
+export interface B2bEntry {
+    ctin: string;
+    inv: (GstInvoice & { rchrg: 'N'; inv_typ: 'R' })[];
+}
+
+export interface B2clEntry {
+    pos: string;
+    inv: Omit<GstInvoice, 'pos'>[];
+}
+
+export interface B2csEntry extends RateLine {
+    sply_ty: 'INTRA' | 'INTER';
+    pos: string;
+    typ: 'OE';
+}
+
+export interface NoteEntry {
+    ntty: 'C';
+    nt_num: string;
+    nt_dt: string; // dd-mm-yyyy
+    val: number;
+    pos: string;
+    itms: { num: number; itm_det: RateLine }[];
+}
+
+export interface CdnrEntry {
+    ctin: string;
+    nt: (NoteEntry & { rchrg: 'N'; inv_typ: 'R' })[];
+}
+
+export interface CdnurEntry extends NoteEntry {
+    typ: 'B2CL';
+}
+
+export interface HsnEntry {
+    num: number;
+    hsn_sc: string;
+    desc: string;
+    uqc: string;
+    qty: number;
+    rt: number;
+    txval: number;
+    iamt: number;
+    camt: number;
+    samt: number;
+    csamt: number;
+}
+
+export interface Gstr1 {
+    gstin: string;
+    fp: string; // MMYYYY
+    b2b: B2bEntry[];
+    b2cl: B2clEntry[];
+    b2cs: B2csEntry[];
+    cdnr: CdnrEntry[];
+    cdnur: CdnurEntry[];
+    hsn: { data: HsnEntry[] };
+}
+
+export interface Gstr3b {
+    gstin: string;
+    ret_period: string; // MMYYYY
+    sup_details: {
+        osup_det: Omit<RateLine, 'rt'>;
+        osup_zero: Omit<RateLine, 'rt'>;
+        osup_nil_exmp: { txval: number };
+        isup_rev: Omit<RateLine, 'rt'>;
+        osup_nongst: { txval: number };
+    };
+    inter_sup: {
+        unreg_details: { pos: string; txval: number; iamt: number }[];
+        comp_details: { pos: string; txval: number; iamt: number }[];
+        uin_details: { pos: string; txval: number; iamt: number }[];
+    };
+}
+
+export interface GstReturnReport {
+    period: string; // YYYY-MM
+    invoiceCount: number;
+    creditNoteCount: number;
+    // Sales saved before per-line GST existed: counted at full value with no tax split
+    untaxedLegacyCount: number;
+    gstr1: Gstr1;
+    gstr3b: Gstr3b;
+}
+
+const emptyTax = () => ({ txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+
+// sign -1 takes a credited line back out
+const addTax = <T extends Omit<RateLine, 'rt'>>(target: T, item: BillItem, sign: 1 | -1 = 1): T => {
+    target.txval = round2(target.txval + sign * taxableValueOf(item));
+    target.iamt = round2(target.iamt + sign * (item.igst || 0));
+    target.camt = round2(target.camt + sign * (item.cgst || 0));
+    target.samt = round2(target.samt + sign * (item.sgst || 0));
+    return target;
+};
+
+const taxableValueOf = (item: BillItem) => item.taxableValue ?? item.price * item.quantity;
+
+const formatDate = (iso: string) => {
+    const d = new Date(iso);
+    return `${String(d.getDate()).padStart(2, '0')}-${String(d.getMonth() + 1).padStart(2, '0')}-${d.getFullYear()}`;
+};
+
+// 'YYYY-MM' → 'MMYYYY', the return period format used by the GST portal
+export const returnPeriod = (period: string) => {
+    const [year, month] = period.split('-');
+    return `${month}${year}`;
+};
+
+const inPeriod = (date: string, period: string) => {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}` === period;
+};
+
+export const salesInPeriod = (sales: Sale[], period: string) => sales.filter(sale => inPeriod(sale.date, period));
+
+// One itms entry per tax rate on the invoice
+const rateLines = (items: BillItem[]) => {
+    const byRate = new Map<number, RateLine>();
+    items.forEach(item => {
+        const rt = item.gstRate || 0;
+        byRate.set(rt, addTax(byRate.get(rt) || { rt, ...emptyTax() }, item));
+    });
+    return Array.from(byRate.values()).map((itm_det, i) => ({ num: i + 1, itm_det }));
+};
+
+// Credit notes are reported in the month they're issued. Notes to registered buyers go in
+// CDNR and notes against B2C Large invoices in CDNUR; the rest are netted out of B2C Small.
+// Every note comes off the HSN summary and the GSTR-3B outward supplies.
+export const buildGstReturns = (sales: Sale[], creditNotes: CreditNote[], period: string, shopDetails: ShopDetails): GstReturnReport => {
+    const gstin = shopDetails.gstNumber || '';
+    const homeState = shopStateCode(shopDetails) || '';
+    const monthSales = salesInPeriod(sales, period);
+    const monthNotes = creditNotes.filter(note => inPeriod(note.date, period));
+
+    const b2b = new Map<string, B2bEntry>();
+    const b2cl = new Map<string, B2clEntry>();
+    const b2cs = new Map<string, B2csEntry>();
+    const cdnr = new Map<string, CdnrEntry>();
+    const cdnur: CdnurEntry[] = [];
+    const hsn = new Map<string, HsnEntry>();
+    const osup_det = emptyTax();
+    const osup_nil_exmp = { txval: 0 };
+    const unreg = new Map<string, { pos: string; txval: number; iamt: number }>();
+    let untaxedLegacyCount = 0;
+
+    const addB2cs = (item: BillItem, pos: string, interState: boolean, sign: 1 | -1) => {
+        const rt = item.gstRate || 0;
+        const key = `${pos}|${rt}`;
+        const row = b2cs.get(key) || { sply_ty: interState ? 'INTER' : 'INTRA', pos, typ: 'OE', rt, ...emptyTax() };
+        b2cs.set(key, addTax(row, item, sign));
+    };
+
+    // HSN summary and GSTR-3B, which take every line whichever GSTR-1 table it went to
+    const addSupply = (item: BillItem, pos: string, interState: boolean, registered: boolean, sign: 1 | -1) => {
+        const rt = item.gstRate || 0;
+        const hsnCode = item.hsnCode || 'NA';
+        const unit = unitOf(item);
+        // Weighed goods are reported by weight, so an HSN splits by unit as well as rate
+        const key = `${hsnCode}|${rt}|${unit}`;
+        const row = hsn.get(key) || { num: 0, hsn_sc: hsnCode, desc: item.name, uqc: GST_UQC[unit], qty: 0, rt, ...emptyTax() };
+        row.qty = roundQuantity(row.qty + sign * item.quantity, unit);
+        hsn.set(key, addTax(row, item, sign));
+
+        if (rt === 0) {
+            osup_nil_exmp.txval = round2(osup_nil_exmp.txval + sign * taxableValueOf(item));
+        } else {
+            addTax(osup_det, item, sign);
+            if (interState && !registered) {
+                const u = unreg.get(pos) || { pos, txval: 0, iamt: 0 };
+                u.txval = round2(u.txval + sign * taxableValueOf(item));
+                u.iamt = round2(u.iamt + sign * (item.igst || 0));
+                unreg.set(pos, u);
+            }
+        }
+    };
+
+    monthSales.forEach(sale => {
+        if (sale.items.some(item => item.taxableValue === undefined)) untaxedLegacyCount++;
+
+        const pos = sale.placeOfSupply || homeState;
+        const interState = !!homeState && pos !== homeState;
+        const invoice: GstInvoice = {
+            inum: sale.invoiceNumber || sale.id,
+            idt: formatDate(sale.date),
+            val: round2(sale.total),
+            pos,
+            itms: rateLines(sale.items)
+        };
+
+        if (sale.customerGstin) {
+            const entry = b2b.get(sale.customerGstin) || { ctin: sale.customerGstin, inv: [] };
+            entry.inv.push({ ...invoice, rchrg: 'N', inv_typ: 'R' });
+            b2b.set(sale.customerGstin, entry);
+        } else if (interState && sale.total > B2CL_THRESHOLD) {
+            const entry = b2cl.get(pos) || { pos, inv: [] };
+            const { pos: _pos, ...rest } = invoice;
+            entry.inv.push(rest);
+            b2cl.set(pos, entry);
+        } else {
+            sale.items.forEach(item => addB2cs(item, pos, interState, 1));
+        }
+
+        sale.items.forEach(item => addSupply(item, pos, interState, !!sale.customerGstin, 1));
+    });
+
+    monthNotes.forEach(note => {
+        const pos = note.placeOfSupply || homeState;
+        const interState = !!homeState && pos !== homeState;
+        const original = sales.find(sale => sale.id === note.saleId);
+        const entry: NoteEntry = {
+            ntty: 'C',
+            nt_num: note.creditNoteNumber || note.id,
+            nt_dt: formatDate(note.date),
+            val: round2(note.total),
+            pos,
+            itms: rateLines(note.items)
+        };
+
+        if (note.customerGstin) {
+            const row = cdnr.get(note.customerGstin) || { ctin: note.customerGstin, nt: [] };
+            row.nt.push({ ...entry, rchrg: 'N', inv_typ: 'R' });
+            cdnr.set(note.customerGstin, row);
+        } else if (interState && original && original.total > B2CL_THRESHOLD) {
+            cdnur.push({ ...entry, typ: 'B2CL' });
+        } else {
+            note.items.forEach(item => addB2cs(item, pos, interState, -1));
+        }
+
+        note.items.forEach(item => addSupply(item, pos, interState, !!note.customerGstin, -1));
+    });
+
+    const fp = returnPeriod(period);
+    return {
+        period,
+        invoiceCount: monthSales.length,
+        creditNoteCount: monthNotes.length,
+        untaxedLegacyCount,
+        gstr1: {
+            gstin,
+            fp,
+            b2b: Array.from(b2b.values()),
+            b2cl: Array.from(b2cl.values()),
+            b2cs: Array.from(b2cs.values()),
+            cdnr: Array.from(cdnr.values()),
+            cdnur,
+            hsn: { data: Array.from(hsn.values()).map((row, i) => ({ ...row, num: i + 1 })) }
+        },
+        gstr3b: {
+            gstin,
+            ret_period: fp,
+            sup_details: {
+                osup_det,
+                osup_zero: emptyTax(),
+                osup_nil_exmp,
+                isup_rev: emptyTax(),
+                osup_nongst: { txval: 0 }
+            },
+            inter_sup: {
+                unreg_details: Array.from(unreg.values()),
+                comp_details: [],
+                uin_details: []
+            }
+        }
+    };
+};
+
+// --- CSV ---
+const escapeCsvField = (field: any): string => {
+    const stringField = String(field ?? '');
+    if (stringField.includes(',') || stringField.includes('"') || stringField.includes('\n')) {
+        return `"${stringField.replace(/"/g, '""')}"`;
+    }
+    return stringField;
+};
+
+const toCsv = (headers: string[], rows: any[][]) =>
+    [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+export const gstr1Csv = (report: GstReturnReport): Record<'b2b' | 'b2cl' | 'b2cs' | 'cdnr' | 'cdnur' | 'hsn', string> => ({
+    b2b: toCsv(
+        ['GSTIN of Recipient', 'Invoice Number', 'Invoice Date', 'Invoice Value', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST'],
+        report.gstr1.b2b.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(({ itm_det: t }) =>
+            [entry.ctin, inv.inum, inv.idt, inv.val, inv.pos, t.rt, t.txval, t.iamt, t.camt, t.samt])))
+    ),
+    b2cl: toCsv(
+        ['Invoice Number', 'Invoice Date', 'Invoice Value', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST'],
+        report.gstr1.b2cl.flatMap(entry => entry.inv.flatMap(inv => inv.itms.map(({ itm_det: t }) =>
+            [inv.inum, inv.idt, inv.val, entry.pos, t.rt, t.txval, t.iamt])))
+    ),
+    b2cs: toCsv(
+        ['Type', 'Supply Type', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST'],
+        report.gstr1.b2cs.map(r => [r.typ, r.sply_ty, r.pos, r.rt, r.txval, r.iamt, r.camt, r.samt])
+    ),
+    cdnr: toCsv(
+        ['GSTIN of Recipient', 'Note Number', 'Note Date', 'Note Type', 'Note Value', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST'],
+        report.gstr1.cdnr.flatMap(entry => entry.nt.flatMap(nt => nt.itms.map(({ itm_det: t }) =>
+            [entry.ctin, nt.nt_num, nt.nt_dt, nt.ntty, nt.val, nt.pos, t.rt, t.txval, t.iamt, t.camt, t.samt])))
+    ),
+    cdnur: toCsv(
+        ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Note Value', 'Place Of Supply', 'Rate', 'Taxable Value', 'IGST'],
+        report.gstr1.cdnur.flatMap(nt => nt.itms.map(({ itm_det: t }) =>
+            [nt.typ, nt.nt_num, nt.nt_dt, nt.ntty, nt.val, nt.pos, t.rt, t.txval, t.iamt]))
+    ),
+    hsn: toCsv(
+        ['HSN', 'Description', 'UQC', 'Total Quantity', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST'],
+        report.gstr1.hsn.data.map(r => [r.hsn_sc, r.desc, r.uqc, r.qty, r.rt, r.txval, r.iamt, r.camt, r.samt])
+    )
+});
+
+export const gstr3bCsv = (report: GstReturnReport): string => {
+    const s = report.gstr3b.sup_details;
+    return toCsv(
+        ['Nature of Supplies', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'],
+        [
+            ['3.1(a) Outward taxable supplies', s.osup_det.txval, s.osup_det.iamt, s.osup_det.camt, s.osup_det.samt, s.osup_det.csamt],
+            ['3.1(b) Zero rated supplies', s.osup_zero.txval, s.osup_zero.iamt, '', '', s.osup_zero.csamt],
+            ['3.1(c) Nil rated / exempted', s.osup_nil_exmp.txval, '', '', '', ''],
+            ['3.1(d) Inward supplies (reverse charge)', s.isup_rev.txval, s.isup_rev.iamt, s.isup_rev.camt, s.isup_rev.samt, s.isup_rev.csamt],
+            ['3.1(e) Non-GST outward supplies', s.osup_nongst.txval, '', '', '', ''],
+            ...report.gstr3b.inter_sup.unreg_details.map(u => [`3.2 Unregistered persons (POS ${u.pos})`, u.txval, u.iamt, '', '', ''])
+        ]
+    );
+};
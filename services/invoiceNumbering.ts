@@ -0,0 +1,48 @@
+// services/invoiceNumbering.ts
+// GST invoice numbers: sequential and unique within a financial year (April–March).
+// Every register keeps its own series (e.g. RG01/2026-27/000123) so counters can
+// bill while offline without ever handing out the same number twice.
+
+const REGISTER_KEY = 'rg_register_code';
+const DEFAULT_PREFIX = 'RG';
+// No 0/O or 1/I, so a code read off a receipt can't be mistaken for another
+const REGISTER_CHARS = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+// The register code belongs to this device/browser, not to the shop. A device that was never
+// given one draws a random code, so two tills don't end up on the same series by default.
+export const getRegisterCode = (): string => {
+    const saved = localStorage.getItem(REGISTER_KEY);
+    if (saved) return saved;
+    const code = Array.from(crypto.getRandomValues(new Uint8Array(4)), b => REGISTER_CHARS[b % REGISTER_CHARS.length]).join('');
+    localStorage.setItem(REGISTER_KEY, code);
+    return code;
+};
+
+export const saveRegisterCode = (code: string) => {
+    localStorage.setItem(REGISTER_KEY, code.trim().toUpperCase());
+};
+
+export const invoiceSeries = (shopPrefix?: string, registerCode = getRegisterCode()): string =>
+    `${(shopPrefix || DEFAULT_PREFIX).trim().toUpperCase()}${registerCode}`;
+
+// '2026-27' for any date from 1 April 2026 to 31 March 2027
+export const financialYear = (date: Date | string): string => {
+    const d = new Date(date);
+    const startYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// One counter per series per financial year; '/' is not allowed in a Firestore doc id
+export const counterKey = (series: string, fy: string): string => `${series}_${fy}`;
+
+export const formatInvoiceNumber = (series: string, fy: string, sequence: number): string =>
+    `${series}/${fy}/${String(sequence).padStart(6, '0')}`;
+
+// Credit notes run on their own series next to the register's invoices
+export const creditNoteSeries = (series: string): string => `${series}CN`;
+
+// Purchasing documents are numbered the same way, so they can also be raised offline
+export const purchaseOrderSeries = (series: string): string => `${series}PO`;
+export const goodsReceiptSeries = (series: string): string => `${series}GRN`;
+export const stocktakeSeries = (series: string): string => `${series}ST`;
+export const transferSeries = (series: string): string => `${series}TR`;
@@ -0,0 +1,59 @@
+// services/ledger.ts
+// Small helpers shared by the local (IndexedDB) and cloud (Firestore) write paths,
+// so both storage modes book stock and wallet movements identically.
+
+import { StockLogEntry, BillItem, Customer, Sale, CreditNote } from "../types";
+
+export const createStockLogEntry = (previousStock: number, change: number, reason: string, userId: string, date = new Date().toISOString(), reference?: string): StockLogEntry => ({
+    id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    date,
+    change,
+    previousStock,
+    newStock: previousStock + change,
+    reason,
+    userId,
+    ...(reference ? { reference } : {})
+});
+
+// A product can appear on more than one line, so total the quantity per product id
+export const quantitiesByProduct = (items: BillItem[]): Map<string, number> => {
+    const totals = new Map<string, number>();
+    items.forEach(item => totals.set(item.id, (totals.get(item.id) || 0) + item.quantity));
+    return totals;
+};
+
+// Only members carry a wallet: redemption is debited, the 5% cashback credited
+export const walletBalanceAfterSale = (customer: Customer, sale: Sale): number | null => {
+    if (!customer.isMember) return null;
+    return (customer.walletBalance || 0) - (sale.walletRedeemed || 0) + (sale.walletEarned || 0);
+};
+
+// Units still returnable on one line of a sale. Returns are tallied per line, not per
+// product, so a product sold on two lines at different prices is refunded at the right one.
+export const returnableQuantity = (sale: Sale, line: number): number =>
+    (sale.items[line]?.quantity || 0) - (sale.returnedQuantities?.[line] || 0);
+
+// Adds a credit note's units to a sale's per-line return tally
+export const tallyReturn = (returned: Record<number, number> | undefined, note: CreditNote): Record<number, number> => {
+    const tally = { ...(returned || {}) };
+    note.items.forEach(item => {
+        if (item.saleLine !== undefined) tally[item.saleLine] = (tally[item.saleLine] || 0) + item.quantity;
+    });
+    return tally;
+};
+
+// Throws if the credit note takes back more than is left on any line; returns the updated tally
+export const returnedQuantitiesAfter = (sale: Sale, note: CreditNote): Record<number, number> => {
+    note.items.forEach(item => {
+        if (item.saleLine === undefined || sale.items[item.saleLine]?.id !== item.id) {
+            throw new Error(`${item.name} is not on invoice ${sale.invoiceNumber || sale.id}`);
+        }
+    });
+    Object.entries(tallyReturn(undefined, note)).forEach(([line, quantity]) => {
+        const left = returnableQuantity(sale, Number(line));
+        if (quantity > left) {
+            throw new Error(`Cannot return ${quantity} of ${sale.items[Number(line)].name}: only ${left} left on that line of the invoice`);
+        }
+    });
+    return tallyReturn(sale.returnedQuantities, note);
+};
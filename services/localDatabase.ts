@@ -0,0 +1,1088 @@
+// services/localDatabase.ts
+
+import { Product, Category, Sale, Customer, User, Role, ShopDetails, SaleCommitResult, CreditNote, ReturnCommitResult, ParkedBill, RegisterSession, Supplier, PurchaseOrder, GoodsReceipt, GoodsReceiptCommitResult, Stocktake, StocktakeCommitResult, StockTransfer, TransferCommitResult, TransferLine } from "../types";
+import { createStockLogEntry, quantitiesByProduct, walletBalanceAfterSale, returnedQuantitiesAfter } from "./ledger";
+import { financialYear, counterKey, formatInvoiceNumber } from "./invoiceNumbering";
+import { orderAfterReceipt, receivedBatch } from "./purchasing";
+import { assertSellable, allocateItems, restoreItems, receiveBatch, withBatches } from "./batches";
+import { barcodeKey } from "./barcodes";
+import { applyStocktakeLine, postableLines } from "./stocktake";
+import { assertTransferable, dispatchLine, receiveLine, withLocationChange } from "./transfers";
+import { hashPassword, needsRehash, verifyPassword } from "./passwords";
+import { activateDuePrices, hasDuePrices } from "./pricing";
+import { WriteOff, applyWriteOff, writeOffProductIds } from "./expiry";
+
+// --- IndexedDB Storage Engine ---
+// Every record is its own row, so a new sale is one small write instead of
+// re-serializing the whole table into a single localStorage key.
+// In Cloud Mode the same stores hold the offline copy, plus the outbox of
+// writes still waiting to reach Firestore.
+
+const DB_NAME = 'rg_shop_local';
+const DB_VERSION = 11;
+
+type StoreName = 'users' | 'products' | 'sales' | 'customers' | 'settings' | 'outbox' | 'counters' | 'credit_notes' | 'parked_bills' | 'register_sessions'
+    | 'suppliers' | 'purchase_orders' | 'goods_receipts' | 'categories' | 'stocktakes' | 'transfers';
+const DATA_STORES: StoreName[] = ['users', 'products', 'sales', 'customers', 'settings', 'counters', 'credit_notes', 'register_sessions', 'suppliers', 'purchase_orders', 'goods_receipts', 'categories', 'stocktakes', 'transfers'];
+
+// Keys written by the old localStorage-backed SQLiteSimulator
+const LEGACY_KEYS = ['table_users', 'table_products', 'table_sales', 'table_customers', 'table_shop_details'];
+
+// A write waiting to be replayed to Firestore (Cloud Mode)
+export interface OutboxEntry {
+    id?: number; // Auto-incremented, so key order is queue order
+    op: string;
+    payload: any;
+    attempts: number;
+    nextAttemptAt: number; // epoch ms
+    createdAt: string; // ISO string
+    status: 'pending' | 'failed'; // 'failed' = rejected permanently, no more retries
+    lastError?: string;
+}
+
+export interface InvoiceCounter {
+    key: string; // counterKey(series, fy)
+    last: number;
+}
+
+// Sales are stored with the product ids of their lines so the multiEntry index can find them
+type SaleRow = Sale & { productIds: string[] };
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Local user ids are auto-incremented numbers, but the app passes them around as strings
+const toUserKey = (userId: string): IDBValidKey => /^\d+$/.test(userId) ? Number(userId) : userId;
+
+// Old product rows used SQL-style column names (product_name, quantity)
+const normalizeProduct = ({ barcodeKeys, ...row }: any): Product => ({
+    ...row,
+    id: row.id,
+    name: row.name ?? row.product_name,
+    price: row.price,
+    stock: row.stock ?? row.quantity ?? 0,
+    brand: row.brand || 'Generic',
+    expireDate: row.expireDate || '',
+    stockHistory: row.stockHistory || []
+});
+
+// Products are stored with the lookup form of their barcodes so the multiEntry index can find them
+const toProductRow = (product: Product) => ({ ...product, barcodeKeys: (product.barcodes || []).map(barcodeKey) });
+
+// Takes the next number of a series inside the caller's transaction
+const nextDocumentNumber = async (counterStore: IDBObjectStore, series: string, date: string): Promise<string> => {
+    const fy = financialYear(date);
+    const key = counterKey(series, fy);
+    const counter: InvoiceCounter | undefined = await requestToPromise(counterStore.get(key));
+    const sequence = (counter?.last || 0) + 1;
+    counterStore.put({ key, last: sequence });
+    return formatInvoiceNumber(series, fy, sequence);
+};
+
+const toSaleRow = (sale: Sale): SaleRow => ({ ...sale, productIds: sale.items.map(i => i.id) });
+
+const fromSaleRow = ({ productIds, ...sale }: SaleRow): Sale => sale;
+
+// Users are stored with a `passwordHash` (see passwords.ts). A new hash replaces any
+// plaintext `password` still on the row from before hashing.
+const withPasswordHash = ({ password, ...row }: any, passwordHash: string) => ({ ...row, passwordHash });
+
+// Backups carry no credential material
+const withoutCredentials = ({ password, passwordHash, ...row }: any) => row;
+
+const credentialsOf = ({ password, passwordHash }: any) =>
+    passwordHash ? { passwordHash } : password !== undefined ? { password } : {};
+
+const readLegacyKey = (key: string): any => {
+    try {
+        const data = localStorage.getItem(key);
+        return data ? JSON.parse(data) : null;
+    } catch (e) {
+        console.error(`Legacy table ${key} is corrupt, skipping`, e);
+        return null;
+    }
+};
+
+const readLegacyRows = (key: string): any[] => {
+    const rows = readLegacyKey(key);
+    return Array.isArray(rows) ? rows : [];
+};
+
+// The old tables were hand-edited JSON; only strings and numbers make usable keys
+const hasUsableId = (row: any): boolean =>
+    !!row && ((typeof row.id === 'string' && row.id !== '') || (typeof row.id === 'number' && Number.isFinite(row.id)));
+
+export class IndexedDBEngine {
+    private dbPromise: Promise<IDBDatabase>;
+    private dbName: string;
+
+    // Cloud Mode keeps a separate offline copy per store
+    constructor(dbName = DB_NAME) {
+        this.dbName = dbName;
+        this.dbPromise = this.open();
+    }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            let migrated = false;
+            const request = indexedDB.open(this.dbName, DB_VERSION);
+
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                const tx = request.transaction!;
+
+                if (event.oldVersion < 1) {
+                    const users = db.createObjectStore('users', { keyPath: 'id', autoIncrement: true });
+                    users.createIndex('username', 'username');
+                    users.createIndex('role', 'role');
+
+                    db.createObjectStore('products', { keyPath: 'id' });
+
+                    const sales = db.createObjectStore('sales', { keyPath: 'id' });
+                    sales.createIndex('date', 'date');
+                    sales.createIndex('mobile', 'customerMobile');
+                    sales.createIndex('productId', 'productIds', { multiEntry: true });
+
+                    const customers = db.createObjectStore('customers', { keyPath: 'id' });
+                    customers.createIndex('mobile', 'mobile');
+
+                    db.createObjectStore('settings');
+
+                    migrated = this.migrateLegacyTables(tx);
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+                }
+                if (event.oldVersion < 3) {
+                    // Last invoice number issued per series and financial year
+                    db.createObjectStore('counters', { keyPath: 'key' });
+                }
+                if (event.oldVersion < 4) {
+                    const creditNotes = db.createObjectStore('credit_notes', { keyPath: 'id' });
+                    creditNotes.createIndex('date', 'date');
+                    creditNotes.createIndex('saleId', 'saleId');
+                }
+                if (event.oldVersion < 5) {
+                    db.createObjectStore('parked_bills', { keyPath: 'id' });
+                }
+                if (event.oldVersion < 6) {
+                    const sessions = db.createObjectStore('register_sessions', { keyPath: 'id' });
+                    sessions.createIndex('userId', 'userId');
+                    sessions.createIndex('openedAt', 'openedAt');
+                }
+                if (event.oldVersion < 7) {
+                    db.createObjectStore('suppliers', { keyPath: 'id' });
+                    const orders = db.createObjectStore('purchase_orders', { keyPath: 'id' });
+                    orders.createIndex('date', 'date');
+                    const receipts = db.createObjectStore('goods_receipts', { keyPath: 'id' });
+                    receipts.createIndex('date', 'date');
+                    receipts.createIndex('poId', 'poId');
+                }
+                if (event.oldVersion < 8) {
+                    // Rows written before this version have no barcodeKeys and simply stay out of the index
+                    tx.objectStore('products').createIndex('barcode', 'barcodeKeys', { multiEntry: true });
+                }
+                if (event.oldVersion < 9) {
+                    db.createObjectStore('categories', { keyPath: 'id' });
+                }
+                if (event.oldVersion < 10) {
+                    db.createObjectStore('stocktakes', { keyPath: 'id' });
+                }
+                if (event.oldVersion < 11) {
+                    db.createObjectStore('transfers', { keyPath: 'id' });
+                }
+            };
+
+            request.onsuccess = () => {
+                // Only drop the old keys once the upgrade transaction has committed
+                if (migrated) {
+                    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+                }
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                console.error("IndexedDB open error:", request.error);
+                reject(request.error);
+            };
+        });
+    }
+
+    // One-time copy of the table_* localStorage keys into the new object stores
+    private migrateLegacyTables(tx: IDBTransaction): boolean {
+        if (!LEGACY_KEYS.some(key => localStorage.getItem(key) !== null)) return false;
+
+        const users: any[] = readLegacyRows('table_users');
+        const products: any[] = readLegacyRows('table_products');
+        const sales: Sale[] = readLegacyRows('table_sales');
+        const customers: Customer[] = readLegacyRows('table_customers');
+        const shopDetails: ShopDetails | null = readLegacyKey('table_shop_details');
+
+        // A bad row must not throw here: that would abort the upgrade and the database would never open
+        let skipped = 0;
+        const putRow = (storeName: StoreName, toRow: () => any) => {
+            try {
+                tx.objectStore(storeName).put(toRow());
+            } catch (e) {
+                skipped++;
+                console.warn(`Skipped an unreadable legacy ${storeName} row`, e);
+            }
+        };
+        const putKeyed = (storeName: StoreName, rows: any[], toRow: (row: any) => any) => rows.forEach(row => {
+            if (hasUsableId(row)) putRow(storeName, () => toRow(row));
+            else skipped++;
+        });
+
+        // User ids were users.length + 1, so deleting a user could hand the next one a taken id.
+        // Keep the first holder of each id; the users store numbers the rest afresh.
+        const takenIds = new Set<string | number>();
+        const renumbered = users.filter(u => {
+            if (!u?.username) {
+                skipped++;
+                return false;
+            }
+            if (!hasUsableId(u) || takenIds.has(u.id)) return true;
+            takenIds.add(u.id);
+            putRow('users', () => u);
+            return false;
+        });
+        renumbered.forEach(({ id, ...u }) => putRow('users', () => u));
+        if (renumbered.length > 0) console.warn(`${renumbered.length} legacy user(s) had a missing or duplicate id and were given a new one`);
+
+        putKeyed('products', products, p => toProductRow(normalizeProduct(p)));
+        putKeyed('sales', sales, toSaleRow);
+        putKeyed('customers', customers, c => c);
+        if (shopDetails) tx.objectStore('settings').put(shopDetails, 'shop_details');
+
+        if (skipped > 0) console.warn(`${skipped} unusable legacy row(s) were left out of the migration`);
+
+        return true;
+    }
+
+    private async getAll<T>(storeName: StoreName): Promise<T[]> {
+        const db = await this.dbPromise;
+        return requestToPromise(db.transaction(storeName).objectStore(storeName).getAll());
+    }
+
+    private async put(storeName: StoreName, value: any, key?: IDBValidKey): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).put(value, key);
+        await transactionDone(tx);
+    }
+
+    private async delete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).delete(key);
+        await transactionDone(tx);
+    }
+
+    private async replaceAll(storeName: StoreName, rows: any[]): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        store.clear();
+        rows.forEach(row => store.put(row));
+        await transactionDone(tx);
+    }
+
+    // 2. FUNCTIONS FOR LOGIN SYSTEM
+    // Hashes are worked out before the transaction opens: IndexedDB commits a
+    // transaction as soon as it waits on anything else, such as WebCrypto.
+    async register_user(username: string, password: string): Promise<boolean> {
+        const passwordHash = await hashPassword(password);
+        const db = await this.dbPromise;
+        const tx = db.transaction('users', 'readwrite');
+        const store = tx.objectStore('users');
+
+        const existing = await requestToPromise(store.index('username').count(username));
+        if (existing > 0) return false;
+
+        store.add({ username, passwordHash, role: Role.ADMIN });
+        await transactionDone(tx);
+        return true;
+    }
+
+    // A row still holding a plaintext password (or an outdated hash) is rehashed on a correct sign-in
+    async check_login(username: string, password: string): Promise<User | null> {
+        const db = await this.dbPromise;
+        const matches = await requestToPromise(db.transaction('users').objectStore('users').index('username').getAll(username));
+        let user: any = null;
+        for (const row of matches) {
+            const valid = row.passwordHash
+                ? await verifyPassword(password, row.passwordHash)
+                : row.password !== undefined && row.password === password;
+            if (valid) {
+                user = row;
+                break;
+            }
+        }
+
+        if (user) {
+            if (!user.passwordHash || needsRehash(user.passwordHash)) {
+                await this.put('users', withPasswordHash(user, await hashPassword(password)));
+            }
+            return {
+                id: user.id.toString(),
+                username: user.username,
+                role: (user.role as Role) || Role.EMPLOYEE,
+                roleId: user.roleId
+            };
+        }
+        return null;
+    }
+
+    async has_admin(): Promise<boolean> {
+        const db = await this.dbPromise;
+        const count = await requestToPromise(db.transaction('users').objectStore('users').index('role').count(Role.ADMIN));
+        return count > 0;
+    }
+
+    // An existing employee keeps their password unless a new one is given
+    async save_employee(user: User, password?: string): Promise<void> {
+        const db = await this.dbPromise;
+        const [existing] = await requestToPromise(db.transaction('users').objectStore('users').index('username').getAll(user.username));
+        // No shared default: whoever adds the employee sets their first password
+        if (!existing && !password) throw new Error("A new employee needs a password");
+        const passwordHash = password ? await hashPassword(password) : undefined;
+        const { password: _plaintext, ...fields } = user;
+
+        const tx = db.transaction('users', 'readwrite');
+        const store = tx.objectStore('users');
+        if (existing) {
+            const row = { ...existing, ...fields, id: existing.id };
+            store.put(passwordHash ? withPasswordHash(row, passwordHash) : row);
+        } else {
+            store.add({
+                username: user.username,
+                passwordHash,
+                role: Role.EMPLOYEE,
+                roleId: user.roleId
+            });
+        }
+        await transactionDone(tx);
+    }
+
+    async get_all_employees(): Promise<User[]> {
+        const db = await this.dbPromise;
+        const users = await requestToPromise(db.transaction('users').objectStore('users').index('role').getAll(Role.EMPLOYEE));
+        return users.map((u: any) => ({ id: u.id.toString(), username: u.username, role: Role.EMPLOYEE, roleId: u.roleId }));
+    }
+
+    async delete_user(userId: string): Promise<void> {
+        await this.delete('users', toUserKey(userId));
+    }
+
+    async update_user_credentials(userId: string, newUsername?: string, newPassword?: string): Promise<boolean> {
+        const passwordHash = newPassword ? await hashPassword(newPassword) : undefined;
+        const db = await this.dbPromise;
+        const tx = db.transaction('users', 'readwrite');
+        const store = tx.objectStore('users');
+        const user = await requestToPromise(store.get(toUserKey(userId)));
+
+        if (!user) return false;
+        if (newUsername) user.username = newUsername;
+        store.put(passwordHash ? withPasswordHash(user, passwordHash) : user);
+        await transactionDone(tx);
+        return true;
+    }
+
+    async recover_admin(newPassword: string): Promise<boolean> {
+        const passwordHash = await hashPassword(newPassword);
+        const db = await this.dbPromise;
+        const tx = db.transaction('users', 'readwrite');
+        const store = tx.objectStore('users');
+        const [admin] = await requestToPromise(store.index('role').getAll(Role.ADMIN));
+
+        if (admin) {
+            store.put(withPasswordHash({ ...admin, username: 'admin' }, passwordHash));
+            await transactionDone(tx);
+            return true;
+        }
+        return this.register_user('admin', newPassword);
+    }
+
+    // 3. FUNCTIONS FOR PRODUCTS
+    // Rejects a barcode another product already carries, checked in the same transaction as the write
+    async add_product(product: Product): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction('products', 'readwrite');
+        const store = tx.objectStore('products');
+        const row = toProductRow(product);
+        try {
+            for (const key of row.barcodeKeys) {
+                const holder = await requestToPromise(store.index('barcode').get(key));
+                if (holder && holder.id !== product.id) {
+                    throw new Error(`Barcode ${key} already belongs to ${holder.name ?? holder.product_name}.`);
+                }
+            }
+            store.put(row);
+        } catch (err) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw err;
+        }
+        await transactionDone(tx);
+    }
+
+    async get_product(productId: string): Promise<Product | undefined> {
+        const db = await this.dbPromise;
+        const row = await requestToPromise(db.transaction('products').objectStore('products').get(productId));
+        return row ? normalizeProduct(row) : undefined;
+    }
+
+    // Scheduled prices that have fallen due become the list prices; nothing else on the product changes
+    async activate_prices(productIds: string[], today: string): Promise<Product[]> {
+        const db = await this.dbPromise;
+        const tx = db.transaction('products', 'readwrite');
+        const store = tx.objectStore('products');
+        try {
+            const products: Product[] = [];
+            for (const productId of productIds) {
+                const row = await requestToPromise(store.get(productId));
+                if (!row) continue;
+                const product = normalizeProduct(row);
+                if (!hasDuePrices(product, today)) continue;
+                const activated = activateDuePrices(product, today);
+                store.put(toProductRow(activated));
+                products.push(activated);
+            }
+            await transactionDone(tx);
+            return products;
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    async get_all_products(): Promise<Product[]> {
+        const rows = await this.getAll<any>('products');
+        return rows.map(normalizeProduct);
+    }
+
+    async delete_product(productId: string): Promise<void> {
+        await this.delete('products', productId);
+    }
+
+    // Cloud Mode: refresh the offline copy with what Firestore returned
+    async replace_products(products: Product[]): Promise<void> {
+        await this.replaceAll('products', products.map(toProductRow));
+    }
+
+    async get_categories(): Promise<Category[]> {
+        return this.getAll<Category>('categories');
+    }
+
+    async save_category(category: Category): Promise<void> {
+        await this.put('categories', category);
+    }
+
+    async delete_category(id: string): Promise<void> {
+        await this.delete('categories', id);
+    }
+
+    async replace_categories(categories: Category[]): Promise<void> {
+        await this.replaceAll('categories', categories);
+    }
+
+    // Newest first, read straight off the date index
+    async get_all_sales(): Promise<Sale[]> {
+        const db = await this.dbPromise;
+        const rows: SaleRow[] = await requestToPromise(db.transaction('sales').objectStore('sales').index('date').getAll());
+        return rows.reverse().map(fromSaleRow);
+    }
+
+    async add_sale(sale: Sale): Promise<void> {
+        await this.put('sales', toSaleRow(sale));
+    }
+
+    async replace_sales(sales: Sale[]): Promise<void> {
+        await this.replaceAll('sales', sales.map(toSaleRow));
+    }
+
+    // Refreshes the given sales and leaves the rest of the offline copy alone
+    async put_sales(sales: Sale[]): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction('sales', 'readwrite');
+        sales.forEach(sale => tx.objectStore('sales').put(toSaleRow(sale)));
+        await transactionDone(tx);
+    }
+
+    // Sale row, stock decrements and wallet adjustment in one IndexedDB transaction:
+    // either all of it is on disk or none of it is
+    // The invoice number is taken in the same transaction as the sale, so an
+    // aborted checkout never burns a number and two tabs can't take the same one
+    async commit_sale(sale: Sale, userId: string, series: string): Promise<SaleCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['sales', 'products', 'customers', 'counters'], 'readwrite');
+        const productStore = tx.objectStore('products');
+        const customerStore = tx.objectStore('customers');
+        const counterStore = tx.objectStore('counters');
+
+        try {
+            const quantities = quantitiesByProduct(sale.items);
+            const current = new Map<string, Product>();
+            for (const productId of quantities.keys()) {
+                const row = await requestToPromise(productStore.get(productId));
+                if (row) current.set(productId, normalizeProduct(row));
+            }
+            // Expired batches can't be sold; in-date ones go out earliest expiry first
+            const today = sale.date.split('T')[0];
+            current.forEach((product, productId) => assertSellable(product, quantities.get(productId)!, today));
+            const allocation = allocateItems(sale.items, current, today);
+
+            sale = { ...sale, items: allocation.items, invoiceNumber: await nextDocumentNumber(counterStore, series, sale.date) };
+
+            const products: Product[] = [];
+            current.forEach((product, productId) => {
+                const logEntry = createStockLogEntry(product.stock, -quantities.get(productId)!, 'Sale', userId, sale.date);
+                const batches = allocation.batches.get(productId);
+                const sold = { ...(batches ? withBatches(product, batches) : product), stock: logEntry.newStock, stockHistory: [...(product.stockHistory || []), logEntry] };
+                const updated = withLocationChange(sold, sale.location, -quantities.get(productId)!);
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            });
+
+            let customer: Customer | null = null;
+            if (sale.customerMobile) {
+                const existing: Customer | undefined = await requestToPromise(customerStore.index('mobile').get(sale.customerMobile));
+                const newBalance = existing ? walletBalanceAfterSale(existing, sale) : null;
+                if (existing && newBalance !== null) {
+                    customer = { ...existing, walletBalance: newBalance };
+                    customerStore.put(customer);
+                }
+            }
+
+            tx.objectStore('sales').put(toSaleRow(sale));
+            await transactionDone(tx);
+            return { sale, products, customer };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // Mirror of commit_sale for a return: credit note, restock, refund and the sale's
+    // returned tally are written together. Over-returning aborts the whole transaction.
+    async commit_return(note: CreditNote, userId: string, series: string): Promise<ReturnCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['credit_notes', 'sales', 'products', 'customers', 'counters'], 'readwrite');
+        const saleStore = tx.objectStore('sales');
+        const productStore = tx.objectStore('products');
+        const customerStore = tx.objectStore('customers');
+
+        try {
+            const saleRow: SaleRow | undefined = await requestToPromise(saleStore.get(note.saleId));
+            if (!saleRow) throw new Error(`Sale ${note.saleId} not found`);
+            const sale = { ...fromSaleRow(saleRow), returnedQuantities: returnedQuantitiesAfter(fromSaleRow(saleRow), note) };
+
+            note = { ...note, creditNoteNumber: await nextDocumentNumber(tx.objectStore('counters'), series, note.date) };
+
+            const quantities = quantitiesByProduct(note.items);
+            const current = new Map<string, Product>();
+            for (const productId of quantities.keys()) {
+                const row = await requestToPromise(productStore.get(productId));
+                if (row) current.set(productId, normalizeProduct(row));
+            }
+            const restored = restoreItems(note.items, current);
+
+            const products: Product[] = [];
+            current.forEach((product, productId) => {
+                const logEntry = createStockLogEntry(product.stock, quantities.get(productId)!, 'Return', userId, note.date);
+                const batches = restored.get(productId);
+                const returned = { ...(batches ? withBatches(product, batches) : product), stock: logEntry.newStock, stockHistory: [...(product.stockHistory || []), logEntry] };
+                // Back to the location the sale was made from
+                const updated = withLocationChange(returned, sale.location, quantities.get(productId)!);
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            });
+
+            let customer: Customer | null = null;
+            if (note.refundMethod === 'WALLET') {
+                const existing: Customer | undefined = note.customerMobile
+                    ? await requestToPromise(customerStore.index('mobile').get(note.customerMobile))
+                    : undefined;
+                if (!existing) throw new Error("Wallet refund needs a registered customer");
+                customer = { ...existing, walletBalance: (existing.walletBalance || 0) + note.total };
+                customerStore.put(customer);
+            }
+
+            saleStore.put(toSaleRow(sale));
+            tx.objectStore('credit_notes').put(note);
+            await transactionDone(tx);
+            return { creditNote: note, sale, products, customer };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    async get_all_credit_notes(): Promise<CreditNote[]> {
+        const db = await this.dbPromise;
+        const rows: CreditNote[] = await requestToPromise(db.transaction('credit_notes').objectStore('credit_notes').index('date').getAll());
+        return rows.reverse();
+    }
+
+    async replace_credit_notes(notes: CreditNote[]): Promise<void> {
+        await this.replaceAll('credit_notes', notes);
+    }
+
+    // Never moves a counter backwards; used to catch up with numbers already issued elsewhere
+    async raise_invoice_counter(key: string, last: number): Promise<void> {
+        const db = await this.dbPromise;
+        const tx = db.transaction('counters', 'readwrite');
+        const store = tx.objectStore('counters');
+        const counter: InvoiceCounter | undefined = await requestToPromise(store.get(key));
+        if (!counter || counter.last < last) store.put({ key, last });
+        await transactionDone(tx);
+    }
+
+    async get_all_customers(): Promise<Customer[]> {
+        return this.getAll<Customer>('customers');
+    }
+
+    async save_customer(customer: Customer): Promise<void> {
+        await this.put('customers', customer);
+    }
+
+    async delete_customer(id: string): Promise<void> {
+        await this.delete('customers', id);
+    }
+
+    async replace_customers(customers: Customer[]): Promise<void> {
+        await this.replaceAll('customers', customers);
+    }
+
+    // Get customer by mobile for POS lookup
+    async get_customer_by_mobile(mobile: string): Promise<Customer | undefined> {
+        const db = await this.dbPromise;
+        return requestToPromise(db.transaction('customers').objectStore('customers').index('mobile').get(mobile));
+    }
+
+    async get_shop_details(): Promise<ShopDetails | null> {
+        const db = await this.dbPromise;
+        const details = await requestToPromise(db.transaction('settings').objectStore('settings').get('shop_details'));
+        return details || null;
+    }
+
+    async save_shop_details(details: ShopDetails): Promise<void> {
+        await this.put('settings', details, 'shop_details');
+    }
+
+    // 4. PARKED BILLS (open counter work, so not part of backups)
+    async get_parked_bills(): Promise<ParkedBill[]> {
+        return this.getAll<ParkedBill>('parked_bills');
+    }
+
+    async get_parked_bill(id: string): Promise<ParkedBill | undefined> {
+        const db = await this.dbPromise;
+        return requestToPromise(db.transaction('parked_bills').objectStore('parked_bills').get(id));
+    }
+
+    async save_parked_bill(parked: ParkedBill): Promise<void> {
+        await this.put('parked_bills', parked);
+    }
+
+    async delete_parked_bill(id: string): Promise<void> {
+        await this.delete('parked_bills', id);
+    }
+
+    async replace_parked_bills(parked: ParkedBill[]): Promise<void> {
+        await this.replaceAll('parked_bills', parked);
+    }
+
+    // 5. REGISTER SESSIONS (cash drawer shifts)
+    async get_register_sessions(): Promise<RegisterSession[]> {
+        const db = await this.dbPromise;
+        const rows: RegisterSession[] = await requestToPromise(db.transaction('register_sessions').objectStore('register_sessions').index('openedAt').getAll());
+        return rows.reverse();
+    }
+
+    async get_open_register_session(userId: string): Promise<RegisterSession | undefined> {
+        const db = await this.dbPromise;
+        const rows: RegisterSession[] = await requestToPromise(db.transaction('register_sessions').objectStore('register_sessions').index('userId').getAll(userId));
+        return rows.find(s => s.status === 'OPEN');
+    }
+
+    async save_register_session(session: RegisterSession): Promise<void> {
+        await this.put('register_sessions', session);
+    }
+
+    async replace_register_sessions(sessions: RegisterSession[]): Promise<void> {
+        await this.replaceAll('register_sessions', sessions);
+    }
+
+    // 6. PURCHASING (suppliers, purchase orders, goods receipts)
+    async get_suppliers(): Promise<Supplier[]> {
+        return this.getAll<Supplier>('suppliers');
+    }
+
+    async save_supplier(supplier: Supplier): Promise<void> {
+        await this.put('suppliers', supplier);
+    }
+
+    async delete_supplier(id: string): Promise<void> {
+        await this.delete('suppliers', id);
+    }
+
+    async replace_suppliers(suppliers: Supplier[]): Promise<void> {
+        await this.replaceAll('suppliers', suppliers);
+    }
+
+    async get_purchase_orders(): Promise<PurchaseOrder[]> {
+        const db = await this.dbPromise;
+        const rows: PurchaseOrder[] = await requestToPromise(db.transaction('purchase_orders').objectStore('purchase_orders').index('date').getAll());
+        return rows.reverse();
+    }
+
+    // A new order takes its PO number in the same transaction that stores it
+    async save_purchase_order(order: PurchaseOrder, series: string): Promise<PurchaseOrder> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['purchase_orders', 'counters'], 'readwrite');
+        if (!order.poNumber) {
+            order = { ...order, poNumber: await nextDocumentNumber(tx.objectStore('counters'), series, order.date) };
+        }
+        tx.objectStore('purchase_orders').put(order);
+        await transactionDone(tx);
+        return order;
+    }
+
+    async replace_purchase_orders(orders: PurchaseOrder[]): Promise<void> {
+        await this.replaceAll('purchase_orders', orders);
+    }
+
+    async get_goods_receipts(): Promise<GoodsReceipt[]> {
+        const db = await this.dbPromise;
+        const rows: GoodsReceipt[] = await requestToPromise(db.transaction('goods_receipts').objectStore('goods_receipts').index('date').getAll());
+        return rows.reverse();
+    }
+
+    // Payments against an already committed receipt
+    async save_goods_receipt(receipt: GoodsReceipt): Promise<void> {
+        await this.put('goods_receipts', receipt);
+    }
+
+    async replace_goods_receipts(receipts: GoodsReceipt[]): Promise<void> {
+        await this.replaceAll('goods_receipts', receipts);
+    }
+
+    // Receipt, PO tallies, restock and cost prices in one transaction, like commit_sale.
+    // Receiving more than is pending on the order aborts the whole thing.
+    async commit_goods_receipt(receipt: GoodsReceipt, userId: string, series: string): Promise<GoodsReceiptCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['goods_receipts', 'purchase_orders', 'products', 'counters'], 'readwrite');
+        const orderStore = tx.objectStore('purchase_orders');
+        const productStore = tx.objectStore('products');
+
+        try {
+            const existing: PurchaseOrder | undefined = await requestToPromise(orderStore.get(receipt.poId));
+            if (!existing) throw new Error(`Purchase order ${receipt.poNumber || receipt.poId} not found`);
+            const order = orderAfterReceipt(existing, receipt);
+
+            receipt = { ...receipt, grnNumber: await nextDocumentNumber(tx.objectStore('counters'), series, receipt.date) };
+
+            const products: Product[] = [];
+            for (const line of receipt.lines) {
+                const row = await requestToPromise(productStore.get(line.productId));
+                if (!row) continue;
+                const product = normalizeProduct(row);
+                const logEntry = createStockLogEntry(product.stock, line.quantity, 'Restock', userId, receipt.date, receipt.grnNumber);
+                const received = receivedBatch(receipt, line);
+                const updated = {
+                    ...(received ? withBatches(product, receiveBatch(product.batches || [], received)) : product),
+                    stock: logEntry.newStock, costPrice: line.costPrice, stockHistory: [...(product.stockHistory || []), logEntry]
+                };
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            }
+
+            orderStore.put(order);
+            tx.objectStore('goods_receipts').put(receipt);
+            await transactionDone(tx);
+            return { receipt, order, products };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // 7. STOCKTAKES (cycle counts)
+    async get_stocktakes(): Promise<Stocktake[]> {
+        const rows = await this.getAll<Stocktake>('stocktakes');
+        return rows.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    }
+
+    async save_stocktake(stocktake: Stocktake): Promise<void> {
+        await this.put('stocktakes', stocktake);
+    }
+
+    async replace_stocktakes(stocktakes: Stocktake[]): Promise<void> {
+        await this.replaceAll('stocktakes', stocktakes);
+    }
+
+    // Books every approved variance against current stock and closes the session, all or nothing
+    async commit_stocktake(stocktake: Stocktake, userId: string, series: string): Promise<StocktakeCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['stocktakes', 'products', 'counters'], 'readwrite');
+        const productStore = tx.objectStore('products');
+
+        try {
+            const existing: Stocktake | undefined = await requestToPromise(tx.objectStore('stocktakes').get(stocktake.id));
+            if (existing && existing.status !== 'COUNTING') throw new Error(`This stocktake is already ${existing.status.toLowerCase()}`);
+
+            const postedAt = new Date().toISOString();
+            stocktake = {
+                ...stocktake,
+                stocktakeNumber: await nextDocumentNumber(tx.objectStore('counters'), series, postedAt),
+                status: 'POSTED', postedAt, postedBy: userId
+            };
+
+            const products: Product[] = [];
+            for (const line of postableLines(stocktake)) {
+                const row = await requestToPromise(productStore.get(line.productId));
+                if (!row) continue;
+                const updated = applyStocktakeLine(normalizeProduct(row), line, userId, postedAt, stocktake.stocktakeNumber);
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            }
+
+            tx.objectStore('stocktakes').put(stocktake);
+            await transactionDone(tx);
+            return { stocktake, products };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // Expired lots off the books against the stock as it is now, all or nothing
+    async commit_write_off(writeOff: WriteOff): Promise<Product[]> {
+        const db = await this.dbPromise;
+        const tx = db.transaction('products', 'readwrite');
+        const productStore = tx.objectStore('products');
+
+        try {
+            const products: Product[] = [];
+            for (const productId of writeOffProductIds(writeOff)) {
+                const row = await requestToPromise(productStore.get(productId));
+                if (!row) continue;
+                const updated = applyWriteOff(normalizeProduct(row), writeOff);
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            }
+            await transactionDone(tx);
+            return products;
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // 8. TRANSFERS (between locations and branches)
+    async get_transfers(): Promise<StockTransfer[]> {
+        const rows = await this.getAll<StockTransfer>('transfers');
+        return rows.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async save_transfer(transfer: StockTransfer): Promise<void> {
+        await this.put('transfers', transfer);
+    }
+
+    async replace_transfers(transfers: StockTransfer[]): Promise<void> {
+        await this.replaceAll('transfers', transfers);
+    }
+
+    // Takes every line out of the source location and puts the transfer in transit, all or nothing
+    async dispatch_transfer(transfer: StockTransfer, userId: string, series: string): Promise<TransferCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['transfers', 'products', 'counters'], 'readwrite');
+        const productStore = tx.objectStore('products');
+
+        try {
+            const existing: StockTransfer | undefined = await requestToPromise(tx.objectStore('transfers').get(transfer.id));
+            if (existing && existing.status !== 'DRAFT') throw new Error(`This transfer is already ${existing.status.toLowerCase().replace('_', ' ')}`);
+            if (transfer.lines.length === 0) throw new Error("Add at least one product to the transfer");
+
+            const dispatchedAt = new Date().toISOString();
+            transfer = {
+                ...transfer,
+                transferNumber: await nextDocumentNumber(tx.objectStore('counters'), series, dispatchedAt),
+                status: 'IN_TRANSIT', dispatchedAt, dispatchedBy: userId
+            };
+
+            const products: Product[] = [];
+            const lines: TransferLine[] = [];
+            for (const line of transfer.lines) {
+                const row = await requestToPromise(productStore.get(line.productId));
+                if (!row) throw new Error(`${line.name} is no longer in the catalogue`);
+                const product = normalizeProduct(row);
+                assertTransferable(product, line, transfer.fromLocation);
+                const dispatched = dispatchLine(product, line, transfer, userId);
+                productStore.put(toProductRow(dispatched.product));
+                products.push(dispatched.product);
+                lines.push(dispatched.line);
+            }
+            transfer = { ...transfer, lines };
+
+            tx.objectStore('transfers').put(transfer);
+            await transactionDone(tx);
+            return { transfer, products };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // Books the transfer into the destination location. Lines are matched by product id,
+    // so a branch receiving from another needs the same products in its catalogue.
+    async receive_transfer(transfer: StockTransfer, userId: string): Promise<TransferCommitResult> {
+        const db = await this.dbPromise;
+        const tx = db.transaction(['transfers', 'products'], 'readwrite');
+        const productStore = tx.objectStore('products');
+
+        try {
+            const existing: StockTransfer | undefined = await requestToPromise(tx.objectStore('transfers').get(transfer.id));
+            if (existing && existing.status !== 'IN_TRANSIT') throw new Error(`This transfer is ${existing.status.toLowerCase().replace('_', ' ')}, not in transit`);
+
+            transfer = { ...transfer, status: 'RECEIVED', receivedAt: new Date().toISOString(), receivedBy: userId };
+
+            const products: Product[] = [];
+            for (const line of transfer.lines) {
+                const row = await requestToPromise(productStore.get(line.productId));
+                if (!row) throw new Error(`${line.name} is not in this branch's catalogue. Add it with the same product ID first.`);
+                const updated = receiveLine(normalizeProduct(row), line, transfer, userId);
+                productStore.put(toProductRow(updated));
+                products.push(updated);
+            }
+
+            tx.objectStore('transfers').put(transfer);
+            await transactionDone(tx);
+            return { transfer, products };
+        } catch (error) {
+            try { tx.abort(); } catch { /* already finished */ }
+            throw error;
+        }
+    }
+
+    // 9. OUTBOX (writes pending replay to the cloud)
+    async add_outbox_entry(entry: OutboxEntry): Promise<void> {
+        await this.put('outbox', entry);
+    }
+
+    async get_outbox_entries(): Promise<OutboxEntry[]> {
+        return this.getAll<OutboxEntry>('outbox');
+    }
+
+    async update_outbox_entry(entry: OutboxEntry): Promise<void> {
+        await this.put('outbox', entry);
+    }
+
+    async delete_outbox_entry(id: number): Promise<void> {
+        await this.delete('outbox', id);
+    }
+
+    async export_database(): Promise<string> {
+        const [users, products, sales, customers, shop_details, counters, credit_notes, register_sessions, suppliers, purchase_orders, goods_receipts, categories, stocktakes, transfers] = await Promise.all([
+            this.getAll<any>('users'),
+            this.get_all_products(),
+            this.get_all_sales(),
+            this.get_all_customers(),
+            this.get_shop_details(),
+            this.getAll<InvoiceCounter>('counters'),
+            this.get_all_credit_notes(),
+            this.get_register_sessions(),
+            this.get_suppliers(),
+            this.get_purchase_orders(),
+            this.get_goods_receipts(),
+            this.get_categories(),
+            this.get_stocktakes(),
+            this.get_transfers()
+        ]);
+        return JSON.stringify({ users: users.map(withoutCredentials), products, sales, customers, shop_details, counters, credit_notes, register_sessions, suppliers, purchase_orders, goods_receipts, categories, stocktakes, transfers }, null, 2);
+    }
+
+    // Accepts both the current backup format and old SQLiteSimulator backups
+    async import_database(jsonData: string): Promise<boolean> {
+        try {
+            const data = JSON.parse(jsonData);
+            const db = await this.dbPromise;
+            const tx = db.transaction(DATA_STORES, 'readwrite');
+
+            if (data.users) {
+                // Backups have no credentials, so restored users keep the ones on this device (matched
+                // by username). Anyone new to this device has none: the admin signs in through password
+                // recovery and re-adds employees. Older backups still hold plaintext passwords, which
+                // are hashed at each user's next sign-in.
+                const current = await requestToPromise(tx.objectStore('users').getAll());
+                const byUsername = new Map(current.map((u: any) => [u.username, u]));
+                tx.objectStore('users').clear();
+                data.users.forEach((u: any) => {
+                    const local = byUsername.get(u.username);
+                    tx.objectStore('users').put(local && !u.password && !u.passwordHash ? { ...u, ...credentialsOf(local) } : u);
+                });
+            }
+            if (data.products) {
+                tx.objectStore('products').clear();
+                data.products.forEach((p: any) => tx.objectStore('products').put(toProductRow(normalizeProduct(p))));
+            }
+            if (data.sales) {
+                tx.objectStore('sales').clear();
+                data.sales.forEach((s: Sale) => tx.objectStore('sales').put(toSaleRow(s)));
+            }
+            if (data.customers) {
+                tx.objectStore('customers').clear();
+                data.customers.forEach((c: Customer) => tx.objectStore('customers').put(c));
+            }
+            if (data.shop_details) tx.objectStore('settings').put(data.shop_details, 'shop_details');
+            if (data.counters) {
+                tx.objectStore('counters').clear();
+                data.counters.forEach((c: InvoiceCounter) => tx.objectStore('counters').put(c));
+            }
+            if (data.credit_notes) {
+                tx.objectStore('credit_notes').clear();
+                data.credit_notes.forEach((n: CreditNote) => tx.objectStore('credit_notes').put(n));
+            }
+            if (data.register_sessions) {
+                tx.objectStore('register_sessions').clear();
+                data.register_sessions.forEach((s: RegisterSession) => tx.objectStore('register_sessions').put(s));
+            }
+            if (data.suppliers) {
+                tx.objectStore('suppliers').clear();
+                data.suppliers.forEach((s: Supplier) => tx.objectStore('suppliers').put(s));
+            }
+            if (data.purchase_orders) {
+                tx.objectStore('purchase_orders').clear();
+                data.purchase_orders.forEach((o: PurchaseOrder) => tx.objectStore('purchase_orders').put(o));
+            }
+            if (data.goods_receipts) {
+                tx.objectStore('goods_receipts').clear();
+                data.goods_receipts.forEach((r: GoodsReceipt) => tx.objectStore('goods_receipts').put(r));
+            }
+            if (data.categories) {
+                tx.objectStore('categories').clear();
+                data.categories.forEach((c: Category) => tx.objectStore('categories').put(c));
+            }
+            if (data.stocktakes) {
+                tx.objectStore('stocktakes').clear();
+                data.stocktakes.forEach((st: Stocktake) => tx.objectStore('stocktakes').put(st));
+            }
+            if (data.transfers) {
+                tx.objectStore('transfers').clear();
+                data.transfers.forEach((t: StockTransfer) => tx.objectStore('transfers').put(t));
+            }
+
+            await transactionDone(tx);
+            return true;
+        } catch (e) {
+            console.error("Import failed", e);
+            return false;
+        }
+    }
+}
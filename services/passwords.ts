@@ -0,0 +1,50 @@
+// services/passwords.ts
+// Local Mode sign-in passwords, kept as salted PBKDF2 hashes (WebCrypto) in the users
+// store. The iteration count travels with each hash, so it can be raised later without
+// locking anyone out. Rows from before hashing still hold a plaintext `password`;
+// check_login swaps it for a hash the next time that user signs in.
+
+const SCHEME = 'pbkdf2-sha256';
+const ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const INSECURE_CONTEXT_MESSAGE = "Local sign-in needs a secure page: open the app over https or from localhost, not a plain http network address.";
+
+// Browsers only offer WebCrypto to pages served over https or from localhost
+export const canHashPasswords = (): boolean => !!globalThis.crypto?.subtle;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    if (!canHashPasswords()) throw new Error(INSECURE_CONTEXT_MESSAGE);
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+    return new Uint8Array(bits);
+};
+
+// 'pbkdf2-sha256$600000$<salt>$<hash>', salt and hash in base64
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(password, salt, ITERATIONS);
+    return [SCHEME, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+// Looks at every byte, so the time taken says nothing about how close a guess was
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, iterations, salt, hash] = stored.split('$');
+    if (scheme !== SCHEME || !salt || !hash) return false;
+    return sameBytes(await derive(password, fromBase64(salt), Number(iterations)), fromBase64(hash));
+};
+
+// Hashed with fewer iterations than new passwords get
+export const needsRehash = (stored: string): boolean => Number(stored.split('$')[1]) < ITERATIONS;
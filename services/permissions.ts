@@ -0,0 +1,108 @@
+// services/permissions.ts
+// Roles beyond ADMIN/EMPLOYEE. `Role` still says which kind of account a user is;
+// an employee's `roleId` picks a RoleDefinition, whose permissions decide which admin
+// tabs they see and which writes the database layer accepts. Admins can do everything.
+// The built-in roles can be edited (or new ones added) in ShopDetails.roles.
+
+import { Bill, Permission, Role, RoleDefinition, ShopDetails, User } from "../types";
+import { lineNetAmount } from "./gst";
+
+export const PERMISSIONS: { id: Permission; label: string }[] = [
+    { id: 'pos', label: 'Sell at the counter' },
+    { id: 'returns', label: 'Take returns' },
+    { id: 'analytics', label: 'View analytics and reports' },
+    { id: 'products', label: 'Edit products' },
+    { id: 'prices', label: 'Change prices' },
+    { id: 'customers', label: 'Manage customers' },
+    { id: 'deleteCustomers', label: 'Delete customers' },
+    { id: 'purchasing', label: 'Raise purchase orders' },
+    { id: 'receiveStock', label: 'Receive stock' },
+    { id: 'stock', label: 'Adjust and move stock' },
+    { id: 'employees', label: 'Manage employees and roles' },
+    { id: 'settings', label: 'Change shop settings' }
+];
+
+export const ADMIN_ROLE_ID = 'admin';
+export const CASHIER_ROLE_ID = 'cashier';
+
+const ADMIN_ROLE: RoleDefinition = { id: ADMIN_ROLE_ID, name: 'Administrator', permissions: PERMISSIONS.map(p => p.id) };
+
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+    ADMIN_ROLE,
+    { id: 'manager', name: 'Store Manager', permissions: ['pos', 'returns', 'analytics', 'products', 'customers', 'purchasing', 'receiveStock', 'stock'] },
+    { id: CASHIER_ROLE_ID, name: 'Cashier', permissions: ['pos', 'returns'], maxDiscountPercent: 10 }
+];
+
+// Built-in roles as the shop has edited them, then the shop's own. The admin role can't be narrowed.
+export const roleList = (roles?: RoleDefinition[]): RoleDefinition[] => {
+    const saved = (roles || []).filter(r => r.id !== ADMIN_ROLE_ID);
+    const builtIn = BUILT_IN_ROLES.map(r => r.id === ADMIN_ROLE_ID ? r : saved.find(s => s.id === r.id) || r);
+    return [...builtIn, ...saved.filter(r => !BUILT_IN_ROLES.some(b => b.id === r.id))];
+};
+
+export const isBuiltInRole = (id: string): boolean => BUILT_IN_ROLES.some(r => r.id === id);
+
+export const roleOf = (user: Pick<User, 'role' | 'roleId'>, roles?: RoleDefinition[]): RoleDefinition => {
+    if (user.role === Role.ADMIN) return ADMIN_ROLE;
+    const list = roleList(roles);
+    return list.find(r => r.id === user.roleId && r.id !== ADMIN_ROLE_ID) || list.find(r => r.id === CASHIER_ROLE_ID)!;
+};
+
+export const can = (role: RoleDefinition | null | undefined, permission: Permission): boolean =>
+    !!role?.permissions.includes(permission);
+
+export const permissionLabel = (permission: Permission): string =>
+    PERMISSIONS.find(p => p.id === permission)?.label || permission;
+
+// Admin tab -> what it takes to open it
+export const TAB_PERMISSIONS: Record<string, Permission> = {
+    'analytics': 'analytics',
+    'insights': 'analytics',
+    'gst-returns': 'analytics',
+    'products': 'products',
+    'qr-generator': 'products',
+    'price-variator': 'prices',
+    'employees': 'employees',
+    'customers': 'customers',
+    'purchasing': 'purchasing',
+    'expiry': 'stock',
+    'stocktake': 'stock',
+    'transfers': 'receiveStock',
+    'erp-network': 'settings',
+    'settings': 'settings'
+};
+
+// Whether the role opens any admin tab, i.e. signs in to the dashboard rather than the POS
+export const hasBackOffice = (role: RoleDefinition): boolean =>
+    Object.values(TAB_PERMISSIONS).some(permission => can(role, permission));
+
+// Shop details fields edited outside Shop Settings, and what it takes to change them
+const SHOP_DETAIL_PERMISSIONS: Partial<Record<keyof ShopDetails, Permission>> = {
+    markdownRules: 'prices',
+    roles: 'employees'
+};
+
+export const shopDetailsPermissions = (before: ShopDetails | null, after: ShopDetails): Permission[] => {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after)]) as Set<keyof ShopDetails>;
+    const changed = Array.from(keys).filter(key => JSON.stringify(before?.[key]) !== JSON.stringify(after[key]));
+    return Array.from(new Set(changed.map(key => SHOP_DETAIL_PERMISSIONS[key] || 'settings')));
+};
+
+// Discount given at the counter, as a percentage of the bill at list prices.
+// Markdowns on short-dated stock are the shop's own pricing, so they don't count.
+export const counterDiscountPercent = (bill: Pick<Bill, 'items' | 'discountAmount'>): number => {
+    const gross = bill.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const markdowns = bill.items
+        .filter(item => item.discount?.markdown)
+        .reduce((sum, item) => sum + item.price * item.quantity - lineNetAmount(item), 0);
+    return gross > 0 ? Math.max(0, (bill.discountAmount || 0) - markdowns) / gross * 100 : 0;
+};
+
+// Null when the role may give this bill's discount
+export const discountCapError = (role: RoleDefinition | null | undefined, bill: Pick<Bill, 'items' | 'discountAmount'>): string | null => {
+    const cap = role?.maxDiscountPercent;
+    if (cap === undefined) return null;
+    const given = counterDiscountPercent(bill);
+    // The bill totals are rounded to the paisa, so allow a hair over the cap
+    return given > cap + 0.01 ? `Discount of ${given.toFixed(1)}% is over the ${cap}% allowed for ${role!.name}` : null;
+};
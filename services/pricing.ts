@@ -0,0 +1,81 @@
+// services/pricing.ts
+// Price lists, scheduled price changes and the per-product price history. Retail
+// is the product's own `price`; wholesale and member prices are optional and fall
+// back to retail. A scheduled change becomes the list price on its date, and every
+// change to any list is written to the product's priceHistory.
+
+import { Customer, PriceChange, PriceListId, Product, ScheduledPrice } from "../types";
+import { todayDate } from "./batches";
+
+export const PRICE_LISTS: { id: PriceListId; label: string }[] = [
+    { id: 'retail', label: 'Retail' },
+    { id: 'wholesale', label: 'Wholesale' },
+    { id: 'member', label: 'Member' }
+];
+
+export const priceListLabel = (id: PriceListId): string => PRICE_LISTS.find(l => l.id === id)?.label || id;
+
+// The list a customer buys on: their own choice, else member pricing for members
+export const priceListFor = (customer?: Pick<Customer, 'priceList' | 'isMember'> | null): PriceListId =>
+    customer?.priceList || (customer?.isMember ? 'member' : 'retail');
+
+// The list's own price, or null when it sells at retail
+const ownListPrice = (product: Product, priceList: PriceListId): number | null =>
+    priceList === 'retail' ? product.price : product.listPrices?.[priceList] ?? null;
+
+export const listPrice = (product: Product, priceList: PriceListId): number =>
+    ownListPrice(product, priceList) ?? product.price;
+
+export const withListPrice = (product: Product, priceList: PriceListId, price: number | null): Product => {
+    if (priceList === 'retail') return price === null ? product : { ...product, price };
+    const listPrices = { ...product.listPrices };
+    if (price === null) delete listPrices[priceList];
+    else listPrices[priceList] = price;
+    return { ...product, listPrices: Object.keys(listPrices).length ? listPrices : undefined };
+};
+
+export const createPriceChange = (priceList: PriceListId, previousPrice: number | null, newPrice: number | null, reason: string, userId: string, date = new Date().toISOString()): PriceChange => ({
+    id: `price_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    date,
+    priceList,
+    previousPrice,
+    newPrice,
+    reason,
+    userId
+});
+
+// Appends a history entry for every list whose price differs between before and after.
+// A new product (no before) records its opening retail price.
+export const withPriceHistory = (before: Product | null | undefined, after: Product, reason: string, userId: string): Product => {
+    const changes = PRICE_LISTS
+        .filter(({ id }) => before ? ownListPrice(before, id) !== ownListPrice(after, id) : id === 'retail')
+        .map(({ id }) => createPriceChange(id, before ? ownListPrice(before, id) : null, ownListPrice(after, id), before ? reason : 'Initial Price', userId));
+    return changes.length ? { ...after, priceHistory: [...(after.priceHistory || []), ...changes] } : after;
+};
+
+// Whether any list price or scheduled change differs between two versions of a product
+export const pricesChanged = (before: Product, after: Product): boolean =>
+    PRICE_LISTS.some(({ id }) => ownListPrice(before, id) !== ownListPrice(after, id))
+    || JSON.stringify(before.scheduledPrices || []) !== JSON.stringify(after.scheduledPrices || []);
+
+export const upcomingPrices = (product: Product): ScheduledPrice[] =>
+    [...(product.scheduledPrices || [])].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const hasDuePrices = (product: Product, today = todayDate()): boolean =>
+    (product.scheduledPrices || []).some(s => s.effectiveFrom <= today);
+
+// Makes every scheduled change dated today or earlier the list price, oldest first so
+// the latest one wins, and drops it from the schedule
+export const activateDuePrices = (product: Product, today = todayDate()): Product => {
+    const due = upcomingPrices(product).filter(s => s.effectiveFrom <= today);
+    if (due.length === 0) return product;
+    const activated = due.reduce((current, scheduled) => {
+        const previous = ownListPrice(current, scheduled.priceList);
+        if (previous === scheduled.price) return current;
+        const change = createPriceChange(scheduled.priceList, previous, scheduled.price, `Scheduled (from ${scheduled.effectiveFrom})`, scheduled.userId);
+        const next = withListPrice(current, scheduled.priceList, scheduled.price);
+        return { ...next, priceHistory: [...(next.priceHistory || []), change] };
+    }, product);
+    const remaining = (product.scheduledPrices || []).filter(s => s.effectiveFrom > today);
+    return { ...activated, scheduledPrices: remaining.length ? remaining : undefined };
+};
@@ -0,0 +1,101 @@
+// services/purchasing.ts
+// Purchase order and goods receipt bookkeeping, shared by the local and cloud
+// write paths, plus the supplier payables built from receipts and payments.
+
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, GoodsReceipt, GoodsReceiptLine, Supplier, Batch } from "../types";
+import { round2 } from "./gst";
+
+export const orderTotal = (order: PurchaseOrder): number =>
+    round2(order.lines.reduce((sum, line) => sum + line.quantity * line.costPrice, 0));
+
+export const receiptTotal = (lines: GoodsReceiptLine[]): number =>
+    round2(lines.reduce((sum, line) => sum + line.quantity * line.costPrice, 0));
+
+export const amountPaid = (receipt: GoodsReceipt): number =>
+    round2(receipt.payments.reduce((sum, p) => sum + p.amount, 0));
+
+export const amountOutstanding = (receipt: GoodsReceipt): number =>
+    Math.max(0, round2(receipt.total - amountPaid(receipt)));
+
+export const quantityPending = (order: PurchaseOrder, productId: string): number => {
+    const line = order.lines.find(l => l.productId === productId);
+    return line ? Math.max(0, line.quantity - line.received) : 0;
+};
+
+// Status of an order that has been placed, from how much has arrived
+export const receivingStatus = (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+    if (lines.every(line => line.received >= line.quantity)) return 'RECEIVED';
+    if (lines.some(line => line.received > 0)) return 'PARTIAL';
+    return 'ORDERED';
+};
+
+// Throws if the receipt is against a closed order or brings in more than is still
+// pending on it; returns the order with its received tallies and status updated
+export const orderAfterReceipt = (order: PurchaseOrder, receipt: GoodsReceipt): PurchaseOrder => {
+    if (order.status === 'CANCELLED' || order.status === 'RECEIVED' || order.status === 'DRAFT') {
+        throw new Error(`Purchase order ${order.poNumber || order.id} is ${order.status.toLowerCase()} and can't be received against`);
+    }
+    const lines = order.lines.map(line => ({ ...line }));
+    receipt.lines.forEach(item => {
+        const line = lines.find(l => l.productId === item.productId);
+        if (!line) throw new Error(`${item.name} is not on purchase order ${order.poNumber || order.id}`);
+        if (item.quantity > line.quantity - line.received) {
+            throw new Error(`Cannot receive ${item.quantity} of ${item.name}: only ${line.quantity - line.received} pending`);
+        }
+        line.received += item.quantity;
+    });
+    return { ...order, lines, status: receivingStatus(lines) };
+};
+
+// The lot a receipt line books into stock; lines without an expiry date stay untracked
+export const receivedBatch = (receipt: GoodsReceipt, line: GoodsReceiptLine): Batch | undefined => {
+    if (!line.expiryDate) return undefined;
+    return {
+        id: `batch_${receipt.id}_${line.productId}`,
+        batchNumber: line.batchNumber?.trim() || receipt.grnNumber || receipt.id,
+        mfgDate: line.mfgDate || undefined,
+        expiryDate: line.expiryDate,
+        quantity: line.quantity,
+        costPrice: line.costPrice,
+        receivedAt: receipt.date,
+        reference: receipt.grnNumber
+    };
+};
+
+// YYYY-MM-DD the supplier's bill falls due, from their payment terms
+export const dueDateFor = (supplier: Supplier | undefined, date: string): string | undefined => {
+    if (!supplier?.paymentTermsDays) return undefined;
+    const due = new Date(date);
+    due.setDate(due.getDate() + supplier.paymentTermsDays);
+    return due.toISOString().split('T')[0];
+};
+
+export interface SupplierPayable {
+    supplierId: string;
+    supplierName: string;
+    billed: number;
+    paid: number;
+    outstanding: number;
+    overdue: number;
+    openBills: number;
+}
+
+export const payablesBySupplier = (receipts: GoodsReceipt[], today = new Date().toISOString().split('T')[0]): SupplierPayable[] => {
+    const bySupplier = new Map<string, SupplierPayable>();
+    receipts.forEach(receipt => {
+        const row = bySupplier.get(receipt.supplierId) || {
+            supplierId: receipt.supplierId, supplierName: receipt.supplierName,
+            billed: 0, paid: 0, outstanding: 0, overdue: 0, openBills: 0
+        };
+        const outstanding = amountOutstanding(receipt);
+        row.billed = round2(row.billed + receipt.total);
+        row.paid = round2(row.paid + amountPaid(receipt));
+        row.outstanding = round2(row.outstanding + outstanding);
+        if (outstanding > 0) {
+            row.openBills++;
+            if (receipt.dueDate && receipt.dueDate < today) row.overdue = round2(row.overdue + outstanding);
+        }
+        bySupplier.set(receipt.supplierId, row);
+    });
+    return Array.from(bySupplier.values()).sort((a, b) => b.outstanding - a.outstanding);
+};
@@ -0,0 +1,102 @@
+// services/replenishment.ts
+// Reorder suggestions from recent sales velocity. Velocity is units sold per day the
+// item was actually on the shelf, so a week out of stock doesn't drag the rate down.
+
+import { Product, Sale, PurchaseOrder } from "../types";
+import { quantityPending } from "./purchasing";
+import { todayDate } from "./batches";
+
+const DAY_MS = 86400000;
+
+export interface ReplenishmentOptions {
+    windowDays: number; // Sales history to look back over
+    leadDays: number; // Supplier lead time; sets the reorder level when none is configured
+    coverDays: number; // Stock an order should leave on hand, beyond the reorder level
+}
+
+export const DEFAULT_REPLENISHMENT: ReplenishmentOptions = { windowDays: 30, leadDays: 7, coverDays: 14 };
+
+export interface ReplenishmentLine {
+    product: Product;
+    unitsSold: number;
+    daysInStock: number;
+    dailyVelocity: number;
+    daysOfCover: number | null; // null when the item isn't selling
+    reorderLevel: number;
+    onOrder: number;
+    suggestedQuantity: number;
+}
+
+// Net units sold per product since `from`, after returns
+export const unitsSoldSince = (sales: Sale[], from: string): Map<string, number> => {
+    const totals = new Map<string, number>();
+    sales.filter(sale => sale.date >= from).forEach(sale => {
+        sale.items.forEach((item, line) => {
+            const net = item.quantity - (sale.returnedQuantities?.[line] || 0);
+            totals.set(item.id, (totals.get(item.id) || 0) + net);
+        });
+    });
+    return totals;
+};
+
+// Days since `from` the product had stock, replayed from its stock history
+export const daysInStock = (product: Product, from: string, until = new Date().toISOString()): number => {
+    const history = [...(product.stockHistory || [])].sort((a, b) => a.date.localeCompare(b.date));
+    const before = history.filter(entry => entry.date < from).pop();
+    let level = before ? before.newStock : (history.find(entry => entry.date >= from)?.previousStock ?? product.stock);
+    let cursor = from;
+    let outMs = 0;
+    history.filter(entry => entry.date >= from && entry.date <= until).forEach(entry => {
+        if (level <= 0) outMs += new Date(entry.date).getTime() - new Date(cursor).getTime();
+        level = entry.newStock;
+        cursor = entry.date;
+    });
+    if (level <= 0) outMs += new Date(until).getTime() - new Date(cursor).getTime();
+    const totalMs = new Date(until).getTime() - new Date(from).getTime();
+    return Math.max(1, Math.round((totalMs - outMs) / DAY_MS));
+};
+
+// Units still to arrive on placed orders
+export const onOrderQuantity = (orders: PurchaseOrder[], productId: string): number =>
+    orders.filter(order => order.status === 'ORDERED' || order.status === 'PARTIAL')
+        .reduce((sum, order) => sum + quantityPending(order, productId), 0);
+
+export const replenishmentReport = (
+    products: Product[],
+    sales: Sale[],
+    orders: PurchaseOrder[],
+    options: ReplenishmentOptions = DEFAULT_REPLENISHMENT,
+    today = todayDate()
+): ReplenishmentLine[] => {
+    const until = new Date().toISOString();
+    const from = new Date(new Date(today).getTime() - options.windowDays * DAY_MS).toISOString();
+    const sold = unitsSoldSince(sales, from);
+
+    return products.map(product => {
+        const unitsSold = Math.max(0, sold.get(product.id) || 0);
+        const days = daysInStock(product, from, until);
+        const dailyVelocity = unitsSold / days;
+        const reorderLevel = product.reorderLevel ?? Math.ceil(dailyVelocity * options.leadDays);
+        const onOrder = onOrderQuantity(orders, product.id);
+        const available = product.stock + onOrder;
+
+        let suggestedQuantity = 0;
+        if ((reorderLevel > 0 || dailyVelocity > 0) && available <= reorderLevel) {
+            const toCover = Math.ceil(dailyVelocity * options.coverDays + reorderLevel - available);
+            suggestedQuantity = Math.max(product.reorderQuantity || 0, toCover, 1);
+        }
+
+        return {
+            product,
+            unitsSold,
+            daysInStock: days,
+            dailyVelocity,
+            daysOfCover: dailyVelocity > 0 ? product.stock / dailyVelocity : null,
+            reorderLevel,
+            onOrder,
+            suggestedQuantity
+        };
+    })
+        .filter(line => line.suggestedQuantity > 0)
+        .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+};
@@ -0,0 +1,86 @@
+// services/stocktake.ts
+// Stocktakes (cycle counts). A session freezes the expected quantity of every
+// product in its scope when it starts; counts are then scanned or typed in, and
+// approved variances are posted as 'Stocktake' stock movements in one go. The
+// variance is applied to the stock at posting time, so sales made during the count
+// are kept.
+
+import { Category, Product, Stocktake, StocktakeLine, StocktakeScope } from "../types";
+import { categoryPath, filterByCategory } from "./catalog";
+import { createStockLogEntry } from "./ledger";
+import { trimBatches, withBatches } from "./batches";
+import { roundQuantity, unitOf } from "./units";
+import { round2 } from "./gst";
+
+export const SCOPE_LABELS: Record<StocktakeScope, string> = {
+    all: 'Whole store',
+    category: 'Category',
+    shelf: 'Shelf'
+};
+
+export const shelvesOf = (products: Product[]): string[] =>
+    Array.from(new Set(products.map(p => p.shelf?.trim()).filter((s): s is string => !!s))).sort();
+
+export const productsInScope = (products: Product[], categories: Category[], scope: StocktakeScope, scopeValue?: string): Product[] => {
+    if (scope === 'category') return filterByCategory(products, scopeValue || '', categories);
+    if (scope === 'shelf') return products.filter(p => p.shelf?.trim().toLowerCase() === scopeValue?.trim().toLowerCase());
+    return products;
+};
+
+export const startStocktake = (products: Product[], categories: Category[], scope: StocktakeScope, scopeValue: string | undefined, userId: string): Stocktake => ({
+    id: `st_${Date.now()}`,
+    scope,
+    scopeValue,
+    scopeLabel: scope === 'category' ? categoryPath(scopeValue, categories) : scope === 'shelf' ? `Shelf ${scopeValue}` : SCOPE_LABELS.all,
+    status: 'COUNTING',
+    startedAt: new Date().toISOString(),
+    startedBy: userId,
+    lines: productsInScope(products, categories, scope, scopeValue)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(p => ({ productId: p.id, name: p.name, unit: p.unit, expected: p.stock, unitValue: p.costPrice ?? p.price }))
+});
+
+// 'add' for a scan (one more, or the weight on a scale label), 'set' for a typed count
+export const recordCount = (stocktake: Stocktake, productId: string, quantity: number, mode: 'add' | 'set'): Stocktake => ({
+    ...stocktake,
+    lines: stocktake.lines.map(line => {
+        if (line.productId !== productId) return line;
+        const counted = roundQuantity(mode === 'add' ? (line.counted || 0) + quantity : quantity, unitOf(line));
+        return { ...line, counted, approved: undefined };
+    })
+});
+
+// null until the line has been counted
+export const lineVariance = (line: StocktakeLine): number | null =>
+    line.counted === undefined ? null : roundQuantity(line.counted - line.expected, unitOf(line));
+
+export const varianceValue = (line: StocktakeLine): number => round2((lineVariance(line) || 0) * line.unitValue);
+
+export const stocktakeSummary = (stocktake: Stocktake) => {
+    const counted = stocktake.lines.filter(line => line.counted !== undefined);
+    const variances = counted.filter(line => lineVariance(line) !== 0);
+    const approved = variances.filter(line => line.approved);
+    const sum = (lines: StocktakeLine[]) => round2(lines.reduce((total, line) => total + varianceValue(line), 0));
+    return {
+        counted: counted.length,
+        uncounted: stocktake.lines.length - counted.length,
+        variances: variances.length,
+        approved: approved.length,
+        shortageValue: sum(variances.filter(line => lineVariance(line)! < 0)),
+        surplusValue: sum(variances.filter(line => lineVariance(line)! > 0)),
+        approvedValue: sum(approved)
+    };
+};
+
+// The lines posting will book: counted, approved and actually different
+export const postableLines = (stocktake: Stocktake): StocktakeLine[] =>
+    stocktake.lines.filter(line => line.approved && !!lineVariance(line));
+
+// The product after one stocktake line is booked against its current stock. A shortfall
+// comes out of the batches like a manual correction; stock never goes below zero.
+export const applyStocktakeLine = (product: Product, line: StocktakeLine, userId: string, date: string, reference?: string): Product => {
+    const change = Math.max(lineVariance(line) || 0, -product.stock);
+    const logEntry = createStockLogEntry(product.stock, change, 'Stocktake', userId, date, reference);
+    const updated = { ...product, stock: logEntry.newStock, stockHistory: [...(product.stockHistory || []), logEntry] };
+    return change < 0 && product.batches?.length ? withBatches(updated, trimBatches(product.batches, logEntry.newStock)) : updated;
+};
@@ -0,0 +1,51 @@
+// services/stores.ts
+// Multi-store tenancy (Cloud Mode). Every branch keeps its own catalogue, stock,
+// sales and documents under stores/{storeId}/...; the original single-store data
+// stays in the root collections as the default store, so nothing has to be migrated.
+// Customers (and with them the member wallet) can be shared by all branches.
+
+import { Store, User } from "../types";
+
+const STORE_KEY = 'rg_store_id';
+const TENANCY_KEY = 'rg_tenancy';
+
+export const DEFAULT_STORE_ID = 'main';
+
+export interface TenancySettings {
+    sharedCustomers: boolean; // One customer list and wallet for every branch
+}
+
+const DEFAULT_TENANCY: TenancySettings = { sharedCustomers: false };
+
+// Like the register code, the store belongs to this device/browser
+export const getStoreId = (): string => localStorage.getItem(STORE_KEY) || DEFAULT_STORE_ID;
+
+export const saveStoreId = (storeId: string) => {
+    localStorage.setItem(STORE_KEY, storeId);
+};
+
+// Last known organisation setting, so the collection paths are right before the cloud answers
+export const getCachedTenancy = (): TenancySettings => {
+    try {
+        return { ...DEFAULT_TENANCY, ...JSON.parse(localStorage.getItem(TENANCY_KEY) || '{}') };
+    } catch {
+        return DEFAULT_TENANCY;
+    }
+};
+
+export const cacheTenancy = (settings: TenancySettings) => {
+    localStorage.setItem(TENANCY_KEY, JSON.stringify(settings));
+};
+
+// Collection path of a store's data; the default store lives at the root
+export const storeCollection = (name: string, storeId: string): string =>
+    storeId === DEFAULT_STORE_ID ? name : `stores/${storeId}/${name}`;
+
+// 'MG Road Branch' -> 'mg-road-branch'
+export const storeSlug = (name: string): string =>
+    name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const storeOfUser = (user: Pick<User, 'storeId'>): string => user.storeId || DEFAULT_STORE_ID;
+
+export const storeName = (stores: Store[], storeId: string): string =>
+    stores.find(s => s.id === storeId)?.name || (storeId === DEFAULT_STORE_ID ? 'Main Store' : storeId);
@@ -0,0 +1,194 @@
+// services/syncQueue.ts
+
+import { IndexedDBEngine, OutboxEntry } from "./localDatabase";
+
+// --- Offline-First Outbox (Cloud Mode) ---
+// Writes land in IndexedDB first and are replayed to Firestore in order.
+// Every op is an idempotent set/delete by document id, so replaying an entry
+// that timed out but actually reached the server is harmless.
+
+export type OutboxOp =
+    | 'saveProduct'
+    | 'activatePrices'
+    | 'adjustStock'
+    | 'deleteProduct'
+    | 'addSale'
+    | 'commitSale'
+    | 'commitReturn'
+    | 'saveCustomer'
+    | 'deleteCustomer'
+    | 'saveEmployee'
+    | 'deleteEmployee'
+    | 'saveShopDetails'
+    | 'parkBill'
+    | 'deleteParkedBill'
+    | 'saveRegisterSession'
+    | 'saveSupplier'
+    | 'deleteSupplier'
+    | 'saveCategory'
+    | 'deleteCategory'
+    | 'savePurchaseOrder'
+    | 'commitGoodsReceipt'
+    | 'saveGoodsReceipt'
+    | 'saveStocktake'
+    | 'commitStocktake'
+    | 'commitWriteOff'
+    | 'saveStore'
+    | 'saveTenancy'
+    | 'saveTransfer'
+    | 'dispatchTransfer'
+    | 'receiveTransfer'
+    | 'dismissNumberCollision';
+
+export type SyncHandlers = Record<OutboxOp, (payload: any) => Promise<void>>;
+
+export interface SyncStatus {
+    pending: number;
+    failed: number;
+    error?: string; // The outbox couldn't be read; the counts are the last ones known
+}
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Firestore never rejects an offline write, it just waits, so give up on an attempt after this
+const ATTEMPT_TIMEOUT_MS = 15000;
+const POLL_INTERVAL_MS = 10000;
+// Firestore error codes that will not succeed no matter how often we retry
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument', 'already-exists'];
+
+// Exponential backoff with a little jitter so several counters don't retry in lockstep
+const retryDelay = (attempts: number) => {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    return delay + Math.random() * 1000;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+        value => { clearTimeout(timer); resolve(value); },
+        error => { clearTimeout(timer); reject(error); }
+    );
+});
+
+export class SyncQueue {
+    private store: IndexedDBEngine;
+    private handlers: SyncHandlers;
+    private flushing = false;
+    private listeners = new Set<(status: SyncStatus) => void>();
+    private lastStatus: SyncStatus = { pending: 0, failed: 0 };
+
+    constructor(store: IndexedDBEngine, handlers: SyncHandlers) {
+        this.store = store;
+        this.handlers = handlers;
+    }
+
+    // Replay whenever the browser comes back online, and poll for entries whose backoff has expired
+    start() {
+        window.addEventListener('online', () => this.flush());
+        setInterval(() => this.flush(), POLL_INTERVAL_MS);
+        this.flush();
+    }
+
+    async enqueue(op: OutboxOp, payload: any): Promise<void> {
+        await this.store.add_outbox_entry({
+            op,
+            payload,
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            createdAt: new Date().toISOString(),
+            status: 'pending'
+        });
+        this.notify();
+        this.flush();
+    }
+
+    // Writes that have not reached the cloud yet, oldest first (used to overlay cloud reads)
+    async pendingEntries(ops: OutboxOp[]): Promise<OutboxEntry[]> {
+        const entries = await this.store.get_outbox_entries();
+        return entries.filter(e => e.status === 'pending' && ops.includes(e.op as OutboxOp));
+    }
+
+    // Puts parked entries back in line, e.g. once a missing permission has been granted
+    async retryFailed(): Promise<void> {
+        const entries = await this.store.get_outbox_entries();
+        for (const entry of entries.filter(e => e.status === 'failed')) {
+            await this.store.update_outbox_entry({ ...entry, status: 'pending', nextAttemptAt: Date.now() });
+        }
+        this.notify();
+        this.flush();
+    }
+
+    async flush(): Promise<void> {
+        if (this.flushing || !navigator.onLine) return;
+        this.flushing = true;
+
+        try {
+            const entries = await this.store.get_outbox_entries();
+            for (const entry of entries) {
+                if (entry.status === 'failed') continue;
+                // Stop at the first entry still backing off so writes reach the cloud in order
+                if (entry.nextAttemptAt > Date.now()) break;
+
+                const succeeded = await this.replay(entry);
+                if (!succeeded) break;
+            }
+        } catch (error) {
+            console.error("Outbox flush error:", error);
+        } finally {
+            this.flushing = false;
+            this.notify();
+        }
+    }
+
+    // Returns false when the queue should stop and wait for the next retry
+    private async replay(entry: OutboxEntry): Promise<boolean> {
+        try {
+            await withTimeout(this.handlers[entry.op as OutboxOp](entry.payload), ATTEMPT_TIMEOUT_MS);
+            await this.store.delete_outbox_entry(entry.id!);
+            return true;
+        } catch (error: any) {
+            const attempts = entry.attempts + 1;
+            const isPermanent = PERMANENT_ERROR_CODES.includes(error?.code);
+            console.warn(`Sync of ${entry.op} failed (attempt ${attempts})`, error);
+
+            await this.store.update_outbox_entry({
+                ...entry,
+                attempts,
+                status: isPermanent ? 'failed' : 'pending',
+                nextAttemptAt: Date.now() + retryDelay(attempts),
+                lastError: error?.message || String(error)
+            });
+            // A permanently rejected write is parked so it doesn't block everything behind it
+            return isPermanent;
+        }
+    }
+
+    subscribe(listener: (status: SyncStatus) => void): () => void {
+        this.listeners.add(listener);
+        this.currentStatus().then(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    async getStatus(): Promise<SyncStatus> {
+        const entries = await this.store.get_outbox_entries();
+        const failed = entries.filter(e => e.status === 'failed').length;
+        return { pending: entries.length - failed, failed };
+    }
+
+    // Never rejects: listeners hear about an unreadable outbox as a degraded status instead
+    private async currentStatus(): Promise<SyncStatus> {
+        try {
+            this.lastStatus = await this.getStatus();
+            return this.lastStatus;
+        } catch (error: any) {
+            console.error("Outbox status error:", error);
+            return { ...this.lastStatus, error: error?.message || String(error) };
+        }
+    }
+
+    private async notify() {
+        if (this.listeners.size === 0) return;
+        const status = await this.currentStatus();
+        this.listeners.forEach(listener => listener(status));
+    }
+}
@@ -0,0 +1,69 @@
+// services/tender.ts
+// Split-tender arithmetic for the payment screen and for reports that need to
+// know how much of each sale came in as cash, UPI, card or wallet.
+
+import { PaymentLine, PaymentMethod, Sale, Tender } from "../types";
+import { round2 } from "./gst";
+
+export const TENDER_LABELS: Record<Tender, string> = {
+    CASH: 'Cash',
+    UPI: 'UPI',
+    CARD: 'Card',
+    NET_BANKING: 'Bank',
+    WALLET: 'Wallet'
+};
+
+export interface TenderSummary {
+    paid: number; // Applied to the bill
+    remaining: number;
+    changeDue: number;
+    walletRedeemed: number;
+}
+
+export const summarizeTender = (total: number, payments: PaymentLine[]): TenderSummary => {
+    const paid = round2(payments.reduce((sum, line) => sum + line.amount, 0));
+    return {
+        paid,
+        remaining: Math.max(0, round2(total - paid)),
+        changeDue: round2(payments.reduce((sum, line) => sum + Math.max(0, (line.tendered ?? line.amount) - line.amount), 0)),
+        walletRedeemed: round2(payments.filter(line => line.method === 'WALLET').reduce((sum, line) => sum + line.amount, 0))
+    };
+};
+
+// Adds a line against what is still owed. Only cash may be over-tendered; the
+// excess becomes change. Repeat tenders of the same kind are merged.
+export const addPaymentLine = (payments: PaymentLine[], total: number, method: Tender, offered: number, reference?: string): PaymentLine[] => {
+    const { remaining } = summarizeTender(total, payments);
+    const amount = round2(Math.min(offered, remaining));
+    if (amount <= 0) return payments;
+
+    const tendered = method === 'CASH' && offered > amount ? round2(offered) : undefined;
+    const existing = payments.find(line => line.method === method && !line.reference && !reference);
+    if (existing) {
+        return payments.map(line => line === existing
+            ? { ...line, amount: round2(line.amount + amount), tendered: tendered !== undefined ? round2((line.tendered ?? line.amount) + tendered) : line.tendered }
+            : line);
+    }
+    return [...payments, { method, amount, tendered, reference: reference?.trim() || undefined }];
+};
+
+// Collapses the breakdown into the single method older screens and reports expect
+export const paymentMethodFor = (payments: PaymentLine[]): PaymentMethod => {
+    const external = payments.filter(line => line.method !== 'WALLET' && line.amount > 0);
+    if (external.length > 1) return 'SPLIT';
+    const method = external[0]?.method;
+    // Paid entirely from the wallet: nothing changed hands at the counter
+    return method && method !== 'WALLET' ? method : 'CASH';
+};
+
+// Payment breakdown of any sale, including ones saved before split tender existed
+export const paymentsOf = (sale: Pick<Sale, 'total' | 'paymentMethod' | 'payments' | 'walletRedeemed'>): PaymentLine[] => {
+    if (sale.payments?.length) return sale.payments;
+    const walletRedeemed = sale.walletRedeemed || 0;
+    const lines: PaymentLine[] = [];
+    if (walletRedeemed > 0) lines.push({ method: 'WALLET', amount: walletRedeemed });
+    const rest = round2(sale.total - walletRedeemed);
+    const method = sale.paymentMethod && sale.paymentMethod !== 'SPLIT' ? sale.paymentMethod : 'CASH';
+    if (rest > 0) lines.push({ method, amount: rest });
+    return lines;
+};
@@ -0,0 +1,106 @@
+// services/transfers.ts
+// Stock locations and transfers. A product's `stock` is everything the store holds;
+// `locationStock` records what sits in godowns and the shop floor has the rest, so
+// receipts, stocktakes and manual edits keep landing on the floor as before.
+// A transfer takes stock out of its source on dispatch ('Transfer Out') and puts it
+// into its destination on receipt ('Transfer In'); in between it is in transit.
+
+import { Product, ShopDetails, StockLocation, StockTransfer, TransferLine } from "../types";
+import { createStockLogEntry } from "./ledger";
+import { drawFefo, receiveBatch, withBatches } from "./batches";
+import { roundQuantity, unitOf } from "./units";
+
+const COUNTER_LOCATION_KEY = 'rg_counter_location';
+
+export const FLOOR_LOCATION = 'floor';
+
+export const stockLocations = (shopDetails?: Pick<ShopDetails, 'stockLocations'> | null): StockLocation[] =>
+    [{ id: FLOOR_LOCATION, name: 'Shop Floor' }, ...(shopDetails?.stockLocations || [])];
+
+export const locationName = (locations: StockLocation[], id?: string): string =>
+    locations.find(l => l.id === (id || FLOOR_LOCATION))?.name || id || '';
+
+// Like the register code, the location a counter sells from belongs to the device
+export const getCounterLocation = (): string => localStorage.getItem(COUNTER_LOCATION_KEY) || FLOOR_LOCATION;
+
+export const saveCounterLocation = (location: string) => {
+    localStorage.setItem(COUNTER_LOCATION_KEY, location);
+};
+
+const awayFromFloor = (product: Product): number =>
+    Object.values(product.locationStock || {}).reduce((sum, quantity) => sum + quantity, 0);
+
+export const locationQuantity = (product: Product, location = FLOOR_LOCATION): number =>
+    location === FLOOR_LOCATION
+        ? Math.max(0, roundQuantity(product.stock - awayFromFloor(product), unitOf(product)))
+        : product.locationStock?.[location] || 0;
+
+// Books a change against one location. The floor needs nothing: it is the remainder.
+export const withLocationChange = (product: Product, location: string | undefined, change: number): Product => {
+    if (!location || location === FLOOR_LOCATION || !change) return product;
+    const quantity = Math.max(0, roundQuantity((product.locationStock?.[location] || 0) + change, unitOf(product)));
+    const locationStock = { ...product.locationStock };
+    if (quantity > 0) locationStock[location] = quantity;
+    else delete locationStock[location];
+    return { ...product, locationStock: Object.keys(locationStock).length ? locationStock : undefined };
+};
+
+export const createTransfer = (fromStoreId: string, fromLocation: string, toStoreId: string, toLocation: string | undefined, userId: string): StockTransfer => ({
+    id: `tr_${Date.now()}`,
+    status: 'DRAFT',
+    fromStoreId,
+    fromLocation,
+    toStoreId,
+    toLocation,
+    lines: [],
+    createdAt: new Date().toISOString(),
+    createdBy: userId
+});
+
+export const isInterStore = (transfer: Pick<StockTransfer, 'fromStoreId' | 'toStoreId'>): boolean =>
+    transfer.fromStoreId !== transfer.toStoreId;
+
+// Sets a product's quantity on a draft; zero takes the line off
+export const withTransferLine = (transfer: StockTransfer, product: Product, quantity: number): StockTransfer => {
+    const rounded = roundQuantity(quantity, unitOf(product));
+    const others = transfer.lines.filter(line => line.productId !== product.id);
+    if (!(rounded > 0)) return { ...transfer, lines: others };
+    const line: TransferLine = { productId: product.id, name: product.name, unit: product.unit, quantity: rounded };
+    const index = transfer.lines.findIndex(l => l.productId === product.id);
+    return { ...transfer, lines: index === -1 ? [...transfer.lines, line] : transfer.lines.map((l, i) => i === index ? line : l) };
+};
+
+// Throws when a line needs more than the source location holds
+export const assertTransferable = (product: Product, line: TransferLine, location: string): void => {
+    const available = locationQuantity(product, location);
+    if (line.quantity > available) {
+        throw new Error(`Cannot send ${line.quantity} of ${product.name}: only ${available} at the source location`);
+    }
+};
+
+// One line out of the source, earliest-expiring lots first. The lots drawn travel on
+// the line so the destination can put them back on its books.
+export const dispatchLine = (product: Product, line: TransferLine, transfer: StockTransfer, userId: string): { product: Product; line: TransferLine } => {
+    const date = transfer.dispatchedAt!;
+    const logEntry = createStockLogEntry(product.stock, -line.quantity, 'Transfer Out', userId, date, transfer.transferNumber);
+    const updated = withLocationChange({ ...product, stock: logEntry.newStock, stockHistory: [...(product.stockHistory || []), logEntry] }, transfer.fromLocation, -line.quantity);
+    if (!product.batches?.length) return { product: updated, line };
+    const drawn = drawFefo(product.batches, line.quantity, date.split('T')[0]);
+    return { product: withBatches(updated, drawn.batches), line: drawn.allocations.length ? { ...line, allocations: drawn.allocations } : line };
+};
+
+// One line into the destination; the paired entry to dispatchLine's 'Transfer Out'
+export const receiveLine = (product: Product, line: TransferLine, transfer: StockTransfer, userId: string): Product => {
+    const logEntry = createStockLogEntry(product.stock, line.quantity, 'Transfer In', userId, transfer.receivedAt!, transfer.transferNumber);
+    const updated = withLocationChange({ ...product, stock: logEntry.newStock, stockHistory: [...(product.stockHistory || []), logEntry] }, transfer.toLocation, line.quantity);
+    if (!line.allocations?.length) return updated;
+    const batches = line.allocations.reduce((current, allocation, i) => receiveBatch(current, {
+        id: `batch_${transfer.id}_${line.productId}_${i}`,
+        batchNumber: allocation.batchNumber,
+        expiryDate: allocation.expiryDate,
+        quantity: allocation.quantity,
+        receivedAt: transfer.receivedAt,
+        reference: transfer.transferNumber
+    }), product.batches || []);
+    return withBatches(updated, batches);
+};
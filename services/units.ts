@@ -0,0 +1,40 @@
+// services/units.ts
+// Units of measure for loose goods. Quantities of weighed items are kept to the gram
+// (three decimals of a kg or litre); counted items stay whole.
+
+import { Product, UnitOfMeasure } from "../types";
+
+export const UNITS: UnitOfMeasure[] = ['pcs', 'kg', 'g', 'L'];
+
+export const UNIT_LABELS: Record<UnitOfMeasure, string> = {
+    pcs: 'Pieces',
+    kg: 'Kilogram',
+    g: 'Gram',
+    L: 'Litre'
+};
+
+// Unit quantity codes the GST portal expects in the HSN summary
+export const GST_UQC: Record<UnitOfMeasure, string> = {
+    pcs: 'NOS',
+    kg: 'KGS',
+    g: 'GMS',
+    L: 'LTR'
+};
+
+export const unitOf = (product: Pick<Product, 'unit'>): UnitOfMeasure => product.unit || 'pcs';
+
+// Sold by weight or volume, so the quantity is entered rather than counted
+export const isWeighed = (product: Pick<Product, 'unit'>): boolean => unitOf(product) !== 'pcs';
+
+export const roundQuantity = (quantity: number, unit: UnitOfMeasure = 'kg'): number =>
+    unit === 'pcs' || unit === 'g' ? Math.round(quantity) : Math.round(quantity * 1000) / 1000;
+
+export const formatQuantity = (quantity: number, unit: UnitOfMeasure = 'pcs'): string => {
+    if (unit === 'pcs') return String(quantity);
+    if (unit === 'g') return `${Math.round(quantity)} g`;
+    return `${quantity.toFixed(3)} ${unit}`;
+};
+
+// A scale reading in grams (millilitres for L) in the product's own unit; counted items carry a count
+export const fromBaseMeasure = (value: number, unit: UnitOfMeasure): number =>
+    unit === 'g' || unit === 'pcs' ? value : roundQuantity(value / 1000, unit);
@@ -0,0 +1,38 @@
+// services/wedgeScanner.ts
+// Keyboard-wedge (USB/Bluetooth HID) scanners "type" a code far faster than any
+// person, so a scan is told apart from typing by the gap between keystrokes.
+// Scanners are set up per counter, so the settings belong to this device.
+
+const SCANNER_KEY = 'rg_scanner_settings';
+
+export interface ScannerSettings {
+    enabled: boolean;
+    minLength: number; // Shorter bursts are treated as typing
+    maxKeyGapMs: number; // Slowest keystroke gap still counted as the scanner
+    prefix: string; // Characters the scanner sends before every code
+    suffix: string; // Characters it sends after, when it doesn't end with Enter
+}
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = { enabled: true, minLength: 4, maxKeyGapMs: 35, prefix: '', suffix: '' };
+
+export const getScannerSettings = (): ScannerSettings => {
+    try {
+        const stored = localStorage.getItem(SCANNER_KEY);
+        return stored ? { ...DEFAULT_SCANNER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SCANNER_SETTINGS;
+    } catch (e) {
+        console.error("Scanner settings are corrupt, using defaults", e);
+        return DEFAULT_SCANNER_SETTINGS;
+    }
+};
+
+export const saveScannerSettings = (settings: ScannerSettings) => {
+    localStorage.setItem(SCANNER_KEY, JSON.stringify(settings));
+};
+
+// The code inside a burst, without the configured prefix and suffix
+export const stripAffixes = (raw: string, settings: Pick<ScannerSettings, 'prefix' | 'suffix'>): string => {
+    let code = raw;
+    if (settings.prefix && code.startsWith(settings.prefix)) code = code.slice(settings.prefix.length);
+    if (settings.suffix && code.endsWith(settings.suffix)) code = code.slice(0, -settings.suffix.length);
+    return code.trim();
+};
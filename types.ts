@@ -11,6 +11,18 @@ export interface User {
   username: string;
   password?: string; // Optional: In Cloud mode, we rely on Auth provider, not storing it locally/in-doc
   role: Role;
+  storeId?: string; // Cloud Mode: the branch this employee works at (see services/stores.ts)
+  roleId?: string; // Employees: a RoleDefinition id (see services/permissions.ts); cashier when unset
+}
+
+// What a role may do. Checked by the admin tabs and again by the database layer.
+export type Permission = 'pos' | 'returns' | 'analytics' | 'products' | 'prices' | 'customers' | 'deleteCustomers' | 'purchasing' | 'receiveStock' | 'stock' | 'employees' | 'settings';
+
+export interface RoleDefinition {
+  id: string;
+  name: string;
+  permissions: Permission[];
+  maxDiscountPercent?: number; // Cap on discounts given at the counter; no cap when unset
 }
 
 export interface StockLogEntry {
@@ -21,16 +33,93 @@ export interface StockLogEntry {
   newStock: number;
   reason: string; // e.g., "Restock", "Sale", "Correction", "Manual Update"
   userId: string; // ID of the user who made the change
+  reference?: string; // Document behind the movement, e.g. a GRN number
+}
+
+export type PriceListId = 'retail' | 'wholesale' | 'member';
+
+// One change to one of a product's list prices. null = the list had no price of its
+// own and sold at retail.
+export interface PriceChange {
+  id: string;
+  date: string; // ISO string
+  priceList: PriceListId;
+  previousPrice: number | null;
+  newPrice: number | null;
+  reason: string; // e.g. "Manual Update", "Scheduled", "Import"
+  userId: string;
+}
+
+export interface ScheduledPrice {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  priceList: PriceListId;
+  price: number;
+  userId: string; // Who scheduled it; the activation is booked to them
+}
+
+// One lot of a product on the shelf. Stock beyond the batches' total is untracked
+// stock from before batches were recorded.
+export interface Batch {
+  id: string;
+  batchNumber: string;
+  mfgDate?: string; // YYYY-MM-DD
+  expiryDate: string; // YYYY-MM-DD
+  quantity: number;
+  costPrice?: number;
+  receivedAt?: string; // ISO string
+  reference?: string; // GRN the lot came in on
+}
+
+// Units of a sale line taken from one batch
+export interface BatchAllocation {
+  batchId: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+// How a product is counted and priced: per piece, or per kg / g / litre for loose goods
+export type UnitOfMeasure = 'pcs' | 'kg' | 'g' | 'L';
+
+// A node of the catalog tree; top-level categories have no parent
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string;
+}
+
+export interface ProductVariant {
+  size?: string; // e.g. '1L', '500g'
+  flavour?: string;
 }
 
 export interface Product {
   id: string;
   name: string;
   brand: string;
-  price: number;
-  expireDate: string; // YYYY-MM-DD
+  price: number; // Per unit of measure, e.g. per kg for loose dal
+  unit?: UnitOfMeasure; // Defaults to 'pcs'
+  pluCode?: string; // 5-digit item code the weighing scale prints into its barcodes
+  barcodes?: string[]; // EAN-13, EAN-8, UPC-A or internal codes; the first is printed on labels
+  categoryId?: string;
+  parentId?: string; // Set on a variant: the product it is a size or flavour of
+  variant?: ProductVariant;
+  expireDate: string; // YYYY-MM-DD; earliest batch expiry once batches are tracked
   stock: number;
   stockHistory?: StockLogEntry[];
+  hsnCode?: string;
+  gstRate?: number; // Percentage slab (0/5/12/18/28); falls back to ShopDetails.defaultGstRate
+  costPrice?: number; // Unit cost on the latest goods receipt
+  batches?: Batch[];
+  reorderLevel?: number; // Reorder when stock plus open orders falls to this
+  reorderQuantity?: number; // Minimum to order each time
+  preferredSupplierId?: string;
+  shelf?: string; // Aisle/shelf code, e.g. 'A3'; stocktakes can be scoped to one
+  locationStock?: Record<string, number>; // Units held away from the shop floor, by location id; the floor has the rest of `stock`
+  listPrices?: Partial<Record<PriceListId, number>>; // Own wholesale/member prices; the retail list is `price`
+  scheduledPrices?: ScheduledPrice[]; // Future price changes, applied on their date
+  priceHistory?: PriceChange[];
 }
 
 export interface Customer {
@@ -43,28 +132,324 @@ export interface Customer {
   isMember: boolean; // Membership status
   photo?: string; // Base64 string of the customer's face
   faceAttributes?: string; // AI description (e.g., "Male, approx 30s, glasses")
+  gstin?: string; // Registered business buyer; their invoices are reported as B2B
+  priceList?: PriceListId; // Defaults to member for members, retail otherwise
 }
 
 export interface BillItem extends Product {
-  quantity: number;
+  quantity: number; // In the product's unit, so 0.75 for 750 g of a per-kg item
   discount?: {
     type: 'percentage' | 'fixed';
     value: number;
+    markdown?: boolean; // Set by a markdown rule rather than given at the counter
   };
+  // Filled in by the GST engine (services/gst.ts) and persisted with the sale
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+  // Batches the units were drawn from (FEFO), filled in when the sale is committed
+  allocations?: BatchAllocation[];
+  saleLine?: number; // On a credit note, the index of the sale line being returned
+}
+
+// How a sale was settled. A bill paid in more than one way is recorded as 'SPLIT'.
+export type PaymentMethod = 'CASH' | 'UPI' | 'CARD' | 'NET_BANKING' | 'SPLIT';
+
+export type Tender = 'CASH' | 'UPI' | 'CARD' | 'NET_BANKING' | 'WALLET';
+
+// One line of a (possibly split) payment
+export interface PaymentLine {
+  method: Tender;
+  amount: number; // Applied to the bill
+  tendered?: number; // Cash handed over, when more than the amount applied
+  reference?: string; // UPI / card transaction reference
 }
 
 export interface Sale {
   id: string;
+  invoiceNumber?: string; // e.g. RG01/2026-27/000123, sequential per register and financial year
   date: string; // ISO string
   items: BillItem[];
   total: number;
   employeeId: string;
   customerName?: string;
   customerMobile?: string;
-  paymentMethod?: 'CASH' | 'UPI' | 'NET_BANKING';
+  customerGstin?: string;
+  paymentMethod?: PaymentMethod;
+  payments?: PaymentLine[]; // Tender breakdown; older sales only carry paymentMethod
+  changeDue?: number; // Cash returned to the customer
+  discountAmount?: number; // Line and bill discounts given, in rupees
   taxAmount?: number;
+  placeOfSupply?: string; // GST state code, when different from the shop's own state
   walletRedeemed?: number; // Amount paid via wallet
   walletEarned?: number; // 5% cashback earned
+  returnedQuantities?: Record<number, number>; // Sale line index -> units already taken back on credit notes
+  location?: string; // Stock location the counter sold from; the shop floor when unset
+}
+
+// A return against a past sale. Stock goes back on the shelf and the money goes
+// back in cash or to the customer's wallet.
+export interface CreditNote {
+  id: string;
+  creditNoteNumber?: string; // e.g. RG01CN/2026-27/000004, issued when the return is committed
+  saleId: string;
+  invoiceNumber?: string; // The invoice being credited
+  date: string; // ISO string
+  items: BillItem[]; // Returned quantities; value and tax prorated from the original lines
+  total: number; // Amount refunded
+  taxAmount: number;
+  refundMethod: 'CASH' | 'WALLET';
+  reason?: string;
+  customerName?: string;
+  customerMobile?: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  employeeId: string;
+}
+
+export interface ReturnCommitResult {
+  creditNote: CreditNote;
+  sale: Sale;
+  products: Product[];
+  customer: Customer | null;
+}
+
+// What database.commitSale changed, so the UI can update without reloading
+export interface SaleCommitResult {
+  sale: Sale;
+  products: Product[]; // Products whose stock was decremented
+  customer: Customer | null; // Member whose wallet was adjusted
+}
+
+// A bill put on hold at the counter, to be resumed later (on any counter in Cloud Mode)
+export interface ParkedBill {
+  id: string;
+  label: string;
+  bill: Bill;
+  parkedAt: string; // ISO string
+  parkedBy: string; // User id
+  register: string; // Register code of the counter that parked it
+}
+
+// Petty cash put into or paid out of the drawer during a shift
+export interface CashMovement {
+  id: string;
+  type: 'IN' | 'OUT';
+  amount: number;
+  reason: string;
+  date: string; // ISO string
+}
+
+// End-of-shift totals, frozen when the session is closed
+export interface ZReport {
+  salesCount: number;
+  grossSales: number;
+  byTender: Record<Tender, number>;
+  discounts: number;
+  returnsCount: number;
+  cashRefunds: number;
+  walletRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number; // Float + cash sales - cash refunds + cash in - cash out
+  countedCash: number;
+  variance: number; // Counted minus expected; negative means the drawer is short
+}
+
+// One employee's shift at a register, from the opening float to the counted close
+export interface RegisterSession {
+  id: string;
+  userId: string;
+  register: string;
+  status: 'OPEN' | 'CLOSED';
+  openedAt: string; // ISO string
+  openingFloat: number;
+  movements: CashMovement[];
+  closedAt?: string;
+  zReport?: ZReport;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact?: string;
+  gstin?: string;
+  address?: string;
+  paymentTermsDays?: number; // Bills fall due this many days after receipt
+}
+
+export interface PurchaseOrderLine {
+  productId: string;
+  name: string;
+  quantity: number; // Ordered
+  costPrice: number; // Agreed unit cost
+  received: number; // Running total across goods receipts
+}
+
+// DRAFT → ORDERED → PARTIAL → RECEIVED; CANCELLED closes an order that won't be filled
+export type PurchaseOrderStatus = 'DRAFT' | 'ORDERED' | 'PARTIAL' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber?: string; // e.g. RG01PO/2026-27/000007, issued when the order is first saved
+  supplierId: string;
+  supplierName: string;
+  date: string; // ISO string
+  expectedDate?: string; // YYYY-MM-DD
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  notes?: string;
+  createdBy: string;
+}
+
+export interface GoodsReceiptLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  costPrice: number; // Unit cost actually billed, may differ from the PO
+  batchNumber?: string;
+  mfgDate?: string; // YYYY-MM-DD
+  expiryDate?: string; // YYYY-MM-DD; when set the quantity is booked as a batch
+}
+
+export interface SupplierPayment {
+  id: string;
+  date: string; // ISO string
+  amount: number;
+  method: 'CASH' | 'UPI' | 'BANK' | 'CHEQUE';
+  reference?: string;
+}
+
+// A delivery against a purchase order. Its value is what the shop owes the supplier
+// (the supplier's bill), settled by one or more payments.
+export interface GoodsReceipt {
+  id: string;
+  grnNumber?: string; // e.g. RG01GRN/2026-27/000012, issued when the receipt is committed
+  poId: string;
+  poNumber?: string;
+  supplierId: string;
+  supplierName: string;
+  date: string; // ISO string
+  supplierInvoiceNumber?: string;
+  lines: GoodsReceiptLine[];
+  total: number;
+  dueDate?: string; // YYYY-MM-DD
+  payments: SupplierPayment[];
+  receivedBy: string;
+}
+
+export interface GoodsReceiptCommitResult {
+  receipt: GoodsReceipt;
+  order: PurchaseOrder;
+  products: Product[];
+}
+
+// One product in a stocktake. expected is frozen when the count starts, so sales made
+// while counting don't move the target; posting books counted − expected.
+export interface StocktakeLine {
+  productId: string;
+  name: string;
+  unit?: UnitOfMeasure;
+  expected: number;
+  counted?: number; // Absent until the product has been counted
+  unitValue: number; // Cost price, or selling price when no cost is known
+  approved?: boolean; // Only approved variances are posted
+}
+
+export type StocktakeScope = 'all' | 'category' | 'shelf';
+
+export interface Stocktake {
+  id: string;
+  stocktakeNumber?: string; // e.g. RG01ST/2026-27/000004, issued when posted
+  scope: StocktakeScope;
+  scopeValue?: string; // Category id or shelf code
+  scopeLabel: string;
+  status: 'COUNTING' | 'POSTED' | 'CANCELLED';
+  startedAt: string; // ISO string
+  startedBy: string;
+  postedAt?: string;
+  postedBy?: string;
+  lines: StocktakeLine[];
+}
+
+export interface StocktakeCommitResult {
+  stocktake: Stocktake;
+  products: Product[];
+}
+
+// A place a store keeps stock away from the shop floor, e.g. a godown
+export interface StockLocation {
+  id: string;
+  name: string;
+}
+
+export interface TransferLine {
+  productId: string;
+  name: string;
+  unit?: UnitOfMeasure;
+  quantity: number;
+  allocations?: BatchAllocation[]; // Lots that went out on dispatch, recreated on receipt
+}
+
+export type TransferStatus = 'DRAFT' | 'IN_TRANSIT' | 'RECEIVED' | 'CANCELLED';
+
+// Stock moved between locations of a store or between branches. Dispatch takes it out
+// of the source ('Transfer Out'), receipt puts it into the destination ('Transfer In').
+export interface StockTransfer {
+  id: string;
+  transferNumber?: string; // e.g. RG01TR/2026-27/000007, issued on dispatch
+  status: TransferStatus;
+  fromStoreId: string;
+  fromLocation: string;
+  toStoreId: string;
+  toLocation?: string; // Chosen by the receiving branch when it isn't known at dispatch
+  lines: TransferLine[];
+  note?: string;
+  createdAt: string;
+  createdBy: string;
+  dispatchedAt?: string;
+  dispatchedBy?: string;
+  receivedAt?: string;
+  receivedBy?: string;
+}
+
+export interface TransferCommitResult {
+  transfer: StockTransfer;
+  products: Product[];
+}
+
+// "percent% off when maxDaysToExpiry days or fewer are left"
+export interface MarkdownRule {
+  id: string;
+  maxDaysToExpiry: number;
+  percent: number;
+}
+
+// A branch in Cloud Mode; the default store has id 'main'
+export interface Store {
+  id: string;
+  name: string;
+  address?: string;
+}
+
+// A document saved to the cloud with a number another device had already issued on the
+// same series (two counters sharing a register code). The document is kept; an admin reviews it.
+export interface NumberCollision {
+  id: string;
+  number: string; // e.g. RG01/2026-27/000123
+  collection: string; // Where the document lives: sales, credit_notes, purchase_orders, ...
+  documentId: string;
+  lastIssued: number; // The series counter when the document arrived
+  detectedAt: string; // ISO string
+}
+
+// One branch's figures for consolidated analytics
+export interface BranchSales {
+  store: Store;
+  sales: Sale[];
+  creditNotes: CreditNote[];
+  error?: string; // The branch couldn't be read; sales and creditNotes are empty
 }
 
 export interface ShopDetails {
@@ -75,6 +460,11 @@ export interface ShopDetails {
   upiId?: string; // VPA for QR generation
   gstNumber?: string;
   defaultGstRate?: number; // Percentage
+  pricesIncludeGst?: boolean; // Selling prices already include GST
+  invoicePrefix?: string; // Start of every invoice series, defaults to 'RG'
+  markdownRules?: MarkdownRule[]; // Automatic discounts on stock close to expiry
+  stockLocations?: StockLocation[]; // Godowns and back rooms; the shop floor is always there
+  roles?: RoleDefinition[]; // Edited and added roles; the built-in ones fill in the rest
   bankDetails?: {
     accountName: string;
     accountNumber: string;
@@ -84,13 +474,22 @@ export interface ShopDetails {
 }
 
 export interface Bill {
+  invoiceNumber?: string; // Set once the sale is committed
   customerName: string;
   customerMobile: string;
+  customerGstin?: string;
+  priceList?: PriceListId; // Lines are priced from this list; defaults to retail
   items: BillItem[];
   subtotal: number;
   taxAmount: number;
   total: number;
-  paymentMethod?: 'CASH' | 'UPI' | 'NET_BANKING';
+  placeOfSupply?: string;
+  paymentMethod?: PaymentMethod;
+  payments?: PaymentLine[];
+  changeDue?: number;
+  discountAmount?: number;
+  walletRedeemed?: number;
+  walletEarned?: number;
   billDiscount?: {
     type: 'percentage' | 'fixed';
     value: number;
@@ -99,12 +498,17 @@ export interface Bill {
 
 export interface AppContextType {
   currentUser: User | null;
+  role: RoleDefinition | null; // What the signed-in user may do
   setCurrentUser: (user: User | null) => void;
   logout: () => void;
   products: Product[];
   setProducts: Dispatch<SetStateAction<Product[]>>;
+  categories: Category[];
+  setCategories: Dispatch<SetStateAction<Category[]>>;
   sales: Sale[];
-  addSale: (bill: Bill) => void;
+  addSale: (bill: Bill) => Promise<SaleCommitResult | null>;
+  creditNotes: CreditNote[];
+  processReturn: (creditNote: CreditNote) => Promise<ReturnCommitResult | null>;
   shopDetails: ShopDetails;
   updateShopDetails: (details: ShopDetails) => void;
   employees: User[];